@@ -1,8 +1,14 @@
 const nextConfig = {
   output: 'export',
   images: { unoptimized: true },
+  // Permite importar el modelo compartido (../modelo) con el alias "@modelo" de tsconfig.json
+  experimental: {
+    externalDir: true
+  },
   // Añade esto:
   serverOptions: {
     host: '0.0.0.0' // Acepta conexiones de cualquier red
   }
-}
\ No newline at end of file
+}
+
+module.exports = nextConfig
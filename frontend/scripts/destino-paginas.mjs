@@ -0,0 +1,6 @@
+// Carpeta a la que separar-paginas-protegidas.mjs copia las páginas protegidas. La función
+// paginaProtegida las lee de la misma carpeta (directorioPaginas en functions/src/sesion.ts).
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+
+export const DESTINO_PAGINAS = join(dirname(fileURLToPath(import.meta.url)), "..", "..", "functions", "paginas");
@@ -0,0 +1,33 @@
+// Después de `next build` (export estático en out/), saca del sitio público las páginas de las
+// secciones protegidas y las copia a functions/paginas. Así Firebase Hosting no las sirve
+// directamente: la regex de firebase.json las redirige a la función paginaProtegida, que verifica
+// la cookie de sesión antes de devolverlas. Debe coincidir con RUTAS_PROTEGIDAS (functions/src/sesion.ts).
+import { existsSync } from "fs";
+import { cp, mkdir, readdir, rm } from "fs/promises";
+import { dirname, join } from "path";
+import { fileURLToPath } from "url";
+import { DESTINO_PAGINAS } from "./destino-paginas.mjs";
+
+const SECCIONES = ["dashboard", "perfil", "familia", "bienvenida", "agenda", "asistencia", "admin"];
+
+const raiz = join(dirname(fileURLToPath(import.meta.url)), "..");
+const salida = join(raiz, "out");
+const destino = DESTINO_PAGINAS;
+
+await rm(destino, { recursive: true, force: true });
+await mkdir(destino, { recursive: true });
+
+for (const seccion of SECCIONES) {
+  // Página de la sección (seccion.html y seccion.txt) y sus subpáginas (seccion/...)
+  const entradas = [`${seccion}.html`, `${seccion}.txt`, seccion].filter((e) => existsSync(join(salida, e)));
+  if (entradas.length === 0) {
+    throw new Error(`No se encontró la sección protegida "${seccion}" en out/`);
+  }
+  for (const entrada of entradas) {
+    await cp(join(salida, entrada), join(destino, entrada), { recursive: true });
+    await rm(join(salida, entrada), { recursive: true });
+  }
+}
+
+const copiadas = await readdir(destino, { recursive: true });
+console.log(`Páginas protegidas movidas a functions/paginas: ${copiadas.length} archivos.`);
@@ -0,0 +1,119 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import FormularioActividad from "@/components/admin/FormularioActividad";
+import { Actividad, archivarServicio, obtenerActividades } from "@/lib/firebase/catalogo";
+import { UsuarioResumen, obtenerProfesionales } from "@/lib/firebase/usuarios";
+
+const DIAS = ["Dom", "Lun", "Mar", "Mié", "Jue", "Vie", "Sáb"];
+
+export default function AdminActividadesPage() {
+  const [actividades, setActividades] = useState<Actividad[] | null>(null);
+  const [profesionales, setProfesionales] = useState<UsuarioResumen[]>([]);
+  const [editando, setEditando] = useState<Actividad | "nueva" | null>(null);
+
+  const cargar = useCallback(async () => {
+    try {
+      const [lista, profes] = await Promise.all([obtenerActividades(), obtenerProfesionales()]);
+      setActividades(lista);
+      setProfesionales(profes);
+    } catch (error) {
+      toast.error("No se pudieron cargar las actividades");
+      console.error("Admin actividades error:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    cargar();
+  }, [cargar]);
+
+  const handleArchivar = async (actividad: Actividad) => {
+    const archivar = !actividad.archivada;
+    if (archivar && !window.confirm(`¿Archivar ${actividad.nombre}? Se dan de baja sus clases futuras y se cancelan sus reservas.`)) return;
+    try {
+      await archivarServicio("actividades", actividad.id, archivar);
+      toast.success(archivar ? "Actividad archivada" : "Actividad reactivada");
+      cargar();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo actualizar la actividad");
+    }
+  };
+
+  const nombreProfesor = (id: string | null) =>
+    profesionales.find((p) => p.id === id)?.nombre || "Sin asignar";
+
+  if (editando) {
+    return (
+      <FormularioActividad
+        actividad={editando === "nueva" ? null : editando}
+        profesionales={profesionales}
+        onGuardada={() => {
+          setEditando(null);
+          cargar();
+        }}
+        onCancelar={() => setEditando(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold">Actividades</h2>
+        <button
+          onClick={() => setEditando("nueva")}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+        >
+          Nueva actividad
+        </button>
+      </div>
+
+      {actividades === null ? (
+        <p>Cargando...</p>
+      ) : actividades.length === 0 ? (
+        <p className="text-gray-500">Todavía no hay actividades.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b">
+              <th className="py-2">Nombre</th>
+              <th>Profesor</th>
+              <th>Horarios</th>
+              <th>Cupo</th>
+              <th>Precio</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {actividades.map((actividad) => (
+              <tr key={actividad.id} className={actividad.archivada ? "text-gray-400" : ""}>
+                <td className="py-2">
+                  {actividad.nombre}
+                  {actividad.archivada && " (archivada)"}
+                </td>
+                <td>{nombreProfesor(actividad.profesorId)}</td>
+                <td>
+                  {actividad.horarios.length === 0
+                    ? "—"
+                    : actividad.horarios
+                        .map((regla) => `${regla.dias.map((d) => DIAS[d]).join(", ")} ${regla.horaInicio}`)
+                        .join(" · ")}
+                </td>
+                <td>{actividad.cupo}</td>
+                <td>${actividad.precio}</td>
+                <td className="text-right space-x-3 whitespace-nowrap">
+                  <button onClick={() => setEditando(actividad)} className="text-blue-600 hover:underline">
+                    Editar
+                  </button>
+                  <button onClick={() => handleArchivar(actividad)} className="text-gray-600 hover:underline">
+                    {actividad.archivada ? "Reactivar" : "Archivar"}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
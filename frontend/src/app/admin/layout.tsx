@@ -0,0 +1,47 @@
+"use client";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import RequireRole from "@/components/auth/RequireRole";
+import Navbar from "@/components/shared/Navbar";
+
+const SECCIONES = [
+  { href: "/admin/actividades", titulo: "Actividades" },
+  { href: "/admin/terapias", titulo: "Terapias" },
+  { href: "/admin/suspensiones", titulo: "Suspensiones" },
+  { href: "/admin/usuarios", titulo: "Usuarios" }
+];
+
+// Consola de administración: solo la ven los usuarios con tipo "admin".
+// Las reglas de Firestore son las que realmente restringen las escrituras.
+export default function AdminLayout({ children }: { children: React.ReactNode }) {
+  const pathname = usePathname();
+
+  return (
+    <RequireRole roles={["admin"]} mensaje="Solo los administradores pueden entrar a la consola">
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+
+        <div className="container mx-auto px-4 py-8 max-w-5xl">
+          <h1 className="text-2xl font-bold mb-4">Administración</h1>
+          <nav className="flex gap-2 border-b mb-6">
+            {SECCIONES.map((seccion) => (
+              <Link
+                key={seccion.href}
+                href={seccion.href}
+                className={`px-4 py-2 -mb-px border-b-2 ${
+                  pathname?.startsWith(seccion.href)
+                    ? "border-blue-600 text-blue-600 font-medium"
+                    : "border-transparent text-gray-600 hover:text-gray-900"
+                }`}
+              >
+                {seccion.titulo}
+              </Link>
+            ))}
+          </nav>
+
+          {children}
+        </div>
+      </div>
+    </RequireRole>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import FormularioSuspension from "@/components/admin/FormularioSuspension";
+import { Actividad, Terapia, obtenerActividades, obtenerTerapias } from "@/lib/firebase/catalogo";
+import {
+  Suspension,
+  archivarSuspension,
+  levantarSuspension,
+  obtenerSuspensiones
+} from "@/lib/firebase/suspensiones";
+import { UsuarioResumen, obtenerProfesionales } from "@/lib/firebase/usuarios";
+
+const formatearFecha = (fecha: Date) =>
+  fecha.toLocaleString("es-AR", { day: "numeric", month: "short", year: "numeric", hour: "2-digit", minute: "2-digit" });
+
+export default function AdminSuspensionesPage() {
+  const [suspensiones, setSuspensiones] = useState<Suspension[] | null>(null);
+  const [actividades, setActividades] = useState<Actividad[]>([]);
+  const [terapias, setTerapias] = useState<Terapia[]>([]);
+  const [profesionales, setProfesionales] = useState<UsuarioResumen[]>([]);
+  const [verArchivadas, setVerArchivadas] = useState(false);
+  const [editando, setEditando] = useState<Suspension | "nueva" | null>(null);
+
+  const cargar = useCallback(async () => {
+    try {
+      const [lista, acts, ters, profes] = await Promise.all([
+        obtenerSuspensiones(),
+        obtenerActividades(),
+        obtenerTerapias(),
+        obtenerProfesionales()
+      ]);
+      setSuspensiones(lista);
+      setActividades(acts);
+      setTerapias(ters);
+      setProfesionales(profes);
+    } catch (error) {
+      toast.error("No se pudieron cargar las suspensiones");
+      console.error("Admin suspensiones error:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    cargar();
+  }, [cargar]);
+
+  const alcance = (suspension: Suspension) => {
+    if (suspension.tipo === "general") return "Todo el gimnasio";
+    if (suspension.tipo === "profesor") {
+      return profesionales.find((p) => p.id === suspension.profesorId)?.nombre || "Profesional";
+    }
+    return (
+      actividades.find((a) => a.id === suspension.actividadId)?.nombre ||
+      terapias.find((t) => t.id === suspension.actividadId)?.nombre ||
+      "Actividad"
+    );
+  };
+
+  const handleLevantar = async (suspension: Suspension) => {
+    const aviso = suspension.afectaReservasExistentes
+      ? " Las reservas y turnos que canceló se restaurarán si todavía hay lugar."
+      : "";
+    if (!window.confirm(`¿Levantar la suspensión de ${alcance(suspension)}?${aviso}`)) return;
+    try {
+      await levantarSuspension(suspension.id);
+      toast.success("Suspensión levantada");
+      cargar();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo levantar la suspensión");
+    }
+  };
+
+  const handleArchivar = async (suspension: Suspension) => {
+    try {
+      await archivarSuspension(suspension.id, !suspension.archivada);
+      cargar();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo actualizar la suspensión");
+    }
+  };
+
+  if (editando) {
+    return (
+      <FormularioSuspension
+        suspension={editando === "nueva" ? null : editando}
+        actividades={actividades.filter((a) => !a.archivada)}
+        terapias={terapias.filter((t) => !t.archivada)}
+        profesionales={profesionales}
+        onGuardada={() => {
+          setEditando(null);
+          cargar();
+        }}
+        onCancelar={() => setEditando(null)}
+      />
+    );
+  }
+
+  const ahora = new Date();
+  const visibles = (suspensiones || []).filter((s) => verArchivadas || !s.archivada);
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold">Suspensiones</h2>
+        <div className="flex items-center gap-4">
+          <label className="text-sm flex items-center gap-2">
+            <input type="checkbox" checked={verArchivadas} onChange={(e) => setVerArchivadas(e.target.checked)} />
+            Ver archivadas
+          </label>
+          <button
+            onClick={() => setEditando("nueva")}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+          >
+            Nueva suspensión
+          </button>
+        </div>
+      </div>
+
+      {suspensiones === null ? (
+        <p>Cargando...</p>
+      ) : visibles.length === 0 ? (
+        <p className="text-gray-500">No hay suspensiones.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b">
+              <th className="py-2">Alcance</th>
+              <th>Desde</th>
+              <th>Hasta</th>
+              <th>Motivo</th>
+              <th>Reservas existentes</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {visibles.map((suspension) => {
+              const terminada = suspension.fechaFin < ahora;
+              return (
+                <tr key={suspension.id} className={suspension.archivada || terminada ? "text-gray-400" : ""}>
+                  <td className="py-2">{alcance(suspension)}</td>
+                  <td>{formatearFecha(suspension.fechaInicio)}</td>
+                  <td>{formatearFecha(suspension.fechaFin)}</td>
+                  <td>{suspension.motivo || "—"}</td>
+                  <td>{suspension.afectaReservasExistentes ? "Canceladas" : "Se mantienen"}</td>
+                  <td className="text-right space-x-3 whitespace-nowrap">
+                    {!terminada && (
+                      <>
+                        <button onClick={() => setEditando(suspension)} className="text-blue-600 hover:underline">
+                          Editar
+                        </button>
+                        <button onClick={() => handleLevantar(suspension)} className="text-red-600 hover:underline">
+                          Levantar
+                        </button>
+                      </>
+                    )}
+                    {terminada && (
+                      <button onClick={() => handleArchivar(suspension)} className="text-gray-600 hover:underline">
+                        {suspension.archivada ? "Desarchivar" : "Archivar"}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+"use client";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import FormularioCuestionario from "@/components/admin/FormularioCuestionario";
+import FormularioTerapia from "@/components/admin/FormularioTerapia";
+import { Terapia, archivarServicio, obtenerTerapias } from "@/lib/firebase/catalogo";
+import { UsuarioResumen, obtenerProfesionales } from "@/lib/firebase/usuarios";
+
+export default function AdminTerapiasPage() {
+  const [terapias, setTerapias] = useState<Terapia[] | null>(null);
+  const [profesionales, setProfesionales] = useState<UsuarioResumen[]>([]);
+  const [editando, setEditando] = useState<Terapia | "nueva" | null>(null);
+  const [cuestionarioDe, setCuestionarioDe] = useState<Terapia | null>(null);
+
+  const cargar = useCallback(async () => {
+    try {
+      const [lista, profes] = await Promise.all([obtenerTerapias(), obtenerProfesionales()]);
+      setTerapias(lista);
+      setProfesionales(profes);
+    } catch (error) {
+      toast.error("No se pudieron cargar las terapias");
+      console.error("Admin terapias error:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    cargar();
+  }, [cargar]);
+
+  const handleArchivar = async (terapia: Terapia) => {
+    const archivar = !terapia.archivada;
+    if (archivar && !window.confirm(`¿Archivar ${terapia.nombre}? No se ofrecerán nuevos turnos.`)) return;
+    try {
+      await archivarServicio("terapias", terapia.id, archivar);
+      toast.success(archivar ? "Terapia archivada" : "Terapia reactivada");
+      cargar();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo actualizar la terapia");
+    }
+  };
+
+  const nombreProfesional = (id: string | null) =>
+    profesionales.find((p) => p.id === id)?.nombre || "Sin asignar";
+
+  if (cuestionarioDe) {
+    return <FormularioCuestionario terapia={cuestionarioDe} onCerrar={() => setCuestionarioDe(null)} />;
+  }
+
+  if (editando) {
+    return (
+      <FormularioTerapia
+        terapia={editando === "nueva" ? null : editando}
+        profesionales={profesionales}
+        onGuardada={() => {
+          setEditando(null);
+          cargar();
+        }}
+        onCancelar={() => setEditando(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold">Terapias</h2>
+        <button
+          onClick={() => setEditando("nueva")}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+        >
+          Nueva terapia
+        </button>
+      </div>
+
+      {terapias === null ? (
+        <p>Cargando...</p>
+      ) : terapias.length === 0 ? (
+        <p className="text-gray-500">Todavía no hay terapias.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b">
+              <th className="py-2">Nombre</th>
+              <th>Profesional</th>
+              <th>Duración</th>
+              <th>Precio</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {terapias.map((terapia) => (
+              <tr key={terapia.id} className={terapia.archivada ? "text-gray-400" : ""}>
+                <td className="py-2">
+                  {terapia.nombre}
+                  {terapia.archivada && " (archivada)"}
+                </td>
+                <td>{nombreProfesional(terapia.profesionalId)}</td>
+                <td>{terapia.duracionMinutos} min</td>
+                <td>${terapia.precio}</td>
+                <td className="text-right space-x-3 whitespace-nowrap">
+                  <button onClick={() => setEditando(terapia)} className="text-blue-600 hover:underline">
+                    Editar
+                  </button>
+                  <button onClick={() => setCuestionarioDe(terapia)} className="text-blue-600 hover:underline">
+                    Cuestionario
+                  </button>
+                  <button onClick={() => handleArchivar(terapia)} className="text-gray-600 hover:underline">
+                    {terapia.archivada ? "Reactivar" : "Archivar"}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+"use client";
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "react-hot-toast";
+import { auth } from "@/lib/firebase/config";
+import {
+  TipoUsuario,
+  UsuarioResumen,
+  cambiarSupervisorClinico,
+  cambiarTipoUsuario,
+  obtenerUsuarios
+} from "@/lib/firebase/usuarios";
+
+const TIPOS: { valor: TipoUsuario; texto: string }[] = [
+  { valor: "socio", texto: "Socio" },
+  { valor: "profesional", texto: "Profesional" },
+  { valor: "admin", texto: "Administrador" }
+];
+
+export default function AdminUsuariosPage() {
+  const [usuarios, setUsuarios] = useState<UsuarioResumen[] | null>(null);
+  const [busqueda, setBusqueda] = useState("");
+  const [filtroTipo, setFiltroTipo] = useState<TipoUsuario | "">("");
+  const [guardando, setGuardando] = useState<string | null>(null);
+
+  useEffect(() => {
+    obtenerUsuarios()
+      .then(setUsuarios)
+      .catch((error) => {
+        toast.error("No se pudieron cargar los usuarios");
+        console.error("Admin usuarios error:", error);
+      });
+  }, []);
+
+  const filtrados = useMemo(() => {
+    const texto = busqueda.trim().toLowerCase();
+    return (usuarios || []).filter((u) =>
+      (!filtroTipo || u.tipo === filtroTipo) &&
+      (!texto || [u.nombre, u.email, u.dni].some((campo) => campo.toLowerCase().includes(texto)))
+    );
+  }, [usuarios, busqueda, filtroTipo]);
+
+  const handleCambiarTipo = async (usuario: UsuarioResumen, tipo: TipoUsuario) => {
+    const texto = TIPOS.find((t) => t.valor === tipo)?.texto;
+    if (!window.confirm(`¿Cambiar el rol de ${usuario.nombre || usuario.email} a ${texto}?`)) return;
+    setGuardando(usuario.id);
+    try {
+      await cambiarTipoUsuario(usuario.id, tipo);
+      setUsuarios((lista) => (lista || []).map((u) => (u.id === usuario.id ? { ...u, tipo } : u)));
+      toast.success("Rol actualizado. Se aplica cuando el usuario vuelva a iniciar sesión.");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo cambiar el rol");
+    } finally {
+      setGuardando(null);
+    }
+  };
+
+  const handleSupervisor = async (usuario: UsuarioResumen, supervisorClinico: boolean) => {
+    const accion = supervisorClinico ? "podrá leer las notas clínicas de todos los profesionales" : "dejará de ser supervisor clínico";
+    if (!window.confirm(`${usuario.nombre || usuario.email} ${accion}. ¿Continuar?`)) return;
+    setGuardando(usuario.id);
+    try {
+      await cambiarSupervisorClinico(usuario.id, supervisorClinico);
+      setUsuarios((lista) => (lista || []).map((u) => (u.id === usuario.id ? { ...u, supervisorClinico } : u)));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo cambiar el permiso");
+    } finally {
+      setGuardando(null);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md">
+      <div className="flex flex-wrap gap-3 mb-4">
+        <input
+          type="search"
+          value={busqueda}
+          onChange={(e) => setBusqueda(e.target.value)}
+          placeholder="Buscar por nombre, email o DNI"
+          className="flex-1 min-w-[200px] px-3 py-2 border rounded-md"
+        />
+        <select
+          value={filtroTipo}
+          onChange={(e) => setFiltroTipo(e.target.value as TipoUsuario | "")}
+          className="px-3 py-2 border rounded-md"
+        >
+          <option value="">Todos los roles</option>
+          {TIPOS.map((t) => <option key={t.valor} value={t.valor}>{t.texto}</option>)}
+        </select>
+      </div>
+
+      {usuarios === null ? (
+        <p>Cargando...</p>
+      ) : filtrados.length === 0 ? (
+        <p className="text-gray-500">No hay usuarios que coincidan.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b">
+              <th className="py-2">Nombre</th>
+              <th>Email</th>
+              <th>DNI</th>
+              <th>Rol</th>
+              <th>Supervisor clínico</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {filtrados.map((usuario) => (
+              <tr key={usuario.id}>
+                <td className="py-2">
+                  {usuario.nombre || "—"}
+                  {usuario.esDependiente && <span className="text-gray-500"> (a cargo)</span>}
+                </td>
+                <td>{usuario.email || "—"}</td>
+                <td>{usuario.dni || "—"}</td>
+                <td>
+                  {/* Los dependientes no inician sesión y un admin no puede quitarse su propio rol */}
+                  <select
+                    value={usuario.tipo}
+                    disabled={usuario.esDependiente || usuario.id === auth.currentUser?.uid || guardando === usuario.id}
+                    onChange={(e) => handleCambiarTipo(usuario, e.target.value as TipoUsuario)}
+                    className="px-2 py-1 border rounded-md disabled:bg-gray-100"
+                  >
+                    {TIPOS.map((t) => <option key={t.valor} value={t.valor}>{t.texto}</option>)}
+                  </select>
+                </td>
+                <td>
+                  {usuario.tipo === "profesional" && (
+                    <input
+                      type="checkbox"
+                      checked={usuario.supervisorClinico}
+                      disabled={guardando === usuario.id}
+                      onChange={(e) => handleSupervisor(usuario, e.target.checked)}
+                      aria-label="Supervisor clínico"
+                    />
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
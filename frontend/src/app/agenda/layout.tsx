@@ -0,0 +1,7 @@
+"use client";
+import RequireRole from "@/components/auth/RequireRole";
+
+// La agenda solo la ven los profesionales.
+export default function AgendaLayout({ children }: { children: React.ReactNode }) {
+  return <RequireRole roles={["profesional"]} mensaje="La agenda es solo para profesionales">{children}</RequireRole>;
+}
@@ -0,0 +1,241 @@
+"use client";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { toast } from "react-hot-toast";
+import Navbar from "@/components/shared/Navbar";
+import FormularioBloqueo from "@/components/agenda/FormularioBloqueo";
+import HistorialClinicoModal from "@/components/agenda/HistorialClinicoModal";
+import NotaClinicaModal from "@/components/agenda/NotaClinicaModal";
+import RespuestasIngresoModal from "@/components/agenda/RespuestasIngresoModal";
+import TarjetaEvento from "@/components/agenda/TarjetaEvento";
+import { useAuth } from "@/components/auth/AuthProvider";
+import {
+  EventoAgenda,
+  desbloquearHorario,
+  escucharAgenda,
+  eventoInicio,
+  obtenerNombresUsuarios
+} from "@/lib/firebase/agenda";
+import { ColeccionAsistencia, registrarAsistencia } from "@/lib/firebase/asistencia";
+import { obtenerNombresCatalogo } from "@/lib/firebase/catalogo";
+
+type Vista = "dia" | "semana";
+
+const inicioDelDia = (fecha: Date) => new Date(fecha.getFullYear(), fecha.getMonth(), fecha.getDate());
+
+const sumarDias = (fecha: Date, dias: number) =>
+  new Date(fecha.getFullYear(), fecha.getMonth(), fecha.getDate() + dias);
+
+// Las semanas empiezan el lunes
+const inicioDeSemana = (fecha: Date) => sumarDias(inicioDelDia(fecha), -((fecha.getDay() + 6) % 7));
+
+const formatearDia = (fecha: Date) =>
+  fecha.toLocaleDateString("es-AR", { weekday: "long", day: "numeric", month: "long" });
+
+export default function AgendaPage() {
+  const { user } = useAuth();
+  const [vista, setVista] = useState<Vista>("dia");
+  const [fecha, setFecha] = useState(() => inicioDelDia(new Date()));
+  const [eventos, setEventos] = useState<EventoAgenda[] | null>(null);
+  const [nombresUsuarios, setNombresUsuarios] = useState<Record<string, string>>({});
+  const [nombresTerapias, setNombresTerapias] = useState<Record<string, string>>({});
+  const [registrando, setRegistrando] = useState<string | null>(null);
+  const [bloqueando, setBloqueando] = useState(false);
+  const [notaTurnoId, setNotaTurnoId] = useState<string | null>(null);
+  const [historialPacienteId, setHistorialPacienteId] = useState<string | null>(null);
+  const cerrarNota = useCallback(() => setNotaTurnoId(null), []);
+  const cerrarHistorial = useCallback(() => setHistorialPacienteId(null), []);
+  const [ingresoTurnoId, setIngresoTurnoId] = useState<string | null>(null);
+  const cerrarIngreso = useCallback(() => setIngresoTurnoId(null), []);
+
+  const { desde, hasta } = useMemo(() => {
+    const inicio = vista === "dia" ? fecha : inicioDeSemana(fecha);
+    return { desde: inicio, hasta: sumarDias(inicio, vista === "dia" ? 1 : 7) };
+  }, [vista, fecha]);
+
+  // Clases, turnos y bloqueos en tiempo real
+  useEffect(() => {
+    if (!user) return;
+    setEventos(null);
+    return escucharAgenda(user.uid, desde, hasta, setEventos, (error) => {
+      toast.error("No se pudo cargar la agenda");
+      console.error("Agenda error:", error);
+    });
+  }, [user, desde, hasta]);
+
+  useEffect(() => {
+    if (!user) return;
+    obtenerNombresCatalogo()
+      .then(({ terapias }) => setNombresTerapias(terapias))
+      .catch((error) => console.error("Catálogo error:", error));
+  }, [user]);
+
+  // Nombres de pacientes e inscriptos que todavía no se conocen
+  useEffect(() => {
+    const ids = (eventos || []).flatMap((evento) =>
+      evento.tipo === "turno" ? [evento.usuarioId]
+        : evento.tipo === "clase" ? evento.inscriptos.map((i) => i.usuarioId)
+          : []
+    );
+    if (ids.length === 0) return;
+    obtenerNombresUsuarios(ids)
+      .then((nombres) => setNombresUsuarios((actuales) => ({ ...actuales, ...nombres })))
+      .catch((error) => console.error("Nombres error:", error));
+  }, [eventos]);
+
+  const dias = useMemo(
+    () => Array.from({ length: vista === "dia" ? 1 : 7 }, (_, i) => sumarDias(desde, i)),
+    [vista, desde]
+  );
+
+  const eventosDelDia = (dia: Date) => {
+    const inicio = dia.getTime();
+    const fin = sumarDias(dia, 1).getTime();
+    return (eventos || []).filter((evento) => {
+      const hora = eventoInicio(evento);
+      return hora >= inicio && hora < fin;
+    });
+  };
+
+  const handleAsistencia = async (coleccion: ColeccionAsistencia, id: string) => {
+    setRegistrando(id);
+    try {
+      const { nombre } = await registrarAsistencia({ coleccion, id });
+      toast.success(`${nombre}: presente`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo registrar la asistencia");
+    } finally {
+      setRegistrando(null);
+    }
+  };
+
+  const handleDesbloquear = async (evento: EventoAgenda) => {
+    if (!user || evento.tipo !== "bloqueo") return;
+    if (!window.confirm("¿Quitar este bloqueo? El horario vuelve a ofrecerse para turnos.")) return;
+    try {
+      await desbloquearHorario(user.uid, evento);
+      toast.success("Bloqueo quitado");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo quitar el bloqueo");
+    }
+  };
+
+  const buscarTurno = (turnoId: string) => {
+    const turno = (eventos || []).find((evento) => evento.tipo === "turno" && evento.id === turnoId);
+    return turno?.tipo === "turno" ? turno : null;
+  };
+
+  const tituloTurno = (turnoId: string) => {
+    const turno = buscarTurno(turnoId);
+    if (!turno) return "Turno";
+    return `${nombresUsuarios[turno.usuarioId] || "Paciente"} · ${nombresTerapias[turno.terapiaId] || "Terapia"}`;
+  };
+
+  const turnoIngreso = ingresoTurnoId ? buscarTurno(ingresoTurnoId) : null;
+
+  const mover = (sentido: number) => setFecha(sumarDias(fecha, sentido * (vista === "dia" ? 1 : 7)));
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-8 max-w-6xl space-y-4">
+        <div className="flex flex-wrap justify-between items-center gap-3">
+          <h1 className="text-2xl font-bold">Mi agenda</h1>
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="flex border rounded-md overflow-hidden">
+              {(["dia", "semana"] as Vista[]).map((opcion) => (
+                <button
+                  key={opcion}
+                  onClick={() => setVista(opcion)}
+                  className={`px-3 py-1 ${vista === opcion ? "bg-blue-600 text-white" : "bg-white hover:bg-gray-100"}`}
+                >
+                  {opcion === "dia" ? "Día" : "Semana"}
+                </button>
+              ))}
+            </div>
+            <button onClick={() => mover(-1)} className="px-3 py-1 border rounded-md bg-white hover:bg-gray-100">‹</button>
+            <button onClick={() => setFecha(inicioDelDia(new Date()))} className="px-3 py-1 border rounded-md bg-white hover:bg-gray-100">
+              Hoy
+            </button>
+            <button onClick={() => mover(1)} className="px-3 py-1 border rounded-md bg-white hover:bg-gray-100">›</button>
+            <button
+              onClick={() => setBloqueando(true)}
+              disabled={!user}
+              className="px-3 py-1 bg-gray-700 text-white rounded-md hover:bg-gray-800 disabled:opacity-50"
+            >
+              Bloquear horario
+            </button>
+          </div>
+        </div>
+
+        {eventos === null ? (
+          <p>Cargando...</p>
+        ) : (
+          <div className={vista === "dia" ? "" : "grid grid-cols-1 md:grid-cols-7 gap-2"}>
+            {dias.map((dia) => {
+              const delDia = eventosDelDia(dia);
+              return (
+                <section key={dia.getTime()} className="bg-white p-3 rounded-lg shadow-md space-y-2">
+                  <button
+                    onClick={() => {
+                      setFecha(dia);
+                      setVista("dia");
+                    }}
+                    className="font-semibold capitalize hover:underline text-left"
+                  >
+                    {formatearDia(dia)}
+                  </button>
+                  {delDia.length === 0 ? (
+                    <p className="text-sm text-gray-500">Sin actividades</p>
+                  ) : (
+                    delDia.map((evento) => (
+                      <TarjetaEvento
+                        key={evento.tipo === "bloqueo" ? `bloqueo_${eventoInicio(evento)}_${evento.hasta.getTime()}` : `${evento.tipo}_${evento.id}`}
+                        evento={evento}
+                        detallada={vista === "dia"}
+                        nombresUsuarios={nombresUsuarios}
+                        nombresTerapias={nombresTerapias}
+                        registrando={registrando}
+                        onAsistencia={handleAsistencia}
+                        onDesbloquear={handleDesbloquear}
+                        onNotaClinica={setNotaTurnoId}
+                        onHistorialClinico={setHistorialPacienteId}
+                        onIngreso={setIngresoTurnoId}
+                      />
+                    ))
+                  )}
+                </section>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {notaTurnoId && (
+        <NotaClinicaModal turnoId={notaTurnoId} titulo={tituloTurno(notaTurnoId)} onCerrar={cerrarNota} />
+      )}
+
+      {historialPacienteId && (
+        <HistorialClinicoModal
+          pacienteId={historialPacienteId}
+          paciente={nombresUsuarios[historialPacienteId] || "Paciente"}
+          nombresTerapias={nombresTerapias}
+          onCerrar={cerrarHistorial}
+        />
+      )}
+
+      {turnoIngreso && (
+        <RespuestasIngresoModal
+          pacienteId={turnoIngreso.usuarioId}
+          terapiaId={turnoIngreso.terapiaId}
+          titulo={tituloTurno(turnoIngreso.id)}
+          onCerrar={cerrarIngreso}
+        />
+      )}
+
+      {bloqueando && user && (
+        <FormularioBloqueo profesionalId={user.uid} dia={fecha} onCerrar={() => setBloqueando(false)} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+"use client";
+import RequireRole from "@/components/auth/RequireRole";
+
+// El registro de asistencia es solo para el personal (admins y profesionales).
+export default function AsistenciaLayout({ children }: { children: React.ReactNode }) {
+  return <RequireRole roles={["admin", "profesional"]} mensaje="Solo el personal puede registrar asistencias">{children}</RequireRole>;
+}
@@ -0,0 +1,214 @@
+"use client";
+import { useEffect, useRef, useState } from "react";
+import { toast } from "react-hot-toast";
+import Navbar from "@/components/shared/Navbar";
+import {
+  PersonaCheckIn,
+  ReservaDelDia,
+  registrarAsistencia,
+  buscarReservasPorDni
+} from "@/lib/firebase/asistencia";
+
+// API de lectura de códigos del navegador (Chrome/Android); donde no existe se usa el lector o el DNI
+interface LectorCodigos {
+  detect(imagen: HTMLVideoElement): Promise<{ rawValue: string }[]>;
+}
+declare global {
+  interface Window {
+    BarcodeDetector?: new (opciones: { formats: string[] }) => LectorCodigos;
+  }
+}
+
+const formatearHora = (iso: string) =>
+  new Date(iso).toLocaleTimeString("es-AR", { hour: "2-digit", minute: "2-digit" });
+
+export default function AsistenciaPage() {
+  const [codigo, setCodigo] = useState("");
+  const [dni, setDni] = useState("");
+  const [personas, setPersonas] = useState<PersonaCheckIn[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [camaraActiva, setCamaraActiva] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  const registrar = async (referencia: Parameters<typeof registrarAsistencia>[0]) => {
+    setIsLoading(true);
+    try {
+      const { nombre, servicio, fecha } = await registrarAsistencia(referencia);
+      toast.success(`${nombre}: asistencia a ${servicio} (${formatearHora(fecha)}) registrada`);
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo registrar la asistencia");
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCodigo = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!codigo.trim()) return;
+    await registrar({ codigo: codigo.trim() });
+    setCodigo("");
+  };
+
+  // Escaneo con la cámara: se detiene al leer el primer código
+  useEffect(() => {
+    if (!camaraActiva) return;
+    if (!window.BarcodeDetector) {
+      toast.error("Este navegador no puede leer QR con la cámara. Usá el lector o buscá por DNI.");
+      setCamaraActiva(false);
+      return;
+    }
+
+    const lector = new window.BarcodeDetector({ formats: ["qr_code"] });
+    let stream: MediaStream | null = null;
+    let intervalo: ReturnType<typeof setInterval> | undefined;
+    let cancelado = false;
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } })
+      .then((s) => {
+        stream = s;
+        if (cancelado || !videoRef.current) return;
+        videoRef.current.srcObject = s;
+        videoRef.current.play();
+        intervalo = setInterval(async () => {
+          if (!videoRef.current) return;
+          const [leido] = await lector.detect(videoRef.current);
+          if (leido?.rawValue && !cancelado) {
+            cancelado = true;
+            setCamaraActiva(false);
+            await registrar({ codigo: leido.rawValue });
+          }
+        }, 500);
+      })
+      .catch(() => {
+        toast.error("No se pudo acceder a la cámara");
+        setCamaraActiva(false);
+      });
+
+    return () => {
+      cancelado = true;
+      clearInterval(intervalo);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [camaraActiva]);
+
+  const handleBuscarDni = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      const encontradas = await buscarReservasPorDni(dni.trim());
+      setPersonas(encontradas);
+      if (encontradas.length === 0) {
+        toast.error("No hay socios con ese DNI");
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo buscar el DNI");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleMarcar = async (reserva: ReservaDelDia) => {
+    if (await registrar({ coleccion: reserva.coleccion, id: reserva.id })) {
+      setPersonas((actuales) => actuales.map((persona) => ({
+        ...persona,
+        reservas: persona.reservas.map((r) => (r.id === reserva.id ? { ...r, asistencia: "asistio" } : r))
+      })));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+        <h1 className="text-2xl font-bold">Registro de asistencia</h1>
+
+        <section className="bg-white p-6 rounded-lg shadow-md">
+          <h2 className="text-lg font-semibold mb-4">Escanear QR</h2>
+          <form onSubmit={handleCodigo} className="flex gap-2">
+            <input
+              type="text"
+              placeholder="Escaneá o pegá el código"
+              value={codigo}
+              onChange={(e) => setCodigo(e.target.value)}
+              autoFocus
+              className="flex-1 px-3 py-2 border rounded-md"
+            />
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Registrar
+            </button>
+          </form>
+          <button
+            onClick={() => setCamaraActiva((activa) => !activa)}
+            className="mt-3 text-sm text-blue-600 hover:underline"
+          >
+            {camaraActiva ? "Cerrar cámara" : "Usar la cámara"}
+          </button>
+          {camaraActiva && <video ref={videoRef} className="mt-3 w-full rounded-md" muted playsInline />}
+        </section>
+
+        <section className="bg-white p-6 rounded-lg shadow-md">
+          <h2 className="text-lg font-semibold mb-4">Buscar por DNI</h2>
+          <form onSubmit={handleBuscarDni} className="flex gap-2">
+            <input
+              type="text"
+              placeholder="DNI"
+              value={dni}
+              onChange={(e) => setDni(e.target.value)}
+              required
+              className="flex-1 px-3 py-2 border rounded-md"
+            />
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Buscar
+            </button>
+          </form>
+
+          {personas.map((persona) => (
+            <div key={persona.usuarioId} className="mt-4">
+              <p className="font-medium">{persona.nombre}</p>
+              <p className="text-sm text-gray-500">
+                Asistencias: {persona.estadisticas.asistencias} · Ausencias sin aviso: {persona.estadisticas.ausencias}
+              </p>
+              {persona.reservas.length === 0 ? (
+                <p className="text-sm text-gray-500 mt-2">No tiene reservas ni turnos confirmados hoy.</p>
+              ) : (
+                <ul className="divide-y mt-2">
+                  {persona.reservas.map((reserva) => (
+                    <li key={reserva.id} className="py-2 flex justify-between items-center">
+                      <span>
+                        {formatearHora(reserva.fecha)} — {reserva.servicio}
+                      </span>
+                      {reserva.asistencia ? (
+                        <span className="text-sm text-gray-500">
+                          {reserva.asistencia === "asistio" ? "Presente" : "Ausente"}
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => handleMarcar(reserva)}
+                          disabled={isLoading}
+                          className="px-3 py-1 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+                        >
+                          Marcar presente
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+"use client";
+import RequireRole from "@/components/auth/RequireRole";
+
+// Datos obligatorios del perfil: requiere haber iniciado sesión.
+export default function BienvenidaLayout({ children }: { children: React.ReactNode }) {
+  return <RequireRole>{children}</RequireRole>;
+}
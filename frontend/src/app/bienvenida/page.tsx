@@ -0,0 +1,224 @@
+"use client";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import Navbar from "@/components/shared/Navbar";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { completarPerfil, requiereBienvenida } from "@/lib/firebase/usuarios";
+
+interface DatosBienvenida {
+  dni: string;
+  fechaNacimiento: string;
+  telefono: string;
+  contactoNombre: string;
+  contactoTelefono: string;
+}
+
+const PASOS = ["Tus datos", "Contacto", "Confirmar"];
+
+// Mismos formatos que valida completarPerfil en el servidor
+const FORMATO_DNI = /^\d{7,8}$/;
+const FORMATO_TELEFONO = /^\+?[\d\s()-]{8,20}$/;
+const EDAD_MAXIMA = 120;
+
+const normalizarDni = (dni: string) => dni.replace(/[.\s]/g, "");
+
+const esTelefonoValido = (telefono: string) => {
+  const digitos = telefono.replace(/\D/g, "").length;
+  return FORMATO_TELEFONO.test(telefono.trim()) && digitos >= 8 && digitos <= 15;
+};
+
+/**
+ * Devuelve los errores de un paso de la bienvenida (vacío si es válido).
+ */
+const validarPaso = (paso: number, datos: DatosBienvenida): string[] => {
+  const errores: string[] = [];
+  if (paso === 0) {
+    const dni = normalizarDni(datos.dni);
+    if (!FORMATO_DNI.test(dni) || Number(dni) < 1000000) {
+      errores.push("El DNI debe tener 7 u 8 dígitos (ej. 12.345.678).");
+    }
+    const nacimiento = new Date(`${datos.fechaNacimiento}T00:00:00-03:00`);
+    const edadMinima = new Date();
+    edadMinima.setFullYear(edadMinima.getFullYear() - EDAD_MAXIMA);
+    if (isNaN(nacimiento.getTime()) || nacimiento.getTime() > Date.now() || nacimiento < edadMinima) {
+      errores.push("Ingresá una fecha de nacimiento válida.");
+    }
+  }
+  if (paso === 1) {
+    if (!esTelefonoValido(datos.telefono)) errores.push("Ingresá tu teléfono con la característica (ej. 11 2233-4455).");
+    if (!datos.contactoNombre.trim()) errores.push("Indicá el nombre del contacto de emergencia.");
+    if (!esTelefonoValido(datos.contactoTelefono)) errores.push("Ingresá el teléfono del contacto de emergencia.");
+  }
+  return errores;
+};
+
+// Paso obligatorio para los socios nuevos: sin estos datos no pueden reservar clases ni turnos
+export default function BienvenidaPage() {
+  const router = useRouter();
+  const { usuario, recargarUsuario } = useAuth();
+  const [paso, setPaso] = useState(0);
+  const [datos, setDatos] = useState<DatosBienvenida>({
+    dni: "",
+    fechaNacimiento: "",
+    telefono: "",
+    contactoNombre: "",
+    contactoTelefono: ""
+  });
+  const [errores, setErrores] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const pendiente = requiereBienvenida(usuario);
+
+  useEffect(() => {
+    if (!pendiente) {
+      router.push("/dashboard");
+      return;
+    }
+    setDatos((actuales) => ({ ...actuales, telefono: actuales.telefono || usuario?.telefono || "" }));
+  }, [pendiente, usuario, router]);
+
+  const campo = (clave: keyof DatosBienvenida) => ({
+    value: datos[clave],
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => setDatos({ ...datos, [clave]: e.target.value }),
+    className: "mt-1 w-full px-3 py-2 border rounded-md"
+  });
+
+  const handleSiguiente = (e: React.FormEvent) => {
+    e.preventDefault();
+    const encontrados = validarPaso(paso, datos);
+    setErrores(encontrados);
+    if (encontrados.length === 0) setPaso(paso + 1);
+  };
+
+  const handleConfirmar = async () => {
+    setIsSaving(true);
+    try {
+      await completarPerfil({
+        dni: normalizarDni(datos.dni),
+        fechaNacimiento: datos.fechaNacimiento,
+        telefono: datos.telefono.trim(),
+        contactoEmergencia: { nombre: datos.contactoNombre.trim(), telefono: datos.contactoTelefono.trim() }
+      });
+      toast.success("¡Listo! Ya podés reservar");
+      // Al recargar el perfil deja de requerir la bienvenida y el efecto lleva al panel
+      await recargarUsuario();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo guardar tu perfil");
+      // Un DNI repetido se corrige en el primer paso
+      if ((error as { code?: string }).code === "functions/already-exists") setPaso(0);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!pendiente) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="container mx-auto px-4 py-8">Cargando...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-8 flex justify-center">
+        <div className="w-full max-w-md bg-white p-8 rounded-lg shadow-md mt-12 space-y-4">
+          <h1 className="text-2xl font-bold text-center">Bienvenido/a</h1>
+          <p className="text-sm text-gray-600 text-center">
+            Antes de tu primera reserva necesitamos algunos datos. Solo se cargan una vez.
+          </p>
+
+          <ol className="flex justify-between text-sm">
+            {PASOS.map((titulo, indice) => (
+              <li key={titulo} className={indice === paso ? "font-semibold text-blue-700" : "text-gray-500"}>
+                {indice + 1}. {titulo}
+              </li>
+            ))}
+          </ol>
+
+          {paso < 2 ? (
+            <form onSubmit={handleSiguiente} className="space-y-3">
+              {paso === 0 ? (
+                <>
+                  <label className="text-sm block">
+                    DNI
+                    <input type="text" inputMode="numeric" placeholder="12.345.678" {...campo("dni")} />
+                  </label>
+                  <label className="text-sm block">
+                    Fecha de nacimiento
+                    <input type="date" autoComplete="bday" {...campo("fechaNacimiento")} />
+                  </label>
+                </>
+              ) : (
+                <>
+                  <label className="text-sm block">
+                    Tu teléfono
+                    <input type="tel" autoComplete="tel" {...campo("telefono")} />
+                  </label>
+                  <fieldset className="space-y-2">
+                    <legend className="text-sm font-medium">Contacto de emergencia</legend>
+                    <label className="text-sm block">
+                      Nombre
+                      <input type="text" {...campo("contactoNombre")} />
+                    </label>
+                    <label className="text-sm block">
+                      Teléfono
+                      <input type="tel" {...campo("contactoTelefono")} />
+                    </label>
+                  </fieldset>
+                </>
+              )}
+
+              {errores.length > 0 && (
+                <ul className="text-sm text-red-700 list-disc pl-5">
+                  {errores.map((error) => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+
+              <div className="flex gap-3">
+                {paso > 0 && (
+                  <button type="button" onClick={() => setPaso(paso - 1)} className="flex-1 px-4 py-2 border rounded-md hover:bg-gray-100">
+                    Volver
+                  </button>
+                )}
+                <button type="submit" className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors">
+                  Siguiente
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="space-y-3">
+              <dl className="grid grid-cols-3 gap-2 text-sm">
+                <dt className="text-gray-500">DNI</dt>
+                <dd className="col-span-2">{normalizarDni(datos.dni)}</dd>
+                <dt className="text-gray-500">Nacimiento</dt>
+                <dd className="col-span-2">{datos.fechaNacimiento.split("-").reverse().join("/")}</dd>
+                <dt className="text-gray-500">Teléfono</dt>
+                <dd className="col-span-2">{datos.telefono.trim()}</dd>
+                <dt className="text-gray-500">Emergencias</dt>
+                <dd className="col-span-2">{datos.contactoNombre.trim()} ({datos.contactoTelefono.trim()})</dd>
+              </dl>
+              <div className="flex gap-3">
+                <button type="button" onClick={() => setPaso(1)} disabled={isSaving} className="flex-1 px-4 py-2 border rounded-md hover:bg-gray-100 disabled:opacity-50">
+                  Volver
+                </button>
+                <button
+                  type="button"
+                  onClick={handleConfirmar}
+                  disabled={isSaving}
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  {isSaving ? "Guardando..." : "Confirmar"}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
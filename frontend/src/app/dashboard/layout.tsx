@@ -0,0 +1,7 @@
+"use client";
+import RequireRole from "@/components/auth/RequireRole";
+
+// Panel del socio: requiere haber iniciado sesión.
+export default function DashboardLayout({ children }: { children: React.ReactNode }) {
+  return <RequireRole>{children}</RequireRole>;
+}
@@ -1,8 +1,210 @@
+"use client";
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { toast } from "react-hot-toast";
+import Navbar from "@/components/shared/Navbar";
+import SelectorHorario from "@/components/dashboard/SelectorHorario";
+import { useAuth } from "@/components/auth/AuthProvider";
+import { NombresCatalogo, obtenerNombresCatalogo } from "@/lib/firebase/catalogo";
+import { requiereBienvenida } from "@/lib/firebase/usuarios";
+import {
+  ReservaSocio,
+  escucharReservasSocio,
+  cancelarReserva,
+  cancelarTurno,
+  salirListaEspera
+} from "@/lib/firebase/reservas";
+
+// Texto y color de cada estado de reservas y turnos
+const ESTADOS: Record<string, { texto: string; color: string }> = {
+  confirmada: { texto: "Confirmada", color: "text-green-700" },
+  confirmado: { texto: "Confirmado", color: "text-green-700" },
+  pendiente: { texto: "Pendiente", color: "text-yellow-700" },
+  fallida: { texto: "No se pudo reservar", color: "text-red-700" },
+  cancelada_por_socio: { texto: "Cancelada", color: "text-gray-500" },
+  cancelado_por_socio: { texto: "Cancelado", color: "text-gray-500" },
+  cancelada_tarde: { texto: "Cancelada fuera de término", color: "text-gray-500" },
+  cancelado_tarde: { texto: "Cancelado fuera de término", color: "text-gray-500" },
+  cancelado_por_admin: { texto: "Cancelada por el gimnasio", color: "text-red-700" },
+  rechazada: { texto: "Lugar rechazado", color: "text-gray-500" },
+  expirada: { texto: "Oferta vencida", color: "text-gray-500" }
+};
+
+const ESTADOS_ACTIVOS = ["confirmada", "confirmado", "pendiente"];
+
+const formatearFecha = (fecha: Date) =>
+  fecha.toLocaleString("es-AR", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit"
+  });
+
 export default function DashboardPage() {
+  const router = useRouter();
+  const { user, usuario: perfil } = useAuth();
+  const [items, setItems] = useState<ReservaSocio[] | null>(null);
+  const [nombres, setNombres] = useState<NombresCatalogo>({ actividades: {}, terapias: {} });
+  const [selector, setSelector] = useState<{ item: ReservaSocio; modo: "reprogramar" | "repetir" } | null>(null);
+  const [cancelando, setCancelando] = useState<string | null>(null);
+
+  // Los socios que todavía no completaron su perfil pasan primero por la bienvenida
+  useEffect(() => {
+    if (requiereBienvenida(perfil)) router.push("/bienvenida");
+  }, [perfil, router]);
+
+  // Reservas y turnos en tiempo real: el estado cambia solo si una función los confirma o cancela
+  useEffect(() => {
+    if (!user) return;
+    obtenerNombresCatalogo().then(setNombres).catch((error) => console.error("Catálogo error:", error));
+    return escucharReservasSocio(user.uid, setItems, (error) => {
+      toast.error("No se pudieron cargar tus reservas");
+      console.error("Dashboard error:", error);
+    });
+  }, [user]);
+
+  const { proximas, historial } = useMemo(() => {
+    const ahora = Date.now();
+    const lista = items || [];
+    return {
+      proximas: lista.filter((item) => item.fecha.getTime() >= ahora).reverse(),
+      historial: lista.filter((item) => item.fecha.getTime() < ahora)
+    };
+  }, [items]);
+
+  const nombreDe = (item: ReservaSocio) =>
+    (item.tipo === "reserva" ? nombres.actividades : nombres.terapias)[item.servicioId] ||
+    (item.tipo === "reserva" ? "Clase" : "Terapia");
+
+  const handleCancelar = async (item: ReservaSocio) => {
+    if (!window.confirm(`¿Cancelar ${nombreDe(item)} del ${formatearFecha(item.fecha)}?`)) return;
+    setCancelando(item.id);
+    try {
+      // Un lugar ofrecido desde la lista de espera se rechaza saliendo de la lista (sin cargo)
+      if (item.tipo === "reserva" && item.estado === "pendiente" && item.listaEsperaId) {
+        const resultado = await salirListaEspera(item.listaEsperaId);
+        if (resultado.success) {
+          toast.success("Rechazaste el lugar ofrecido");
+        } else {
+          toast.error(resultado.error || "No se pudo rechazar el lugar");
+        }
+        return;
+      }
+      const resultado = item.tipo === "reserva" ? await cancelarReserva(item.id) : await cancelarTurno(item.id);
+      if (!resultado.success) {
+        toast.error(resultado.error || "No se pudo cancelar");
+      } else if (resultado.penalizacion) {
+        toast(`Cancelado fuera de término: se registró un cargo de $${resultado.penalizacion}.`);
+      } else {
+        toast.success(resultado.creditoDevuelto ? "Cancelado. Se devolvió el crédito de tu plan." : "Cancelado");
+      }
+    } finally {
+      setCancelando(null);
+    }
+  };
+
+  const renderItem = (item: ReservaSocio, proxima: boolean) => {
+    const estado = ESTADOS[item.estado] || { texto: item.estado, color: "text-gray-500" };
+    const activa = ESTADOS_ACTIVOS.includes(item.estado);
+    const motivo = item.estado === "fallida" ? item.motivoFalla : item.motivoCancelacion;
+
+    return (
+      <li key={`${item.tipo}_${item.id}`} className="py-3 flex justify-between items-start gap-4">
+        <div>
+          <p className="font-medium">{nombreDe(item)}</p>
+          <p className="text-sm text-gray-600 capitalize">{formatearFecha(item.fecha)}</p>
+          <p className={`text-sm ${estado.color}`}>
+            {estado.texto}
+            {!proxima && item.asistencia === "asistio" && " · Asististe"}
+            {!proxima && item.asistencia === "ausente" && " · Ausente"}
+          </p>
+          {motivo && <p className="text-sm text-gray-500">{motivo}</p>}
+        </div>
+
+        <div className="flex flex-col gap-1 text-sm shrink-0">
+          {proxima && activa ? (
+            <>
+              <button
+                onClick={() => setSelector({ item, modo: "reprogramar" })}
+                className="text-blue-600 hover:underline text-right"
+              >
+                Reprogramar
+              </button>
+              <button
+                onClick={() => handleCancelar(item)}
+                disabled={cancelando === item.id}
+                className="text-red-600 hover:underline text-right disabled:opacity-50"
+              >
+                {cancelando === item.id ? "Cancelando..." : "Cancelar"}
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() => setSelector({ item, modo: "repetir" })}
+              className="text-blue-600 hover:underline text-right"
+            >
+              Reservar de nuevo
+            </button>
+          )}
+        </div>
+      </li>
+    );
+  };
+
   return (
-    <div className="p-6">
-      <h1 className="text-3xl font-bold">Panel de Control</h1>
-      <p>Bienvenido al sistema VIRTUD</p>
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Hola{perfil?.nombre ? `, ${perfil.nombre}` : ""}</h1>
+          <p className="text-gray-600">
+            Tus clases y turnos en VIRTUD. <Link href="/familia" className="text-blue-600 hover:underline">Mi familia</Link>
+            {" · "}<Link href="/perfil" className="text-blue-600 hover:underline">Mi perfil</Link>
+            {perfil?.tipo === "profesional" && (
+              <> · <Link href="/agenda" className="text-blue-600 hover:underline">Mi agenda</Link></>
+            )}
+            {perfil?.tipo === "admin" && (
+              <> · <Link href="/admin" className="text-blue-600 hover:underline">Administración</Link></>
+            )}
+          </p>
+        </div>
+
+        {items === null ? (
+          <p>Cargando...</p>
+        ) : (
+          <>
+            <section className="bg-white p-6 rounded-lg shadow-md">
+              <h2 className="text-lg font-semibold mb-2">Próximas</h2>
+              {proximas.length === 0 ? (
+                <p className="text-gray-500">No tenés reservas ni turnos próximos.</p>
+              ) : (
+                <ul className="divide-y">{proximas.map((item) => renderItem(item, true))}</ul>
+              )}
+            </section>
+
+            <section className="bg-white p-6 rounded-lg shadow-md">
+              <h2 className="text-lg font-semibold mb-2">Historial</h2>
+              {historial.length === 0 ? (
+                <p className="text-gray-500">Todavía no tenés reservas pasadas.</p>
+              ) : (
+                <ul className="divide-y">{historial.map((item) => renderItem(item, false))}</ul>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+
+      {selector && (
+        <SelectorHorario
+          item={selector.item}
+          nombre={nombreDe(selector.item)}
+          modo={selector.modo}
+          onCerrar={() => setSelector(null)}
+        />
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
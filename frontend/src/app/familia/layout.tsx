@@ -0,0 +1,7 @@
+"use client";
+import RequireRole from "@/components/auth/RequireRole";
+
+// Personas a cargo: requiere haber iniciado sesión.
+export default function FamiliaLayout({ children }: { children: React.ReactNode }) {
+  return <RequireRole>{children}</RequireRole>;
+}
@@ -0,0 +1,221 @@
+"use client";
+import { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import QRCode from "qrcode";
+import Navbar from "@/components/shared/Navbar";
+import { useAuth } from "@/components/auth/AuthProvider";
+import {
+  Persona,
+  ProximaActividad,
+  obtenerPersonas,
+  crearDependiente,
+  obtenerProximasActividades,
+  obtenerPersonaActiva,
+  cambiarPersonaActiva
+} from "@/lib/firebase/familia";
+import { obtenerCodigoAsistencia } from "@/lib/firebase/asistencia";
+
+export default function FamiliaPage() {
+  const { user } = useAuth();
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [personaActiva, setPersonaActiva] = useState<string | null>(null);
+  const [proximas, setProximas] = useState<ProximaActividad[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [qr, setQr] = useState<{ titulo: string; imagen: string } | null>(null);
+
+  // Formulario de alta de persona a cargo
+  const [nombre, setNombre] = useState("");
+  const [fechaNacimiento, setFechaNacimiento] = useState("");
+  const [dni, setDni] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const usuarioId = user?.uid ?? null;
+
+  const cargar = async (uid: string) => {
+    try {
+      const lista = await obtenerPersonas(uid);
+      setPersonas(lista);
+      setProximas(await obtenerProximasActividades(lista));
+
+      // Si la persona activa guardada ya no está a cargo, se vuelve al propio usuario
+      const guardada = obtenerPersonaActiva();
+      if (guardada && !lista.some((p) => p.id === guardada)) {
+        cambiarPersonaActiva(null);
+        setPersonaActiva(null);
+      } else {
+        setPersonaActiva(guardada);
+      }
+    } catch (error) {
+      toast.error("No se pudo cargar la información de la familia");
+      console.error("Familia error:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (usuarioId) cargar(usuarioId);
+  }, [usuarioId]);
+
+  const handleCambiarPersona = (personaId: string) => {
+    const nueva = personaId === usuarioId ? null : personaId;
+    cambiarPersonaActiva(nueva);
+    setPersonaActiva(nueva);
+    const persona = personas.find((p) => p.id === personaId);
+    toast.success(`Ahora estás gestionando a ${persona?.nombre}`);
+  };
+
+  const handleCrearDependiente = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!usuarioId) return;
+    setIsSaving(true);
+    try {
+      await crearDependiente(nombre.trim(), fechaNacimiento, dni.trim());
+      toast.success("Persona a cargo agregada");
+      setNombre("");
+      setFechaNacimiento("");
+      setDni("");
+      await cargar(usuarioId);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo agregar la persona");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const nombreDe = (personaId: string) => personas.find((p) => p.id === personaId)?.nombre || "";
+
+  // Código QR que se presenta en recepción para registrar la asistencia
+  const handleVerQr = async (item: ProximaActividad) => {
+    try {
+      const codigo = await obtenerCodigoAsistencia(item.tipo === "reserva" ? "reservas" : "turnos", item.id);
+      const imagen = await QRCode.toDataURL(codigo, { width: 256, margin: 1 });
+      setQr({ titulo: nombreDe(item.personaId), imagen });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo generar el código QR");
+    }
+  };
+
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+        <h1 className="text-2xl font-bold">Mi familia</h1>
+
+        {isLoading ? (
+          <p>Cargando...</p>
+        ) : (
+          <>
+            <section className="bg-white p-6 rounded-lg shadow-md">
+              <h2 className="text-lg font-semibold mb-4">¿Para quién reservás?</h2>
+              <div className="flex flex-wrap gap-2">
+                {personas.map((persona) => {
+                  const activa = (personaActiva || usuarioId) === persona.id;
+                  return (
+                    <button
+                      key={persona.id}
+                      onClick={() => handleCambiarPersona(persona.id)}
+                      className={`px-4 py-2 rounded-md border transition-colors ${
+                        activa ? "bg-blue-600 text-white border-blue-600" : "bg-white hover:bg-gray-100"
+                      }`}
+                    >
+                      {persona.esDependiente ? persona.nombre : `${persona.nombre} (yo)`}
+                    </button>
+                  );
+                })}
+              </div>
+            </section>
+
+            <section className="bg-white p-6 rounded-lg shadow-md">
+              <h2 className="text-lg font-semibold mb-4">Próximas reservas y turnos</h2>
+              {proximas.length === 0 ? (
+                <p className="text-gray-500">No hay reservas ni turnos próximos.</p>
+              ) : (
+                <ul className="divide-y">
+                  {proximas.map((item) => (
+                    <li key={`${item.tipo}_${item.id}`} className="py-2 flex justify-between">
+                      <span>
+                        <span className="font-medium">{nombreDe(item.personaId)}</span>
+                        {" — "}
+                        {item.tipo === "reserva" ? "Clase" : "Turno"}{" "}
+                        {item.fecha.toLocaleString("es-AR", {
+                          weekday: "short",
+                          day: "numeric",
+                          month: "short",
+                          hour: "2-digit",
+                          minute: "2-digit"
+                        })}
+                      </span>
+                      <span className="flex items-center gap-3">
+                        <span className="text-sm text-gray-500">{item.estado}</span>
+                        {["confirmada", "confirmado"].includes(item.estado) && (
+                          <button
+                            onClick={() => handleVerQr(item)}
+                            className="text-sm text-blue-600 hover:underline"
+                          >
+                            Ver QR
+                          </button>
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <section className="bg-white p-6 rounded-lg shadow-md">
+              <h2 className="text-lg font-semibold mb-4">Agregar persona a cargo</h2>
+              <form onSubmit={handleCrearDependiente} className="space-y-3">
+                <input
+                  type="text"
+                  placeholder="Nombre y apellido"
+                  value={nombre}
+                  onChange={(e) => setNombre(e.target.value)}
+                  required
+                  className="w-full px-3 py-2 border rounded-md"
+                />
+                <input
+                  type="date"
+                  value={fechaNacimiento}
+                  onChange={(e) => setFechaNacimiento(e.target.value)}
+                  required
+                  className="w-full px-3 py-2 border rounded-md"
+                />
+                <input
+                  type="text"
+                  placeholder="DNI (opcional)"
+                  value={dni}
+                  onChange={(e) => setDni(e.target.value)}
+                  className="w-full px-3 py-2 border rounded-md"
+                />
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  {isSaving ? "Guardando..." : "Agregar"}
+                </button>
+              </form>
+            </section>
+          </>
+        )}
+      </div>
+
+      {qr && (
+        <div
+          className="fixed inset-0 bg-black/50 flex items-center justify-center"
+          onClick={() => setQr(null)}
+        >
+          <div className="bg-white p-6 rounded-lg shadow-md text-center">
+            <p className="font-semibold mb-2">{qr.titulo}</p>
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={qr.imagen} alt="Código QR de asistencia" className="mx-auto" />
+            <p className="text-sm text-gray-500 mt-2">Mostralo en recepción al llegar</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
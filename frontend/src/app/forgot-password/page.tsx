@@ -0,0 +1,69 @@
+"use client";
+import Link from "next/link";
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import Navbar from "@/components/shared/Navbar";
+import { enviarRecuperacionContrasena } from "@/lib/firebase/auth";
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState("");
+  const [enviado, setEnviado] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      const { success, error } = await enviarRecuperacionContrasena(email.trim());
+      if (success) {
+        setEnviado(true);
+      } else {
+        toast.error(error || "No se pudo enviar el email");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar showLogin={false} />
+
+      <div className="container mx-auto px-4 py-8 flex justify-center">
+        <div className="w-full max-w-md bg-white p-8 rounded-lg shadow-md mt-12 space-y-4">
+          <h1 className="text-2xl font-bold text-center">Recuperar contraseña</h1>
+
+          {enviado ? (
+            <p className="text-gray-600 text-center">
+              Si <strong>{email.trim()}</strong> tiene una cuenta, te enviamos un enlace para elegir una contraseña nueva.
+            </p>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-3">
+              <p className="text-sm text-gray-600">Ingresá el email de tu cuenta y te enviaremos un enlace para restablecerla.</p>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="Email"
+                autoComplete="email"
+                required
+                className="w-full px-3 py-2 border rounded-md"
+              />
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {isLoading ? "Enviando..." : "Enviar enlace"}
+              </button>
+            </form>
+          )}
+
+          <p className="text-center text-sm">
+            <Link href="/login" className="text-blue-600 hover:underline">Volver a iniciar sesión</Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -44,8 +44,9 @@ export default function RootLayout({
       </head>
       
       <body className="min-h-screen bg-gray-50 dark:bg-gray-900 transition-colors duration-300">
-        <ClientProviders />
-                {children}
+        <ClientProviders>
+          {children}
+        </ClientProviders>
       </body>
     </html>
   );
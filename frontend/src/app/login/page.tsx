@@ -1,5 +1,6 @@
 "use client";
-import { signInWithGoogle } from "@/lib/firebase/auth"; // Importación corregida
+import { signInWithEmail, signInWithGoogle } from "@/lib/firebase/auth"; // Importación corregida
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { useState } from "react";
 import { toast } from "react-hot-toast";
@@ -8,6 +9,14 @@ import Navbar from "@/components/shared/Navbar";
 export default function LoginPage() {
   const router = useRouter();
   const [isLoading, setIsLoading] = useState(false);
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+
+  // Vuelve a la página protegida desde la que se redirigió (ver paginaProtegida en las funciones)
+  const irAlDestino = () => {
+    const redirect = new URLSearchParams(window.location.search).get("redirect");
+    router.push(redirect?.startsWith("/") && !redirect.startsWith("//") ? redirect : "/dashboard");
+  };
 
   const handleLogin = async () => {
     setIsLoading(true);
@@ -16,7 +25,30 @@ export default function LoginPage() {
       
       if (success && user) {
         toast.success("Inicio de sesión exitoso");
-        router.push("/dashboard");
+        irAlDestino();
+      } else {
+        toast.error(error || "Error al iniciar sesión");
+      }
+    } catch (error) {
+      toast.error("Error inesperado al iniciar sesión");
+      console.error("Login error:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleEmailLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      const { success, user, error, code } = await signInWithEmail(email.trim(), password);
+
+      if (success && user) {
+        toast.success("Inicio de sesión exitoso");
+        irAlDestino();
+      } else if (code === "auth/email-not-verified") {
+        toast.error(error || "Verificá tu email antes de ingresar");
+        router.push("/verificar-email");
       } else {
         toast.error(error || "Error al iniciar sesión");
       }
@@ -35,7 +67,41 @@ export default function LoginPage() {
       <div className="container mx-auto px-4 py-8 flex justify-center">
         <div className="w-full max-w-md bg-white p-8 rounded-lg shadow-md mt-12">
           <h1 className="text-2xl font-bold text-center mb-6">Iniciar Sesión</h1>
-          
+
+          <form onSubmit={handleEmailLogin} className="space-y-3 mb-6">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email"
+              autoComplete="email"
+              required
+              className="w-full px-3 py-2 border rounded-md"
+            />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Contraseña"
+              autoComplete="current-password"
+              required
+              className="w-full px-3 py-2 border rounded-md"
+            />
+            <button
+              type="submit"
+              disabled={isLoading}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Ingresar
+            </button>
+            <div className="flex justify-between text-sm">
+              <Link href="/forgot-password" className="text-blue-600 hover:underline">¿Olvidaste tu contraseña?</Link>
+              <Link href="/register" className="text-blue-600 hover:underline">Crear cuenta</Link>
+            </div>
+          </form>
+
+          <p className="text-center text-sm text-gray-500 mb-3">o</p>
+
           <button
             onClick={handleLogin}
             disabled={isLoading}
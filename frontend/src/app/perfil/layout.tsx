@@ -0,0 +1,7 @@
+"use client";
+import RequireRole from "@/components/auth/RequireRole";
+
+// Perfil del usuario: requiere haber iniciado sesión.
+export default function PerfilLayout({ children }: { children: React.ReactNode }) {
+  return <RequireRole>{children}</RequireRole>;
+}
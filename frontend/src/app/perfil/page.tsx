@@ -0,0 +1,156 @@
+"use client";
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "react-hot-toast";
+import Navbar from "@/components/shared/Navbar";
+import CambioContrasena from "@/components/perfil/CambioContrasena";
+import { useAuth } from "@/components/auth/AuthProvider";
+import {
+  generarFeedCalendario,
+  obtenerTokenCalendario,
+  revocarFeedCalendario,
+  urlCalendario
+} from "@/lib/firebase/calendario";
+
+export default function PerfilPage() {
+  const { user, usuario: perfil } = useAuth();
+  const [token, setToken] = useState<string | null | undefined>(undefined); // undefined = cargando
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    obtenerTokenCalendario(user.uid)
+      .then(setToken)
+      .catch((error) => {
+        console.error("Calendario error:", error);
+        setToken(null);
+      });
+  }, [user]);
+
+  const handleGenerar = async () => {
+    if (token && !window.confirm("La dirección actual dejará de funcionar en los calendarios donde la agregaste. ¿Continuar?")) {
+      return;
+    }
+    setIsSaving(true);
+    try {
+      setToken(await generarFeedCalendario());
+      toast.success("Dirección de calendario generada");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo generar la dirección");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRevocar = async () => {
+    if (!window.confirm("Los calendarios suscriptos dejarán de mostrar tus reservas. ¿Revocar?")) return;
+    setIsSaving(true);
+    try {
+      await revocarFeedCalendario();
+      setToken(null);
+      toast.success("Dirección revocada");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo revocar la dirección");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCopiar = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Dirección copiada");
+    } catch {
+      toast.error("No se pudo copiar; seleccioná el texto y copialo a mano");
+    }
+  };
+
+  const url = token ? urlCalendario(token) : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-8 max-w-2xl space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Mi perfil</h1>
+          <Link href="/dashboard" className="text-blue-600 hover:underline">Volver a mis reservas</Link>
+        </div>
+
+        <section className="bg-white p-6 rounded-lg shadow-md">
+          <h2 className="text-lg font-semibold mb-2">Mis datos</h2>
+          <dl className="grid grid-cols-3 gap-2 text-sm">
+            <dt className="text-gray-600">Nombre</dt>
+            <dd className="col-span-2">{perfil?.nombre || "—"}</dd>
+            <dt className="text-gray-600">Email</dt>
+            <dd className="col-span-2">{perfil?.email || user?.email || "—"}</dd>
+            <dt className="text-gray-600">DNI</dt>
+            <dd className="col-span-2">{perfil?.dni || "—"}</dd>
+          </dl>
+        </section>
+
+        {user?.providerData.some((proveedor) => proveedor.providerId === "password") && <CambioContrasena />}
+
+        <section className="bg-white p-6 rounded-lg shadow-md space-y-3">
+          <h2 className="text-lg font-semibold">Calendario</h2>
+          <p className="text-sm text-gray-600">
+            {perfil?.tipo === "profesional"
+              ? "Suscribite desde Google Calendar, Apple Calendar u Outlook para ver tu agenda: clases, turnos y horarios bloqueados."
+              : "Suscribite desde Google Calendar, Apple Calendar u Outlook para ver tus reservas y turnos (y los de tus personas a cargo)."}
+            {" "}Las cancelaciones aparecen como eventos cancelados. Esta dirección es privada: no la compartas.
+          </p>
+
+          {token === undefined ? (
+            <p>Cargando...</p>
+          ) : url ? (
+            <>
+              <input
+                type="text"
+                readOnly
+                value={url}
+                onFocus={(e) => e.target.select()}
+                className="w-full px-3 py-2 border rounded-md text-sm bg-gray-50"
+              />
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => handleCopiar(url)}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+                >
+                  Copiar dirección
+                </button>
+                <a
+                  href={url.replace(/^https?:/, "webcal:")}
+                  className="px-4 py-2 border rounded-md hover:bg-gray-100"
+                >
+                  Abrir en mi calendario
+                </a>
+                <button
+                  onClick={handleGenerar}
+                  disabled={isSaving}
+                  className="px-4 py-2 border rounded-md hover:bg-gray-100 disabled:opacity-50"
+                >
+                  Generar una nueva
+                </button>
+                <button
+                  onClick={handleRevocar}
+                  disabled={isSaving}
+                  className="px-4 py-2 text-red-600 border border-red-200 rounded-md hover:bg-red-50 disabled:opacity-50"
+                >
+                  Revocar
+                </button>
+              </div>
+            </>
+          ) : (
+            <button
+              onClick={handleGenerar}
+              disabled={isSaving || !user}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {isSaving ? "Generando..." : "Generar dirección de calendario"}
+            </button>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
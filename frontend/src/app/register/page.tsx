@@ -0,0 +1,138 @@
+"use client";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import Navbar from "@/components/shared/Navbar";
+import { createUser } from "@/lib/firebase/auth";
+
+interface DatosRegistro {
+  nombre: string;
+  email: string;
+  telefono: string;
+  edad: string;
+  password: string;
+  confirmacion: string;
+}
+
+// Mínimo que exige Firebase Auth (ver "auth/weak-password")
+const MIN_LARGO_PASSWORD = 6;
+
+/**
+ * Devuelve los errores del formulario de registro (vacío si es válido).
+ */
+const validarRegistro = (datos: DatosRegistro): string[] => {
+  const errores: string[] = [];
+  if (!datos.nombre.trim()) errores.push("Ingresá tu nombre.");
+  if (!datos.email.trim()) errores.push("Ingresá tu email.");
+  const edad = Number(datos.edad);
+  if (!Number.isInteger(edad) || edad < 1 || edad > 120) errores.push("Ingresá una edad válida.");
+  if (datos.password.length < MIN_LARGO_PASSWORD) {
+    errores.push(`La contraseña debe tener al menos ${MIN_LARGO_PASSWORD} caracteres.`);
+  }
+  if (datos.password !== datos.confirmacion) errores.push("Las contraseñas no coinciden.");
+  return errores;
+};
+
+export default function RegisterPage() {
+  const router = useRouter();
+  const [datos, setDatos] = useState<DatosRegistro>({
+    nombre: "",
+    email: "",
+    telefono: "",
+    edad: "",
+    password: "",
+    confirmacion: ""
+  });
+  const [errores, setErrores] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const campo = (clave: keyof DatosRegistro) => ({
+    value: datos[clave],
+    onChange: (e: React.ChangeEvent<HTMLInputElement>) => setDatos({ ...datos, [clave]: e.target.value }),
+    className: "mt-1 w-full px-3 py-2 border rounded-md"
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const encontrados = validarRegistro(datos);
+    setErrores(encontrados);
+    if (encontrados.length > 0) return;
+
+    setIsLoading(true);
+    try {
+      const { success, error } = await createUser(
+        datos.email.trim(),
+        datos.password,
+        datos.nombre.trim(),
+        datos.telefono.trim(),
+        Number(datos.edad)
+      );
+      if (success) {
+        toast.success("Cuenta creada. Te enviamos un email para verificar tu dirección");
+        router.push("/verificar-email");
+      } else {
+        toast.error(error || "No se pudo crear la cuenta");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar showLogin={false} />
+
+      <div className="container mx-auto px-4 py-8 flex justify-center">
+        <form onSubmit={handleSubmit} className="w-full max-w-md bg-white p-8 rounded-lg shadow-md mt-12 space-y-3">
+          <h1 className="text-2xl font-bold text-center mb-3">Crear cuenta</h1>
+
+          <label className="text-sm block">
+            Nombre y apellido
+            <input type="text" autoComplete="name" {...campo("nombre")} />
+          </label>
+          <label className="text-sm block">
+            Email
+            <input type="email" autoComplete="email" {...campo("email")} />
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm block">
+              Teléfono
+              <input type="tel" autoComplete="tel" {...campo("telefono")} />
+            </label>
+            <label className="text-sm block">
+              Edad
+              <input type="number" min={1} max={120} {...campo("edad")} />
+            </label>
+          </div>
+          <label className="text-sm block">
+            Contraseña
+            <input type="password" autoComplete="new-password" {...campo("password")} />
+          </label>
+          <label className="text-sm block">
+            Repetir contraseña
+            <input type="password" autoComplete="new-password" {...campo("confirmacion")} />
+          </label>
+
+          {errores.length > 0 && (
+            <ul className="text-sm text-red-700 list-disc pl-5">
+              {errores.map((error) => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          <button
+            type="submit"
+            disabled={isLoading}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isLoading ? "Creando cuenta..." : "Crear cuenta"}
+          </button>
+
+          <p className="text-center text-sm">
+            ¿Ya tenés cuenta? <Link href="/login" className="text-blue-600 hover:underline">Iniciá sesión</Link>
+          </p>
+        </form>
+      </div>
+    </div>
+  );
+}
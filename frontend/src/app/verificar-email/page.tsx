@@ -0,0 +1,89 @@
+"use client";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
+import Navbar from "@/components/shared/Navbar";
+import { confirmarVerificacion, reenviarVerificacion } from "@/lib/firebase/auth";
+
+// Cuenta registrada con email y contraseña que todavía no verificó su dirección
+export default function VerificarEmailPage() {
+  const router = useRouter();
+  const { user, isLoading: cargandoUsuario } = useAuth();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleReenviar = async () => {
+    setIsLoading(true);
+    try {
+      const { success, error } = await reenviarVerificacion();
+      if (success) {
+        toast.success("Te reenviamos el email de verificación");
+      } else {
+        toast.error(error || "No se pudo reenviar el email");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirmar = async () => {
+    setIsLoading(true);
+    try {
+      const { success, error, code } = await confirmarVerificacion();
+      if (success) {
+        toast.success("Email verificado");
+        router.push("/dashboard");
+      } else if (code === "auth/email-not-verified") {
+        toast.error("Todavía no abriste el enlace que te enviamos");
+      } else {
+        // Si el inicio de sesión ya no es reciente hay que volver a ingresar
+        toast.error(error || "No se pudo confirmar la verificación");
+        router.push("/login");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar showLogin={false} />
+
+      <div className="container mx-auto px-4 py-8 flex justify-center">
+        <div className="w-full max-w-md bg-white p-8 rounded-lg shadow-md mt-12 space-y-4 text-center">
+          <h1 className="text-2xl font-bold">Verificá tu email</h1>
+
+          {cargandoUsuario ? (
+            <p>Cargando...</p>
+          ) : user ? (
+            <>
+              <p className="text-gray-600">
+                Te enviamos un enlace a <strong>{user.email}</strong>. Abrilo para activar tu cuenta y después volvé a esta página.
+              </p>
+              <button
+                onClick={handleConfirmar}
+                disabled={isLoading}
+                className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                Ya verifiqué mi email
+              </button>
+              <button
+                onClick={handleReenviar}
+                disabled={isLoading}
+                className="w-full px-4 py-2 border rounded-md hover:bg-gray-100 disabled:opacity-50"
+              >
+                Reenviar el email
+              </button>
+            </>
+          ) : (
+            <p className="text-gray-600">
+              Abrí el enlace que te enviamos por email y después{" "}
+              <Link href="/login" className="text-blue-600 hover:underline">iniciá sesión</Link>.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
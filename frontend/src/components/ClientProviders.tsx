@@ -2,8 +2,9 @@
 "use client";
 import { Toaster } from "react-hot-toast";
 import { useEffect } from "react";
+import AuthProvider from "@/components/auth/AuthProvider";
 
-export default function ClientProviders() {
+export default function ClientProviders({ children }: { children: React.ReactNode }) {
   useEffect(() => {
     if (process.env.NODE_ENV === 'production') {
       import("@/services/analytics").then(({ initAnalytics, logEvent }) => {
@@ -17,19 +18,22 @@ export default function ClientProviders() {
   }, []);
 
   return (
-    <Toaster
-      position="top-right"
-      toastOptions={{
-        className: 'font-sans text-sm',
-        success: {
-          duration: 3000,
-          iconTheme: { primary: '#3b82f6', secondary: '#fff' }
-        },
-        error: {
-          duration: 5000,
-          iconTheme: { primary: '#ef4444', secondary: '#fff' }
-        }
-      }}
-    />
+    <AuthProvider>
+      <Toaster
+        position="top-right"
+        toastOptions={{
+          className: 'font-sans text-sm',
+          success: {
+            duration: 3000,
+            iconTheme: { primary: '#3b82f6', secondary: '#fff' }
+          },
+          error: {
+            duration: 5000,
+            iconTheme: { primary: '#ef4444', secondary: '#fff' }
+          }
+        }}
+      />
+      {children}
+    </AuthProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,61 @@
+"use client";
+import { PoliticaCancelacion } from "@/lib/firebase/catalogo";
+
+// Campos de la política con su texto de ayuda; vacío = valor por defecto del servidor
+const CAMPOS: { clave: keyof PoliticaCancelacion; titulo: string; ayuda: string }[] = [
+  { clave: "horasLimite", titulo: "Horas límite para cancelar", ayuda: "Por defecto 12" },
+  { clave: "cargoCancelacionTardia", titulo: "Cargo por cancelación tardía ($)", ayuda: "Por defecto 0" },
+  { clave: "cargoAusencia", titulo: "Cargo por ausencia ($)", ayuda: "Por defecto 0" },
+  { clave: "maxAusencias", titulo: "Ausencias que bloquean reservas", ayuda: "0 = sin límite" },
+  { clave: "diasVentanaAusencias", titulo: "Días en que se cuentan las ausencias", ayuda: "Por defecto 30" }
+];
+
+/**
+ * Devuelve los errores de una política de cancelación (vacío si es válida).
+ */
+export const validarPolitica = (politica: PoliticaCancelacion): string[] => {
+  return CAMPOS
+    .filter(({ clave }) => {
+      const valor = politica[clave];
+      return valor != null && (!Number.isFinite(valor) || valor < 0);
+    })
+    .map(({ titulo }) => `"${titulo}" debe ser un número mayor o igual a 0.`);
+};
+
+interface CamposPoliticaProps {
+  politica: PoliticaCancelacion;
+  onChange: (politica: PoliticaCancelacion) => void;
+}
+
+export default function CamposPolitica({ politica, onChange }: CamposPoliticaProps) {
+  const cambiar = (clave: keyof PoliticaCancelacion, valor: string) => {
+    const nueva = { ...politica };
+    if (valor === "") {
+      delete nueva[clave];
+    } else {
+      nueva[clave] = Number(valor);
+    }
+    onChange(nueva);
+  };
+
+  return (
+    <fieldset className="border rounded-md p-4">
+      <legend className="px-1 text-sm font-medium">Política de cancelación y asistencia</legend>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {CAMPOS.map(({ clave, titulo, ayuda }) => (
+          <label key={clave} className="text-sm">
+            {titulo}
+            <input
+              type="number"
+              min={0}
+              value={politica[clave] ?? ""}
+              placeholder={ayuda}
+              onChange={(e) => cambiar(clave, e.target.value)}
+              className="mt-1 w-full px-3 py-2 border rounded-md"
+            />
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  );
+}
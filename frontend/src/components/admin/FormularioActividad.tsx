@@ -0,0 +1,274 @@
+"use client";
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import CamposPolitica, { validarPolitica } from "@/components/admin/CamposPolitica";
+import { Actividad, DatosActividad, ReglaHorario, guardarActividad } from "@/lib/firebase/catalogo";
+import { UsuarioResumen } from "@/lib/firebase/usuarios";
+
+const DIAS = ["Dom", "Lun", "Mar", "Mié", "Jue", "Vie", "Sáb"];
+const FORMATO_FECHA = /^\d{4}-\d{2}-\d{2}$/;
+
+const reglaVacia = (): ReglaHorario => ({
+  dias: [],
+  horaInicio: "",
+  duracionMinutos: 60,
+  vigenciaDesde: new Date().toISOString().slice(0, 10),
+  vigenciaHasta: null,
+  excepciones: []
+});
+
+/**
+ * Devuelve los errores de una actividad (vacío si es válida). Replica las validaciones
+ * de las reglas de Firestore y de validarReglaHorario en las funciones.
+ */
+export const validarActividad = (datos: DatosActividad): string[] => {
+  const errores: string[] = [];
+  if (!datos.nombre.trim() || datos.nombre.length > 100) {
+    errores.push("El nombre es obligatorio (hasta 100 caracteres).");
+  }
+  if (!Number.isInteger(datos.cupo) || datos.cupo < 1) {
+    errores.push("El cupo debe ser un entero mayor a 0.");
+  }
+  if (!Number.isFinite(datos.precio) || datos.precio < 0) {
+    errores.push("El precio no puede ser negativo.");
+  }
+  datos.horarios.forEach((regla, i) => {
+    const n = i + 1;
+    if (regla.dias.length === 0) errores.push(`Horario ${n}: elegí al menos un día.`);
+    if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(regla.horaInicio)) errores.push(`Horario ${n}: la hora de inicio no es válida.`);
+    if (!Number.isInteger(regla.duracionMinutos) || regla.duracionMinutos <= 0) {
+      errores.push(`Horario ${n}: la duración debe ser un entero positivo.`);
+    }
+    if (!FORMATO_FECHA.test(regla.vigenciaDesde)) errores.push(`Horario ${n}: indicá desde cuándo rige.`);
+    if (regla.vigenciaHasta && regla.vigenciaHasta < regla.vigenciaDesde) {
+      errores.push(`Horario ${n}: la vigencia termina antes de empezar.`);
+    }
+    if (regla.excepciones?.some((fecha) => !FORMATO_FECHA.test(fecha))) {
+      errores.push(`Horario ${n}: las excepciones deben ser fechas AAAA-MM-DD separadas por comas.`);
+    }
+  });
+  return [...errores, ...validarPolitica(datos.politicaCancelacion)];
+};
+
+interface FormularioActividadProps {
+  actividad: Actividad | null; // null = nueva
+  profesionales: UsuarioResumen[];
+  onGuardada: () => void;
+  onCancelar: () => void;
+}
+
+export default function FormularioActividad({ actividad, profesionales, onGuardada, onCancelar }: FormularioActividadProps) {
+  const [datos, setDatos] = useState<DatosActividad>({
+    nombre: actividad?.nombre || "",
+    descripcion: actividad?.descripcion || "",
+    cupo: actividad?.cupo || 10,
+    precio: actividad?.precio || 0,
+    profesorId: actividad?.profesorId || null,
+    horarios: actividad?.horarios || [],
+    politicaCancelacion: actividad?.politicaCancelacion || {}
+  });
+  const [errores, setErrores] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const cambiarRegla = (indice: number, cambios: Partial<ReglaHorario>) => {
+    setDatos({
+      ...datos,
+      horarios: datos.horarios.map((regla, i) => (i === indice ? { ...regla, ...cambios } : regla))
+    });
+  };
+
+  const alternarDia = (indice: number, dia: number) => {
+    const dias = datos.horarios[indice].dias;
+    cambiarRegla(indice, {
+      dias: dias.includes(dia) ? dias.filter((d) => d !== dia) : [...dias, dia].sort((a, b) => a - b)
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const normalizados = {
+      ...datos,
+      nombre: datos.nombre.trim(),
+      horarios: datos.horarios.map((regla) => ({ ...regla, excepciones: (regla.excepciones || []).filter(Boolean) }))
+    };
+    const encontrados = validarActividad(normalizados);
+    setErrores(encontrados);
+    if (encontrados.length > 0) return;
+
+    setIsSaving(true);
+    try {
+      await guardarActividad(actividad?.id || null, normalizados);
+      toast.success(actividad ? "Actividad actualizada" : "Actividad creada");
+      onGuardada();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo guardar la actividad");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg shadow-md space-y-4">
+      <h2 className="text-lg font-semibold">{actividad ? `Editar ${actividad.nombre}` : "Nueva actividad"}</h2>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="text-sm">
+          Nombre
+          <input
+            type="text"
+            value={datos.nombre}
+            onChange={(e) => setDatos({ ...datos, nombre: e.target.value })}
+            className="mt-1 w-full px-3 py-2 border rounded-md"
+          />
+        </label>
+        <label className="text-sm">
+          Profesor
+          <select
+            value={datos.profesorId || ""}
+            onChange={(e) => setDatos({ ...datos, profesorId: e.target.value || null })}
+            className="mt-1 w-full px-3 py-2 border rounded-md"
+          >
+            <option value="">Sin asignar</option>
+            {profesionales.map((p) => (
+              <option key={p.id} value={p.id}>{p.nombre}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm">
+          Cupo por clase
+          <input
+            type="number"
+            min={1}
+            value={datos.cupo}
+            onChange={(e) => setDatos({ ...datos, cupo: Number(e.target.value) })}
+            className="mt-1 w-full px-3 py-2 border rounded-md"
+          />
+        </label>
+        <label className="text-sm">
+          Precio por clase ($)
+          <input
+            type="number"
+            min={0}
+            value={datos.precio}
+            onChange={(e) => setDatos({ ...datos, precio: Number(e.target.value) })}
+            className="mt-1 w-full px-3 py-2 border rounded-md"
+          />
+        </label>
+      </div>
+
+      <label className="text-sm block">
+        Descripción
+        <textarea
+          value={datos.descripcion}
+          onChange={(e) => setDatos({ ...datos, descripcion: e.target.value })}
+          rows={2}
+          className="mt-1 w-full px-3 py-2 border rounded-md"
+        />
+      </label>
+
+      <fieldset className="border rounded-md p-4 space-y-4">
+        <legend className="px-1 text-sm font-medium">Horarios semanales</legend>
+        {datos.horarios.map((regla, i) => (
+          <div key={i} className="border-b pb-4 space-y-2">
+            <div className="flex flex-wrap gap-2">
+              {DIAS.map((nombre, dia) => (
+                <label key={dia} className="text-sm flex items-center gap-1">
+                  <input type="checkbox" checked={regla.dias.includes(dia)} onChange={() => alternarDia(i, dia)} />
+                  {nombre}
+                </label>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              <label className="text-sm">
+                Hora
+                <input
+                  type="time"
+                  value={regla.horaInicio}
+                  onChange={(e) => cambiarRegla(i, { horaInicio: e.target.value })}
+                  className="mt-1 w-full px-2 py-1 border rounded-md"
+                />
+              </label>
+              <label className="text-sm">
+                Duración (min)
+                <input
+                  type="number"
+                  min={1}
+                  value={regla.duracionMinutos}
+                  onChange={(e) => cambiarRegla(i, { duracionMinutos: Number(e.target.value) })}
+                  className="mt-1 w-full px-2 py-1 border rounded-md"
+                />
+              </label>
+              <label className="text-sm">
+                Desde
+                <input
+                  type="date"
+                  value={regla.vigenciaDesde}
+                  onChange={(e) => cambiarRegla(i, { vigenciaDesde: e.target.value })}
+                  className="mt-1 w-full px-2 py-1 border rounded-md"
+                />
+              </label>
+              <label className="text-sm">
+                Hasta (opcional)
+                <input
+                  type="date"
+                  value={regla.vigenciaHasta || ""}
+                  onChange={(e) => cambiarRegla(i, { vigenciaHasta: e.target.value || null })}
+                  className="mt-1 w-full px-2 py-1 border rounded-md"
+                />
+              </label>
+            </div>
+            <label className="text-sm block">
+              Sin clase (feriados, AAAA-MM-DD separadas por comas)
+              <input
+                type="text"
+                value={(regla.excepciones || []).join(", ")}
+                onChange={(e) => cambiarRegla(i, {
+                  excepciones: e.target.value.split(",").map((f) => f.trim())
+                })}
+                className="mt-1 w-full px-2 py-1 border rounded-md"
+              />
+            </label>
+            <button
+              type="button"
+              onClick={() => setDatos({ ...datos, horarios: datos.horarios.filter((_, j) => j !== i) })}
+              className="text-sm text-red-600 hover:underline"
+            >
+              Quitar horario
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setDatos({ ...datos, horarios: [...datos.horarios, reglaVacia()] })}
+          className="text-sm text-blue-600 hover:underline"
+        >
+          Agregar horario
+        </button>
+      </fieldset>
+
+      <CamposPolitica
+        politica={datos.politicaCancelacion}
+        onChange={(politicaCancelacion) => setDatos({ ...datos, politicaCancelacion })}
+      />
+
+      {errores.length > 0 && (
+        <ul className="text-sm text-red-700 list-disc pl-5">
+          {errores.map((error) => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <div className="flex gap-2 justify-end">
+        <button type="button" onClick={onCancelar} className="px-4 py-2 border rounded-md hover:bg-gray-100">
+          Cancelar
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isSaving ? "Guardando..." : "Guardar"}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,309 @@
+"use client";
+import { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import { Terapia } from "@/lib/firebase/catalogo";
+import {
+  Consentimiento,
+  Cuestionario,
+  Pregunta,
+  TipoPregunta,
+  cambiarEstadoCuestionario,
+  obtenerCuestionario,
+  publicarCuestionario
+} from "@/lib/firebase/ingreso";
+
+// Pregunta tal como se edita: las opciones se escriben una por línea
+interface PreguntaEditable extends Omit<Pregunta, "opciones"> {
+  opcionesTexto: string;
+}
+
+const TIPOS: { valor: TipoPregunta; titulo: string }[] = [
+  { valor: "texto", titulo: "Texto libre" },
+  { valor: "opcion", titulo: "Opciones" },
+  { valor: "escala", titulo: "Escala" }
+];
+
+const aEditable = (pregunta: Pregunta): PreguntaEditable => ({
+  ...pregunta,
+  opcionesTexto: (pregunta.opciones || []).join("\n")
+});
+
+const aPregunta = (editable: PreguntaEditable): Pregunta => {
+  const base = {
+    id: editable.id,
+    tipo: editable.tipo,
+    enunciado: editable.enunciado.trim(),
+    obligatoria: editable.obligatoria
+  };
+  if (editable.tipo === "opcion") {
+    const opciones = editable.opcionesTexto.split("\n").map((o) => o.trim()).filter(Boolean);
+    return { ...base, opciones, multiple: Boolean(editable.multiple) };
+  }
+  if (editable.tipo === "escala") return { ...base, min: editable.min ?? 1, max: editable.max ?? 5 };
+  return base;
+};
+
+/**
+ * Devuelve los errores de un cuestionario (vacío si es válido). Replica las validaciones
+ * de publicarCuestionario en las funciones.
+ */
+export const validarCuestionario = (preguntas: Pregunta[], consentimiento: Consentimiento): string[] => {
+  const errores: string[] = [];
+  if (preguntas.length === 0) errores.push("Agregá al menos una pregunta.");
+  preguntas.forEach((pregunta, i) => {
+    const n = i + 1;
+    if (!pregunta.enunciado || pregunta.enunciado.length > 500) {
+      errores.push(`La pregunta ${n} no tiene enunciado.`);
+    }
+    if (pregunta.tipo === "opcion" && ((pregunta.opciones?.length ?? 0) < 2 || (pregunta.opciones?.length ?? 0) > 20)) {
+      errores.push(`La pregunta ${n} debe tener entre 2 y 20 opciones.`);
+    }
+    if (
+      pregunta.tipo === "escala" &&
+      (!Number.isInteger(pregunta.min) || !Number.isInteger(pregunta.max) ||
+        (pregunta.min as number) >= (pregunta.max as number) || (pregunta.max as number) - (pregunta.min as number) > 10)
+    ) {
+      errores.push(`La escala de la pregunta ${n} no es válida (hasta 10 pasos).`);
+    }
+  });
+  if (!consentimiento.titulo.trim() || !consentimiento.texto.trim()) {
+    errores.push("El consentimiento informado debe tener título y texto.");
+  }
+  return errores;
+};
+
+interface FormularioCuestionarioProps {
+  terapia: Terapia;
+  onCerrar: () => void;
+}
+
+/**
+ * Editor del cuestionario de ingreso y consentimiento de una terapia. Cada publicación crea una
+ * versión nueva; las respuestas ya enviadas conservan la versión que se respondió.
+ */
+export default function FormularioCuestionario({ terapia, onCerrar }: FormularioCuestionarioProps) {
+  const [actual, setActual] = useState<Cuestionario | null | undefined>(undefined); // undefined = cargando
+  const [preguntas, setPreguntas] = useState<PreguntaEditable[]>([]);
+  const [consentimiento, setConsentimiento] = useState<Consentimiento>({ titulo: "Consentimiento informado", texto: "" });
+  const [errores, setErrores] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    obtenerCuestionario(terapia.id)
+      .then((cuestionario) => {
+        setActual(cuestionario);
+        if (cuestionario) {
+          setPreguntas(cuestionario.preguntas.map(aEditable));
+          setConsentimiento(cuestionario.consentimiento);
+        }
+      })
+      .catch((error) => {
+        toast.error(error instanceof Error ? error.message : "No se pudo cargar el cuestionario");
+        setActual(null);
+      });
+  }, [terapia.id]);
+
+  const agregarPregunta = () => {
+    // Los IDs no se reutilizan para que las respuestas de distintas versiones no se mezclen
+    const siguiente = preguntas.reduce((maximo, p) => Math.max(maximo, Number(p.id.slice(1)) || 0), 0) + 1;
+    setPreguntas([...preguntas, { id: `p${siguiente}`, tipo: "texto", enunciado: "", obligatoria: true, opcionesTexto: "" }]);
+  };
+
+  const cambiarPregunta = (indice: number, cambios: Partial<PreguntaEditable>) =>
+    setPreguntas(preguntas.map((p, i) => (i === indice ? { ...p, ...cambios } : p)));
+
+  const moverPregunta = (indice: number, sentido: number) => {
+    const destino = indice + sentido;
+    if (destino < 0 || destino >= preguntas.length) return;
+    const reordenadas = [...preguntas];
+    [reordenadas[indice], reordenadas[destino]] = [reordenadas[destino], reordenadas[indice]];
+    setPreguntas(reordenadas);
+  };
+
+  const handlePublicar = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const normalizadas = preguntas.map(aPregunta);
+    const normalizado = { titulo: consentimiento.titulo.trim(), texto: consentimiento.texto.trim() };
+    const encontrados = validarCuestionario(normalizadas, normalizado);
+    setErrores(encontrados);
+    if (encontrados.length > 0) return;
+
+    setIsSaving(true);
+    try {
+      const version = await publicarCuestionario(terapia.id, normalizadas, normalizado);
+      toast.success(`Versión ${version} publicada`);
+      onCerrar();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo publicar el cuestionario");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleActivo = async () => {
+    if (!actual) return;
+    try {
+      await cambiarEstadoCuestionario(terapia.id, !actual.activo);
+      setActual({ ...actual, activo: !actual.activo });
+      toast.success(actual.activo ? "Cuestionario desactivado" : "Cuestionario activado");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo actualizar el cuestionario");
+    }
+  };
+
+  if (actual === undefined) {
+    return <div className="bg-white p-6 rounded-lg shadow-md">Cargando...</div>;
+  }
+
+  return (
+    <form onSubmit={handlePublicar} className="bg-white p-6 rounded-lg shadow-md space-y-4">
+      <div className="flex justify-between items-start gap-3">
+        <div>
+          <h2 className="text-lg font-semibold">Cuestionario de ingreso: {terapia.nombre}</h2>
+          <p className="text-sm text-gray-600">
+            {actual
+              ? `Versión ${actual.version} publicada · ${actual.activo ? "se exige antes del primer turno" : "desactivado"}`
+              : "Sin cuestionario: los pacientes pueden sacar turno sin completarlo."}
+          </p>
+        </div>
+        {actual && (
+          <button type="button" onClick={handleActivo} className="text-sm text-gray-600 hover:underline whitespace-nowrap">
+            {actual.activo ? "Desactivar" : "Activar"}
+          </button>
+        )}
+      </div>
+
+      {preguntas.map((pregunta, indice) => (
+        <fieldset key={pregunta.id} className="p-3 border rounded-md space-y-2">
+          <div className="flex flex-wrap gap-2 items-center">
+            <span className="text-sm text-gray-500">{indice + 1}.</span>
+            <input
+              type="text"
+              value={pregunta.enunciado}
+              onChange={(e) => cambiarPregunta(indice, { enunciado: e.target.value })}
+              placeholder="Enunciado"
+              className="flex-1 min-w-48 px-3 py-2 border rounded-md"
+            />
+            <select
+              value={pregunta.tipo}
+              onChange={(e) => cambiarPregunta(indice, { tipo: e.target.value as TipoPregunta })}
+              className="px-3 py-2 border rounded-md"
+            >
+              {TIPOS.map((tipo) => (
+                <option key={tipo.valor} value={tipo.valor}>{tipo.titulo}</option>
+              ))}
+            </select>
+          </div>
+
+          {pregunta.tipo === "opcion" && (
+            <div className="space-y-1">
+              <textarea
+                value={pregunta.opcionesTexto}
+                onChange={(e) => cambiarPregunta(indice, { opcionesTexto: e.target.value })}
+                placeholder="Una opción por línea"
+                rows={3}
+                className="w-full px-3 py-2 border rounded-md text-sm"
+              />
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={Boolean(pregunta.multiple)}
+                  onChange={(e) => cambiarPregunta(indice, { multiple: e.target.checked })}
+                />
+                Permite elegir varias
+              </label>
+            </div>
+          )}
+
+          {pregunta.tipo === "escala" && (
+            <div className="flex gap-3 text-sm">
+              <label>
+                Desde
+                <input
+                  type="number"
+                  value={pregunta.min ?? 1}
+                  onChange={(e) => cambiarPregunta(indice, { min: Number(e.target.value) })}
+                  className="ml-2 w-20 px-2 py-1 border rounded-md"
+                />
+              </label>
+              <label>
+                Hasta
+                <input
+                  type="number"
+                  value={pregunta.max ?? 5}
+                  onChange={(e) => cambiarPregunta(indice, { max: Number(e.target.value) })}
+                  className="ml-2 w-20 px-2 py-1 border rounded-md"
+                />
+              </label>
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-3 text-sm">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={pregunta.obligatoria}
+                onChange={(e) => cambiarPregunta(indice, { obligatoria: e.target.checked })}
+              />
+              Obligatoria
+            </label>
+            <button type="button" onClick={() => moverPregunta(indice, -1)} className="text-gray-600 hover:underline">
+              Subir
+            </button>
+            <button type="button" onClick={() => moverPregunta(indice, 1)} className="text-gray-600 hover:underline">
+              Bajar
+            </button>
+            <button
+              type="button"
+              onClick={() => setPreguntas(preguntas.filter((_, i) => i !== indice))}
+              className="text-red-600 hover:underline"
+            >
+              Quitar
+            </button>
+          </div>
+        </fieldset>
+      ))}
+
+      <button type="button" onClick={agregarPregunta} className="text-blue-600 hover:underline">
+        + Agregar pregunta
+      </button>
+
+      <div className="space-y-2 border-t pt-4">
+        <h3 className="font-semibold">Consentimiento informado</h3>
+        <input
+          type="text"
+          value={consentimiento.titulo}
+          onChange={(e) => setConsentimiento({ ...consentimiento, titulo: e.target.value })}
+          placeholder="Título"
+          className="w-full px-3 py-2 border rounded-md"
+        />
+        <textarea
+          value={consentimiento.texto}
+          onChange={(e) => setConsentimiento({ ...consentimiento, texto: e.target.value })}
+          placeholder="Texto que el paciente debe aceptar"
+          rows={8}
+          className="w-full px-3 py-2 border rounded-md"
+        />
+      </div>
+
+      {errores.length > 0 && (
+        <ul className="text-sm text-red-700 list-disc pl-5">
+          {errores.map((error) => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <div className="flex gap-2 justify-end">
+        <button type="button" onClick={onCerrar} className="px-4 py-2 border rounded-md hover:bg-gray-100">
+          Volver
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isSaving ? "Publicando..." : actual ? "Publicar nueva versión" : "Publicar"}
+        </button>
+      </div>
+    </form>
+  );
+}
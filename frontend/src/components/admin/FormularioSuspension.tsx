@@ -0,0 +1,231 @@
+"use client";
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { Actividad, Terapia } from "@/lib/firebase/catalogo";
+import { DatosSuspension, Suspension, TipoSuspension, guardarSuspension } from "@/lib/firebase/suspensiones";
+import { UsuarioResumen } from "@/lib/firebase/usuarios";
+
+// Valor de un <input type="datetime-local"> en la hora local del navegador
+const aValorLocal = (fecha: Date | null) => {
+  if (!fecha) return "";
+  const local = new Date(fecha.getTime() - fecha.getTimezoneOffset() * 60 * 1000);
+  return local.toISOString().slice(0, 16);
+};
+
+// Como DatosSuspension, pero con fechas y alcance todavía sin completar
+interface Borrador {
+  tipo: TipoSuspension;
+  actividadId: string | null;
+  profesorId: string | null;
+  fechaInicio: Date | null;
+  fechaFin: Date | null;
+  motivo: string;
+  afectaReservasExistentes: boolean | null; // null = el admin todavía no eligió
+}
+
+/**
+ * Devuelve los errores de una suspensión (vacío si es válida). Replica suspensionValida
+ * de las reglas de Firestore y exige que se elija explícitamente si afecta reservas existentes.
+ */
+export const validarSuspension = (borrador: Borrador): string[] => {
+  const errores: string[] = [];
+  if (borrador.tipo === "actividad" && !borrador.actividadId) {
+    errores.push("Elegí la actividad o terapia a suspender.");
+  }
+  if (borrador.tipo === "profesor" && !borrador.profesorId) {
+    errores.push("Elegí el profesional.");
+  }
+  if (!borrador.fechaInicio || !borrador.fechaFin) {
+    errores.push("Indicá el inicio y el fin de la suspensión.");
+  } else if (borrador.fechaFin < borrador.fechaInicio) {
+    errores.push("La suspensión termina antes de empezar.");
+  }
+  if (borrador.afectaReservasExistentes === null) {
+    errores.push("Indicá si se cancelan las reservas y turnos ya confirmados.");
+  }
+  return errores;
+};
+
+interface FormularioSuspensionProps {
+  suspension: Suspension | null; // null = nueva
+  actividades: Actividad[];
+  terapias: Terapia[];
+  profesionales: UsuarioResumen[];
+  onGuardada: () => void;
+  onCancelar: () => void;
+}
+
+export default function FormularioSuspension({
+  suspension,
+  actividades,
+  terapias,
+  profesionales,
+  onGuardada,
+  onCancelar
+}: FormularioSuspensionProps) {
+  const [borrador, setBorrador] = useState<Borrador>({
+    tipo: suspension?.tipo || "general",
+    actividadId: suspension?.actividadId || null,
+    profesorId: suspension?.profesorId || null,
+    fechaInicio: suspension?.fechaInicio || null,
+    fechaFin: suspension?.fechaFin || null,
+    motivo: suspension?.motivo || "",
+    // Al crear no hay valor por defecto: cancelar reservas es una decisión explícita
+    afectaReservasExistentes: suspension ? suspension.afectaReservasExistentes : null
+  });
+  const [errores, setErrores] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const encontrados = validarSuspension(borrador);
+    setErrores(encontrados);
+    if (encontrados.length > 0) return;
+
+    if (
+      borrador.afectaReservasExistentes &&
+      !window.confirm("Se cancelarán las reservas y turnos confirmados dentro del rango. ¿Continuar?")
+    ) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await guardarSuspension(suspension?.id || null, { ...borrador, motivo: borrador.motivo.trim() } as DatosSuspension);
+      toast.success(suspension ? "Suspensión actualizada" : "Suspensión creada");
+      onGuardada();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo guardar la suspensión");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg shadow-md space-y-4">
+      <h2 className="text-lg font-semibold">{suspension ? "Editar suspensión" : "Nueva suspensión"}</h2>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="text-sm">
+          Alcance
+          <select
+            value={borrador.tipo}
+            onChange={(e) => setBorrador({ ...borrador, tipo: e.target.value as TipoSuspension })}
+            className="mt-1 w-full px-3 py-2 border rounded-md"
+          >
+            <option value="general">Todo el gimnasio</option>
+            <option value="actividad">Una actividad o terapia</option>
+            <option value="profesor">Un profesional</option>
+          </select>
+        </label>
+
+        {borrador.tipo === "actividad" && (
+          <label className="text-sm">
+            Actividad o terapia
+            <select
+              value={borrador.actividadId || ""}
+              onChange={(e) => setBorrador({ ...borrador, actividadId: e.target.value || null })}
+              className="mt-1 w-full px-3 py-2 border rounded-md"
+            >
+              <option value="">Elegí una</option>
+              <optgroup label="Actividades">
+                {actividades.map((a) => <option key={a.id} value={a.id}>{a.nombre}</option>)}
+              </optgroup>
+              <optgroup label="Terapias">
+                {terapias.map((t) => <option key={t.id} value={t.id}>{t.nombre}</option>)}
+              </optgroup>
+            </select>
+          </label>
+        )}
+
+        {borrador.tipo === "profesor" && (
+          <label className="text-sm">
+            Profesional
+            <select
+              value={borrador.profesorId || ""}
+              onChange={(e) => setBorrador({ ...borrador, profesorId: e.target.value || null })}
+              className="mt-1 w-full px-3 py-2 border rounded-md"
+            >
+              <option value="">Elegí un profesional</option>
+              {profesionales.map((p) => <option key={p.id} value={p.id}>{p.nombre}</option>)}
+            </select>
+          </label>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="text-sm">
+          Desde
+          <input
+            type="datetime-local"
+            value={aValorLocal(borrador.fechaInicio)}
+            onChange={(e) => setBorrador({ ...borrador, fechaInicio: e.target.value ? new Date(e.target.value) : null })}
+            className="mt-1 w-full px-3 py-2 border rounded-md"
+          />
+        </label>
+        <label className="text-sm">
+          Hasta
+          <input
+            type="datetime-local"
+            value={aValorLocal(borrador.fechaFin)}
+            onChange={(e) => setBorrador({ ...borrador, fechaFin: e.target.value ? new Date(e.target.value) : null })}
+            className="mt-1 w-full px-3 py-2 border rounded-md"
+          />
+        </label>
+      </div>
+
+      <label className="text-sm block">
+        Motivo (lo ven los socios afectados)
+        <input
+          type="text"
+          value={borrador.motivo}
+          onChange={(e) => setBorrador({ ...borrador, motivo: e.target.value })}
+          className="mt-1 w-full px-3 py-2 border rounded-md"
+        />
+      </label>
+
+      <fieldset className="border rounded-md p-4">
+        <legend className="px-1 text-sm font-medium">¿Cancelar las reservas y turnos ya confirmados en el rango?</legend>
+        <div className="flex gap-6 text-sm">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="afectaReservasExistentes"
+              checked={borrador.afectaReservasExistentes === true}
+              onChange={() => setBorrador({ ...borrador, afectaReservasExistentes: true })}
+            />
+            Sí, cancelarlas y avisar a los socios
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="afectaReservasExistentes"
+              checked={borrador.afectaReservasExistentes === false}
+              onChange={() => setBorrador({ ...borrador, afectaReservasExistentes: false })}
+            />
+            No, solo bloquear nuevas reservas
+          </label>
+        </div>
+      </fieldset>
+
+      {errores.length > 0 && (
+        <ul className="text-sm text-red-700 list-disc pl-5">
+          {errores.map((error) => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <div className="flex gap-2 justify-end">
+        <button type="button" onClick={onCancelar} className="px-4 py-2 border rounded-md hover:bg-gray-100">
+          Cancelar
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isSaving ? "Guardando..." : "Guardar"}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,156 @@
+"use client";
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import CamposPolitica, { validarPolitica } from "@/components/admin/CamposPolitica";
+import { DatosTerapia, MAX_DURACION_TERAPIA_MINUTOS, Terapia, guardarTerapia } from "@/lib/firebase/catalogo";
+import { UsuarioResumen } from "@/lib/firebase/usuarios";
+
+/**
+ * Devuelve los errores de una terapia (vacío si es válida). Replica las validaciones
+ * de las reglas de Firestore y de validarTurno en las funciones.
+ */
+export const validarTerapia = (datos: DatosTerapia): string[] => {
+  const errores: string[] = [];
+  if (!datos.nombre.trim() || datos.nombre.length > 100) {
+    errores.push("El nombre es obligatorio (hasta 100 caracteres).");
+  }
+  if (
+    !Number.isInteger(datos.duracionMinutos) ||
+    datos.duracionMinutos < 1 ||
+    datos.duracionMinutos > MAX_DURACION_TERAPIA_MINUTOS
+  ) {
+    errores.push(`La duración debe ser un entero entre 1 y ${MAX_DURACION_TERAPIA_MINUTOS} minutos.`);
+  }
+  if (!datos.profesionalId) {
+    errores.push("Elegí el profesional que atiende la terapia.");
+  }
+  if (!Number.isFinite(datos.precio) || datos.precio < 0) {
+    errores.push("El precio no puede ser negativo.");
+  }
+  return [...errores, ...validarPolitica(datos.politicaCancelacion)];
+};
+
+interface FormularioTerapiaProps {
+  terapia: Terapia | null; // null = nueva
+  profesionales: UsuarioResumen[];
+  onGuardada: () => void;
+  onCancelar: () => void;
+}
+
+export default function FormularioTerapia({ terapia, profesionales, onGuardada, onCancelar }: FormularioTerapiaProps) {
+  const [datos, setDatos] = useState<DatosTerapia>({
+    nombre: terapia?.nombre || "",
+    descripcion: terapia?.descripcion || "",
+    duracionMinutos: terapia?.duracionMinutos || 60,
+    profesionalId: terapia?.profesionalId || null,
+    precio: terapia?.precio || 0,
+    politicaCancelacion: terapia?.politicaCancelacion || {}
+  });
+  const [errores, setErrores] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const normalizados = { ...datos, nombre: datos.nombre.trim() };
+    const encontrados = validarTerapia(normalizados);
+    setErrores(encontrados);
+    if (encontrados.length > 0) return;
+
+    setIsSaving(true);
+    try {
+      await guardarTerapia(terapia?.id || null, normalizados);
+      toast.success(terapia ? "Terapia actualizada" : "Terapia creada");
+      onGuardada();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo guardar la terapia");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg shadow-md space-y-4">
+      <h2 className="text-lg font-semibold">{terapia ? `Editar ${terapia.nombre}` : "Nueva terapia"}</h2>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="text-sm">
+          Nombre
+          <input
+            type="text"
+            value={datos.nombre}
+            onChange={(e) => setDatos({ ...datos, nombre: e.target.value })}
+            className="mt-1 w-full px-3 py-2 border rounded-md"
+          />
+        </label>
+        <label className="text-sm">
+          Profesional
+          <select
+            value={datos.profesionalId || ""}
+            onChange={(e) => setDatos({ ...datos, profesionalId: e.target.value || null })}
+            className="mt-1 w-full px-3 py-2 border rounded-md"
+          >
+            <option value="">Elegí un profesional</option>
+            {profesionales.map((p) => (
+              <option key={p.id} value={p.id}>{p.nombre}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm">
+          Duración del turno (min)
+          <input
+            type="number"
+            min={1}
+            max={MAX_DURACION_TERAPIA_MINUTOS}
+            value={datos.duracionMinutos}
+            onChange={(e) => setDatos({ ...datos, duracionMinutos: Number(e.target.value) })}
+            className="mt-1 w-full px-3 py-2 border rounded-md"
+          />
+        </label>
+        <label className="text-sm">
+          Precio por turno ($)
+          <input
+            type="number"
+            min={0}
+            value={datos.precio}
+            onChange={(e) => setDatos({ ...datos, precio: Number(e.target.value) })}
+            className="mt-1 w-full px-3 py-2 border rounded-md"
+          />
+        </label>
+      </div>
+
+      <label className="text-sm block">
+        Descripción
+        <textarea
+          value={datos.descripcion}
+          onChange={(e) => setDatos({ ...datos, descripcion: e.target.value })}
+          rows={2}
+          className="mt-1 w-full px-3 py-2 border rounded-md"
+        />
+      </label>
+
+      <CamposPolitica
+        politica={datos.politicaCancelacion}
+        onChange={(politicaCancelacion) => setDatos({ ...datos, politicaCancelacion })}
+      />
+
+      {errores.length > 0 && (
+        <ul className="text-sm text-red-700 list-disc pl-5">
+          {errores.map((error) => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <div className="flex gap-2 justify-end">
+        <button type="button" onClick={onCancelar} className="px-4 py-2 border rounded-md hover:bg-gray-100">
+          Cancelar
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isSaving ? "Guardando..." : "Guardar"}
+        </button>
+      </div>
+    </form>
+  );
+}
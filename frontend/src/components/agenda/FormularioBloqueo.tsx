@@ -0,0 +1,108 @@
+"use client";
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { bloquearHorario } from "@/lib/firebase/agenda";
+
+// "YYYY-MM-DD" de una fecha en la hora local del navegador
+const aDiaLocal = (fecha: Date) =>
+  `${fecha.getFullYear()}-${String(fecha.getMonth() + 1).padStart(2, "0")}-${String(fecha.getDate()).padStart(2, "0")}`;
+
+interface FormularioBloqueoProps {
+  profesionalId: string;
+  dia: Date; // Día propuesto
+  onCerrar: () => void;
+}
+
+/**
+ * Bloquea un rango horario de un día: deja de ofrecer turnos en ese rango.
+ */
+export default function FormularioBloqueo({ profesionalId, dia, onCerrar }: FormularioBloqueoProps) {
+  const [fecha, setFecha] = useState(aDiaLocal(dia));
+  const [desde, setDesde] = useState("09:00");
+  const [hasta, setHasta] = useState("10:00");
+  const [motivo, setMotivo] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const inicio = new Date(`${fecha}T${desde}`);
+    const fin = new Date(`${fecha}T${hasta}`);
+    if (!fecha || !(inicio < fin)) {
+      toast.error("El horario de fin debe ser posterior al de inicio");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await bloquearHorario(profesionalId, { desde: inicio, hasta: fin, motivo: motivo.trim() });
+      toast.success("Horario bloqueado. Los turnos ya dados no se cancelan.");
+      onCerrar();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo bloquear el horario");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center" onClick={onCerrar}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-white p-6 rounded-lg shadow-md w-full max-w-sm space-y-3"
+      >
+        <h2 className="text-lg font-semibold">Bloquear horario</h2>
+        <label className="text-sm block">
+          Día
+          <input
+            type="date"
+            value={fecha}
+            onChange={(e) => setFecha(e.target.value)}
+            className="mt-1 w-full px-3 py-2 border rounded-md"
+          />
+        </label>
+        <div className="grid grid-cols-2 gap-3">
+          <label className="text-sm">
+            Desde
+            <input
+              type="time"
+              value={desde}
+              onChange={(e) => setDesde(e.target.value)}
+              className="mt-1 w-full px-3 py-2 border rounded-md"
+            />
+          </label>
+          <label className="text-sm">
+            Hasta
+            <input
+              type="time"
+              value={hasta}
+              onChange={(e) => setHasta(e.target.value)}
+              className="mt-1 w-full px-3 py-2 border rounded-md"
+            />
+          </label>
+        </div>
+        <label className="text-sm block">
+          Motivo (opcional)
+          <input
+            type="text"
+            value={motivo}
+            onChange={(e) => setMotivo(e.target.value)}
+            className="mt-1 w-full px-3 py-2 border rounded-md"
+          />
+        </label>
+        <div className="flex gap-2 justify-end">
+          <button type="button" onClick={onCerrar} className="px-4 py-2 border rounded-md hover:bg-gray-100">
+            Cancelar
+          </button>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? "Guardando..." : "Bloquear"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
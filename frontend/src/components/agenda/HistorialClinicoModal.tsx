@@ -0,0 +1,70 @@
+"use client";
+import { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import { NotaClinica, obtenerHistorialClinico } from "@/lib/firebase/notasClinicas";
+
+const formatearFecha = (iso: string) =>
+  new Date(iso).toLocaleString("es-AR", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit"
+  });
+
+interface HistorialClinicoModalProps {
+  pacienteId: string;
+  paciente: string; // Nombre del paciente
+  nombresTerapias: Record<string, string>;
+  onCerrar: () => void;
+}
+
+/**
+ * Línea de tiempo de las notas clínicas de un paciente, de la más reciente a la más antigua.
+ */
+export default function HistorialClinicoModal({ pacienteId, paciente, nombresTerapias, onCerrar }: HistorialClinicoModalProps) {
+  const [notas, setNotas] = useState<NotaClinica[] | null>(null);
+
+  useEffect(() => {
+    obtenerHistorialClinico(pacienteId)
+      .then(setNotas)
+      .catch((error) => {
+        toast.error(error instanceof Error ? error.message : "No se pudo cargar el historial");
+        onCerrar();
+      });
+  }, [pacienteId, onCerrar]);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center" onClick={onCerrar}>
+      <div
+        className="bg-white p-6 rounded-lg shadow-md w-full max-w-2xl max-h-[90vh] overflow-y-auto space-y-3"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-semibold">Historial clínico: {paciente}</h2>
+
+        {notas === null ? (
+          <p>Cargando...</p>
+        ) : notas.length === 0 ? (
+          <p className="text-gray-500">Todavía no hay notas de este paciente.</p>
+        ) : (
+          <ol className="border-l-2 border-blue-200 pl-4 space-y-4">
+            {notas.map((nota) => (
+              <li key={nota.turnoId}>
+                <p className="text-sm text-gray-500 capitalize">
+                  {formatearFecha(nota.fechaTurno)} · {nombresTerapias[nota.terapiaId] || "Terapia"}
+                  {nota.version > 1 && ` · ${nota.version} versiones`}
+                </p>
+                <p className="whitespace-pre-wrap">{nota.contenido}</p>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <button onClick={onCerrar} className="w-full px-4 py-2 border rounded-md hover:bg-gray-100">
+          Cerrar
+        </button>
+      </div>
+    </div>
+  );
+}
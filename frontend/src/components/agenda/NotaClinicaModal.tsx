@@ -0,0 +1,127 @@
+"use client";
+import { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import {
+  NotaClinica,
+  VersionNota,
+  guardarNotaClinica,
+  obtenerNotaClinica
+} from "@/lib/firebase/notasClinicas";
+
+const formatearFecha = (iso: string) =>
+  new Date(iso).toLocaleString("es-AR", { day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" });
+
+interface NotaClinicaModalProps {
+  turnoId: string;
+  titulo: string; // Paciente y terapia
+  onCerrar: () => void;
+}
+
+/**
+ * Nota clínica de un turno: se edita hasta que se bloquea y muestra las versiones anteriores.
+ */
+export default function NotaClinicaModal({ turnoId, titulo, onCerrar }: NotaClinicaModalProps) {
+  const [nota, setNota] = useState<NotaClinica | null | undefined>(undefined); // undefined = cargando
+  const [versiones, setVersiones] = useState<VersionNota[]>([]);
+  const [contenido, setContenido] = useState("");
+  const [verVersiones, setVerVersiones] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    obtenerNotaClinica(turnoId)
+      .then((resultado) => {
+        setNota(resultado.nota);
+        setVersiones(resultado.versiones);
+        setContenido(resultado.nota?.contenido || "");
+      })
+      .catch((error) => {
+        toast.error(error instanceof Error ? error.message : "No se pudo cargar la nota");
+        onCerrar();
+      });
+  }, [turnoId, onCerrar]);
+
+  const handleGuardar = async () => {
+    if (!contenido.trim()) {
+      toast.error("La nota está vacía");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const guardada = await guardarNotaClinica(turnoId, contenido);
+      setNota(guardada);
+      setVersiones([{ version: guardada.version, contenido: guardada.contenido, fecha: guardada.fechaActualizacion }, ...versiones]);
+      toast.success("Nota guardada");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo guardar la nota");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const bloqueada = nota?.bloqueada ?? false;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center" onClick={onCerrar}>
+      <div
+        className="bg-white p-6 rounded-lg shadow-md w-full max-w-2xl max-h-[90vh] overflow-y-auto space-y-3"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-semibold">Nota clínica: {titulo}</h2>
+
+        {nota === undefined ? (
+          <p>Cargando...</p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              {nota
+                ? bloqueada
+                  ? `Versión ${nota.version}. Bloqueada desde el ${formatearFecha(nota.bloqueadaDesde)}: ya no se puede modificar.`
+                  : `Versión ${nota.version}. Se puede corregir hasta el ${formatearFecha(nota.bloqueadaDesde)}.`
+                : "Todavía no hay nota. Una vez guardada, se puede corregir durante 24 horas."}
+            </p>
+            <textarea
+              value={contenido}
+              onChange={(e) => setContenido(e.target.value)}
+              readOnly={bloqueada}
+              rows={12}
+              className="w-full px-3 py-2 border rounded-md read-only:bg-gray-50"
+            />
+
+            {versiones.length > 1 && (
+              <div>
+                <button onClick={() => setVerVersiones(!verVersiones)} className="text-sm text-blue-600 hover:underline">
+                  {verVersiones ? "Ocultar versiones anteriores" : `Ver versiones anteriores (${versiones.length - 1})`}
+                </button>
+                {verVersiones && (
+                  <ul className="mt-2 space-y-2">
+                    {versiones.slice(1).map((version) => (
+                      <li key={version.version} className="p-2 border rounded-md text-sm">
+                        <p className="text-gray-500">Versión {version.version} · {formatearFecha(version.fecha)}</p>
+                        <p className="whitespace-pre-wrap">{version.contenido}</p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex gap-2 justify-end">
+          <button onClick={onCerrar} className="px-4 py-2 border rounded-md hover:bg-gray-100">
+            Cerrar
+          </button>
+          {nota !== undefined && !bloqueada && (
+            <button
+              onClick={handleGuardar}
+              disabled={isSaving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {isSaving ? "Guardando..." : "Guardar"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
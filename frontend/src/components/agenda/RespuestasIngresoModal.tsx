@@ -0,0 +1,80 @@
+"use client";
+import { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import {
+  Pregunta,
+  Respuesta,
+  RespuestasIngreso,
+  obtenerPreguntas,
+  obtenerRespuestasIngreso
+} from "@/lib/firebase/ingreso";
+
+interface RespuestasIngresoModalProps {
+  pacienteId: string;
+  terapiaId: string;
+  titulo: string; // Paciente y terapia
+  onCerrar: () => void;
+}
+
+const mostrarRespuesta = (valor: Respuesta | undefined) => {
+  if (valor === undefined) return <span className="text-gray-400">Sin responder</span>;
+  return Array.isArray(valor) ? valor.join(", ") : String(valor);
+};
+
+/**
+ * Respuestas del cuestionario de ingreso de un paciente, con las preguntas de la versión que respondió.
+ */
+export default function RespuestasIngresoModal({ pacienteId, terapiaId, titulo, onCerrar }: RespuestasIngresoModalProps) {
+  const [ingreso, setIngreso] = useState<RespuestasIngreso | null | undefined>(undefined); // undefined = cargando
+  const [preguntas, setPreguntas] = useState<Pregunta[]>([]);
+
+  useEffect(() => {
+    obtenerRespuestasIngreso(pacienteId, terapiaId)
+      .then(async (resultado) => {
+        if (resultado) setPreguntas(await obtenerPreguntas(terapiaId, resultado.version));
+        setIngreso(resultado);
+      })
+      .catch((error) => {
+        toast.error(error instanceof Error ? error.message : "No se pudo cargar el cuestionario");
+        onCerrar();
+      });
+  }, [pacienteId, terapiaId, onCerrar]);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center" onClick={onCerrar}>
+      <div
+        className="bg-white p-6 rounded-lg shadow-md w-full max-w-2xl max-h-[90vh] overflow-y-auto space-y-3"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-semibold">Ingreso: {titulo}</h2>
+
+        {ingreso === undefined ? (
+          <p>Cargando...</p>
+        ) : ingreso === null ? (
+          <p className="text-gray-500">El paciente no completó un cuestionario de ingreso para esta terapia.</p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              Versión {ingreso.version} · respondido el {ingreso.fechaRespuesta.toLocaleString("es-AR")}
+            </p>
+            <dl className="space-y-2">
+              {preguntas.map((pregunta) => (
+                <div key={pregunta.id}>
+                  <dt className="font-medium">{pregunta.enunciado}</dt>
+                  <dd className="whitespace-pre-wrap">{mostrarRespuesta(ingreso.respuestas[pregunta.id])}</dd>
+                </div>
+              ))}
+            </dl>
+            <p className="text-sm text-gray-600 border-t pt-2">
+              {ingreso.consentimiento.titulo}: aceptado y firmado por {ingreso.consentimiento.firma}.
+            </p>
+          </>
+        )}
+
+        <button onClick={onCerrar} className="w-full px-4 py-2 border rounded-md hover:bg-gray-100">
+          Cerrar
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+import { EventoAgenda } from "@/lib/firebase/agenda";
+import { ColeccionAsistencia } from "@/lib/firebase/asistencia";
+
+// Se puede registrar asistencia desde una hora antes del inicio hasta el fin (ver registrarAsistencia)
+const MARGEN_ASISTENCIA_MS = 60 * 60 * 1000;
+
+const formatearHora = (fecha: Date) =>
+  fecha.toLocaleTimeString("es-AR", { hour: "2-digit", minute: "2-digit" });
+
+interface TarjetaEventoProps {
+  evento: EventoAgenda;
+  detallada: boolean; // Vista de día: muestra los inscriptos y las acciones
+  nombresUsuarios: Record<string, string>;
+  nombresTerapias: Record<string, string>;
+  registrando: string | null; // ID de la reserva o turno que se está registrando
+  onAsistencia: (coleccion: ColeccionAsistencia, id: string) => void;
+  onDesbloquear: (evento: EventoAgenda) => void;
+  onNotaClinica: (turnoId: string) => void;
+  onHistorialClinico: (pacienteId: string) => void;
+  onIngreso: (turnoId: string) => void;
+}
+
+export default function TarjetaEvento({
+  evento,
+  detallada,
+  nombresUsuarios,
+  nombresTerapias,
+  registrando,
+  onAsistencia,
+  onDesbloquear,
+  onNotaClinica,
+  onHistorialClinico,
+  onIngreso
+}: TarjetaEventoProps) {
+  const ahora = Date.now();
+
+  const botonAsistencia = (coleccion: ColeccionAsistencia, id: string, asistencia: string | null, inicio: Date, fin: Date) => {
+    if (asistencia === "asistio") return <span className="text-green-700">Presente</span>;
+    if (asistencia === "ausente") return <span className="text-red-700">Ausente</span>;
+    if (ahora < inicio.getTime() - MARGEN_ASISTENCIA_MS || ahora > fin.getTime()) return null;
+    return (
+      <button
+        onClick={() => onAsistencia(coleccion, id)}
+        disabled={registrando === id}
+        className="text-blue-600 hover:underline disabled:opacity-50"
+      >
+        {registrando === id ? "Registrando..." : "Marcar presente"}
+      </button>
+    );
+  };
+
+  if (evento.tipo === "bloqueo") {
+    return (
+      <div className="p-2 rounded-md bg-gray-100 border border-gray-300 text-sm">
+        <p className="font-medium text-gray-700">
+          {formatearHora(evento.desde)} – {formatearHora(evento.hasta)} · Bloqueado
+        </p>
+        {evento.motivo && <p className="text-gray-600">{evento.motivo}</p>}
+        {detallada && (
+          <button onClick={() => onDesbloquear(evento)} className="text-red-600 hover:underline">
+            Quitar bloqueo
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  if (evento.tipo === "turno") {
+    return (
+      <div className="p-2 rounded-md bg-emerald-50 border border-emerald-200 text-sm">
+        <p className="font-medium">
+          {formatearHora(evento.inicio)} – {formatearHora(evento.fin)} · {nombresTerapias[evento.terapiaId] || "Terapia"}
+        </p>
+        <p>
+          {nombresUsuarios[evento.usuarioId] || "..."}
+          {evento.estado === "pendiente" && <span className="text-yellow-700"> (pendiente)</span>}
+        </p>
+        {detallada && evento.estado === "confirmado" && (
+          <div className="flex flex-wrap gap-3">
+            {botonAsistencia("turnos", evento.id, evento.asistencia, evento.inicio, evento.fin)}
+            {/* La nota se escribe una vez que empezó la sesión */}
+            {evento.inicio.getTime() <= ahora && (
+              <button onClick={() => onNotaClinica(evento.id)} className="text-blue-600 hover:underline">
+                Nota clínica
+              </button>
+            )}
+            <button onClick={() => onHistorialClinico(evento.usuarioId)} className="text-blue-600 hover:underline">
+              Historial
+            </button>
+            <button onClick={() => onIngreso(evento.id)} className="text-blue-600 hover:underline">
+              Ingreso
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const ocupados = evento.inscriptos.reduce((total, inscripto) => total + inscripto.cupoTomado, 0);
+  const activa = evento.estado === "programada";
+
+  return (
+    <div className={`p-2 rounded-md border text-sm ${activa ? "bg-blue-50 border-blue-200" : "bg-gray-50 border-gray-200 text-gray-400"}`}>
+      <p className="font-medium">
+        {formatearHora(evento.inicio)} – {formatearHora(evento.fin)} · {evento.nombre}
+      </p>
+      <p>
+        {activa ? `${ocupados}/${evento.cupo} inscriptos` : evento.estado === "suspendida" ? "Suspendida" : "Cancelada"}
+      </p>
+      {detallada && activa && evento.inscriptos.length > 0 && (
+        <ul className="mt-2 divide-y border-t">
+          {evento.inscriptos.map((inscripto) => (
+            <li key={inscripto.reservaId} className="py-1 flex justify-between gap-2">
+              <span>
+                {nombresUsuarios[inscripto.usuarioId] || "..."}
+                {inscripto.cupoTomado > 1 && ` (+${inscripto.cupoTomado - 1})`}
+              </span>
+              {botonAsistencia("reservas", inscripto.reservaId, inscripto.asistencia, evento.inicio, evento.fin)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
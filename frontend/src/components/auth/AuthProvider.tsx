@@ -0,0 +1,56 @@
+"use client";
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { User } from "firebase/auth";
+import { onAuthStateChange } from "@/lib/firebase/auth";
+import { TipoUsuario, UsuarioDoc, obtenerUsuario } from "@/lib/firebase/usuarios";
+
+interface AuthContextValue {
+  user: User | null; // Usuario de Firebase Auth
+  usuario: UsuarioDoc | null; // Su documento usuarios/{uid}
+  rol: TipoUsuario | null;
+  isLoading: boolean; // true hasta conocer el primer estado de autenticación
+  recargarUsuario: () => Promise<void>; // Vuelve a leer el documento (ej. después de completar el perfil)
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+/**
+ * Única suscripción al estado de autenticación de la app. Las páginas leen el usuario con useAuth
+ * en lugar de suscribirse cada una por su cuenta.
+ */
+export default function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<User | null>(null);
+  const [usuario, setUsuario] = useState<UsuarioDoc | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChange((authUser, firestoreUser) => {
+      setUser(authUser);
+      setUsuario(firestoreUser);
+      setIsLoading(false);
+    });
+    return () => unsubscribe();
+  }, []);
+
+  const recargarUsuario = useCallback(async () => {
+    if (!user) return;
+    setUsuario(await obtenerUsuario(user.uid));
+  }, [user]);
+
+  return (
+    <AuthContext.Provider value={{ user, usuario, rol: usuario?.tipo ?? null, isLoading, recargarUsuario }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+/**
+ * Usuario autenticado, su perfil de Firestore y su rol. Debe usarse dentro de AuthProvider.
+ */
+export const useAuth = (): AuthContextValue => {
+  const contexto = useContext(AuthContext);
+  if (!contexto) {
+    throw new Error("useAuth debe usarse dentro de AuthProvider");
+  }
+  return contexto;
+};
@@ -0,0 +1,45 @@
+"use client";
+import { useEffect } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { toast } from "react-hot-toast";
+import Navbar from "@/components/shared/Navbar";
+import { TipoUsuario } from "@/lib/firebase/usuarios";
+import { useAuth } from "./AuthProvider";
+
+interface RequireRoleProps {
+  roles?: TipoUsuario[]; // Sin roles alcanza con haber iniciado sesión
+  mensaje?: string; // Aviso al redirigir a quien no tiene el rol
+  children: React.ReactNode;
+}
+
+/**
+ * Muestra el contenido solo al usuario autenticado con alguno de los roles indicados. Sin sesión
+ * redirige al login (volviendo después a esta página); con otro rol, al panel del socio.
+ * La función paginaProtegida y las reglas de Firestore son las que realmente restringen el acceso.
+ */
+export default function RequireRole({ roles, mensaje = "No tenés acceso a esta sección", children }: RequireRoleProps) {
+  const { user, rol, isLoading } = useAuth();
+  const router = useRouter();
+  const pathname = usePathname();
+  const permitido = Boolean(user) && (!roles || (rol !== null && roles.includes(rol)));
+
+  useEffect(() => {
+    if (isLoading || permitido) return;
+    if (!user) {
+      router.replace(`/login?redirect=${encodeURIComponent(pathname)}`);
+      return;
+    }
+    toast.error(mensaje);
+    router.replace("/dashboard");
+  }, [isLoading, permitido, user, mensaje, pathname, router]);
+
+  if (!permitido) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="container mx-auto px-4 py-8">Cargando...</div>
+      </div>
+    );
+  }
+  return <>{children}</>;
+}
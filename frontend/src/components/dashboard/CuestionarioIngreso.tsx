@@ -0,0 +1,189 @@
+"use client";
+import { useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import {
+  Cuestionario,
+  Pregunta,
+  Respuesta,
+  enviarRespuestasIngreso,
+  obtenerCuestionario
+} from "@/lib/firebase/ingreso";
+
+interface CuestionarioIngresoProps {
+  terapiaId: string;
+  nombre: string; // Nombre de la terapia
+  paraUsuarioId?: string;
+  onCompletado: () => void;
+  onCerrar: () => void;
+}
+
+const respondida = (valor: Respuesta | undefined) =>
+  valor !== undefined && valor !== "" && !(Array.isArray(valor) && valor.length === 0);
+
+/**
+ * Cuestionario de ingreso y consentimiento informado que se completa antes del primer turno de una terapia.
+ */
+export default function CuestionarioIngreso({ terapiaId, nombre, paraUsuarioId, onCompletado, onCerrar }: CuestionarioIngresoProps) {
+  const [cuestionario, setCuestionario] = useState<Cuestionario | null | undefined>(undefined); // undefined = cargando
+  const [respuestas, setRespuestas] = useState<Record<string, Respuesta>>({});
+  const [acepta, setAcepta] = useState(false);
+  const [firma, setFirma] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    obtenerCuestionario(terapiaId)
+      .then(setCuestionario)
+      .catch((error) => {
+        toast.error(error instanceof Error ? error.message : "No se pudo cargar el cuestionario");
+        setCuestionario(null);
+      });
+  }, [terapiaId]);
+
+  const responder = (id: string, valor: Respuesta) => setRespuestas({ ...respuestas, [id]: valor });
+
+  const alternarOpcion = (id: string, opcion: string) => {
+    const elegidas = (respuestas[id] as string[] | undefined) || [];
+    responder(id, elegidas.includes(opcion) ? elegidas.filter((o) => o !== opcion) : [...elegidas, opcion]);
+  };
+
+  const handleEnviar = async () => {
+    if (!cuestionario) return;
+    const faltante = cuestionario.preguntas.find((p) => p.obligatoria && !respondida(respuestas[p.id]));
+    if (faltante) {
+      toast.error(`Falta responder: "${faltante.enunciado}"`);
+      return;
+    }
+    if (!acepta || !firma.trim()) {
+      toast.error("Aceptá el consentimiento y firmalo con tu nombre y apellido");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await enviarRespuestasIngreso({
+        terapiaId,
+        version: cuestionario.version,
+        respuestas: Object.fromEntries(Object.entries(respuestas).filter(([, valor]) => respondida(valor))),
+        aceptaConsentimiento: acepta,
+        firma: firma.trim(),
+        paraUsuarioId
+      });
+      toast.success("Cuestionario enviado");
+      onCompletado();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "No se pudo enviar el cuestionario");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const campo = (pregunta: Pregunta) => {
+    const valor = respuestas[pregunta.id];
+    if (pregunta.tipo === "texto") {
+      return (
+        <textarea
+          value={(valor as string) || ""}
+          onChange={(e) => responder(pregunta.id, e.target.value)}
+          rows={3}
+          className="w-full px-3 py-2 border rounded-md"
+        />
+      );
+    }
+    if (pregunta.tipo === "opcion") {
+      return (pregunta.opciones || []).map((opcion) => (
+        <label key={opcion} className="flex items-center gap-2">
+          <input
+            type={pregunta.multiple ? "checkbox" : "radio"}
+            name={pregunta.id}
+            checked={pregunta.multiple ? ((valor as string[] | undefined) || []).includes(opcion) : valor === opcion}
+            onChange={() => (pregunta.multiple ? alternarOpcion(pregunta.id, opcion) : responder(pregunta.id, opcion))}
+          />
+          {opcion}
+        </label>
+      ));
+    }
+    const pasos = Array.from({ length: (pregunta.max ?? 0) - (pregunta.min ?? 0) + 1 }, (_, i) => (pregunta.min ?? 0) + i);
+    return (
+      <div className="flex flex-wrap gap-2">
+        {pasos.map((paso) => (
+          <button
+            key={paso}
+            type="button"
+            onClick={() => responder(pregunta.id, paso)}
+            className={`w-9 h-9 border rounded-md ${valor === paso ? "bg-blue-600 text-white" : "hover:bg-gray-100"}`}
+          >
+            {paso}
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center" onClick={onCerrar}>
+      <div
+        className="bg-white p-6 rounded-lg shadow-md w-full max-w-2xl max-h-[90vh] overflow-y-auto space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-semibold">Ingreso a {nombre}</h2>
+
+        {cuestionario === undefined ? (
+          <p>Cargando...</p>
+        ) : cuestionario === null ? (
+          <p className="text-gray-500">Esta terapia no tiene cuestionario de ingreso.</p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              Antes del primer turno necesitamos que completes estas preguntas y aceptes el consentimiento informado.
+              Una vez enviadas, las respuestas no se pueden modificar.
+            </p>
+
+            {cuestionario.preguntas.map((pregunta) => (
+              <div key={pregunta.id} className="space-y-1">
+                <p className="font-medium">
+                  {pregunta.enunciado}
+                  {pregunta.obligatoria && <span className="text-red-600"> *</span>}
+                </p>
+                {campo(pregunta)}
+              </div>
+            ))}
+
+            <div className="border-t pt-4 space-y-2">
+              <h3 className="font-semibold">{cuestionario.consentimiento.titulo}</h3>
+              <p className="whitespace-pre-wrap text-sm max-h-48 overflow-y-auto p-2 bg-gray-50 border rounded-md">
+                {cuestionario.consentimiento.texto}
+              </p>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={acepta} onChange={(e) => setAcepta(e.target.checked)} />
+                Leí y acepto el consentimiento informado
+              </label>
+              <input
+                type="text"
+                value={firma}
+                onChange={(e) => setFirma(e.target.value)}
+                placeholder="Nombre y apellido (firma)"
+                maxLength={100}
+                className="w-full px-3 py-2 border rounded-md"
+              />
+            </div>
+          </>
+        )}
+
+        <div className="flex gap-2 justify-end">
+          <button onClick={onCerrar} className="px-4 py-2 border rounded-md hover:bg-gray-100">
+            Cerrar
+          </button>
+          {cuestionario && (
+            <button
+              onClick={handleEnviar}
+              disabled={isSaving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {isSaving ? "Enviando..." : "Enviar"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
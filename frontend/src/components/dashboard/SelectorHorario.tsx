@@ -0,0 +1,154 @@
+"use client";
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "react-hot-toast";
+import { obtenerClasesProgramadas } from "@/lib/firebase/clases";
+import { consultarTurnosDisponibles } from "@/lib/firebase/disponibilidad";
+import {
+  ReservaSocio,
+  crearReserva,
+  crearTurno,
+  cancelarReserva,
+  cancelarTurno
+} from "@/lib/firebase/reservas";
+import CuestionarioIngreso from "./CuestionarioIngreso";
+
+// Cuántos días hacia adelante se ofrecen horarios
+const DIAS_A_MOSTRAR = 14;
+
+interface SelectorHorarioProps {
+  item: ReservaSocio;
+  nombre: string; // Nombre de la actividad o terapia
+  modo: "reprogramar" | "repetir";
+  onCerrar: () => void;
+}
+
+const formatearFecha = (fecha: Date) =>
+  fecha.toLocaleString("es-AR", {
+    weekday: "long",
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit"
+  });
+
+/**
+ * Ofrece los próximos horarios de la misma actividad o terapia y reserva el elegido.
+ * Al reprogramar, primero se reserva el nuevo horario y recién después se cancela el anterior.
+ */
+export default function SelectorHorario({ item, nombre, modo, onCerrar }: SelectorHorarioProps) {
+  const router = useRouter();
+  const [horarios, setHorarios] = useState<Date[] | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  // Horario elegido que quedó en espera del cuestionario de ingreso de la terapia
+  const [pendienteIngreso, setPendienteIngreso] = useState<Date | null>(null);
+
+  useEffect(() => {
+    const desde = new Date();
+    const hasta = new Date(desde.getTime() + DIAS_A_MOSTRAR * 24 * 60 * 60 * 1000);
+    const consulta = item.tipo === "reserva"
+      ? obtenerClasesProgramadas(item.servicioId, desde, hasta).then((clases) => clases.map((c) => c.fechaInicio))
+      : consultarTurnosDisponibles(item.servicioId, desde, hasta);
+
+    consulta
+      .then((fechas) => setHorarios(fechas.filter((f) => f.getTime() !== item.fecha.getTime())))
+      .catch((error) => {
+        toast.error(error instanceof Error ? error.message : "No se pudieron cargar los horarios");
+        setHorarios([]);
+      });
+  }, [item]);
+
+  const handleElegir = async (fecha: Date) => {
+    setIsSaving(true);
+    try {
+      const reserva = item.tipo === "reserva"
+        ? await crearReserva(item.servicioId, fecha, item.cupoTomado)
+        : await crearTurno(item.servicioId, fecha);
+      if (!reserva.success) {
+        if (reserva.perfilIncompleto) {
+          toast(reserva.error || "Completá tu perfil antes de reservar");
+          router.push("/bienvenida");
+          return;
+        }
+        if (reserva.ingresoPendiente) {
+          toast(reserva.error || "Falta completar el cuestionario de ingreso");
+          setPendienteIngreso(fecha);
+          return;
+        }
+        toast.error(reserva.error || "No se pudo reservar");
+        return;
+      }
+
+      if (modo === "reprogramar") {
+        const cancelacion = item.tipo === "reserva"
+          ? await cancelarReserva(item.id, "Reprogramada por el socio")
+          : await cancelarTurno(item.id, "Reprogramado por el socio");
+        if (!cancelacion.success) {
+          toast.error(`Se reservó el nuevo horario pero no se pudo cancelar el anterior: ${cancelacion.error}`);
+          onCerrar();
+          return;
+        }
+        if (cancelacion.penalizacion) {
+          toast(`El horario anterior se canceló fuera de término (cargo: $${cancelacion.penalizacion}).`);
+        }
+      }
+
+      toast.success(modo === "reprogramar" ? "Reserva reprogramada" : "Reserva confirmada");
+      onCerrar();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (pendienteIngreso) {
+    return (
+      <CuestionarioIngreso
+        terapiaId={item.servicioId}
+        nombre={nombre}
+        onCompletado={() => {
+          setPendienteIngreso(null);
+          handleElegir(pendienteIngreso);
+        }}
+        onCerrar={() => setPendienteIngreso(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center" onClick={onCerrar}>
+      <div
+        className="bg-white p-6 rounded-lg shadow-md w-full max-w-md max-h-[80vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-lg font-semibold mb-4">
+          {modo === "reprogramar" ? "Reprogramar" : "Reservar de nuevo"}: {nombre}
+        </h2>
+
+        {horarios === null ? (
+          <p>Cargando horarios...</p>
+        ) : horarios.length === 0 ? (
+          <p className="text-gray-500">No hay horarios disponibles en los próximos {DIAS_A_MOSTRAR} días.</p>
+        ) : (
+          <ul className="divide-y">
+            {horarios.map((fecha) => (
+              <li key={fecha.getTime()} className="py-2 flex justify-between items-center">
+                <span className="capitalize">{formatearFecha(fecha)}</span>
+                <button
+                  onClick={() => handleElegir(fecha)}
+                  disabled={isSaving}
+                  className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Elegir
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <button onClick={onCerrar} className="mt-4 w-full px-4 py-2 border rounded-md hover:bg-gray-100">
+          Cerrar
+        </button>
+      </div>
+    </div>
+  );
+}
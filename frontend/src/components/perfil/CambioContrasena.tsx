@@ -0,0 +1,80 @@
+"use client";
+import { useState } from "react";
+import { toast } from "react-hot-toast";
+import { cambiarContrasena } from "@/lib/firebase/auth";
+
+/**
+ * Cambio de contraseña para cuentas con email y contraseña: pide la actual para confirmar.
+ */
+export default function CambioContrasena() {
+  const [actual, setActual] = useState("");
+  const [nueva, setNueva] = useState("");
+  const [confirmacion, setConfirmacion] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (nueva !== confirmacion) {
+      toast.error("Las contraseñas nuevas no coinciden");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const { success, error } = await cambiarContrasena(actual, nueva);
+      if (success) {
+        toast.success("Contraseña actualizada");
+        setActual("");
+        setNueva("");
+        setConfirmacion("");
+      } else {
+        toast.error(error || "No se pudo cambiar la contraseña");
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <section className="bg-white p-6 rounded-lg shadow-md">
+      <h2 className="text-lg font-semibold mb-2">Contraseña</h2>
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <input
+          type="password"
+          value={actual}
+          onChange={(e) => setActual(e.target.value)}
+          placeholder="Contraseña actual"
+          autoComplete="current-password"
+          required
+          className="w-full px-3 py-2 border rounded-md"
+        />
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <input
+            type="password"
+            value={nueva}
+            onChange={(e) => setNueva(e.target.value)}
+            placeholder="Contraseña nueva"
+            autoComplete="new-password"
+            required
+            className="w-full px-3 py-2 border rounded-md"
+          />
+          <input
+            type="password"
+            value={confirmacion}
+            onChange={(e) => setConfirmacion(e.target.value)}
+            placeholder="Repetir contraseña nueva"
+            autoComplete="new-password"
+            required
+            className="w-full px-3 py-2 border rounded-md"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isSaving ? "Guardando..." : "Cambiar contraseña"}
+        </button>
+      </form>
+    </section>
+  );
+}
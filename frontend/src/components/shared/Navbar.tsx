@@ -1,17 +1,17 @@
 "use client";
-import { User } from "firebase/auth";
 import Image from "next/image";
 import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
 import { useState } from "react";
 import { toast } from "react-hot-toast";
+import { useAuth } from "@/components/auth/AuthProvider";
 
 interface NavbarProps {
-  user?: User | null;
   showLogin?: boolean;
 }
 
-export default function Navbar({ user, showLogin = true }: NavbarProps) {
+export default function Navbar({ showLogin = true }: NavbarProps) {
+  const { user } = useAuth();
   const [isLoggingOut, setIsLoggingOut] = useState(false);
   const router = useRouter();
   const pathname = usePathname();
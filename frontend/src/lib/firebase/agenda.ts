@@ -0,0 +1,262 @@
+import {
+  arrayRemove,
+  arrayUnion,
+  collection,
+  doc,
+  getDoc,
+  onSnapshot,
+  orderBy,
+  query,
+  setDoc,
+  where,
+  Timestamp,
+  Unsubscribe
+} from "firebase/firestore";
+import { db } from "./config";
+import { Ausencia } from "./disponibilidad";
+import { colecciones } from "./modelo";
+
+// Máximo de valores de un filtro "in" de Firestore
+const MAX_IN = 30;
+
+// Socio anotado en una clase
+export interface Inscripto {
+  reservaId: string;
+  usuarioId: string;
+  cupoTomado: number;
+  asistencia: "asistio" | "ausente" | null;
+}
+
+// Clase grupal que dicta el profesional, con sus inscriptos confirmados
+export interface ClaseAgenda {
+  tipo: "clase";
+  id: string;
+  actividadId: string;
+  nombre: string;
+  inicio: Date;
+  fin: Date;
+  cupo: number;
+  estado: "programada" | "cancelada" | "suspendida";
+  inscriptos: Inscripto[];
+}
+
+// Turno de terapia que atiende el profesional
+export interface TurnoAgenda {
+  tipo: "turno";
+  id: string;
+  terapiaId: string;
+  usuarioId: string;
+  inicio: Date;
+  fin: Date;
+  estado: string;
+  asistencia: "asistio" | "ausente" | null;
+}
+
+// Horario bloqueado por el profesional (disponibilidades.ausencias)
+export interface BloqueoAgenda extends Ausencia {
+  tipo: "bloqueo";
+}
+
+export type EventoAgenda = ClaseAgenda | TurnoAgenda | BloqueoAgenda;
+
+// Estados de turno que ocupan el horario del profesional
+const ESTADOS_TURNO_VISIBLES = ["pendiente", "confirmado"];
+
+// Cache de nombres de usuarios: los perfiles no cambian mientras se mira la agenda
+const nombresUsuarios = new Map<string, string>();
+
+/**
+ * Escucha en tiempo real la agenda de un profesional en un rango: las clases que dicta (con sus
+ * inscriptos confirmados), sus turnos pendientes o confirmados y sus horarios bloqueados.
+ * @param profesionalId UID del profesional.
+ * @param desde Inicio del rango (inclusive).
+ * @param hasta Fin del rango (exclusive).
+ * @param onCambio Recibe los eventos ordenados por hora de inicio en cada cambio.
+ * @param onError Recibe el error si alguna de las suscripciones falla.
+ * @returns Función para cancelar la suscripción.
+ */
+export const escucharAgenda = (
+  profesionalId: string,
+  desde: Date,
+  hasta: Date,
+  onCambio: (eventos: EventoAgenda[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  let clases: Omit<ClaseAgenda, "inscriptos">[] = [];
+  let turnos: TurnoAgenda[] = [];
+  let bloqueos: BloqueoAgenda[] = [];
+  const inscriptos = new Map<string, Inscripto[]>(); // claseId -> inscriptos
+  let cancelarInscriptos: Unsubscribe[] = [];
+  let clasesEscuchadas: string | null = null;
+
+  const emitir = () => {
+    const eventos: EventoAgenda[] = [
+      ...clases.map((clase) => ({ ...clase, inscriptos: inscriptos.get(clase.id) || [] })),
+      ...turnos,
+      ...bloqueos
+    ];
+    onCambio(eventos.sort((a, b) => eventoInicio(a) - eventoInicio(b)));
+  };
+
+  // Las reservas se escuchan por claseId, en grupos del tamaño máximo de un "in"
+  const escucharInscriptos = (claseIds: string[]) => {
+    cancelarInscriptos.forEach((cancelar) => cancelar());
+    cancelarInscriptos = [];
+    inscriptos.clear();
+
+    for (let i = 0; i < claseIds.length; i += MAX_IN) {
+      const grupo = claseIds.slice(i, i + MAX_IN);
+      cancelarInscriptos.push(onSnapshot(
+        query(collection(db, "reservas"), where("claseId", "in", grupo)),
+        (snapshot) => {
+          grupo.forEach((claseId) => inscriptos.set(claseId, []));
+          snapshot.docs.forEach((reservaDoc) => {
+            const data = reservaDoc.data();
+            if (data.estado !== "confirmada") return;
+            inscriptos.get(data.claseId)?.push({
+              reservaId: reservaDoc.id,
+              usuarioId: data.usuarioId,
+              cupoTomado: data.cupoTomado || 1,
+              asistencia: data.asistencia || null
+            });
+          });
+          emitir();
+        },
+        onError
+      ));
+    }
+  };
+
+  const cancelarClases = onSnapshot(
+    query(
+      collection(db, "clases"),
+      where("profesorId", "==", profesionalId),
+      where("fechaInicio", ">=", Timestamp.fromDate(desde)),
+      where("fechaInicio", "<", Timestamp.fromDate(hasta)),
+      orderBy("fechaInicio")
+    ),
+    (snapshot) => {
+      clases = snapshot.docs.map((claseDoc) => {
+        const data = claseDoc.data();
+        return {
+          tipo: "clase",
+          id: claseDoc.id,
+          actividadId: data.actividadId,
+          nombre: data.nombre || "",
+          inicio: (data.fechaInicio as Timestamp).toDate(),
+          fin: (data.fechaFin as Timestamp).toDate(),
+          cupo: data.cupo || 0,
+          estado: data.estado
+        };
+      });
+      // Solo se vuelve a suscribir si cambió el conjunto de clases
+      const ids = clases.map((clase) => clase.id);
+      if (ids.join() !== clasesEscuchadas) {
+        clasesEscuchadas = ids.join();
+        escucharInscriptos(ids);
+      }
+      emitir();
+    },
+    onError
+  );
+
+  const cancelarTurnos = onSnapshot(
+    query(
+      collection(db, "turnos"),
+      where("profesionalId", "==", profesionalId),
+      where("fechaTurno", ">=", Timestamp.fromDate(desde)),
+      where("fechaTurno", "<", Timestamp.fromDate(hasta)),
+      orderBy("fechaTurno")
+    ),
+    (snapshot) => {
+      turnos = snapshot.docs
+        .map((turnoDoc): TurnoAgenda => {
+          const data = turnoDoc.data();
+          const inicio = (data.fechaTurno as Timestamp).toDate();
+          return {
+            tipo: "turno",
+            id: turnoDoc.id,
+            terapiaId: data.terapiaId,
+            usuarioId: data.usuarioId,
+            inicio,
+            fin: data.fechaFin
+              ? (data.fechaFin as Timestamp).toDate()
+              : new Date(inicio.getTime() + (data.duracionMinutos || 60) * 60 * 1000),
+            estado: data.estado,
+            asistencia: data.asistencia || null
+          };
+        })
+        .filter((turno) => ESTADOS_TURNO_VISIBLES.includes(turno.estado));
+      emitir();
+    },
+    onError
+  );
+
+  const cancelarDisponibilidad = onSnapshot(
+    doc(db, "disponibilidades", profesionalId),
+    (snapshot) => {
+      const ausencias: { desde: Timestamp; hasta: Timestamp; motivo?: string }[] = snapshot.data()?.ausencias || [];
+      bloqueos = ausencias
+        .map((a) => ({ tipo: "bloqueo" as const, desde: a.desde.toDate(), hasta: a.hasta.toDate(), motivo: a.motivo }))
+        .filter((b) => b.desde < hasta && b.hasta > desde);
+      emitir();
+    },
+    onError
+  );
+
+  return () => {
+    cancelarClases();
+    cancelarTurnos();
+    cancelarDisponibilidad();
+    cancelarInscriptos.forEach((cancelar) => cancelar());
+  };
+};
+
+/**
+ * Hora de inicio (epoch ms) de cualquier evento de la agenda.
+ */
+export const eventoInicio = (evento: EventoAgenda): number =>
+  (evento.tipo === "bloqueo" ? evento.desde : evento.inicio).getTime();
+
+/**
+ * Devuelve el nombre de cada usuario indicado (los que ya se leyeron se toman de la cache).
+ * @param usuarioIds UIDs de socios o personas a cargo.
+ */
+export const obtenerNombresUsuarios = async (usuarioIds: string[]): Promise<Record<string, string>> => {
+  const faltantes = Array.from(new Set(usuarioIds)).filter((id) => !nombresUsuarios.has(id));
+  await Promise.all(faltantes.map(async (id) => {
+    const usuarioSnap = await getDoc(doc(db, "usuarios", id));
+    nombresUsuarios.set(id, usuarioSnap.data()?.nombre || "Socio");
+  }));
+  return Object.fromEntries(usuarioIds.map((id) => [id, nombresUsuarios.get(id) || "Socio"]));
+};
+
+// Mismo formato que guardarDisponibilidad, para que arrayRemove encuentre el elemento exacto
+const aAusenciaFirestore = (bloqueo: Ausencia) => ({
+  desde: Timestamp.fromDate(bloqueo.desde),
+  hasta: Timestamp.fromDate(bloqueo.hasta),
+  motivo: bloqueo.motivo || ""
+});
+
+/**
+ * Bloquea un horario en la agenda del profesional: se agrega a sus ausencias, así que
+ * deja de ofrecer turnos en ese rango. Los turnos ya dados no se cancelan.
+ * @param profesionalId UID del profesional.
+ * @param bloqueo Rango y motivo.
+ */
+export const bloquearHorario = async (profesionalId: string, bloqueo: Ausencia): Promise<void> => {
+  await setDoc(doc(colecciones.disponibilidades, profesionalId), {
+    ausencias: arrayUnion(aAusenciaFirestore(bloqueo))
+  }, { merge: true });
+};
+
+/**
+ * Quita un horario bloqueado de la agenda del profesional.
+ * @param profesionalId UID del profesional.
+ * @param bloqueo El bloqueo tal como lo devolvió escucharAgenda.
+ */
+export const desbloquearHorario = async (profesionalId: string, bloqueo: Ausencia): Promise<void> => {
+  await setDoc(doc(colecciones.disponibilidades, profesionalId), {
+    ausencias: arrayRemove(aAusenciaFirestore(bloqueo))
+  }, { merge: true });
+};
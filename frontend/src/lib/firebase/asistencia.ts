@@ -0,0 +1,86 @@
+import { doc, getDoc } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "./config";
+
+export type ColeccionAsistencia = "reservas" | "turnos";
+
+// Contadores de usuarios.estadisticasAsistencia (los actualizan las Cloud Functions)
+export interface EstadisticasAsistencia {
+  asistencias: number;
+  ausencias: number;
+}
+
+// Resultado de registrar una asistencia
+export interface AsistenciaRegistrada {
+  coleccion: ColeccionAsistencia;
+  id: string;
+  usuarioId: string;
+  nombre: string;
+  servicio: string; // Nombre de la actividad o terapia
+  fecha: string; // ISO
+}
+
+// Reserva o turno de hoy de un socio buscado por DNI
+export interface ReservaDelDia {
+  coleccion: ColeccionAsistencia;
+  id: string;
+  servicio: string;
+  fecha: string; // ISO
+  asistencia: "asistio" | "ausente" | null;
+}
+
+export interface PersonaCheckIn {
+  usuarioId: string;
+  nombre: string;
+  estadisticas: EstadisticasAsistencia;
+  reservas: ReservaDelDia[];
+}
+
+/**
+ * Devuelve el código firmado de una reserva o turno confirmado, para mostrarlo como QR.
+ * @param coleccion "reservas" o "turnos".
+ * @param id ID de la reserva o del turno.
+ */
+export const obtenerCodigoAsistencia = async (coleccion: ColeccionAsistencia, id: string): Promise<string> => {
+  const callable = httpsCallable<{ coleccion: ColeccionAsistencia; id: string }, { codigo: string }>(
+    functions,
+    "obtenerCodigoAsistencia"
+  );
+  const { data } = await callable({ coleccion, id });
+  return data.codigo;
+};
+
+/**
+ * Registra la asistencia (solo personal). Se indica el código escaneado del QR
+ * o la reserva/turno elegido tras buscar por DNI.
+ */
+export const registrarAsistencia = async (
+  referencia: { codigo: string } | { coleccion: ColeccionAsistencia; id: string }
+): Promise<AsistenciaRegistrada> => {
+  const callable = httpsCallable<typeof referencia, AsistenciaRegistrada>(functions, "registrarAsistencia");
+  const { data } = await callable(referencia);
+  return data;
+};
+
+/**
+ * Busca socios por DNI con sus reservas y turnos confirmados de hoy (solo personal).
+ * @param dni DNI del socio.
+ */
+export const buscarReservasPorDni = async (dni: string): Promise<PersonaCheckIn[]> => {
+  const callable = httpsCallable<{ dni: string }, { personas: PersonaCheckIn[] }>(functions, "buscarReservasPorDni");
+  const { data } = await callable({ dni });
+  return data.personas;
+};
+
+/**
+ * Devuelve las estadísticas de asistencia de un socio.
+ * @param usuarioId UID del socio (o de una persona a cargo).
+ */
+export const obtenerEstadisticasAsistencia = async (usuarioId: string): Promise<EstadisticasAsistencia> => {
+  const usuarioSnap = await getDoc(doc(db, "usuarios", usuarioId));
+  const estadisticas = usuarioSnap.data()?.estadisticasAsistencia;
+  return {
+    asistencias: estadisticas?.asistencias || 0,
+    ausencias: estadisticas?.ausencias || 0
+  };
+};
@@ -3,6 +3,11 @@ import {
   signInWithPopup,
   signInWithEmailAndPassword,
   createUserWithEmailAndPassword,
+  sendEmailVerification,
+  sendPasswordResetEmail,
+  reauthenticateWithCredential,
+  updatePassword,
+  EmailAuthProvider,
   signOut,
   onAuthStateChanged,
   User,
@@ -14,6 +19,9 @@ import { auth, db } from "./config";
 import { doc, setDoc, getDoc, updateDoc, serverTimestamp } from "firebase/firestore";
 // Asumiendo que logError espera un string como segundo argumento
 import { logEvent, logError } from "@/services/analytics";
+import { cerrarSesion, crearSesion } from "./sesion";
+import { colecciones } from "./modelo";
+import { TipoUsuario, UsuarioDoc } from "./usuarios";
 
 const provider = new GoogleAuthProvider();
 provider.setCustomParameters({
@@ -24,10 +32,11 @@ provider.setCustomParameters({
 interface AuthResponse {
   success: boolean;
   user?: User; // Objeto User de Firebase Authentication
-  firestoreUser?: any; // Objeto de documento de usuario de Firestore
+  firestoreUser?: UsuarioDoc | null; // Documento usuarios/{uid} de Firestore
   error?: string;
   code?: string;
   provider?: string;
+  requiereVerificacion?: boolean; // Registro con email: falta verificar la dirección antes de ingresar
 }
 
 const errorMessages: Record<string, string> = {
@@ -35,15 +44,32 @@ const errorMessages: Record<string, string> = {
   "auth/user-disabled": "Cuenta deshabilitada",
   "auth/user-not-found": "Usuario no registrado",
   "auth/wrong-password": "Credenciales incorrectas",
+  "auth/invalid-credential": "Credenciales incorrectas",
+  "auth/missing-password": "Ingresá la contraseña",
+  "auth/email-not-verified": "Verificá tu email antes de ingresar. Revisá tu casilla de correo",
+  "auth/requires-recent-login": "Por seguridad, volvé a iniciar sesión para hacer este cambio",
+  "auth/no-current-user": "Tenés que iniciar sesión",
   "auth/email-already-in-use": "El email ya está registrado",
   "auth/operation-not-allowed": "Método no permitido",
   "auth/weak-password": "La contraseña debe tener al menos 6 caracteres",
   "auth/too-many-requests": "Demasiados intentos. Intente más tarde",
   "auth/network-request-failed": "Error de conexión",
   "auth/popup-closed-by-user": "El popup de autenticación fue cerrado",
-  "auth/cancelled-popup-request": "Solicitud de autenticación cancelada"
+  "auth/cancelled-popup-request": "Solicitud de autenticación cancelada",
+  "auth/expired-action-code": "El enlace venció. Pedí uno nuevo",
+  "auth/invalid-action-code": "El enlace no es válido o ya se usó"
 };
 
+// Error propio (no de Firebase) con un código de errorMessages
+const errorAuth = (code: keyof typeof errorMessages) =>
+  ({ code, message: errorMessages[code], name: "FirebaseError" }) as AuthError;
+
+// Página a la que vuelven los enlaces de verificación y recuperación enviados por email
+// (sin navegador, como en las pruebas, se usa la página por defecto de Firebase)
+const configuracionEnlace = () =>
+  typeof window !== "undefined" ? { url: `${window.location.origin}/login` } : undefined;
+
+
 // Se corrige handleAuthError para pasar 'context' como string
 const handleAuthError = (error: AuthError, context: string): AuthResponse => {
   const errorCode = error.code as keyof typeof errorMessages;
@@ -68,13 +94,13 @@ const handleAuthError = (error: AuthError, context: string): AuthResponse => {
  * @param initialData Datos iniciales a fusionar si es un nuevo usuario.
  * @returns El documento del usuario de Firestore (data()).
  */
-const createUserDocument = async (user: User, isNewUser: boolean, initialData?: { nombre?: string, telefono?: string, edad?: number, tipo?: string, responsableDePago?: string | null, usuariosACargo?: string[] }) => {
+const createUserDocument = async (user: User, isNewUser: boolean, initialData?: { nombre?: string, telefono?: string, edad?: number, tipo?: TipoUsuario, responsableDePago?: string | null, usuariosACargo?: string[] }): Promise<UsuarioDoc | null> => {
     const userDocRef = doc(db, "usuarios", user.uid);
-    let firestoreUserDoc = null;
+    let firestoreUserDoc: UsuarioDoc | undefined;
 
     if (isNewUser) {
         // Crear el documento con datos iniciales y el tipo por defecto
-        await setDoc(userDocRef, {
+        await setDoc(doc(colecciones.usuarios, user.uid), {
             dni: "", // Puedes dejarlo vacío para que el usuario lo complete después
             nombre: initialData?.nombre || user.displayName || user.email?.split('@')[0] || '',
             telefono: initialData?.telefono || '',
@@ -90,7 +116,7 @@ const createUserDocument = async (user: User, isNewUser: boolean, initialData?:
             responsableDePago: initialData?.responsableDePago || null,
             usuariosACargo: initialData?.usuariosACargo || []
         }, { merge: true }); // Usamos merge para evitar sobrescribir si por alguna razón el doc ya existía (ej. al usar popups)
-        firestoreUserDoc = (await getDoc(userDocRef)).data();
+        firestoreUserDoc = (await getDoc(userDocRef)).data() as UsuarioDoc | undefined;
         logEvent("firestore_user_created", { uid: user.uid, type: firestoreUserDoc?.tipo });
 
     } else {
@@ -98,9 +124,43 @@ const createUserDocument = async (user: User, isNewUser: boolean, initialData?:
         await updateDoc(userDocRef, {
             "metadata.ultimoAcceso": serverTimestamp()
         });
-        firestoreUserDoc = (await getDoc(userDocRef)).data(); // Obtenemos el documento completo
+        firestoreUserDoc = (await getDoc(userDocRef)).data() as UsuarioDoc | undefined; // Obtenemos el documento completo
     }
-    return firestoreUserDoc;
+    return firestoreUserDoc ?? null;
+};
+
+/**
+ * Devuelve el documento de Firestore del usuario autenticado. Si no existe (ej. se borró a mano
+ * o falló la creación durante el registro) lo recrea como 'socio' con el perfil incompleto,
+ * para que pase por la bienvenida en lugar de quedar sin acceso.
+ * @param user El objeto User de Firebase Auth.
+ */
+const obtenerORecuperarDocumento = async (user: User): Promise<UsuarioDoc | null> => {
+  const userDocSnap = await getDoc(doc(db, "usuarios", user.uid));
+  if (userDocSnap.exists()) {
+    return userDocSnap.data() as UsuarioDoc;
+  }
+  try {
+    const recuperado = await createUserDocument(user, true, { tipo: "socio" });
+    logEvent("firestore_user_recovered", { uid: user.uid });
+    return recuperado;
+  } catch (error) {
+    logError(error as Error, "recover_user_document");
+    return null;
+  }
+};
+
+/**
+ * Crea la cookie de sesión del servidor para el usuario recién autenticado. Si no se puede,
+ * se cierra también la sesión de Firebase para no quedar a medias.
+ */
+const iniciarSesionServidor = async (user: User) => {
+  try {
+    await crearSesion(user);
+  } catch (error) {
+    await signOut(auth);
+    throw error;
+  }
 };
 
 export const signInWithGoogle = async (): Promise<AuthResponse> => {
@@ -116,6 +176,7 @@ export const signInWithGoogle = async (): Promise<AuthResponse> => {
 
     const isNewUser = !userDocSnap.exists();
     const firestoreUser = await createUserDocument(user, isNewUser, { tipo: "socio" }); // Asume 'socio' por defecto para nuevos registros Google
+    await iniciarSesionServidor(user);
 
     logEvent("login", {
       method: "google",
@@ -142,8 +203,14 @@ export const signInWithEmail = async (
     const result = await signInWithEmailAndPassword(auth, email, password);
     const user = result.user;
 
+    // Sin verificar no se crea la sesión del servidor; queda autenticado solo para reenviar el email
+    if (!user.emailVerified) {
+      return { ...handleAuthError(errorAuth("auth/email-not-verified"), "email_signin"), user };
+    }
+
     // Al iniciar sesión, solo actualizamos el metadata y cargamos el documento de Firestore
     const firestoreUser = await createUserDocument(user, false); // No es un nuevo usuario en Auth, solo actualiza Firestore metadata
+    await iniciarSesionServidor(user);
 
     logEvent("login", {
       method: "email",
@@ -179,6 +246,8 @@ export const createUser = async (
         edad: edad,
         tipo: "socio" // Asigna 'socio' por defecto al registrarse
     });
+    // La sesión del servidor se crea recién al ingresar con el email verificado
+    await sendEmailVerification(user, configuracionEnlace());
 
     logEvent("signup", {
       method: "email",
@@ -189,15 +258,85 @@ export const createUser = async (
       success: true,
       user: user,
       firestoreUser: firestoreUser, // Incluye el documento de Firestore
-      provider: "email"
+      provider: "email",
+      requiereVerificacion: true
     };
   } catch (error) {
     return handleAuthError(error as AuthError, "email_signup");
   }
 };
 
+/**
+ * Reenvía el email de verificación al usuario autenticado (registrado con email y contraseña).
+ */
+export const reenviarVerificacion = async (): Promise<AuthResponse> => {
+  try {
+    if (!auth.currentUser) throw errorAuth("auth/no-current-user");
+    await sendEmailVerification(auth.currentUser, configuracionEnlace());
+    logEvent("email_verification_sent");
+    return { success: true };
+  } catch (error) {
+    return handleAuthError(error as AuthError, "email_verification");
+  }
+};
+
+/**
+ * Comprueba si el usuario ya verificó su email (después de abrir el enlace) y, si es así,
+ * crea la sesión del servidor. Si pasó mucho desde el inicio de sesión, hay que volver a ingresar.
+ */
+export const confirmarVerificacion = async (): Promise<AuthResponse> => {
+  try {
+    const user = auth.currentUser;
+    if (!user) throw errorAuth("auth/no-current-user");
+    await user.reload();
+    if (!user.emailVerified) throw errorAuth("auth/email-not-verified");
+
+    await user.getIdToken(true); // El token nuevo ya trae email_verified
+    const firestoreUser = await createUserDocument(user, false);
+    await iniciarSesionServidor(user);
+    logEvent("email_verified");
+    return { success: true, user, firestoreUser, provider: "email" };
+  } catch (error) {
+    return handleAuthError(error as AuthError, "email_verification_check");
+  }
+};
+
+/**
+ * Envía el email para restablecer la contraseña. No informa si la dirección está registrada.
+ * @param email Dirección de la cuenta.
+ */
+export const enviarRecuperacionContrasena = async (email: string): Promise<AuthResponse> => {
+  try {
+    await sendPasswordResetEmail(auth, email, configuracionEnlace());
+    logEvent("password_reset_sent");
+    return { success: true };
+  } catch (error) {
+    if ((error as AuthError).code === "auth/user-not-found") return { success: true };
+    return handleAuthError(error as AuthError, "password_reset");
+  }
+};
+
+/**
+ * Cambia la contraseña del usuario autenticado, confirmando primero la actual.
+ * @param actual Contraseña actual.
+ * @param nueva Contraseña nueva (al menos 6 caracteres).
+ */
+export const cambiarContrasena = async (actual: string, nueva: string): Promise<AuthResponse> => {
+  try {
+    const user = auth.currentUser;
+    if (!user?.email) throw errorAuth("auth/no-current-user");
+    await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email, actual));
+    await updatePassword(user, nueva);
+    logEvent("password_changed");
+    return { success: true };
+  } catch (error) {
+    return handleAuthError(error as AuthError, "password_change");
+  }
+};
+
 export const logout = async (): Promise<AuthResponse> => {
   try {
+    await cerrarSesion(); // Revoca la sesión del servidor antes de salir de Firebase
     await signOut(auth);
     logEvent("logout");
     return { success: true };
@@ -208,24 +347,13 @@ export const logout = async (): Promise<AuthResponse> => {
 
 // Esta función se mantiene igual, pero la interfaz de tu aplicación necesitará usar firestoreUser
 export const onAuthStateChange = (
-  callback: (user: User | null, firestoreUser: any | null) => void // Callback ahora recibe también el doc de Firestore
+  callback: (user: User | null, firestoreUser: UsuarioDoc | null) => void // Callback ahora recibe también el doc de Firestore
 ) => {
   return onAuthStateChanged(auth, async (user) => {
-    let firestoreUserDoc: any | null = null;
+    let firestoreUserDoc: UsuarioDoc | null = null;
     if (user) {
-      // Si hay un usuario Auth, cargar su documento de Firestore
-      const userDocRef = doc(db, "usuarios", user.uid);
-      const userDocSnap = await getDoc(userDocRef);
-      if (userDocSnap.exists()) {
-        firestoreUserDoc = userDocSnap.data();
-      } else {
-        // Caso excepcional: usuario Auth existe pero no hay documento en Firestore
-        // Podría pasar si se borró manualmente el doc, o en flujos complejos.
-        // Aquí puedes decidir si crear uno (con un tipo por defecto) o forzar al usuario a completar perfil.
-        console.warn("User authenticated but no Firestore document found for UID:", user.uid);
-        // Opcional: Podrías crear el documento aquí con un tipo 'pendiente' o 'sin_perfil'
-        // firestoreUserDoc = await createUserDocument(user, true, { tipo: "pendiente" });
-      }
+      // Si hay un usuario Auth, cargar su documento de Firestore (o recrearlo si falta)
+      firestoreUserDoc = await obtenerORecuperarDocumento(user);
 
       logEvent("auth_state_changed", {
         logged_in: true,
@@ -240,19 +368,13 @@ export const onAuthStateChange = (
   });
 };
 
-export const getCurrentUser = (): Promise<{ authUser: User | null; firestoreUser: any | null }> => {
+export const getCurrentUser = (): Promise<{ authUser: User | null; firestoreUser: UsuarioDoc | null }> => {
   return new Promise((resolve) => {
     const unsubscribe = onAuthStateChanged(auth, async (user) => {
       unsubscribe(); // Desuscribirse después de la primera llamada
-      let firestoreUserDoc: any | null = null;
+      let firestoreUserDoc: UsuarioDoc | null = null;
       if (user) {
-        const userDocRef = doc(db, "usuarios", user.uid);
-        const userDocSnap = await getDoc(userDocRef);
-        if (userDocSnap.exists()) {
-          firestoreUserDoc = userDocSnap.data();
-        } else {
-           console.warn("getCurrentUser: User authenticated but no Firestore document found for UID:", user.uid);
-        }
+        firestoreUserDoc = await obtenerORecuperarDocumento(user);
       }
       resolve({ authUser: user, firestoreUser: firestoreUserDoc });
     });
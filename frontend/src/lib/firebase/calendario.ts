@@ -0,0 +1,36 @@
+import { collection, getDocs, query, where } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "./config";
+
+/**
+ * URL del feed .ics de un token. Hosting reescribe /calendario/** a la función calendarioIcs.
+ * @param token Token secreto del feed.
+ */
+export const urlCalendario = (token: string): string => `${window.location.origin}/calendario/${token}.ics`;
+
+/**
+ * Devuelve el token del feed de calendario del usuario, o null si no tiene uno activo.
+ * @param usuarioId UID del usuario.
+ */
+export const obtenerTokenCalendario = async (usuarioId: string): Promise<string | null> => {
+  const snapshot = await getDocs(query(collection(db, "calendarios"), where("usuarioId", "==", usuarioId)));
+  return snapshot.empty ? null : snapshot.docs[0].id;
+};
+
+/**
+ * Crea un token nuevo para el feed de calendario. El anterior deja de funcionar.
+ * @returns El token nuevo.
+ */
+export const generarFeedCalendario = async (): Promise<string> => {
+  const callable = httpsCallable<void, { token: string }>(functions, "generarFeedCalendario");
+  const { data } = await callable();
+  return data.token;
+};
+
+/**
+ * Revoca el feed de calendario: los calendarios suscriptos dejan de actualizarse.
+ */
+export const revocarFeedCalendario = async (): Promise<void> => {
+  const callable = httpsCallable<void, { revocados: number }>(functions, "revocarFeedCalendario");
+  await callable();
+};
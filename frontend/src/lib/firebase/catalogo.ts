@@ -0,0 +1,175 @@
+import {
+  addDoc,
+  collection,
+  doc,
+  getDocs,
+  updateDoc,
+  serverTimestamp
+} from "firebase/firestore";
+import {
+  MAX_DURACION_TURNO_MINUTOS,
+  PoliticaCancelacion,
+  ReglaHorario,
+  esquemaActividad,
+  esquemaTerapia,
+  validarCambios
+} from "@modelo";
+import { db } from "./config";
+import { colecciones } from "./modelo";
+
+export type { PoliticaCancelacion, ReglaHorario };
+
+// Nombres de actividades y terapias por ID, para mostrar reservas y turnos
+export interface NombresCatalogo {
+  actividades: Record<string, string>;
+  terapias: Record<string, string>;
+}
+
+export interface Actividad {
+  id: string;
+  nombre: string;
+  descripcion: string;
+  cupo: number;
+  precio: number;
+  profesorId: string | null;
+  horarios: ReglaHorario[];
+  politicaCancelacion: PoliticaCancelacion;
+  archivada: boolean;
+}
+
+export interface Terapia {
+  id: string;
+  nombre: string;
+  descripcion: string;
+  duracionMinutos: number;
+  profesionalId: string | null;
+  precio: number;
+  politicaCancelacion: PoliticaCancelacion;
+  archivada: boolean;
+}
+
+export type DatosActividad = Omit<Actividad, "id" | "archivada">;
+export type DatosTerapia = Omit<Terapia, "id" | "archivada">;
+
+// Igual que en las reglas de Firestore
+export const MAX_DURACION_TERAPIA_MINUTOS = MAX_DURACION_TURNO_MINUTOS;
+
+/**
+ * Lee el catálogo de actividades y terapias y devuelve sus nombres por ID.
+ */
+export const obtenerNombresCatalogo = async (): Promise<NombresCatalogo> => {
+  const [actividades, terapias] = await Promise.all([
+    getDocs(collection(db, "actividades")),
+    getDocs(collection(db, "terapias"))
+  ]);
+
+  return {
+    actividades: Object.fromEntries(actividades.docs.map((d) => [d.id, d.data().nombre || ""])),
+    terapias: Object.fromEntries(terapias.docs.map((d) => [d.id, d.data().nombre || ""]))
+  };
+};
+
+/**
+ * Lista todas las actividades, incluidas las archivadas.
+ */
+export const obtenerActividades = async (): Promise<Actividad[]> => {
+  const snapshot = await getDocs(collection(db, "actividades"));
+  return snapshot.docs
+    .map((actividadDoc) => {
+      const data = actividadDoc.data();
+      return {
+        id: actividadDoc.id,
+        nombre: data.nombre || "",
+        descripcion: data.descripcion || "",
+        cupo: data.cupo || 0,
+        precio: data.precio || 0,
+        profesorId: data.profesorId || null,
+        horarios: data.horarios || [],
+        politicaCancelacion: data.politicaCancelacion || {},
+        archivada: Boolean(data.archivada)
+      };
+    })
+    .sort((a, b) => a.nombre.localeCompare(b.nombre));
+};
+
+/**
+ * Lista todas las terapias, incluidas las archivadas.
+ */
+export const obtenerTerapias = async (): Promise<Terapia[]> => {
+  const snapshot = await getDocs(collection(db, "terapias"));
+  return snapshot.docs
+    .map((terapiaDoc) => {
+      const data = terapiaDoc.data();
+      return {
+        id: terapiaDoc.id,
+        nombre: data.nombre || "",
+        descripcion: data.descripcion || "",
+        duracionMinutos: data.duracionMinutos || 0,
+        profesionalId: data.profesionalId || null,
+        precio: data.precio || 0,
+        politicaCancelacion: data.politicaCancelacion || {},
+        archivada: Boolean(data.archivada)
+      };
+    })
+    .sort((a, b) => a.nombre.localeCompare(b.nombre));
+};
+
+/**
+ * Crea (sin ID) o actualiza una actividad (solo admin). Las clases se regeneran en el servidor.
+ * @param id ID de la actividad a editar, o null para crear una nueva.
+ * @param datos Datos de la actividad.
+ * @returns El ID de la actividad.
+ */
+export const guardarActividad = async (id: string | null, datos: DatosActividad): Promise<string> => {
+  if (id) {
+    await updateDoc(doc(db, "actividades", id), {
+      ...validarCambios(esquemaActividad, datos, "actividades"),
+      fechaActualizacion: serverTimestamp()
+    });
+    return id;
+  }
+  const nueva = await addDoc(colecciones.actividades, {
+    ...datos,
+    archivada: false,
+    fechaCreacion: serverTimestamp()
+  });
+  return nueva.id;
+};
+
+/**
+ * Crea (sin ID) o actualiza una terapia (solo admin).
+ * @param id ID de la terapia a editar, o null para crear una nueva.
+ * @param datos Datos de la terapia.
+ * @returns El ID de la terapia.
+ */
+export const guardarTerapia = async (id: string | null, datos: DatosTerapia): Promise<string> => {
+  if (id) {
+    await updateDoc(doc(db, "terapias", id), {
+      ...validarCambios(esquemaTerapia, datos, "terapias"),
+      fechaActualizacion: serverTimestamp()
+    });
+    return id;
+  }
+  const nueva = await addDoc(colecciones.terapias, {
+    ...datos,
+    archivada: false,
+    fechaCreacion: serverTimestamp()
+  });
+  return nueva.id;
+};
+
+/**
+ * Archiva o reactiva una actividad o terapia. Una actividad archivada da de baja sus clases
+ * futuras y cancela sus reservas (devolviendo el crédito); una terapia archivada deja de ofrecer
+ * turnos, pero los turnos ya dados no se cancelan.
+ * @param coleccion "actividades" o "terapias".
+ * @param id ID del documento.
+ * @param archivada true para archivar, false para reactivar.
+ */
+export const archivarServicio = async (
+  coleccion: "actividades" | "terapias",
+  id: string,
+  archivada: boolean
+): Promise<void> => {
+  await updateDoc(doc(db, coleccion, id), { archivada, fechaActualizacion: serverTimestamp() });
+};
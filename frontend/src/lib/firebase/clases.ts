@@ -0,0 +1,75 @@
+import {
+  collection,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  Timestamp,
+  doc,
+  updateDoc
+} from "firebase/firestore";
+import { esquemaClase, validarCambios } from "@modelo";
+import { db } from "./config";
+
+// Instancia concreta de una actividad grupal, generada por las funciones a partir de actividades.horarios
+export interface Clase {
+  id: string;
+  actividadId: string;
+  nombre: string;
+  fechaInicio: Date;
+  fechaFin: Date;
+  duracionMinutos: number;
+  cupo: number;
+  profesorId: string | null; // Profesor que dicta la clase (el de la actividad o un reemplazo)
+  estado: "programada" | "cancelada" | "suspendida";
+}
+
+/**
+ * Obtiene las clases programadas de una actividad en un rango de fechas.
+ * Son las únicas fechas/horas que crearReserva acepta.
+ * @param actividadId ID de la actividad.
+ * @param desde Inicio del rango (inclusive).
+ * @param hasta Fin del rango (exclusive).
+ */
+export const obtenerClasesProgramadas = async (
+  actividadId: string,
+  desde: Date,
+  hasta: Date
+): Promise<Clase[]> => {
+  const snapshot = await getDocs(
+    query(
+      collection(db, "clases"),
+      where("actividadId", "==", actividadId),
+      where("fechaInicio", ">=", Timestamp.fromDate(desde)),
+      where("fechaInicio", "<", Timestamp.fromDate(hasta)),
+      orderBy("fechaInicio")
+    )
+  );
+
+  return snapshot.docs
+    .map((claseDoc) => {
+      const data = claseDoc.data();
+      return {
+        id: claseDoc.id,
+        actividadId: data.actividadId,
+        nombre: data.nombre,
+        fechaInicio: (data.fechaInicio as Timestamp).toDate(),
+        fechaFin: (data.fechaFin as Timestamp).toDate(),
+        duracionMinutos: data.duracionMinutos,
+        cupo: data.cupo,
+        profesorId: data.profesorId || null,
+        estado: data.estado
+      } as Clase;
+    })
+    .filter((clase) => clase.estado === "programada");
+};
+
+/**
+ * Asigna un profesor reemplazante a una clase puntual (solo admin).
+ * La regeneración de clases conserva el reemplazo en lugar del profesor de la actividad.
+ * @param claseId ID de la clase.
+ * @param profesorId UID del profesor que la dicta.
+ */
+export const asignarProfesorClase = async (claseId: string, profesorId: string): Promise<void> => {
+  await updateDoc(doc(db, "clases", claseId), validarCambios(esquemaClase, { profesorId, reemplazoProfesor: true }, "clases"));
+};
@@ -1,7 +1,8 @@
 import { initializeApp } from "firebase/app";
-import { getAuth } from "firebase/auth";
+import { connectAuthEmulator, getAuth } from "firebase/auth";
 import { getAnalytics } from "firebase/analytics";
-import { getFirestore } from "firebase/firestore"; // <-- ¡NUEVO! Importar getFirestore
+import { connectFirestoreEmulator, getFirestore } from "firebase/firestore"; // <-- ¡NUEVO! Importar getFirestore
+import { connectFunctionsEmulator, getFunctions } from "firebase/functions";
 
 const firebaseConfig = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
@@ -19,4 +20,12 @@ const app = initializeApp(firebaseConfig);
 // Initialize Firebase services
 export const auth = getAuth(app);
 export const analytics = typeof window !== 'undefined' ? getAnalytics(app) : null;
-export const db = getFirestore(app); // <-- ¡NUEVO! Inicializar y exportar Firestore
\ No newline at end of file
+export const db = getFirestore(app); // <-- ¡NUEVO! Inicializar y exportar Firestore
+export const functions = getFunctions(app); // Cloud Functions callables (crearReserva, crearTurno, ...)
+
+// Con NEXT_PUBLIC_USE_EMULATORS=true (pruebas y desarrollo local) se usan los emuladores de firebase.json
+if (process.env.NEXT_PUBLIC_USE_EMULATORS === "true") {
+  connectAuthEmulator(auth, "http://127.0.0.1:9099", { disableWarnings: true });
+  connectFirestoreEmulator(db, "127.0.0.1", 8080);
+  connectFunctionsEmulator(functions, "127.0.0.1", 5001);
+}
@@ -0,0 +1,87 @@
+import { doc, getDoc, setDoc, Timestamp } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { FranjaSemanal } from "@modelo";
+import { db, functions } from "./config";
+import { colecciones } from "./modelo";
+
+// Franja semanal en hora local. Ej: { dia: 1, desde: "09:00", hasta: "13:00" } = lunes de 9 a 13
+export type { FranjaSemanal };
+
+export interface Ausencia {
+  desde: Date;
+  hasta: Date;
+  motivo?: string;
+}
+
+// Documento disponibilidades/{profesionalId}
+export interface Disponibilidad {
+  horarios: FranjaSemanal[];
+  pausas: FranjaSemanal[];
+  bufferMinutos: number;
+  ausencias: Ausencia[];
+}
+
+/**
+ * Lee la disponibilidad de un profesional. Devuelve una disponibilidad vacía si no tiene una configurada.
+ * @param profesionalId UID del profesional.
+ */
+export const obtenerDisponibilidad = async (profesionalId: string): Promise<Disponibilidad> => {
+  const snapshot = await getDoc(doc(db, "disponibilidades", profesionalId));
+  const data = snapshot.data();
+
+  return {
+    horarios: data?.horarios || [],
+    pausas: data?.pausas || [],
+    bufferMinutos: data?.bufferMinutos || 0,
+    ausencias: (data?.ausencias || []).map((a: { desde: Timestamp; hasta: Timestamp; motivo?: string }) => ({
+      desde: a.desde.toDate(),
+      hasta: a.hasta.toDate(),
+      motivo: a.motivo
+    }))
+  };
+};
+
+/**
+ * Guarda la disponibilidad de un profesional (solo el propio profesional o un admin).
+ * @param profesionalId UID del profesional.
+ * @param disponibilidad Horario semanal, pausas, buffer y ausencias.
+ */
+export const guardarDisponibilidad = async (
+  profesionalId: string,
+  disponibilidad: Disponibilidad
+): Promise<void> => {
+  await setDoc(doc(colecciones.disponibilidades, profesionalId), {
+    horarios: disponibilidad.horarios,
+    pausas: disponibilidad.pausas,
+    bufferMinutos: disponibilidad.bufferMinutos,
+    ausencias: disponibilidad.ausencias.map((a) => ({
+      desde: Timestamp.fromDate(a.desde),
+      hasta: Timestamp.fromDate(a.hasta),
+      motivo: a.motivo || ""
+    }))
+  });
+};
+
+/**
+ * Devuelve los horarios de inicio libres de una terapia en un rango de fechas (máximo 31 días),
+ * según la disponibilidad del profesional y los turnos ya tomados.
+ * @param terapiaId ID de la terapia.
+ * @param desde Inicio del rango.
+ * @param hasta Fin del rango.
+ */
+export const consultarTurnosDisponibles = async (
+  terapiaId: string,
+  desde: Date,
+  hasta: Date
+): Promise<Date[]> => {
+  const callable = httpsCallable<
+    { terapiaId: string; desde: string; hasta: string },
+    { terapiaId: string; duracionMinutos: number; turnos: string[] }
+  >(functions, "consultarTurnosDisponibles");
+  const { data } = await callable({
+    terapiaId,
+    desde: desde.toISOString(),
+    hasta: hasta.toISOString()
+  });
+  return data.turnos.map((inicio) => new Date(inicio));
+};
@@ -0,0 +1,110 @@
+import {
+  collection,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  Timestamp
+} from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "./config";
+
+export interface ItemResumen {
+  cargoId: string;
+  usuarioId: string;
+  nombre: string; // Persona que consumió (el responsable o alguien a su cargo)
+  concepto: string;
+  fecha: Date;
+  monto: number;
+}
+
+// Resumen mensual de un responsable de pago (colección 'resumenes')
+export interface Resumen {
+  id: string;
+  responsableId: string;
+  periodo: string; // "YYYY-MM"
+  items: ItemResumen[];
+  subtotales: { usuarioId: string; nombre: string; total: number }[];
+  total: number;
+  pagado: number;
+  saldo: number;
+  estado: "pendiente" | "pagado";
+}
+
+export type MedioPago = "efectivo" | "transferencia";
+
+/**
+ * Lista los resúmenes mensuales de un responsable de pago, del más reciente al más antiguo.
+ * @param responsableId UID del responsable de pago.
+ */
+export const obtenerResumenes = async (responsableId: string): Promise<Resumen[]> => {
+  const snapshot = await getDocs(
+    query(
+      collection(db, "resumenes"),
+      where("responsableId", "==", responsableId),
+      orderBy("periodo", "desc")
+    )
+  );
+
+  return snapshot.docs.map((resumenDoc) => {
+    const data = resumenDoc.data();
+    return {
+      id: resumenDoc.id,
+      responsableId: data.responsableId,
+      periodo: data.periodo,
+      items: (data.items || []).map((item: Omit<ItemResumen, "fecha"> & { fecha: Timestamp }) => ({
+        ...item,
+        fecha: item.fecha.toDate()
+      })),
+      subtotales: data.subtotales || [],
+      total: data.total,
+      pagado: data.pagado,
+      saldo: data.saldo,
+      estado: data.estado
+    };
+  });
+};
+
+/**
+ * Descarga un resumen en PDF o CSV.
+ * @param resumenId ID del resumen.
+ * @param formato "pdf" o "csv".
+ */
+export const descargarResumen = async (resumenId: string, formato: "pdf" | "csv"): Promise<void> => {
+  const callable = httpsCallable<
+    { resumenId: string; formato: "pdf" | "csv" },
+    { nombreArchivo: string; tipoMime: string; contenido: string }
+  >(functions, "exportarResumen");
+  const { data } = await callable({ resumenId, formato });
+
+  const bytes = Uint8Array.from(atob(data.contenido), (c) => c.charCodeAt(0));
+  const url = URL.createObjectURL(new Blob([bytes], { type: data.tipoMime }));
+  const enlace = document.createElement("a");
+  enlace.href = url;
+  enlace.download = data.nombreArchivo;
+  enlace.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Registra un pago manual a cuenta del resumen de un período (solo admin).
+ * @param responsableId UID del responsable de pago.
+ * @param periodo Período "YYYY-MM".
+ * @param monto Monto pagado.
+ * @param medio Efectivo o transferencia.
+ * @param referencia Nº de comprobante u observación (opcional).
+ */
+export const registrarPago = async (
+  responsableId: string,
+  periodo: string,
+  monto: number,
+  medio: MedioPago,
+  referencia = ""
+): Promise<{ pagoId: string; saldo: number }> => {
+  const callable = httpsCallable<
+    { responsableId: string; periodo: string; monto: number; medio: MedioPago; referencia: string },
+    { pagoId: string; resumenId: string; total: number; pagado: number; saldo: number }
+  >(functions, "registrarPago");
+  const { data } = await callable({ responsableId, periodo, monto, medio, referencia });
+  return { pagoId: data.pagoId, saldo: data.saldo };
+};
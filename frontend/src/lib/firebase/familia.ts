@@ -0,0 +1,142 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  Timestamp
+} from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "./config";
+
+// Persona sobre la que actúa el usuario: él mismo o alguien a su cargo
+export interface Persona {
+  id: string;
+  nombre: string;
+  esDependiente: boolean;
+}
+
+// Reserva o turno próximo de cualquier persona de la familia
+export interface ProximaActividad {
+  id: string;
+  tipo: "reserva" | "turno";
+  personaId: string;
+  personaNombre: string;
+  referenciaId: string; // actividadId o terapiaId
+  fecha: Date;
+  estado: string;
+}
+
+const CLAVE_PERSONA_ACTIVA = "virtud.personaActiva";
+
+/**
+ * Devuelve el usuario y las personas a su cargo (según usuariosACargo).
+ * @param usuarioId UID del tutor.
+ */
+export const obtenerPersonas = async (usuarioId: string): Promise<Persona[]> => {
+  const tutorSnap = await getDoc(doc(db, "usuarios", usuarioId));
+  const tutor = tutorSnap.data();
+  const personas: Persona[] = [{ id: usuarioId, nombre: tutor?.nombre || "Yo", esDependiente: false }];
+
+  for (const dependienteId of (tutor?.usuariosACargo || []) as string[]) {
+    const dependienteSnap = await getDoc(doc(db, "usuarios", dependienteId));
+    const dependiente = dependienteSnap.data();
+    // Solo los perfiles que tienen a este usuario como tutor (las reglas no dejan leer otros)
+    if (dependiente?.tutorId === usuarioId) {
+      personas.push({ id: dependienteId, nombre: dependiente.nombre, esDependiente: true });
+    }
+  }
+  return personas;
+};
+
+/**
+ * Crea el perfil de una persona a cargo sin cuenta propia (ej. un menor).
+ * @param nombre Nombre y apellido.
+ * @param fechaNacimiento Fecha "YYYY-MM-DD".
+ * @param dni DNI (opcional).
+ * @returns El ID del nuevo perfil.
+ */
+export const crearDependiente = async (nombre: string, fechaNacimiento: string, dni = ""): Promise<string> => {
+  const callable = httpsCallable<
+    { nombre: string; fechaNacimiento: string; dni: string },
+    { usuarioId: string }
+  >(functions, "crearDependiente");
+  const { data } = await callable({ nombre, fechaNacimiento, dni });
+  return data.usuarioId;
+};
+
+/**
+ * Próximas reservas y turnos de todas las personas indicadas, ordenados por fecha.
+ * @param personas El usuario y sus personas a cargo.
+ */
+export const obtenerProximasActividades = async (personas: Persona[]): Promise<ProximaActividad[]> => {
+  const ahora = Timestamp.now();
+  const resultado: ProximaActividad[] = [];
+
+  for (const persona of personas) {
+    const [reservas, turnos] = await Promise.all([
+      getDocs(query(
+        collection(db, "reservas"),
+        where("usuarioId", "==", persona.id),
+        where("fechaActividad", ">=", ahora),
+        orderBy("fechaActividad")
+      )),
+      getDocs(query(
+        collection(db, "turnos"),
+        where("usuarioId", "==", persona.id),
+        where("fechaTurno", ">=", ahora),
+        orderBy("fechaTurno")
+      ))
+    ]);
+
+    reservas.docs.forEach((reservaDoc) => {
+      const data = reservaDoc.data();
+      resultado.push({
+        id: reservaDoc.id,
+        tipo: "reserva",
+        personaId: persona.id,
+        personaNombre: persona.nombre,
+        referenciaId: data.actividadId,
+        fecha: (data.fechaActividad as Timestamp).toDate(),
+        estado: data.estado
+      });
+    });
+    turnos.docs.forEach((turnoDoc) => {
+      const data = turnoDoc.data();
+      resultado.push({
+        id: turnoDoc.id,
+        tipo: "turno",
+        personaId: persona.id,
+        personaNombre: persona.nombre,
+        referenciaId: data.terapiaId,
+        fecha: (data.fechaTurno as Timestamp).toDate(),
+        estado: data.estado
+      });
+    });
+  }
+
+  return resultado.sort((a, b) => a.fecha.getTime() - b.fecha.getTime());
+};
+
+/**
+ * Persona activa elegida en este navegador (para reservar en su nombre).
+ * Devuelve null si no se eligió ninguna (se actúa como el propio usuario).
+ */
+export const obtenerPersonaActiva = (): string | null => {
+  if (typeof window === "undefined") return null;
+  return window.localStorage.getItem(CLAVE_PERSONA_ACTIVA);
+};
+
+/**
+ * Cambia la persona activa. Con null se vuelve a actuar como el propio usuario.
+ * @param personaId ID de la persona a cargo o null.
+ */
+export const cambiarPersonaActiva = (personaId: string | null): void => {
+  if (personaId) {
+    window.localStorage.setItem(CLAVE_PERSONA_ACTIVA, personaId);
+  } else {
+    window.localStorage.removeItem(CLAVE_PERSONA_ACTIVA);
+  }
+};
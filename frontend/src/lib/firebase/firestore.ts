@@ -1,4 +0,0 @@
-import { getFirestore } from 'firebase/firestore';
-import { app } from './config';
-
-export const db = getFirestore(app);
\ No newline at end of file
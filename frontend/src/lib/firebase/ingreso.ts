@@ -0,0 +1,123 @@
+import { doc, getDoc, updateDoc, Timestamp } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { Pregunta, Respuesta, esquemaCuestionario, validarCambios } from "@modelo";
+import { db, functions } from "./config";
+
+// Pregunta de un cuestionario de ingreso y su respuesta (se validan en functions/src/ingreso.ts)
+export type { Pregunta, Respuesta, TipoPregunta } from "@modelo";
+
+export interface Consentimiento {
+  titulo: string;
+  texto: string;
+}
+
+// Versión vigente del cuestionario de una terapia
+export interface Cuestionario {
+  terapiaId: string;
+  activo: boolean;
+  version: number;
+  preguntas: Pregunta[];
+  consentimiento: Consentimiento;
+}
+
+// Documento respuestasIngreso/{usuarioId}_{terapiaId}; no se modifica una vez enviado
+export interface RespuestasIngreso {
+  usuarioId: string;
+  terapiaId: string;
+  version: number;
+  respuestas: Record<string, Respuesta>;
+  consentimiento: { titulo: string; aceptado: boolean; firma: string };
+  fechaRespuesta: Date;
+}
+
+const leerVersion = async (terapiaId: string, version: number) => {
+  const versionDoc = await getDoc(doc(db, "cuestionarios", terapiaId, "versiones", String(version)));
+  return versionDoc.data();
+};
+
+/**
+ * Devuelve la versión vigente del cuestionario de una terapia, o null si nunca se publicó uno.
+ * @param terapiaId ID de la terapia.
+ */
+export const obtenerCuestionario = async (terapiaId: string): Promise<Cuestionario | null> => {
+  const cuestionario = (await getDoc(doc(db, "cuestionarios", terapiaId))).data();
+  if (!cuestionario?.versionActual) return null;
+
+  const version = await leerVersion(terapiaId, cuestionario.versionActual);
+  if (!version) return null;
+  return {
+    terapiaId,
+    activo: Boolean(cuestionario.activo),
+    version: version.version,
+    preguntas: version.preguntas || [],
+    consentimiento: version.consentimiento
+  };
+};
+
+/**
+ * Lee las preguntas de una versión determinada (para mostrar respuestas de versiones anteriores).
+ * @param terapiaId ID de la terapia.
+ * @param version Número de versión.
+ */
+export const obtenerPreguntas = async (terapiaId: string, version: number): Promise<Pregunta[]> => {
+  return (await leerVersion(terapiaId, version))?.preguntas || [];
+};
+
+/**
+ * Publica una nueva versión del cuestionario y consentimiento de una terapia (solo admin).
+ * @returns Número de la versión publicada.
+ */
+export const publicarCuestionario = async (
+  terapiaId: string,
+  preguntas: Pregunta[],
+  consentimiento: Consentimiento
+): Promise<number> => {
+  const callable = httpsCallable<
+    { terapiaId: string; preguntas: Pregunta[]; consentimiento: Consentimiento },
+    { version: number }
+  >(functions, "publicarCuestionario");
+  const { data } = await callable({ terapiaId, preguntas, consentimiento });
+  return data.version;
+};
+
+/**
+ * Activa o desactiva el requisito de cuestionario para una terapia (solo admin).
+ */
+export const cambiarEstadoCuestionario = async (terapiaId: string, activo: boolean): Promise<void> => {
+  await updateDoc(doc(db, "cuestionarios", terapiaId), validarCambios(esquemaCuestionario, { activo }, "cuestionarios"));
+};
+
+/**
+ * Envía las respuestas y la aceptación del consentimiento. Solo se puede hacer una vez por terapia.
+ * @param paraUsuarioId Persona a cargo que responde (por defecto, el usuario actual).
+ */
+export const enviarRespuestasIngreso = async (datos: {
+  terapiaId: string;
+  version: number;
+  respuestas: Record<string, Respuesta>;
+  aceptaConsentimiento: boolean;
+  firma: string;
+  paraUsuarioId?: string;
+}): Promise<void> => {
+  await httpsCallable(functions, "enviarRespuestasIngreso")(datos);
+};
+
+/**
+ * Lee las respuestas de un paciente para una terapia, o null si todavía no respondió.
+ * Las pueden leer el paciente (o su tutor), el profesional de la terapia y un admin.
+ */
+export const obtenerRespuestasIngreso = async (
+  usuarioId: string,
+  terapiaId: string
+): Promise<RespuestasIngreso | null> => {
+  const data = (await getDoc(doc(db, "respuestasIngreso", `${usuarioId}_${terapiaId}`))).data();
+  if (!data) return null;
+  return {
+    usuarioId: data.usuarioId,
+    terapiaId: data.terapiaId,
+    version: data.version,
+    respuestas: data.respuestas || {},
+    consentimiento: data.consentimiento,
+    fechaRespuesta: (data.fechaRespuesta as Timestamp).toDate()
+  };
+};
@@ -0,0 +1,117 @@
+import {
+  collection,
+  getDocs,
+  query,
+  where,
+  Timestamp
+} from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { TipoPlan } from "@modelo";
+import { db, functions } from "./config";
+
+export type { TipoPlan } from "@modelo";
+
+// Plan ofrecido por el gimnasio (colección 'planes')
+export interface Plan {
+  id: string;
+  nombre: string;
+  tipo: TipoPlan;
+  creditos: number | null; // Clases por mes (mensual) o en total (pack); null si es ilimitado
+  vigenciaDias: number | null;
+  precio: number;
+  actividadIds: string[]; // Vacío = todas las actividades
+  activo: boolean;
+}
+
+// Saldo de una membresía asignada al socio
+export interface SaldoMembresia {
+  membresiaId: string;
+  nombrePlan: string;
+  tipo: TipoPlan;
+  creditosRestantes: number | null; // null = ilimitado; en planes mensuales, los del mes en curso
+  fechaVencimiento: Date | null;
+  actividadIds: string[];
+}
+
+const periodoActual = () => {
+  const partes = new Intl.DateTimeFormat("en-CA", {
+    timeZone: "America/Argentina/Buenos_Aires",
+    year: "numeric",
+    month: "2-digit"
+  }).formatToParts(new Date());
+  const valor = (tipo: string) => partes.find((p) => p.type === tipo)?.value;
+  return `${valor("year")}-${valor("month")}`;
+};
+
+/**
+ * Lista los planes disponibles para contratar.
+ */
+export const obtenerPlanes = async (): Promise<Plan[]> => {
+  const snapshot = await getDocs(query(collection(db, "planes"), where("activo", "==", true)));
+  return snapshot.docs.map((planDoc) => {
+    const data = planDoc.data();
+    return {
+      id: planDoc.id,
+      nombre: data.nombre,
+      tipo: data.tipo,
+      creditos: data.creditos ?? null,
+      vigenciaDias: data.vigenciaDias ?? null,
+      precio: data.precio || 0,
+      actividadIds: data.actividadIds || [],
+      activo: data.activo
+    };
+  });
+};
+
+/**
+ * Devuelve el saldo de las membresías vigentes del socio.
+ * @param usuarioId UID del socio.
+ */
+export const obtenerSaldo = async (usuarioId: string): Promise<SaldoMembresia[]> => {
+  const snapshot = await getDocs(
+    query(
+      collection(db, "membresias"),
+      where("usuarioId", "==", usuarioId),
+      where("estado", "==", "activa")
+    )
+  );
+  const ahora = Date.now();
+  const periodo = periodoActual();
+
+  return snapshot.docs
+    .map((membresiaDoc) => {
+      const data = membresiaDoc.data();
+      const vencimiento = data.fechaVencimiento ? (data.fechaVencimiento as Timestamp).toDate() : null;
+      let creditosRestantes: number | null = null;
+      if (data.tipo === "mensual") {
+        creditosRestantes = data.creditos - (data.usosPorPeriodo?.[periodo] || 0);
+      } else if (data.tipo === "pack") {
+        creditosRestantes = data.creditos - (data.creditosUsados || 0);
+      }
+
+      return {
+        membresiaId: membresiaDoc.id,
+        nombrePlan: data.nombrePlan,
+        tipo: data.tipo,
+        creditosRestantes,
+        fechaVencimiento: vencimiento,
+        actividadIds: data.actividadIds || []
+      } as SaldoMembresia;
+    })
+    .filter((saldo) => !saldo.fechaVencimiento || saldo.fechaVencimiento.getTime() >= ahora);
+};
+
+/**
+ * Asigna un plan a un socio (solo admin).
+ * @param usuarioId UID del socio.
+ * @param planId ID del plan.
+ * @param fechaInicio Desde cuándo rige (por defecto, ahora).
+ */
+export const asignarPlan = async (usuarioId: string, planId: string, fechaInicio?: Date): Promise<string> => {
+  const callable = httpsCallable<
+    { usuarioId: string; planId: string; fechaInicio?: string },
+    { membresiaId: string }
+  >(functions, "asignarPlan");
+  const { data } = await callable({ usuarioId, planId, fechaInicio: fechaInicio?.toISOString() });
+  return data.membresiaId;
+};
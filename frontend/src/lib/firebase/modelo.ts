@@ -0,0 +1,45 @@
+import {
+  collection,
+  DocumentData,
+  FirestoreDataConverter,
+  PartialWithFieldValue,
+  QueryDocumentSnapshot,
+  SetOptions
+} from "firebase/firestore";
+import {
+  EsquemaObjeto,
+  esquemaActividad,
+  esquemaDisponibilidad,
+  esquemaSuspension,
+  esquemaTerapia,
+  esquemaUsuario,
+  validarCambios,
+  validarDocumento
+} from "@modelo";
+import { db } from "./config";
+
+/**
+ * Convertidor de Firestore que valida cada documento antes de escribirlo (con merge solo
+ * los campos presentes) y lanza ErrorValidacion con el detalle de cada campo inválido.
+ * Las lecturas no se validan: el cliente tolera documentos viejos y las funciones validan
+ * lo que procesan.
+ */
+export const convertidor = <T>(coleccion: string, esquema: EsquemaObjeto<T>): FirestoreDataConverter<T> => ({
+  toFirestore(modelo: PartialWithFieldValue<T>, opciones?: SetOptions) {
+    const datos = modelo as DocumentData;
+    return opciones ? validarCambios(esquema, datos, coleccion) : validarDocumento(esquema, datos, coleccion) as DocumentData;
+  },
+  fromFirestore(snapshot: QueryDocumentSnapshot) {
+    return snapshot.data() as T;
+  }
+});
+
+// Colecciones que escribe el cliente, con tipo y validación. updateDoc no pasa por el convertidor:
+// antes de actualizar se llama a validarCambios con el esquema de la colección.
+export const colecciones = {
+  actividades: collection(db, "actividades").withConverter(convertidor("actividades", esquemaActividad)),
+  terapias: collection(db, "terapias").withConverter(convertidor("terapias", esquemaTerapia)),
+  suspensiones: collection(db, "suspensiones").withConverter(convertidor("suspensiones", esquemaSuspension)),
+  disponibilidades: collection(db, "disponibilidades").withConverter(convertidor("disponibilidades", esquemaDisponibilidad)),
+  usuarios: collection(db, "usuarios").withConverter(convertidor("usuarios", esquemaUsuario))
+};
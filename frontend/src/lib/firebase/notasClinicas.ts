@@ -0,0 +1,60 @@
+import { httpsCallable } from "firebase/functions";
+import { functions } from "./config";
+
+// Nota clínica de un turno. Solo la ven el profesional tratante y los supervisores clínicos;
+// cada lectura y escritura queda registrada.
+export interface NotaClinica {
+  turnoId: string;
+  pacienteId: string;
+  profesionalId: string;
+  terapiaId: string;
+  fechaTurno: string; // ISO
+  contenido: string;
+  version: number;
+  fechaActualizacion: string; // ISO
+  bloqueadaDesde: string; // ISO: desde entonces no se puede modificar
+  bloqueada: boolean;
+}
+
+export interface VersionNota {
+  version: number;
+  contenido: string;
+  fecha: string; // ISO
+}
+
+/**
+ * Lee la nota de un turno y sus versiones anteriores. `nota` es null si todavía no se escribió.
+ * @param turnoId ID del turno.
+ */
+export const obtenerNotaClinica = async (
+  turnoId: string
+): Promise<{ nota: NotaClinica | null; versiones: VersionNota[] }> => {
+  const callable = httpsCallable<{ turnoId: string }, { nota: NotaClinica | null; versiones: VersionNota[] }>(
+    functions,
+    "obtenerNotaClinica"
+  );
+  const { data } = await callable({ turnoId });
+  return data;
+};
+
+/**
+ * Crea o corrige la nota de un turno propio mientras no esté bloqueada. Cada guardado es una versión nueva.
+ * @param turnoId ID del turno.
+ * @param contenido Texto de la nota.
+ */
+export const guardarNotaClinica = async (turnoId: string, contenido: string): Promise<NotaClinica> => {
+  const callable = httpsCallable<{ turnoId: string; contenido: string }, NotaClinica>(functions, "guardarNotaClinica");
+  const { data } = await callable({ turnoId, contenido });
+  return data;
+};
+
+/**
+ * Devuelve las notas de un paciente de la más reciente a la más antigua (las propias o,
+ * para un supervisor clínico, las de todos los profesionales).
+ * @param pacienteId UID del paciente.
+ */
+export const obtenerHistorialClinico = async (pacienteId: string): Promise<NotaClinica[]> => {
+  const callable = httpsCallable<{ pacienteId: string }, { notas: NotaClinica[] }>(functions, "obtenerHistorialClinico");
+  const { data } = await callable({ pacienteId });
+  return data.notas;
+};
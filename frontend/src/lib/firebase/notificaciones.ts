@@ -0,0 +1,40 @@
+import { doc, getDoc, updateDoc } from "firebase/firestore";
+import { db } from "./config";
+
+export type EventoNotificacion =
+  | "reserva_confirmada"
+  | "turno_confirmado"
+  | "reserva_cancelada"
+  | "turno_cancelado"
+  | "reserva_cancelada_admin"
+  | "turno_cancelado_admin"
+  | "reserva_restaurada"
+  | "turno_restaurado"
+  | "lugar_ofrecido";
+
+// Campo usuarios.preferenciasNotificacion. Lo que no está definido se notifica.
+export interface PreferenciasNotificacion {
+  email?: boolean;
+  eventos?: Partial<Record<EventoNotificacion, boolean>>;
+}
+
+/**
+ * Lee las preferencias de notificación del usuario.
+ * @param usuarioId UID del usuario.
+ */
+export const obtenerPreferenciasNotificacion = async (usuarioId: string): Promise<PreferenciasNotificacion> => {
+  const snapshot = await getDoc(doc(db, "usuarios", usuarioId));
+  return snapshot.data()?.preferenciasNotificacion || {};
+};
+
+/**
+ * Guarda las preferencias de notificación del usuario (canal habilitado y eventos desactivados).
+ * @param usuarioId UID del usuario.
+ * @param preferencias Preferencias a guardar.
+ */
+export const guardarPreferenciasNotificacion = async (
+  usuarioId: string,
+  preferencias: PreferenciasNotificacion
+): Promise<void> => {
+  await updateDoc(doc(db, "usuarios", usuarioId), { preferenciasNotificacion: preferencias });
+};
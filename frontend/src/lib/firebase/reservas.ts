@@ -0,0 +1,339 @@
+import {
+  collection,
+  query,
+  where,
+  orderBy,
+  limit,
+  onSnapshot,
+  Timestamp,
+  Unsubscribe
+} from "firebase/firestore";
+import { httpsCallable, FunctionsError } from "firebase/functions";
+import { db, functions } from "./config";
+import { logEvent, logError } from "@/services/analytics";
+
+export interface ReservaResponse {
+  success: boolean;
+  id?: string;
+  estado?: string;
+  listaEsperaId?: string; // Solo si la clase estaba llena y el socio quedó en lista de espera
+  posicion?: number;
+  ingresoPendiente?: string; // terapiaId cuyo cuestionario de ingreso falta completar antes del primer turno
+  perfilIncompleto?: boolean; // El socio todavía no completó los datos obligatorios de su perfil
+  error?: string;
+  code?: string;
+}
+
+export interface CancelacionResponse {
+  success: boolean;
+  estado?: string; // cancelada_por_socio / cancelada_tarde (reservas), cancelado_por_socio / cancelado_tarde (turnos)
+  penalizacion?: number; // Monto cobrado por cancelar después del límite de la política
+  creditoDevuelto?: boolean; // Si se devolvió el crédito del plan (solo reservas canceladas a tiempo)
+  error?: string;
+  code?: string;
+}
+
+export interface EntradaListaEspera {
+  listaEsperaId: string;
+  claseId: string;
+  actividadId: string;
+  fechaActividad: string; // ISO
+  estado: "esperando" | "ofrecida";
+  posicion: number; // 0 cuando ya tiene un lugar ofrecido
+  vencimientoOferta: string | null; // ISO; hasta cuándo puede aceptar el lugar ofrecido
+}
+
+// Reserva de clase o turno de terapia tal como se muestra en el panel del socio
+export interface ReservaSocio {
+  id: string;
+  tipo: "reserva" | "turno";
+  servicioId: string; // actividadId o terapiaId
+  fecha: Date;
+  estado: string;
+  cupoTomado: number;
+  motivoFalla?: string; // Solo si estado = "fallida"
+  motivoCancelacion?: string; // Cancelaciones (por el socio, por suspensión, ...)
+  asistencia?: "asistio" | "ausente";
+  listaEsperaId?: string; // Lugar ofrecido desde la lista de espera: se rechaza con salirListaEspera
+}
+
+// Cantidad de reservas y de turnos (cada uno) que se escuchan, de la más reciente hacia atrás
+const LIMITE_HISTORIAL = 50;
+
+// Mensajes por defecto según el código devuelto por las funciones callable.
+// El servidor ya envía un mensaje descriptivo en español; estos se usan solo si falta.
+const errorMessages: Record<string, string> = {
+  "functions/unauthenticated": "Debes iniciar sesión para reservar",
+  "functions/invalid-argument": "Los datos de la reserva no son válidos",
+  "functions/not-found": "La actividad o terapia no existe",
+  "functions/resource-exhausted": "No quedan cupos disponibles",
+  "functions/already-exists": "El horario ya está ocupado",
+  "functions/failed-precondition": "No se puede reservar en este momento",
+  "functions/deadline-exceeded": "La oferta de lugar venció",
+  "functions/internal": "Error interno del servidor"
+};
+
+const handleReservaError = (error: FunctionsError, context: string): ReservaResponse => {
+  const message = error.message || errorMessages[error.code] || "Error al reservar";
+  const detalles = error.details as { motivo?: string; terapiaId?: string } | undefined;
+
+  logError(error, context);
+
+  return {
+    success: false,
+    error: message,
+    code: error.code,
+    ingresoPendiente: detalles?.motivo === "ingreso_pendiente" ? detalles.terapiaId : undefined,
+    perfilIncompleto: detalles?.motivo === "perfil_incompleto" || undefined
+  };
+};
+
+/**
+ * Reserva un lugar en una actividad grupal. La validación de cupo y la creación
+ * de la reserva ocurren en el servidor, dentro de la misma transacción.
+ * @param actividadId ID de la actividad.
+ * @param fechaActividad Fecha y hora de la clase.
+ * @param cupoTomado Cantidad de lugares a reservar (por defecto 1).
+ * @param unirseListaEspera Si la clase está llena, anota al socio en la lista de espera.
+ * @param paraUsuarioId Persona a cargo para la que se reserva (por defecto, el usuario actual).
+ */
+export const crearReserva = async (
+  actividadId: string,
+  fechaActividad: Date,
+  cupoTomado = 1,
+  unirseListaEspera = false,
+  paraUsuarioId?: string
+): Promise<ReservaResponse> => {
+  try {
+    const callable = httpsCallable<
+      {
+        actividadId: string;
+        fechaActividad: string;
+        cupoTomado: number;
+        unirseListaEspera: boolean;
+        paraUsuarioId?: string;
+      },
+      { reservaId?: string; listaEsperaId?: string; posicion?: number; estado: string }
+    >(functions, "crearReserva");
+    const { data } = await callable({
+      actividadId,
+      fechaActividad: fechaActividad.toISOString(),
+      cupoTomado,
+      unirseListaEspera,
+      paraUsuarioId
+    });
+
+    if (data.listaEsperaId) {
+      logEvent("lista_espera_alta", { actividadId, posicion: data.posicion });
+      return { success: true, estado: data.estado, listaEsperaId: data.listaEsperaId, posicion: data.posicion };
+    }
+
+    logEvent("reserva_creada", { actividadId });
+    return { success: true, id: data.reservaId, estado: data.estado };
+  } catch (error) {
+    return handleReservaError(error as FunctionsError, "crear_reserva");
+  }
+};
+
+/**
+ * Reserva un turno de terapia individual. El servidor verifica que el profesional
+ * no tenga otro turno solapado antes de crearlo.
+ * @param terapiaId ID de la terapia.
+ * @param fechaTurno Fecha y hora de inicio del turno.
+ * @param paraUsuarioId Persona a cargo para la que se saca el turno (por defecto, el usuario actual).
+ */
+export const crearTurno = async (
+  terapiaId: string,
+  fechaTurno: Date,
+  paraUsuarioId?: string
+): Promise<ReservaResponse> => {
+  try {
+    const callable = httpsCallable<
+      { terapiaId: string; fechaTurno: string; paraUsuarioId?: string },
+      { turnoId: string; estado: string }
+    >(functions, "crearTurno");
+    const { data } = await callable({
+      terapiaId,
+      fechaTurno: fechaTurno.toISOString(),
+      paraUsuarioId
+    });
+
+    logEvent("turno_creado", { terapiaId });
+    return { success: true, id: data.turnoId, estado: data.estado };
+  } catch (error) {
+    return handleReservaError(error as FunctionsError, "crear_turno");
+  }
+};
+
+/**
+ * Devuelve las entradas activas del usuario en listas de espera, con su posición actual.
+ * @param paraUsuarioId Persona a cargo a consultar (por defecto, el usuario actual).
+ */
+export const consultarListaEspera = async (paraUsuarioId?: string): Promise<EntradaListaEspera[]> => {
+  const callable = httpsCallable<{ paraUsuarioId?: string }, { entradas: EntradaListaEspera[] }>(
+    functions,
+    "consultarListaEspera"
+  );
+  const { data } = await callable({ paraUsuarioId });
+  return data.entradas;
+};
+
+/**
+ * Acepta el lugar ofrecido a un socio promovido desde la lista de espera.
+ * @param listaEsperaId ID de la entrada en la lista de espera.
+ */
+export const aceptarLugarListaEspera = async (listaEsperaId: string): Promise<ReservaResponse> => {
+  try {
+    const callable = httpsCallable<{ listaEsperaId: string }, { reservaId: string; estado: string }>(
+      functions,
+      "aceptarLugarListaEspera"
+    );
+    const { data } = await callable({ listaEsperaId });
+
+    logEvent("lista_espera_aceptada", { listaEsperaId });
+    return { success: true, id: data.reservaId, estado: data.estado };
+  } catch (error) {
+    return handleReservaError(error as FunctionsError, "aceptar_lista_espera");
+  }
+};
+
+/**
+ * Sale de la lista de espera. Si había un lugar ofrecido, pasa al siguiente de la lista.
+ * @param listaEsperaId ID de la entrada en la lista de espera.
+ */
+export const salirListaEspera = async (listaEsperaId: string): Promise<ReservaResponse> => {
+  try {
+    const callable = httpsCallable<{ listaEsperaId: string }, { listaEsperaId: string; estado: string }>(
+      functions,
+      "salirListaEspera"
+    );
+    const { data } = await callable({ listaEsperaId });
+    return { success: true, listaEsperaId: data.listaEsperaId, estado: data.estado };
+  } catch (error) {
+    return handleReservaError(error as FunctionsError, "salir_lista_espera");
+  }
+};
+
+/**
+ * Cancela una reserva propia. Si se cancela después del límite que fija la actividad,
+ * queda como "cancelada_tarde" y puede generar una penalización.
+ * @param reservaId ID de la reserva.
+ * @param motivo Motivo de la cancelación (opcional).
+ */
+export const cancelarReserva = async (reservaId: string, motivo = ""): Promise<CancelacionResponse> => {
+  try {
+    const callable = httpsCallable<
+      { reservaId: string; motivo: string },
+      { reservaId: string; estado: string; penalizacion: number; creditoDevuelto: boolean }
+    >(functions, "cancelarReserva");
+    const { data } = await callable({ reservaId, motivo });
+
+    logEvent("reserva_cancelada", { reservaId, estado: data.estado });
+    return {
+      success: true,
+      estado: data.estado,
+      penalizacion: data.penalizacion,
+      creditoDevuelto: data.creditoDevuelto
+    };
+  } catch (error) {
+    return handleReservaError(error as FunctionsError, "cancelar_reserva");
+  }
+};
+
+/**
+ * Cancela un turno propio, con las mismas reglas de anticipación que fija la terapia.
+ * @param turnoId ID del turno.
+ * @param motivo Motivo de la cancelación (opcional).
+ */
+export const cancelarTurno = async (turnoId: string, motivo = ""): Promise<CancelacionResponse> => {
+  try {
+    const callable = httpsCallable<
+      { turnoId: string; motivo: string },
+      { turnoId: string; estado: string; penalizacion: number }
+    >(functions, "cancelarTurno");
+    const { data } = await callable({ turnoId, motivo });
+
+    logEvent("turno_cancelado", { turnoId, estado: data.estado });
+    return { success: true, estado: data.estado, penalizacion: data.penalizacion };
+  } catch (error) {
+    return handleReservaError(error as FunctionsError, "cancelar_turno");
+  }
+};
+
+/**
+ * Escucha en tiempo real las reservas y turnos de un socio (próximos y pasados).
+ * Llama a `onCambio` con ambas listas combinadas y ordenadas de la más reciente a la más antigua.
+ * @param usuarioId UID del socio.
+ * @param onCambio Recibe la lista actualizada en cada cambio.
+ * @param onError Recibe el error si alguna de las suscripciones falla.
+ * @returns Función para cancelar la suscripción.
+ */
+export const escucharReservasSocio = (
+  usuarioId: string,
+  onCambio: (items: ReservaSocio[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  let reservas: ReservaSocio[] = [];
+  let turnos: ReservaSocio[] = [];
+  const emitir = () => onCambio([...reservas, ...turnos].sort((a, b) => b.fecha.getTime() - a.fecha.getTime()));
+
+  const cancelarReservas = onSnapshot(
+    query(
+      collection(db, "reservas"),
+      where("usuarioId", "==", usuarioId),
+      orderBy("fechaActividad", "desc"),
+      limit(LIMITE_HISTORIAL)
+    ),
+    (snapshot) => {
+      reservas = snapshot.docs.map((reservaDoc) => {
+        const data = reservaDoc.data();
+        return {
+          id: reservaDoc.id,
+          tipo: "reserva",
+          servicioId: data.actividadId,
+          fecha: (data.fechaActividad as Timestamp).toDate(),
+          estado: data.estado,
+          cupoTomado: data.cupoTomado || 1,
+          motivoFalla: data.motivoFalla,
+          motivoCancelacion: data.motivoCancelacion,
+          asistencia: data.asistencia,
+          listaEsperaId: data.listaEsperaId
+        };
+      });
+      emitir();
+    },
+    onError
+  );
+
+  const cancelarTurnos = onSnapshot(
+    query(
+      collection(db, "turnos"),
+      where("usuarioId", "==", usuarioId),
+      orderBy("fechaTurno", "desc"),
+      limit(LIMITE_HISTORIAL)
+    ),
+    (snapshot) => {
+      turnos = snapshot.docs.map((turnoDoc) => {
+        const data = turnoDoc.data();
+        return {
+          id: turnoDoc.id,
+          tipo: "turno",
+          servicioId: data.terapiaId,
+          fecha: (data.fechaTurno as Timestamp).toDate(),
+          estado: data.estado,
+          cupoTomado: 1,
+          motivoFalla: data.motivoFalla,
+          motivoCancelacion: data.motivoCancelacion,
+          asistencia: data.asistencia
+        };
+      });
+      emitir();
+    },
+    onError
+  );
+
+  return () => {
+    cancelarReservas();
+    cancelarTurnos();
+  };
+};
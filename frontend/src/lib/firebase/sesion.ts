@@ -0,0 +1,35 @@
+import { User } from "firebase/auth";
+
+// Función sesion, expuesta en el mismo dominio por una rewrite de Firebase Hosting (firebase.json)
+const URL_SESION = "/api/sesion";
+
+// Fuera del build de producción (`next dev`, pruebas) no hay Hosting ni funciones: las páginas
+// no están protegidas y no hay cookie que crear
+const sinServidor = process.env.NODE_ENV !== "production";
+
+const errorDeRespuesta = async (respuesta: Response, porDefecto: string) =>
+  new Error((await respuesta.text()) || porDefecto);
+
+/**
+ * Canjea el ID token del usuario recién autenticado por la cookie de sesión HttpOnly con la que
+ * Hosting sirve las páginas protegidas. Debe llamarse justo después de iniciar sesión.
+ */
+export const crearSesion = async (user: User): Promise<void> => {
+  if (sinServidor) return;
+  const respuesta = await fetch(URL_SESION, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "same-origin",
+    body: JSON.stringify({ idToken: await user.getIdToken() })
+  });
+  if (!respuesta.ok) throw await errorDeRespuesta(respuesta, "No se pudo iniciar la sesión");
+};
+
+/**
+ * Borra la cookie de sesión y revoca los tokens del usuario en el servidor.
+ */
+export const cerrarSesion = async (): Promise<void> => {
+  if (sinServidor) return;
+  const respuesta = await fetch(URL_SESION, { method: "DELETE", credentials: "same-origin" });
+  if (!respuesta.ok) throw await errorDeRespuesta(respuesta, "No se pudo cerrar la sesión");
+};
@@ -0,0 +1,103 @@
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  query,
+  orderBy,
+  updateDoc,
+  serverTimestamp,
+  Timestamp
+} from "firebase/firestore";
+import { TipoSuspension, esquemaSuspension, validarCambios } from "@modelo";
+import { db } from "./config";
+import { colecciones } from "./modelo";
+
+export type { TipoSuspension };
+
+// Documento de la colección 'suspensiones' (lo procesa la función procesarSuspension)
+export interface Suspension {
+  id: string;
+  tipo: TipoSuspension;
+  actividadId: string | null; // ID de la actividad o terapia (tipo "actividad")
+  profesorId: string | null; // UID del profesional (tipo "profesor")
+  fechaInicio: Date;
+  fechaFin: Date;
+  motivo: string;
+  afectaReservasExistentes: boolean; // true = cancela las reservas y turnos confirmados del rango
+  archivada: boolean;
+}
+
+export type DatosSuspension = Omit<Suspension, "id" | "archivada">;
+
+const aFirestore = (datos: DatosSuspension) => ({
+  tipo: datos.tipo,
+  actividadId: datos.tipo === "actividad" ? datos.actividadId : null,
+  profesorId: datos.tipo === "profesor" ? datos.profesorId : null,
+  fechaInicio: Timestamp.fromDate(datos.fechaInicio),
+  fechaFin: Timestamp.fromDate(datos.fechaFin),
+  motivo: datos.motivo,
+  afectaReservasExistentes: datos.afectaReservasExistentes
+});
+
+/**
+ * Lista las suspensiones, de la más reciente a la más antigua.
+ */
+export const obtenerSuspensiones = async (): Promise<Suspension[]> => {
+  const snapshot = await getDocs(query(collection(db, "suspensiones"), orderBy("fechaInicio", "desc")));
+  return snapshot.docs.map((suspensionDoc) => {
+    const data = suspensionDoc.data();
+    return {
+      id: suspensionDoc.id,
+      tipo: data.tipo,
+      actividadId: data.actividadId || null,
+      profesorId: data.profesorId || null,
+      fechaInicio: (data.fechaInicio as Timestamp).toDate(),
+      fechaFin: (data.fechaFin as Timestamp).toDate(),
+      motivo: data.motivo || "",
+      afectaReservasExistentes: Boolean(data.afectaReservasExistentes),
+      archivada: Boolean(data.archivada)
+    };
+  });
+};
+
+/**
+ * Crea (sin ID) o modifica una suspensión (solo admin). Si afecta reservas existentes,
+ * las funciones cancelan las del rango y, al acotarla, restauran las que dejó de cubrir.
+ * @param id ID de la suspensión a editar, o null para crear una nueva.
+ * @param datos Datos de la suspensión.
+ */
+export const guardarSuspension = async (id: string | null, datos: DatosSuspension): Promise<string> => {
+  if (id) {
+    await updateDoc(doc(db, "suspensiones", id), {
+      ...validarCambios(esquemaSuspension, aFirestore(datos), "suspensiones"),
+      fechaActualizacion: serverTimestamp()
+    });
+    return id;
+  }
+  const nueva = await addDoc(colecciones.suspensiones, {
+    ...aFirestore(datos),
+    archivada: false,
+    fechaCreacion: serverTimestamp()
+  });
+  return nueva.id;
+};
+
+/**
+ * Archiva o desarchiva una suspensión: solo la oculta del listado, no cambia lo que cubre.
+ * @param id ID de la suspensión.
+ * @param archivada true para archivar.
+ */
+export const archivarSuspension = async (id: string, archivada: boolean): Promise<void> => {
+  await updateDoc(doc(db, "suspensiones", id), { archivada });
+};
+
+/**
+ * Levanta (elimina) una suspensión. Las reservas y turnos que había cancelado se restauran
+ * si todavía hay lugar.
+ * @param id ID de la suspensión.
+ */
+export const levantarSuspension = async (id: string): Promise<void> => {
+  await deleteDoc(doc(db, "suspensiones", id));
+};
@@ -0,0 +1,102 @@
+import { collection, doc, getDoc, getDocs, query, where, updateDoc, DocumentData } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { TipoUsuario, UsuarioDoc } from "@modelo";
+import { db, functions } from "./config";
+
+// Documento usuarios/{uid} tal como lo guardan el registro, completarPerfil y las funciones
+export type { TipoUsuario, UsuarioDoc };
+
+// Resumen de un usuario para la consola de administración
+export interface UsuarioResumen {
+  id: string;
+  nombre: string;
+  email: string;
+  dni: string;
+  tipo: TipoUsuario;
+  esDependiente: boolean;
+  supervisorClinico: boolean; // Profesional que puede leer las notas clínicas de todos
+}
+
+// Datos obligatorios que el socio carga en la bienvenida antes de poder reservar
+export interface DatosPerfil {
+  dni: string;
+  fechaNacimiento: string; // "YYYY-MM-DD"
+  telefono: string;
+  contactoEmergencia: { nombre: string; telefono: string };
+}
+
+const aResumen = (id: string, data: DocumentData): UsuarioResumen => ({
+  id,
+  nombre: data.nombre || "",
+  email: data.email || "",
+  dni: data.dni || "",
+  tipo: data.tipo || "socio",
+  esDependiente: Boolean(data.esDependiente),
+  supervisorClinico: data.supervisorClinico === true
+});
+
+/**
+ * Lee el documento de un usuario (null si no existe).
+ * @param usuarioId UID del usuario.
+ */
+export const obtenerUsuario = async (usuarioId: string): Promise<UsuarioDoc | null> => {
+  const snapshot = await getDoc(doc(db, "usuarios", usuarioId));
+  return snapshot.exists() ? (snapshot.data() as UsuarioDoc) : null;
+};
+
+/**
+ * Lista todos los usuarios ordenados por nombre (solo personal).
+ */
+export const obtenerUsuarios = async (): Promise<UsuarioResumen[]> => {
+  const snapshot = await getDocs(collection(db, "usuarios"));
+  return snapshot.docs
+    .map((usuarioDoc) => aResumen(usuarioDoc.id, usuarioDoc.data()))
+    .sort((a, b) => a.nombre.localeCompare(b.nombre));
+};
+
+/**
+ * Lista los profesionales (para asignarlos a terapias, clases y suspensiones).
+ */
+export const obtenerProfesionales = async (): Promise<UsuarioResumen[]> => {
+  const snapshot = await getDocs(query(collection(db, "usuarios"), where("tipo", "==", "profesional")));
+  return snapshot.docs
+    .map((usuarioDoc) => aResumen(usuarioDoc.id, usuarioDoc.data()))
+    .sort((a, b) => a.nombre.localeCompare(b.nombre));
+};
+
+/**
+ * Cambia el rol de un usuario (solo admin). sincronizarRolUsuario lo refleja en los claims;
+ * el usuario lo ve al renovar su token.
+ * @param usuarioId UID del usuario.
+ * @param tipo Nuevo rol.
+ */
+export const cambiarTipoUsuario = async (usuarioId: string, tipo: TipoUsuario): Promise<void> => {
+  await updateDoc(doc(db, "usuarios", usuarioId), { tipo });
+};
+
+/**
+ * Otorga o quita a un profesional el permiso de leer las notas clínicas de todos (solo admin).
+ * @param usuarioId UID del profesional.
+ * @param supervisorClinico true para otorgarlo.
+ */
+export const cambiarSupervisorClinico = async (usuarioId: string, supervisorClinico: boolean): Promise<void> => {
+  await updateDoc(doc(db, "usuarios", usuarioId), { supervisorClinico });
+};
+
+/**
+ * Indica si el usuario todavía tiene que pasar por la bienvenida: los socios no pueden
+ * reservar hasta completar su perfil (el personal queda exceptuado).
+ * @param usuario Documento de Firestore del usuario.
+ */
+export const requiereBienvenida = (usuario: UsuarioDoc | null): boolean =>
+  usuario?.tipo === "socio" && usuario.perfilCompleto !== true;
+
+/**
+ * Completa el perfil del usuario actual (DNI único, fecha de nacimiento, teléfono y contacto
+ * de emergencia). Lo valida el servidor; si el DNI ya está registrado falla con "already-exists".
+ * @param datos Datos del perfil.
+ */
+export const completarPerfil = async (datos: DatosPerfil): Promise<void> => {
+  const callable = httpsCallable<DatosPerfil, { perfilCompleto: boolean }>(functions, "completarPerfil");
+  await callable(datos);
+};
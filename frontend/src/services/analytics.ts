@@ -13,7 +13,7 @@ export const initAnalytics = () => {
 // Registro de eventos
 export const logEvent = (
   eventName: string, 
-  eventParams?: Record<string, any>
+  eventParams?: Record<string, unknown>
 ) => {
   if (!analytics) {
     console.warn('No se puede registrar evento - Analytics no inicializado');
@@ -31,7 +31,7 @@ export const logEvent = (
 export const logError = (
   error: unknown,
   context?: string,
-  additionalData?: Record<string, any>
+  additionalData?: Record<string, unknown>
 ) => {
   const errorData = {
     message: error instanceof Error ? error.message : String(error),
@@ -0,0 +1,114 @@
+import { applyActionCode, confirmPasswordReset } from "firebase/auth";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+
+// Estas pruebas corren contra los emuladores de Auth y Firestore configurados en firebase.json.
+// Ejecutar con: npm run test:auth
+const PROYECTO = "demo-virtud";
+const EMULADOR_AUTH = "http://127.0.0.1:9099";
+
+// config.ts lee la configuración al importarse: se define antes de cargar el módulo
+process.env.NEXT_PUBLIC_USE_EMULATORS = "true";
+process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID = PROYECTO;
+process.env.NEXT_PUBLIC_FIREBASE_API_KEY = "demo-api-key";
+
+let authLib: typeof import("@/lib/firebase/auth");
+let numeroCuenta = 0;
+
+type TipoCodigo = "VERIFY_EMAIL" | "PASSWORD_RESET";
+
+// Último código de acción (enlace de email) que el emulador generó para una dirección
+const ultimoCodigo = async (email: string, tipo: TipoCodigo): Promise<string> => {
+  const respuesta = await fetch(`${EMULADOR_AUTH}/emulator/v1/projects/${PROYECTO}/oobCodes`);
+  const { oobCodes } = (await respuesta.json()) as { oobCodes: { email: string; requestType: string; oobCode: string }[] };
+  const codigos = oobCodes.filter((c) => c.email === email && c.requestType === tipo);
+  expect(codigos.length).toBeGreaterThan(0);
+  return codigos[codigos.length - 1].oobCode;
+};
+
+const nuevoEmail = () => `socio${++numeroCuenta}@virtud.test`;
+
+// Registra una cuenta, verifica el email y la deja con la sesión cerrada
+const crearCuentaVerificada = async (email: string, password: string) => {
+  expect((await authLib.createUser(email, password, "Ana", "1122334455", 30)).success).toBe(true);
+  await applyActionCode(authLib.auth, await ultimoCodigo(email, "VERIFY_EMAIL"));
+  await authLib.logout();
+};
+
+beforeAll(async () => {
+  authLib = await import("@/lib/firebase/auth");
+  await fetch(`${EMULADOR_AUTH}/emulator/v1/projects/${PROYECTO}/accounts`, { method: "DELETE" });
+});
+
+beforeEach(async () => {
+  await authLib.logout();
+});
+
+describe("registro con email", () => {
+  it("crea la cuenta y no deja ingresar hasta verificar el email", async () => {
+    const email = nuevoEmail();
+    const registro = await authLib.createUser(email, "secreta1", "Ana", "1122334455", 30);
+    expect(registro.success).toBe(true);
+    expect(registro.requiereVerificacion).toBe(true);
+    expect(registro.firestoreUser?.tipo).toBe("socio");
+    await authLib.logout();
+
+    const sinVerificar = await authLib.signInWithEmail(email, "secreta1");
+    expect(sinVerificar.success).toBe(false);
+    expect(sinVerificar.code).toBe("auth/email-not-verified");
+    expect(sinVerificar.error).toContain("Verificá tu email");
+
+    await applyActionCode(authLib.auth, await ultimoCodigo(email, "VERIFY_EMAIL"));
+    const verificado = await authLib.signInWithEmail(email, "secreta1");
+    expect(verificado.success).toBe(true);
+    expect(verificado.firestoreUser?.nombre).toBe("Ana");
+  });
+
+  it("informa en español si el email ya está registrado", async () => {
+    const email = nuevoEmail();
+    await crearCuentaVerificada(email, "secreta1");
+    const repetido = await authLib.createUser(email, "secreta1", "Ana", "1122334455", 30);
+    expect(repetido.success).toBe(false);
+    expect(repetido.error).toBe("El email ya está registrado");
+  });
+});
+
+describe("inicio de sesión con email", () => {
+  it("rechaza una contraseña incorrecta con el mensaje traducido", async () => {
+    const email = nuevoEmail();
+    await crearCuentaVerificada(email, "secreta1");
+    const resultado = await authLib.signInWithEmail(email, "otra-clave");
+    expect(resultado.success).toBe(false);
+    expect(resultado.error).toBe("Credenciales incorrectas");
+  });
+});
+
+describe("contraseña", () => {
+  it("se restablece con el enlace enviado por email", async () => {
+    const email = nuevoEmail();
+    await crearCuentaVerificada(email, "secreta1");
+
+    expect((await authLib.enviarRecuperacionContrasena(email)).success).toBe(true);
+    await confirmPasswordReset(authLib.auth, await ultimoCodigo(email, "PASSWORD_RESET"), "nueva-clave");
+
+    expect((await authLib.signInWithEmail(email, "secreta1")).success).toBe(false);
+    expect((await authLib.signInWithEmail(email, "nueva-clave")).success).toBe(true);
+  });
+
+  it("la recuperación no revela si el email está registrado", async () => {
+    expect((await authLib.enviarRecuperacionContrasena("nadie@virtud.test")).success).toBe(true);
+  });
+
+  it("se cambia solo confirmando la contraseña actual", async () => {
+    const email = nuevoEmail();
+    await crearCuentaVerificada(email, "secreta1");
+    expect((await authLib.signInWithEmail(email, "secreta1")).success).toBe(true);
+
+    const incorrecta = await authLib.cambiarContrasena("otra-clave", "cambiada1");
+    expect(incorrecta.success).toBe(false);
+    expect(incorrecta.error).toBe("Credenciales incorrectas");
+
+    expect((await authLib.cambiarContrasena("secreta1", "cambiada1")).success).toBe(true);
+    await authLib.logout();
+    expect((await authLib.signInWithEmail(email, "cambiada1")).success).toBe(true);
+  });
+});
@@ -0,0 +1,284 @@
+import { describe, expect, it } from "vitest";
+import {
+  ErrorValidacion,
+  erroresDe as problemasDe,
+  esquemaActividad,
+  esquemaCargo,
+  esquemaDisponibilidad,
+  esquemaEntradaListaEspera,
+  esquemaMembresia,
+  esquemaPlan,
+  esquemaPregunta,
+  esquemaReglaHorario,
+  esquemaReserva,
+  esquemaRespuesta,
+  esquemaRespuestasIngreso,
+  esquemaSuspension,
+  esquemaTerapia,
+  esquemaUsuario,
+  validarCambios,
+  validarDocumento
+} from "@modelo";
+
+// Pruebas del modelo compartido: no usan Firestore ni los emuladores.
+// Ejecutar con: npm run test:modelo
+const fecha = (iso: string) => new Date(iso);
+
+// Valor especial de Firestore (serverTimestamp, increment, ...): un objeto con isEqual
+const valorServidor = { isEqual: () => false };
+
+const erroresDe = (validar: () => unknown): string[] => {
+  try {
+    validar();
+  } catch (error) {
+    expect(error).toBeInstanceOf(ErrorValidacion);
+    return (error as ErrorValidacion).errores;
+  }
+  throw new Error("Se esperaba un ErrorValidacion");
+};
+
+describe("reservas", () => {
+  const reserva = {
+    usuarioId: "socio1",
+    actividadId: "yoga",
+    fechaActividad: fecha("2025-06-02T21:30:00Z"),
+    estado: "pendiente"
+  };
+
+  it("acepta una reserva completa y conserva los campos que agregan las funciones", () => {
+    const valida = validarDocumento(esquemaReserva, { ...reserva, membresiaId: "m1" }, "reservas");
+    expect(valida).toMatchObject({ actividadId: "yoga", membresiaId: "m1" });
+  });
+
+  it("indica el campo mal escrito en lugar de 'Datos incompletos'", () => {
+    const { fechaActividad, ...sinFecha } = reserva;
+    const errores = erroresDe(() => validarDocumento(esquemaReserva, { ...sinFecha, fechaActvidad: fechaActividad }, "reservas/r1"));
+    expect(errores).toEqual(["'fechaActividad' debe ser una fecha (Timestamp)."]);
+  });
+
+  it("rechaza estados y cupos inválidos con un mensaje por campo", () => {
+    const errores = erroresDe(() => validarDocumento(esquemaReserva, { ...reserva, estado: "reservada", cupoTomado: 0 }, "reservas"));
+    expect(errores).toHaveLength(2);
+    expect(errores[0]).toContain("'cupoTomado' debe ser un entero mayor o igual a 1");
+    expect(errores[1]).toContain("'estado' debe ser uno de: pendiente, confirmada");
+  });
+
+  it("acepta los estados que escribe la lista de espera", () => {
+    for (const estado of ["rechazada", "expirada"]) {
+      expect(validarDocumento(esquemaReserva, { ...reserva, estado, listaEsperaId: "le1" }, "reservas").estado).toBe(estado);
+    }
+  });
+
+  it("incluye la colección en el mensaje del error", () => {
+    expect(() => validarDocumento(esquemaReserva, {}, "reservas/r1")).toThrow(/^Datos inválidos en reservas\/r1: /);
+  });
+});
+
+describe("catálogo", () => {
+  it("valida los horarios de una actividad con la ruta de cada campo", () => {
+    const errores = erroresDe(() => validarDocumento(esquemaActividad, {
+      nombre: "Yoga",
+      cupo: 12,
+      horarios: [{ dias: [1, 7], horaInicio: "18:30", duracionMinutos: 60, vigenciaDesde: "2025-03-01" },
+        { dias: [2], horaInicio: "8:00", duracionMinutos: 60, vigenciaDesde: "2025-03-01" }]
+    }, "actividades"));
+    expect(errores).toEqual([
+      "'horarios[0].dias[1]' debe ser un entero menor o igual a 6.",
+      "'horarios[1].horaInicio' debe tener formato HH:mm."
+    ]);
+  });
+
+  it("devuelve los problemas de una regla sin lanzar, con mes y día posibles", () => {
+    const regla = { dias: [1], horaInicio: "18:30", duracionMinutos: 60, vigenciaDesde: "2025-03-01" };
+    expect(problemasDe(esquemaReglaHorario, regla)).toEqual([]);
+    expect(problemasDe(esquemaReglaHorario, { ...regla, vigenciaDesde: "2025-13-01", excepciones: ["2025-04-32"] }, "horarios[0]"))
+      .toEqual([
+        "'horarios[0].vigenciaDesde' debe tener formato YYYY-MM-DD.",
+        "'horarios[0].excepciones[0]' debe tener formato YYYY-MM-DD."
+      ]);
+  });
+
+  it("limita la duración de las terapias", () => {
+    const terapia = { nombre: "Kinesiología", duracionMinutos: 300 };
+    expect(erroresDe(() => validarDocumento(esquemaTerapia, terapia, "terapias"))).toEqual([
+      "'duracionMinutos' debe ser un entero menor o igual a 240."
+    ]);
+    expect(validarDocumento(esquemaTerapia, { ...terapia, duracionMinutos: 45 }, "terapias").duracionMinutos).toBe(45);
+  });
+
+  it("acepta valores del servidor como fechas", () => {
+    expect(() => validarDocumento(esquemaActividad, { nombre: "Pilates", cupo: 8, fechaCreacion: valorServidor }, "actividades"))
+      .not.toThrow();
+  });
+});
+
+describe("validaciones entre campos", () => {
+  const suspension = {
+    tipo: "general",
+    fechaInicio: fecha("2025-06-02T03:00:00Z"),
+    fechaFin: fecha("2025-06-03T03:00:00Z"),
+    afectaReservasExistentes: true
+  };
+
+  it("exige el ID según el tipo de suspensión", () => {
+    expect(erroresDe(() => validarDocumento(esquemaSuspension, { ...suspension, tipo: "actividad" }, "suspensiones"))).toEqual([
+      "Una suspensión de tipo actividad debe indicar 'actividadId'."
+    ]);
+  });
+
+  it("rechaza un rango invertido", () => {
+    const invertida = { ...suspension, fechaInicio: suspension.fechaFin, fechaFin: suspension.fechaInicio };
+    expect(erroresDe(() => validarDocumento(esquemaSuspension, invertida, "suspensiones"))).toEqual([
+      "'fechaFin' no puede ser anterior a 'fechaInicio'."
+    ]);
+  });
+
+  it("rechaza franjas que terminan antes de empezar", () => {
+    const errores = erroresDe(() => validarDocumento(esquemaDisponibilidad, {
+      horarios: [{ dia: 1, desde: "13:00", hasta: "09:00" }]
+    }, "disponibilidades"));
+    expect(errores).toEqual(["La franja 13:00-09:00 termina antes de empezar."]);
+  });
+
+  it("valida el formato del DNI solo si está cargado", () => {
+    const usuario = {
+      uid: "u1",
+      nombre: "Ana",
+      email: "ana@virtud.test",
+      telefono: "",
+      dni: "",
+      fechaNacimiento: null,
+      tipo: "socio",
+      responsableDePago: null,
+      usuariosACargo: []
+    };
+    expect(() => validarDocumento(esquemaUsuario, usuario, "usuarios")).not.toThrow();
+    expect(erroresDe(() => validarDocumento(esquemaUsuario, { ...usuario, dni: "12.345.678" }, "usuarios"))).toEqual([
+      "'dni' debe tener 7 u 8 dígitos, sin puntos."
+    ]);
+  });
+});
+
+describe("actualizaciones parciales", () => {
+  it("valida solo los campos presentes", () => {
+    expect(validarCambios(esquemaActividad, { cupo: 20 }, "actividades")).toEqual({ cupo: 20 });
+    expect(erroresDe(() => validarCambios(esquemaActividad, { cupo: -1 }, "actividades"))).toEqual([
+      "'cupo' debe ser un entero mayor o igual a 1."
+    ]);
+  });
+
+  it("no valida valores especiales de Firestore ni campos que el esquema no declara", () => {
+    const cambios = { cupo: valorServidor, "metadata.ultimoAcceso": valorServidor, notas: 3 };
+    expect(validarCambios(esquemaActividad, cambios, "actividades")).toBe(cambios);
+  });
+});
+
+describe("cuestionarios de ingreso", () => {
+  const pregunta = { id: "dolor", tipo: "escala", enunciado: "¿Cuánto dolor tenés?", obligatoria: true, min: 0, max: 10 };
+
+  it("valida la pregunta según su tipo", () => {
+    expect(problemasDe(esquemaPregunta, pregunta)).toEqual([]);
+    expect(problemasDe(esquemaPregunta, { ...pregunta, max: 11 })).toEqual([
+      "La escala de la pregunta 'dolor' no es válida (hasta 10 pasos)."
+    ]);
+    expect(problemasDe(esquemaPregunta, { ...pregunta, tipo: "opcion", opciones: ["Sí"] })).toEqual([
+      "La pregunta 'dolor' debe tener entre 2 y 20 opciones."
+    ]);
+    expect(problemasDe(esquemaPregunta, { ...pregunta, enunciado: "   " })).toHaveLength(1);
+  });
+
+  it("valida la respuesta contra la pregunta publicada", () => {
+    expect(problemasDe(esquemaRespuesta(validarDocumento(esquemaPregunta, pregunta, "preguntas")), 7)).toEqual([]);
+    expect(problemasDe(esquemaRespuesta(validarDocumento(esquemaPregunta, pregunta, "preguntas")), 11)).toHaveLength(1);
+    const opcion = validarDocumento(esquemaPregunta, { ...pregunta, tipo: "opcion", opciones: ["A", "B"], multiple: true }, "preguntas");
+    expect(problemasDe(esquemaRespuesta(opcion), ["A", "B"])).toEqual([]);
+    expect(problemasDe(esquemaRespuesta(opcion), ["C"])).toHaveLength(1);
+  });
+});
+
+describe("colecciones que escriben las funciones", () => {
+  it("exige créditos a los planes que no son ilimitados y vigencia a los packs", () => {
+    expect(problemasDe(esquemaPlan, { nombre: "Libre", tipo: "ilimitado", precio: 30000 })).toEqual([]);
+    expect(problemasDe(esquemaPlan, { nombre: "Pack 8", tipo: "pack", creditos: 8, precio: 20000 })).toEqual([
+      "Los packs deben tener días de vigencia."
+    ]);
+    expect(problemasDe(esquemaPlan, { nombre: "Mensual", tipo: "mensual", creditos: null })).toEqual([
+      "El plan debe tener una cantidad de créditos positiva."
+    ]);
+  });
+
+  it("valida cada período de los usos de una membresía", () => {
+    const membresia = {
+      usuarioId: "socio1",
+      planId: "mensual8",
+      nombrePlan: "Mensual 8",
+      tipo: "mensual",
+      precio: 25000,
+      creditos: 8,
+      actividadIds: [],
+      fechaInicio: fecha("2025-06-01T03:00:00Z"),
+      fechaVencimiento: null,
+      creditosUsados: 0,
+      usosPorPeriodo: { "2025-06": 3 },
+      estado: "activa",
+      fechaCreacion: valorServidor
+    };
+    expect(() => validarDocumento(esquemaMembresia, membresia, "membresias")).not.toThrow();
+    expect(problemasDe(esquemaMembresia, { ...membresia, usosPorPeriodo: { "2025-06": -1 } })).toEqual([
+      "'usosPorPeriodo.2025-06' debe ser un entero mayor o igual a 0."
+    ]);
+  });
+
+  it("exige la reserva que retiene el lugar ofrecido desde la lista de espera", () => {
+    const entrada = {
+      claseId: "yoga_2025-06-02T21:30",
+      actividadId: "yoga",
+      fechaActividad: fecha("2025-06-02T21:30:00Z"),
+      usuarioId: "socio1",
+      cupoTomado: 1,
+      estado: "esperando",
+      fechaAlta: fecha("2025-06-01T12:00:00Z")
+    };
+    expect(problemasDe(esquemaEntradaListaEspera, entrada)).toEqual([]);
+    expect(problemasDe(esquemaEntradaListaEspera, { ...entrada, estado: "ofrecida" })).toEqual([
+      "Una entrada ofrecida debe indicar 'reservaId'."
+    ]);
+  });
+
+  it("valida el período y el origen de un cargo", () => {
+    const cargo = {
+      usuarioId: "hijo1",
+      responsableId: "tutor1",
+      concepto: "Clase de Yoga",
+      monto: 4500,
+      fecha: fecha("2025-06-02T21:30:00Z"),
+      periodo: "2025-6",
+      origen: "clases",
+      referenciaId: "r1",
+      estado: "vigente"
+    };
+    expect(problemasDe(esquemaCargo, cargo)).toEqual([
+      "'periodo' debe tener formato YYYY-MM.",
+      "'origen' debe ser uno de: reservas, turnos, penalizaciones, membresias."
+    ]);
+  });
+
+  it("guarda las respuestas de ingreso solo con el consentimiento aceptado", () => {
+    const respuestas = {
+      usuarioId: "socio1",
+      terapiaId: "kinesiologia",
+      version: 2,
+      respuestas: { dolor: 7, zonas: ["Espalda"], notas: "Operado en 2020" },
+      consentimiento: { titulo: "Consentimiento", aceptado: true, firma: "Ana Pérez", ip: null },
+      completadoPor: "socio1"
+    };
+    expect(problemasDe(esquemaRespuestasIngreso, respuestas)).toEqual([]);
+    expect(problemasDe(esquemaRespuestasIngreso, { ...respuestas, respuestas: { dolor: { valor: 7 } } })).toEqual([
+      "'respuestas.dolor' debe ser un texto, una lista de textos o un número."
+    ]);
+    expect(problemasDe(esquemaRespuestasIngreso, {
+      ...respuestas,
+      consentimiento: { ...respuestas.consentimiento, aceptado: false }
+    })).toEqual(["El consentimiento informado debe estar aceptado."]);
+  });
+});
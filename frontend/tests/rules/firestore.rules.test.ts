@@ -0,0 +1,404 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestEnvironment
+} from "@firebase/rules-unit-testing";
+import { doc, getDoc, setDoc, updateDoc, deleteDoc, Timestamp } from "firebase/firestore";
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+
+// Estas pruebas corren contra el emulador de Firestore configurado en firebase.json (puerto 8080).
+// Ejecutar con: npm run test:rules
+let testEnv: RulesTestEnvironment;
+
+const fecha = Timestamp.fromDate(new Date("2030-01-01T10:00:00-03:00"));
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: "demo-virtud",
+    firestore: {
+      rules: readFileSync(resolve(__dirname, "../../firestore.rules"), "utf8"),
+      host: "127.0.0.1",
+      port: 8080
+    }
+  });
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    await setDoc(doc(db, "usuarios/socio1"), { uid: "socio1", tipo: "socio", nombre: "Ana" });
+    await setDoc(doc(db, "usuarios/socio2"), { uid: "socio2", tipo: "socio", nombre: "Beto" });
+    await setDoc(doc(db, "usuarios/prof1"), { uid: "prof1", tipo: "profesional", nombre: "Carla" });
+    await setDoc(doc(db, "usuarios/admin1"), { uid: "admin1", tipo: "admin", nombre: "Dora" });
+    await setDoc(doc(db, "actividades/yoga"), { nombre: "Yoga", cupo: 10 });
+    await setDoc(doc(db, "terapias/psico"), { nombre: "Psicoterapia", duracionMinutos: 50, profesionalId: "prof1" });
+    await setDoc(doc(db, "reservas/r1"), { usuarioId: "socio1", actividadId: "yoga", fechaActividad: fecha, estado: "confirmada" });
+    await setDoc(doc(db, "usuarios/prof2"), { uid: "prof2", tipo: "profesional", nombre: "Eva" });
+    await setDoc(doc(db, "turnos/t1"), { usuarioId: "socio1", terapiaId: "psico", profesionalId: "prof1", fechaTurno: fecha, estado: "confirmado" });
+  });
+});
+
+const socio = (uid = "socio1") => testEnv.authenticatedContext(uid, { tipo: "socio" }).firestore();
+const profesional = () => testEnv.authenticatedContext("prof1", { tipo: "profesional" }).firestore();
+const admin = () => testEnv.authenticatedContext("admin1", { tipo: "admin" }).firestore();
+
+describe("usuarios", () => {
+  it("un socio lee su perfil pero no el de otro socio", async () => {
+    await assertSucceeds(getDoc(doc(socio(), "usuarios/socio1")));
+    await assertFails(getDoc(doc(socio(), "usuarios/socio2")));
+  });
+
+  it("el personal puede leer perfiles de socios", async () => {
+    await assertSucceeds(getDoc(doc(profesional(), "usuarios/socio1")));
+    await assertSucceeds(getDoc(doc(admin(), "usuarios/socio1")));
+  });
+
+  it("un usuario nuevo solo puede crearse como socio", async () => {
+    const db = testEnv.authenticatedContext("nuevo").firestore();
+    await assertFails(setDoc(doc(db, "usuarios/nuevo"), { uid: "nuevo", tipo: "admin" }));
+    await assertSucceeds(setDoc(doc(db, "usuarios/nuevo"), { uid: "nuevo", tipo: "socio" }));
+  });
+
+  it("un socio no puede cambiar su propio tipo", async () => {
+    await assertSucceeds(updateDoc(doc(socio(), "usuarios/socio1"), { telefono: "1122334455" }));
+    await assertFails(updateDoc(doc(socio(), "usuarios/socio1"), { tipo: "admin" }));
+  });
+
+  it("un socio puede cambiar sus preferencias de notificación", async () => {
+    await assertSucceeds(updateDoc(doc(socio(), "usuarios/socio1"), {
+      preferenciasNotificacion: { email: false }
+    }));
+  });
+
+  it("un socio no puede cargarse estadísticas de asistencia", async () => {
+    const db = testEnv.authenticatedContext("nuevo").firestore();
+    await assertFails(setDoc(doc(db, "usuarios/nuevo"), {
+      uid: "nuevo", tipo: "socio", estadisticasAsistencia: { asistencias: 50, ausencias: 0 }
+    }));
+    await assertFails(updateDoc(doc(socio(), "usuarios/socio1"), { "estadisticasAsistencia.ausencias": 0 }));
+  });
+
+  it("el rol se toma del documento cuando el token aún no tiene claims", async () => {
+    const db = testEnv.authenticatedContext("admin1").firestore();
+    await assertSucceeds(updateDoc(doc(db, "usuarios/socio1"), { tipo: "profesional" }));
+  });
+
+  it("solo un admin puede cambiar el tipo de otro usuario", async () => {
+    await assertFails(updateDoc(doc(profesional(), "usuarios/socio1"), { tipo: "admin" }));
+    await assertSucceeds(updateDoc(doc(admin(), "usuarios/socio1"), { tipo: "profesional" }));
+  });
+});
+
+describe("personas a cargo", () => {
+  beforeEach(async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore();
+      await updateDoc(doc(db, "usuarios/socio1"), { usuariosACargo: ["hijo1"] });
+      await setDoc(doc(db, "usuarios/hijo1"), {
+        uid: "hijo1", tipo: "socio", nombre: "Lucía", esDependiente: true, tutorId: "socio1", responsableDePago: "socio1"
+      });
+      await setDoc(doc(db, "reservas/rh1"), { usuarioId: "hijo1", actividadId: "yoga", fechaActividad: fecha, estado: "confirmada" });
+    });
+  });
+
+  it("el tutor ve el perfil y las reservas de su dependiente; otro socio no", async () => {
+    await assertSucceeds(getDoc(doc(socio(), "usuarios/hijo1")));
+    await assertSucceeds(getDoc(doc(socio(), "reservas/rh1")));
+    await assertFails(getDoc(doc(socio("socio2"), "usuarios/hijo1")));
+    await assertFails(getDoc(doc(socio("socio2"), "reservas/rh1")));
+  });
+
+  it("el tutor edita los datos personales del dependiente pero no su rol", async () => {
+    await assertSucceeds(updateDoc(doc(socio(), "usuarios/hijo1"), { nombre: "Lucía Pérez" }));
+    await assertFails(updateDoc(doc(socio(), "usuarios/hijo1"), { tipo: "admin" }));
+    await assertFails(updateDoc(doc(socio(), "usuarios/hijo1"), { tutorId: "socio2" }));
+  });
+
+  it("nadie se declara dependiente de otro al crear su perfil", async () => {
+    const db = testEnv.authenticatedContext("nuevo").firestore();
+    await assertFails(setDoc(doc(db, "usuarios/nuevo"), { uid: "nuevo", tipo: "socio", tutorId: "socio1" }));
+  });
+
+  it("nadie se asigna personas a cargo ni un responsable de pago al crear su perfil", async () => {
+    const db = testEnv.authenticatedContext("nuevo").firestore();
+    await assertFails(setDoc(doc(db, "usuarios/nuevo"), { uid: "nuevo", tipo: "socio", usuariosACargo: ["socio1"] }));
+    await assertFails(setDoc(doc(db, "usuarios/nuevo"), { uid: "nuevo", tipo: "socio", responsableDePago: "socio1" }));
+    await assertSucceeds(setDoc(doc(db, "usuarios/nuevo"), {
+      uid: "nuevo",
+      tipo: "socio",
+      responsableDePago: null,
+      usuariosACargo: []
+    }));
+    await assertFails(updateDoc(doc(socio(), "usuarios/socio1"), { usuariosACargo: ["socio2"] }));
+  });
+});
+
+describe("actividades, terapias y suspensiones", () => {
+  const suspension = {
+    tipo: "general",
+    fechaInicio: fecha,
+    fechaFin: Timestamp.fromDate(new Date("2030-01-02T10:00:00-03:00")),
+    motivo: "Mantenimiento",
+    afectaReservasExistentes: false
+  };
+
+  it("cualquier usuario autenticado puede leerlas", async () => {
+    await assertSucceeds(getDoc(doc(socio(), "actividades/yoga")));
+    await assertSucceeds(getDoc(doc(socio(), "terapias/psico")));
+    await assertFails(getDoc(doc(testEnv.unauthenticatedContext().firestore(), "actividades/yoga")));
+  });
+
+  it("las clases generadas son de solo lectura para socios", async () => {
+    await assertSucceeds(getDoc(doc(socio(), "clases/yoga_203001011000")));
+    await assertFails(setDoc(doc(socio(), "clases/yoga_203001011000"), { actividadId: "yoga", cupo: 99 }));
+  });
+
+  it("solo un admin puede modificarlas", async () => {
+    await assertFails(updateDoc(doc(socio(), "actividades/yoga"), { cupo: 100 }));
+    await assertFails(updateDoc(doc(profesional(), "terapias/psico"), { duracionMinutos: 10 }));
+    await assertFails(setDoc(doc(socio(), "suspensiones/s1"), suspension));
+    await assertSucceeds(updateDoc(doc(admin(), "actividades/yoga"), { cupo: 12 }));
+    await assertSucceeds(setDoc(doc(admin(), "suspensiones/s1"), suspension));
+  });
+
+  it("las actividades y terapias deben tener nombre, cupo y duración válidos", async () => {
+    await assertFails(updateDoc(doc(admin(), "actividades/yoga"), { cupo: 0 }));
+    await assertFails(setDoc(doc(admin(), "actividades/pilates"), { nombre: "", cupo: 8 }));
+    await assertFails(updateDoc(doc(admin(), "terapias/psico"), { duracionMinutos: 600 }));
+    await assertSucceeds(setDoc(doc(admin(), "actividades/pilates"), { nombre: "Pilates", cupo: 8 }));
+    await assertSucceeds(updateDoc(doc(admin(), "terapias/psico"), { archivada: true }));
+  });
+
+  it("una suspensión debe indicar si afecta reservas existentes y un rango válido", async () => {
+    const { afectaReservasExistentes, ...sinIndicar } = suspension;
+    await assertFails(setDoc(doc(admin(), "suspensiones/s2"), sinIndicar));
+    await assertFails(setDoc(doc(admin(), "suspensiones/s2"), {
+      ...suspension, afectaReservasExistentes, fechaFin: Timestamp.fromDate(new Date("2029-12-31T10:00:00-03:00"))
+    }));
+    await assertFails(setDoc(doc(admin(), "suspensiones/s2"), { ...suspension, tipo: "profesor" }));
+    await assertSucceeds(setDoc(doc(admin(), "suspensiones/s2"), { ...suspension, tipo: "profesor", profesorId: "prof1" }));
+  });
+
+  it("el registro de afectados solo lo lee un admin y nadie lo escribe", async () => {
+    await assertFails(getDoc(doc(socio(), "suspensiones/s1/afectados/reservas_r1")));
+    await assertSucceeds(getDoc(doc(admin(), "suspensiones/s1/afectados/reservas_r1")));
+    await assertFails(setDoc(doc(admin(), "suspensiones/s1/afectados/reservas_r1"), { estado: "restaurada" }));
+  });
+});
+
+describe("disponibilidades", () => {
+  it("cada profesional gestiona solo su propia disponibilidad", async () => {
+    const disponibilidad = { horarios: [{ dia: 1, desde: "09:00", hasta: "13:00" }], bufferMinutos: 10 };
+    await assertSucceeds(setDoc(doc(profesional(), "disponibilidades/prof1"), disponibilidad));
+    await assertFails(setDoc(doc(profesional(), "disponibilidades/prof2"), disponibilidad));
+    await assertFails(setDoc(doc(socio(), "disponibilidades/socio1"), disponibilidad));
+    await assertFails(getDoc(doc(socio(), "disponibilidades/prof1")));
+  });
+});
+
+describe("reservas", () => {
+  it("un socio solo ve sus propias reservas", async () => {
+    await assertSucceeds(getDoc(doc(socio(), "reservas/r1")));
+    await assertFails(getDoc(doc(socio("socio2"), "reservas/r1")));
+  });
+
+  it("un socio crea reservas a su nombre y no a nombre de otro", async () => {
+    const reserva = { actividadId: "yoga", fechaActividad: fecha, cupoTomado: 1, estado: "confirmada" };
+    await assertSucceeds(setDoc(doc(socio(), "reservas/r2"), { ...reserva, usuarioId: "socio1" }));
+    await assertFails(setDoc(doc(socio(), "reservas/r3"), { ...reserva, usuarioId: "socio2" }));
+  });
+
+  it("un socio no puede crear reservas con campos de servidor", async () => {
+    await assertFails(setDoc(doc(socio(), "reservas/r2"), {
+      usuarioId: "socio1",
+      actividadId: "yoga",
+      fechaActividad: fecha,
+      estado: "cancelado_por_admin",
+    }));
+  });
+
+  it("un socio no puede registrar su propia asistencia", async () => {
+    await assertFails(setDoc(doc(socio(), "reservas/r2"), {
+      usuarioId: "socio1",
+      actividadId: "yoga",
+      fechaActividad: fecha,
+      estado: "confirmada",
+      asistencia: "asistio",
+    }));
+    await assertFails(updateDoc(doc(socio(), "reservas/r1"), { asistencia: "asistio" }));
+    await assertFails(updateDoc(doc(profesional(), "reservas/r1"), { asistencia: "asistio" }));
+  });
+
+  it("un socio no puede editar ni borrar reservas existentes", async () => {
+    await assertFails(updateDoc(doc(socio(), "reservas/r1"), { cupoTomado: 5 }));
+    await assertFails(deleteDoc(doc(socio(), "reservas/r1")));
+    await assertSucceeds(updateDoc(doc(admin(), "reservas/r1"), { estado: "cancelado_por_admin" }));
+  });
+});
+
+describe("turnos", () => {
+  it("el paciente, su profesional y un admin ven el turno", async () => {
+    await assertSucceeds(getDoc(doc(socio(), "turnos/t1")));
+    await assertSucceeds(getDoc(doc(profesional(), "turnos/t1")));
+    await assertSucceeds(getDoc(doc(admin(), "turnos/t1")));
+  });
+
+  it("otro socio u otro profesional no ven el turno", async () => {
+    const otroProfesional = testEnv.authenticatedContext("prof2", { tipo: "profesional" }).firestore();
+    await assertFails(getDoc(doc(socio("socio2"), "turnos/t1")));
+    await assertFails(getDoc(doc(otroProfesional, "turnos/t1")));
+  });
+
+  it("un socio crea turnos a su nombre pero no los modifica", async () => {
+    const turno = { terapiaId: "psico", fechaTurno: fecha, estado: "pendiente" };
+    await assertSucceeds(setDoc(doc(socio(), "turnos/t2"), { ...turno, usuarioId: "socio1" }));
+    await assertFails(setDoc(doc(socio(), "turnos/t3"), { ...turno, usuarioId: "socio2" }));
+    await assertFails(updateDoc(doc(socio(), "turnos/t1"), { estado: "confirmado" }));
+  });
+});
+
+describe("membresias", () => {
+  it("el socio ve su saldo pero no puede cargarse créditos", async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), "membresias/m1"), {
+        usuarioId: "socio1", tipo: "pack", creditos: 8, creditosUsados: 2, estado: "activa"
+      });
+    });
+    await assertSucceeds(getDoc(doc(socio(), "membresias/m1")));
+    await assertFails(getDoc(doc(socio("socio2"), "membresias/m1")));
+    await assertFails(updateDoc(doc(socio(), "membresias/m1"), { creditosUsados: 0 }));
+    await assertFails(updateDoc(doc(admin(), "membresias/m1"), { creditosUsados: 0 }));
+    await assertSucceeds(updateDoc(doc(admin(), "membresias/m1"), { estado: "cancelada" }));
+  });
+
+  it("solo un admin administra los planes", async () => {
+    await assertFails(setDoc(doc(socio(), "planes/p1"), { nombre: "Gratis", tipo: "ilimitado" }));
+    await assertSucceeds(setDoc(doc(admin(), "planes/p1"), { nombre: "Libre", tipo: "ilimitado" }));
+    await assertSucceeds(getDoc(doc(socio(), "planes/p1")));
+  });
+});
+
+describe("facturación", () => {
+  it("el responsable de pago ve los cargos de sus dependientes y nadie los escribe", async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), "cargos/reservas_r1"), {
+        usuarioId: "socio2", responsableId: "socio1", monto: 1500, estado: "vigente"
+      });
+      await setDoc(doc(context.firestore(), "resumenes/socio1_2030-01"), { responsableId: "socio1", total: 1500 });
+    });
+    await assertSucceeds(getDoc(doc(socio(), "cargos/reservas_r1")));
+    await assertSucceeds(getDoc(doc(socio("socio2"), "cargos/reservas_r1")));
+    await assertSucceeds(getDoc(doc(socio(), "resumenes/socio1_2030-01")));
+    await assertFails(getDoc(doc(socio("socio2"), "resumenes/socio1_2030-01")));
+    await assertFails(updateDoc(doc(socio(), "cargos/reservas_r1"), { monto: 0 }));
+    await assertFails(setDoc(doc(admin(), "pagos/p1"), { responsableId: "socio1", monto: 1500 }));
+  });
+});
+
+describe("notificaciones", () => {
+  it("el socio lee las suyas pero nadie las escribe desde el cliente", async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), "notificaciones/n1"), { usuarioId: "socio1", evento: "reserva_confirmada" });
+    });
+    await assertSucceeds(getDoc(doc(socio(), "notificaciones/n1")));
+    await assertFails(getDoc(doc(socio("socio2"), "notificaciones/n1")));
+    await assertFails(setDoc(doc(socio(), "notificaciones/n2"), { usuarioId: "socio1" }));
+    await assertFails(setDoc(doc(admin(), "notificaciones/n2"), { usuarioId: "socio1" }));
+  });
+});
+
+describe("historia clínica", () => {
+  it("las notas solo se acceden desde las funciones, ni siquiera el profesional o un admin", async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), "notasClinicas/t1"), { pacienteId: "socio1", profesionalId: "prof1", contenido: "..." });
+      await setDoc(doc(context.firestore(), "notasClinicas/t1/versiones/1"), { version: 1, contenido: "..." });
+    });
+    await assertFails(getDoc(doc(profesional(), "notasClinicas/t1")));
+    await assertFails(getDoc(doc(profesional(), "notasClinicas/t1/versiones/1")));
+    await assertFails(getDoc(doc(admin(), "notasClinicas/t1")));
+    await assertFails(getDoc(doc(socio(), "notasClinicas/t1")));
+    await assertFails(updateDoc(doc(profesional(), "notasClinicas/t1"), { contenido: "otro" }));
+  });
+
+  it("el registro de accesos lo audita un admin y nadie lo escribe", async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), "accesosClinicos/a1"), { usuarioId: "prof1", accion: "lectura", pacienteId: "socio1" });
+    });
+    await assertSucceeds(getDoc(doc(admin(), "accesosClinicos/a1")));
+    await assertFails(getDoc(doc(profesional(), "accesosClinicos/a1")));
+    await assertFails(deleteDoc(doc(admin(), "accesosClinicos/a1")));
+  });
+
+  it("el DNI y el perfil completo solo se cargan desde completarPerfil", async () => {
+    const db = testEnv.authenticatedContext("nuevo").firestore();
+    await assertFails(setDoc(doc(db, "usuarios/nuevo"), { uid: "nuevo", tipo: "socio", dni: "30123456" }));
+    await assertFails(setDoc(doc(db, "usuarios/nuevo"), { uid: "nuevo", tipo: "socio", perfilCompleto: true }));
+    await assertSucceeds(setDoc(doc(db, "usuarios/nuevo"), { uid: "nuevo", tipo: "socio", dni: "" }));
+    await assertFails(updateDoc(doc(socio(), "usuarios/socio1"), { dni: "30123456" }));
+    await assertFails(updateDoc(doc(socio(), "usuarios/socio1"), { perfilCompleto: true }));
+    await assertFails(getDoc(doc(socio(), "dnis/30123456")));
+  });
+
+  it("un usuario no puede darse el permiso de supervisor clínico", async () => {
+    const db = testEnv.authenticatedContext("nuevo").firestore();
+    await assertFails(setDoc(doc(db, "usuarios/nuevo"), { uid: "nuevo", tipo: "socio", supervisorClinico: true }));
+    await assertFails(updateDoc(doc(profesional(), "usuarios/prof1"), { supervisorClinico: true }));
+    await assertSucceeds(updateDoc(doc(admin(), "usuarios/prof1"), { supervisorClinico: true }));
+  });
+});
+
+describe("calendarios", () => {
+  it("solo el dueño lee su feed y nadie lo crea desde el cliente", async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), "calendarios/token-secreto-de-prueba-1234"), { usuarioId: "socio1" });
+    });
+    await assertSucceeds(getDoc(doc(socio(), "calendarios/token-secreto-de-prueba-1234")));
+    await assertFails(getDoc(doc(socio("socio2"), "calendarios/token-secreto-de-prueba-1234")));
+    await assertFails(getDoc(doc(admin(), "calendarios/token-secreto-de-prueba-1234")));
+    await assertFails(setDoc(doc(socio(), "calendarios/otro-token-elegido-por-el-socio"), { usuarioId: "socio1" }));
+  });
+});
+
+describe("cuestionarios de ingreso", () => {
+  beforeEach(async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore();
+      await setDoc(doc(db, "cuestionarios/psico"), { terapiaId: "psico", versionActual: 1, activo: true });
+      await setDoc(doc(db, "cuestionarios/psico/versiones/1"), { version: 1, preguntas: [] });
+      await setDoc(doc(db, "respuestasIngreso/socio1_psico"), { usuarioId: "socio1", terapiaId: "psico", version: 1 });
+    });
+  });
+
+  it("cualquier usuario lee el cuestionario pero solo un admin lo activa o desactiva", async () => {
+    await assertSucceeds(getDoc(doc(socio(), "cuestionarios/psico/versiones/1")));
+    await assertFails(setDoc(doc(admin(), "cuestionarios/psico/versiones/1"), { version: 1, preguntas: [] }));
+    await assertFails(updateDoc(doc(socio(), "cuestionarios/psico"), { activo: false }));
+    await assertFails(updateDoc(doc(admin(), "cuestionarios/psico"), { versionActual: 2 }));
+    await assertSucceeds(updateDoc(doc(admin(), "cuestionarios/psico"), { activo: false }));
+  });
+
+  it("las respuestas las leen el paciente y el profesional de la terapia, y nadie las modifica", async () => {
+    await assertSucceeds(getDoc(doc(socio(), "respuestasIngreso/socio1_psico")));
+    await assertFails(getDoc(doc(socio("socio2"), "respuestasIngreso/socio1_psico")));
+    await assertSucceeds(getDoc(doc(profesional(), "respuestasIngreso/socio1_psico")));
+    const otroProfesional = testEnv.authenticatedContext("prof2", { tipo: "profesional" }).firestore();
+    await assertFails(getDoc(doc(otroProfesional, "respuestasIngreso/socio1_psico")));
+    await assertFails(updateDoc(doc(socio(), "respuestasIngreso/socio1_psico"), { version: 2 }));
+    await assertFails(setDoc(doc(socio("socio2"), "respuestasIngreso/socio2_psico"), { usuarioId: "socio2", terapiaId: "psico" }));
+  });
+});
+
+describe("colecciones no declaradas", () => {
+  it("quedan denegadas", async () => {
+    await assertFails(setDoc(doc(admin(), "otra/x"), { a: 1 }));
+    await assertFails(getDoc(doc(admin(), "otra/x")));
+  });
+});
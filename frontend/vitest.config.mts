@@ -0,0 +1,12 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+// Mismos alias que tsconfig.json, para las pruebas que importan módulos de src/ y el modelo compartido
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": fileURLToPath(new URL("./src", import.meta.url)),
+      "@modelo": fileURLToPath(new URL("../modelo/src", import.meta.url))
+    }
+  }
+});
@@ -0,0 +1,405 @@
+import * as crypto from "crypto";
+import { defineSecret } from "firebase-functions/params";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { admin, db } from "./config";
+import { obtenerPolitica, PoliticaCancelacion, registrarPenalizacion } from "./cancelaciones";
+import { claseIdPara } from "./clases";
+import { fechaHoraLocal, formatearFechaLocal, MS_POR_DIA } from "./fechas";
+import { normalizarDni, puedeGestionar, requerirRol } from "./usuarios";
+
+// Clave con la que se firman los códigos QR (`firebase functions:secrets:set QR_SECRET`)
+export const qrSecret = defineSecret("QR_SECRET");
+
+// Desde cuántos minutos antes del inicio se puede registrar la asistencia
+const MINUTOS_ANTES_CHECK_IN = 60;
+// El barrido de ausencias mira las reservas/turnos que empezaron en las últimas horas
+const HORAS_BARRIDO_AUSENCIAS = 24;
+
+type ColeccionAsistencia = "reservas" | "turnos";
+
+/**
+ * Estado de asistencia de una reserva o turno (campo `asistencia`). Se guarda aparte del
+ * `estado` para no liberar el lugar ni anular el cargo: la reserva sigue "confirmada".
+ */
+export type ResultadoAsistencia = "asistio" | "ausente";
+
+/**
+ * Contadores acumulados en usuarios.estadisticasAsistencia.
+ */
+export interface EstadisticasAsistencia {
+  asistencias: number;
+  ausencias: number;
+}
+
+// Campos de cada colección: estado activo y fecha de inicio
+const CAMPOS = {
+  reservas: { estadoActivo: "confirmada", fecha: "fechaActividad" },
+  turnos: { estadoActivo: "confirmado", fecha: "fechaTurno" },
+} as const;
+
+const esColeccionAsistencia = (valor: unknown): valor is ColeccionAsistencia =>
+  typeof valor === "string" && Object.prototype.hasOwnProperty.call(CAMPOS, valor);
+
+const firmar = (coleccion: ColeccionAsistencia, id: string) => {
+  return crypto.createHmac("sha256", qrSecret.value()).update(`${coleccion}/${id}`).digest("base64url");
+};
+
+/**
+ * Genera el código firmado que se muestra como QR: "<coleccion>.<id>.<firma>".
+ */
+export const generarCodigoAsistencia = (coleccion: ColeccionAsistencia, id: string): string => {
+  return `${coleccion}.${id}.${firmar(coleccion, id)}`;
+};
+
+/**
+ * Verifica la firma de un código QR y devuelve a qué reserva o turno corresponde.
+ */
+const leerCodigoAsistencia = (codigo: unknown): { coleccion: ColeccionAsistencia; id: string } => {
+  const partes = typeof codigo === "string" ? codigo.trim().split(".") : [];
+  const [coleccion, id, firma] = partes;
+  if (partes.length !== 3 || !esColeccionAsistencia(coleccion) || !id || !firma) {
+    throw new HttpsError("invalid-argument", "El código QR no es válido.");
+  }
+
+  const esperada = Buffer.from(firmar(coleccion, id));
+  const recibida = Buffer.from(firma);
+  if (esperada.length !== recibida.length || !crypto.timingSafeEqual(esperada, recibida)) {
+    throw new HttpsError("permission-denied", "El código QR no es válido.");
+  }
+  return { coleccion, id };
+};
+
+const leerReferencia = (data: unknown): { coleccion: ColeccionAsistencia; id: string } => {
+  const { coleccion, id } = typeof data === "object" && data !== null ? (data as Record<string, unknown>) : {};
+  if (!esColeccionAsistencia(coleccion) || typeof id !== "string" || !id) {
+    throw new HttpsError("invalid-argument", "Falta indicar la reserva o el turno.");
+  }
+  return { coleccion, id };
+};
+
+/**
+ * Fin de la reserva (fin de la clase) o del turno. Si la clase no existe se usa el inicio.
+ */
+const obtenerFin = async (
+  coleccion: ColeccionAsistencia,
+  data: admin.firestore.DocumentData,
+  leer: (ref: admin.firestore.DocumentReference) => Promise<admin.firestore.DocumentSnapshot>
+): Promise<admin.firestore.Timestamp> => {
+  if (coleccion === "turnos") {
+    return data.fechaFin || data.fechaTurno;
+  }
+  const claseId = data.claseId || claseIdPara(data.actividadId, data.fechaActividad.toDate());
+  const claseDoc = await leer(db.collection("clases").doc(claseId));
+  return claseDoc.data()?.fechaFin || data.fechaActividad;
+};
+
+/**
+ * Profesional a cargo: el que dicta la clase de la reserva (incluido un reemplazo) o el del turno.
+ * Si la clase no existe, o el turno es anterior a la desnormalización, se usa el de la actividad o terapia.
+ */
+const obtenerProfesional = async (
+  coleccion: ColeccionAsistencia,
+  data: admin.firestore.DocumentData,
+  servicio: admin.firestore.DocumentData | undefined,
+  leer: (ref: admin.firestore.DocumentReference) => Promise<admin.firestore.DocumentSnapshot>
+): Promise<string | null> => {
+  if (coleccion === "turnos") {
+    return data.profesionalId || servicio?.profesionalId || null;
+  }
+  const claseId = data.claseId || claseIdPara(data.actividadId, data.fechaActividad.toDate());
+  const clase = (await leer(db.collection("clases").doc(claseId))).data();
+  return clase ? clase.profesorId || null : servicio?.profesorId || null;
+};
+
+/**
+ * Lee la actividad o terapia de una reserva/turno (para el nombre y la política).
+ */
+const leerServicio = (coleccion: ColeccionAsistencia, data: admin.firestore.DocumentData) => {
+  return coleccion === "reservas" ?
+    db.collection("actividades").doc(data.actividadId) :
+    db.collection("terapias").doc(data.terapiaId);
+};
+
+/**
+ * Suma una asistencia o ausencia a las estadísticas del socio dentro de la transacción.
+ * No hace nada si el perfil del socio no existe.
+ */
+const sumarEstadistica = (
+  transaction: admin.firestore.Transaction,
+  usuarioDoc: admin.firestore.DocumentSnapshot,
+  resultado: ResultadoAsistencia
+) => {
+  if (!usuarioDoc.exists) return;
+  const campo = resultado === "asistio" ? "asistencias" : "ausencias";
+  const campoFecha = resultado === "asistio" ? "ultimaAsistencia" : "ultimaAusencia";
+  transaction.update(usuarioDoc.ref, {
+    [`estadisticasAsistencia.${campo}`]: admin.firestore.FieldValue.increment(1),
+    [`estadisticasAsistencia.${campoFecha}`]: admin.firestore.FieldValue.serverTimestamp(),
+  });
+};
+
+/**
+ * Verifica dentro de una transacción que el socio no supere las ausencias sin aviso que
+ * permite la política (maxAusencias en los últimos diasVentanaAusencias días).
+ * Cuenta las ausencias en clases y en terapias.
+ */
+export const verificarAusencias = async (
+  transaction: admin.firestore.Transaction,
+  usuarioId: string,
+  politica: PoliticaCancelacion
+) => {
+  if (!politica.maxAusencias || politica.maxAusencias <= 0) {
+    return;
+  }
+
+  const desde = admin.firestore.Timestamp.fromMillis(Date.now() - politica.diasVentanaAusencias * MS_POR_DIA);
+  let ausencias = 0;
+  for (const coleccion of Object.keys(CAMPOS) as ColeccionAsistencia[]) {
+    const conteo = await transaction.get(
+      db.collection(coleccion)
+        .where("usuarioId", "==", usuarioId)
+        .where("asistencia", "==", "ausente")
+        .where(CAMPOS[coleccion].fecha, ">=", desde)
+        .count()
+    );
+    ausencias += conteo.data().count;
+  }
+
+  if (ausencias >= politica.maxAusencias) {
+    throw new HttpsError(
+      "failed-precondition",
+      `Registrás ${ausencias} ausencias sin aviso en los últimos ${politica.diasVentanaAusencias} días. ` +
+      "No podés hacer nuevas reservas por ahora; consultá en recepción."
+    );
+  }
+};
+
+
+// --- Función: obtenerCodigoAsistencia (callable) ---
+// Devuelve el código firmado de una reserva o turno confirmado para mostrarlo como QR.
+// Lo puede pedir el socio o su tutor.
+export const obtenerCodigoAsistencia = onCall({ secrets: [qrSecret] }, async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Debes iniciar sesión.");
+  }
+  const { coleccion, id } = leerReferencia(request.data);
+
+  const doc = await db.collection(coleccion).doc(id).get();
+  const data = doc.data();
+  if (!data || !(await puedeGestionar(request.auth.uid, data.usuarioId))) {
+    throw new HttpsError("not-found", "La reserva no existe.");
+  }
+  if (data.estado !== CAMPOS[coleccion].estadoActivo) {
+    throw new HttpsError("failed-precondition", `Solo las reservas confirmadas tienen código (estado: ${data.estado}).`);
+  }
+
+  return { codigo: generarCodigoAsistencia(coleccion, id) };
+});
+
+
+// --- Función: registrarAsistencia (callable, staff) ---
+// Marca una reserva o turno como "asistio". Se identifica escaneando el QR ({ codigo }) o,
+// tras buscar al socio por DNI, indicando { coleccion, id }.
+export const registrarAsistencia = onCall({ secrets: [qrSecret] }, async (request) => {
+  const rol = await requerirRol(request, ["admin", "profesional"]);
+
+  const metodo = request.data?.codigo ? "qr" : "dni";
+  const { coleccion, id } = metodo === "qr" ?
+    leerCodigoAsistencia(request.data.codigo) :
+    leerReferencia(request.data);
+  const ref = db.collection(coleccion).doc(id);
+
+  const resultado = await db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(ref);
+    const data = doc.data();
+    if (!data) {
+      throw new HttpsError("not-found", "La reserva no existe.");
+    }
+    if (data.estado !== CAMPOS[coleccion].estadoActivo) {
+      throw new HttpsError("failed-precondition", `La reserva no está confirmada (estado: ${data.estado}).`);
+    }
+    if (data.asistencia) {
+      throw new HttpsError("already-exists", `La asistencia ya estaba registrada (${data.asistencia}).`);
+    }
+
+    const inicio: admin.firestore.Timestamp = data[CAMPOS[coleccion].fecha];
+    const fin = await obtenerFin(coleccion, data, (r) => transaction.get(r));
+    const ahora = Date.now();
+    if (ahora < inicio.toMillis() - MINUTOS_ANTES_CHECK_IN * 60 * 1000 || ahora > fin.toMillis()) {
+      throw new HttpsError(
+        "failed-precondition",
+        `La asistencia se registra desde ${MINUTOS_ANTES_CHECK_IN} minutos antes del inicio hasta el final.`
+      );
+    }
+
+    const [servicioDoc, usuarioDoc] = await Promise.all([
+      transaction.get(leerServicio(coleccion, data)),
+      transaction.get(db.collection("usuarios").doc(data.usuarioId)),
+    ]);
+
+    // Un profesional solo registra la asistencia de sus clases y turnos; el admin, de cualquiera
+    if (rol !== "admin") {
+      const profesionalId = await obtenerProfesional(coleccion, data, servicioDoc.data(), (r) => transaction.get(r));
+      if (profesionalId !== request.auth?.uid) {
+        throw new HttpsError(
+          "permission-denied",
+          coleccion === "reservas" ?
+            "Solo el profesor de la clase puede registrar esta asistencia." :
+            "Solo el profesional del turno puede registrar esta asistencia."
+        );
+      }
+    }
+
+    transaction.update(ref, {
+      asistencia: "asistio",
+      metodoAsistencia: metodo,
+      asistenciaRegistradaPor: request.auth?.uid,
+      fechaAsistencia: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    sumarEstadistica(transaction, usuarioDoc, "asistio");
+
+    return {
+      usuarioId: data.usuarioId as string,
+      nombre: usuarioDoc.data()?.nombre || "",
+      servicio: servicioDoc.data()?.nombre || "",
+      fecha: inicio.toDate().toISOString(),
+    };
+  });
+
+  console.log(`Asistencia registrada en ${coleccion}/${id} por ${request.auth?.uid} (${metodo}).`);
+  return { coleccion, id, ...resultado };
+});
+
+
+// --- Función: buscarReservasPorDni (callable, staff) ---
+// Para el check-in sin QR: busca al socio por DNI y devuelve sus reservas y turnos confirmados de hoy.
+export const buscarReservasPorDni = onCall(async (request) => {
+  await requerirRol(request, ["admin", "profesional"]);
+
+  const { dni } = request.data || {};
+  if (typeof dni !== "string" || !dni.trim() || dni.length > 20) {
+    throw new HttpsError("invalid-argument", "Indicá un DNI válido.");
+  }
+
+  const usuarios = await db.collection("usuarios").where("dni", "==", normalizarDni(dni.trim())).limit(10).get();
+  const inicioDia = fechaHoraLocal(formatearFechaLocal(new Date()));
+  const desde = admin.firestore.Timestamp.fromDate(inicioDia);
+  const hasta = admin.firestore.Timestamp.fromMillis(inicioDia.getTime() + MS_POR_DIA);
+  const nombresServicios = new Map<string, string>();
+
+  const personas = [];
+  for (const usuarioDoc of usuarios.docs) {
+    const usuario = usuarioDoc.data();
+    const reservas = [];
+
+    for (const coleccion of Object.keys(CAMPOS) as ColeccionAsistencia[]) {
+      const snapshot = await db.collection(coleccion)
+        .where("usuarioId", "==", usuarioDoc.id)
+        .where(CAMPOS[coleccion].fecha, ">=", desde)
+        .where(CAMPOS[coleccion].fecha, "<", hasta)
+        .get();
+
+      for (const doc of snapshot.docs) {
+        const data = doc.data();
+        if (data.estado !== CAMPOS[coleccion].estadoActivo) continue;
+
+        const servicioRef = leerServicio(coleccion, data);
+        if (!nombresServicios.has(servicioRef.path)) {
+          nombresServicios.set(servicioRef.path, (await servicioRef.get()).data()?.nombre || "");
+        }
+        reservas.push({
+          coleccion,
+          id: doc.id,
+          servicio: nombresServicios.get(servicioRef.path),
+          fecha: (data[CAMPOS[coleccion].fecha] as admin.firestore.Timestamp).toDate().toISOString(),
+          asistencia: data.asistencia || null,
+        });
+      }
+    }
+
+    reservas.sort((a, b) => a.fecha.localeCompare(b.fecha));
+    personas.push({
+      usuarioId: usuarioDoc.id,
+      nombre: usuario.nombre || "",
+      estadisticas: {
+        asistencias: usuario.estadisticasAsistencia?.asistencias || 0,
+        ausencias: usuario.estadisticasAsistencia?.ausencias || 0,
+      } as EstadisticasAsistencia,
+      reservas,
+    });
+  }
+
+  return { personas };
+});
+
+
+// --- Función: marcarAusencias ---
+// Barrido periódico: las reservas y turnos confirmados que ya terminaron sin asistencia
+// registrada quedan como "ausente", con la penalización de la política (cargoAusencia).
+export const marcarAusencias = onSchedule("every 30 minutes", async () => {
+  const ahora = admin.firestore.Timestamp.now();
+  const desde = admin.firestore.Timestamp.fromMillis(ahora.toMillis() - HORAS_BARRIDO_AUSENCIAS * 60 * 60 * 1000);
+  const politicas = new Map<string, { politica: PoliticaCancelacion; nombre: string }>();
+  let marcadas = 0;
+
+  for (const coleccion of Object.keys(CAMPOS) as ColeccionAsistencia[]) {
+    const campos = CAMPOS[coleccion];
+    const candidatas = await db.collection(coleccion)
+      .where("estado", "==", campos.estadoActivo)
+      .where(campos.fecha, ">=", desde)
+      .where(campos.fecha, "<=", ahora)
+      .get();
+
+    for (const candidata of candidatas.docs) {
+      if (candidata.data().asistencia) continue;
+
+      try {
+        const marcada = await db.runTransaction(async (transaction) => {
+          const doc = await transaction.get(candidata.ref);
+          const data = doc.data();
+          if (!data || data.estado !== campos.estadoActivo || data.asistencia) {
+            return false;
+          }
+          // Todavía no terminó (clase o turno en curso)
+          const fin = await obtenerFin(coleccion, data, (r) => transaction.get(r));
+          if (fin.toMillis() > Date.now()) {
+            return false;
+          }
+
+          const servicioRef = leerServicio(coleccion, data);
+          let servicio = politicas.get(servicioRef.path);
+          if (!servicio) {
+            const servicioData = (await transaction.get(servicioRef)).data();
+            servicio = { politica: obtenerPolitica(servicioData), nombre: servicioData?.nombre || "" };
+            politicas.set(servicioRef.path, servicio);
+          }
+          const { politica, nombre } = servicio;
+          const usuarioDoc = await transaction.get(db.collection("usuarios").doc(data.usuarioId));
+
+          transaction.update(candidata.ref, {
+            asistencia: "ausente",
+            fechaAusencia: admin.firestore.FieldValue.serverTimestamp(),
+          });
+          sumarEstadistica(transaction, usuarioDoc, "ausente");
+          registrarPenalizacion(transaction, {
+            usuarioId: data.usuarioId,
+            tipo: "ausencia",
+            coleccion,
+            referenciaId: candidata.id,
+            monto: politica.cargoAusencia,
+            descripcion: `Ausencia sin aviso a ${nombre || (coleccion === "reservas" ? "clase" : "terapia")}.`,
+          });
+          return true;
+        });
+        if (marcada) marcadas++;
+      } catch (error) {
+        console.error(`Error al marcar la ausencia de ${coleccion}/${candidata.id}:`, error);
+      }
+    }
+  }
+
+  if (marcadas > 0) {
+    console.log(`${marcadas} reservas/turnos marcados como ausentes.`);
+  }
+});
@@ -0,0 +1,344 @@
+import * as crypto from "crypto";
+import { HttpsError, onCall, onRequest } from "firebase-functions/v2/https";
+import { admin, db } from "./config";
+import { claseIdPara } from "./clases";
+import { ausenciasValidas } from "./disponibilidad";
+import { MS_POR_DIA, partesLocales, ZONA_HORARIA } from "./fechas";
+import { colecciones } from "./modelo";
+import { esTutorDe } from "./usuarios";
+
+// Cuántos días hacia atrás incluye el feed (hacia adelante incluye todo lo agendado)
+const DIAS_HISTORIAL = 30;
+// Máximo de valores de un filtro "in" de Firestore
+const MAX_IN = 30;
+// Duración que se asume si una reserva no tiene clase asociada
+const DURACION_POR_DEFECTO_MINUTOS = 60;
+
+const FORMATO_TOKEN = /^[A-Za-z0-9_-]{20,64}$/;
+
+interface EventoIcs {
+  uid: string;
+  inicio: Date;
+  fin: Date;
+  titulo: string;
+  descripcion?: string;
+  cancelado: boolean;
+}
+
+const dosDigitos = (n: number) => String(n).padStart(2, "0");
+
+// "YYYYMMDDTHHmmss" en hora local del gimnasio (se acompaña de TZID)
+const fechaIcsLocal = (fecha: Date) => {
+  const { anio, mes, dia, hora, minutos } = partesLocales(fecha);
+  return `${anio}${dosDigitos(mes)}${dosDigitos(dia)}T${dosDigitos(hora)}${dosDigitos(minutos)}00`;
+};
+
+// "YYYYMMDDTHHmmssZ" en UTC
+const fechaIcsUtc = (fecha: Date) => fecha.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const escaparTexto = (texto: string) =>
+  texto.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+/**
+ * Parte una línea en renglones de hasta 75 bytes (RFC 5545 §3.1) sin cortar caracteres UTF-8.
+ */
+const plegarLinea = (linea: string): string => {
+  const renglones: string[] = [];
+  let actual = "";
+  let bytes = 0;
+  for (const caracter of linea) {
+    const largo = Buffer.byteLength(caracter);
+    const limite = renglones.length === 0 ? 75 : 74; // Los renglones siguientes empiezan con un espacio
+    if (bytes + largo > limite) {
+      renglones.push(actual);
+      actual = "";
+      bytes = 0;
+    }
+    actual += caracter;
+    bytes += largo;
+  }
+  renglones.push(actual);
+  return renglones.join("\r\n ");
+};
+
+/**
+ * Arma el calendario .ics con la zona horaria del gimnasio (UTC-3 fijo, sin horario de verano).
+ */
+const generarIcs = (nombre: string, eventos: EventoIcs[]): string => {
+  const ahora = fechaIcsUtc(new Date());
+  const lineas = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//VIRTUD//Reservas//ES",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escaparTexto(nombre)}`,
+    `X-WR-TIMEZONE:${ZONA_HORARIA}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "BEGIN:VTIMEZONE",
+    `TZID:${ZONA_HORARIA}`,
+    "BEGIN:STANDARD",
+    "DTSTART:19700101T000000",
+    "TZOFFSETFROM:-0300",
+    "TZOFFSETTO:-0300",
+    "TZNAME:-03",
+    "END:STANDARD",
+    "END:VTIMEZONE",
+    ...eventos.flatMap((evento) => [
+      "BEGIN:VEVENT",
+      `UID:${evento.uid}@virtud`,
+      `DTSTAMP:${ahora}`,
+      `DTSTART;TZID=${ZONA_HORARIA}:${fechaIcsLocal(evento.inicio)}`,
+      `DTEND;TZID=${ZONA_HORARIA}:${fechaIcsLocal(evento.fin)}`,
+      `SUMMARY:${escaparTexto(evento.cancelado ? `Cancelado: ${evento.titulo}` : evento.titulo)}`,
+      ...(evento.descripcion ? [`DESCRIPTION:${escaparTexto(evento.descripcion)}`] : []),
+      `STATUS:${evento.cancelado ? "CANCELLED" : "CONFIRMED"}`,
+      // Una cancelación es una nueva versión del mismo evento
+      `SEQUENCE:${evento.cancelado ? 1 : 0}`,
+      "END:VEVENT",
+    ]),
+    "END:VCALENDAR",
+  ];
+  return lineas.map(plegarLinea).join("\r\n") + "\r\n";
+};
+
+/**
+ * Confirmado, cancelado o null si no corresponde publicarlo (pendiente, fallida, rechazada, ...).
+ */
+const estadoEvento = (estado: string, estadoConfirmado: string): { cancelado: boolean } | null => {
+  if (estado === estadoConfirmado) return { cancelado: false };
+  if (estado?.startsWith("cancelad")) return { cancelado: true };
+  return null;
+};
+
+/**
+ * Lee varios documentos de una colección y devuelve sus datos por ID.
+ */
+const leerPorId = async (coleccion: string, ids: string[]): Promise<Map<string, admin.firestore.DocumentData>> => {
+  const unicos = [...new Set(ids.filter(Boolean))];
+  if (unicos.length === 0) return new Map();
+  const snapshots = await db.getAll(...unicos.map((id) => db.collection(coleccion).doc(id)));
+  return new Map(snapshots.filter((s) => s.exists).map((s) => [s.id, s.data() || {}]));
+};
+
+/**
+ * Ejecuta una consulta "in" por grupos del tamaño máximo permitido.
+ */
+const consultarEnGrupos = async (
+  coleccion: string,
+  campo: string,
+  valores: string[],
+  campoFecha: string,
+  desde: Date
+) => {
+  const grupos: string[][] = [];
+  for (let i = 0; i < valores.length; i += MAX_IN) grupos.push(valores.slice(i, i + MAX_IN));
+  const snapshots = await Promise.all(grupos.map((grupo) =>
+    db.collection(coleccion)
+      .where(campo, "in", grupo)
+      .where(campoFecha, ">=", admin.firestore.Timestamp.fromDate(desde))
+      .get()
+  ));
+  return snapshots.flatMap((s) => s.docs);
+};
+
+/**
+ * Reservas y turnos del socio y de las personas a su cargo. usuariosACargo solo se usa como
+ * lista de candidatos: se incluye a quien también tiene al socio como tutorId (esTutorDe).
+ */
+const eventosSocio = async (usuarioId: string, usuario: admin.firestore.DocumentData, desde: Date) => {
+  const candidatos: string[] = (Array.isArray(usuario.usuariosACargo) ? usuario.usuariosACargo : [])
+    .filter((id: unknown): id is string => typeof id === "string" && id !== "" && id !== usuarioId);
+  const verificados = await Promise.all(candidatos.map((id) => esTutorDe(usuarioId, id)));
+  const personas = [usuarioId, ...candidatos.filter((_, i) => verificados[i])];
+  const [reservas, turnos] = await Promise.all([
+    consultarEnGrupos("reservas", "usuarioId", personas, "fechaActividad", desde),
+    consultarEnGrupos("turnos", "usuarioId", personas, "fechaTurno", desde),
+  ]);
+
+  const claseIdDe = (data: admin.firestore.DocumentData) =>
+    data.claseId || claseIdPara(data.actividadId, data.fechaActividad.toDate());
+  const [clases, actividades, terapias, dependientes] = await Promise.all([
+    leerPorId("clases", reservas.map((r) => claseIdDe(r.data()))),
+    leerPorId("actividades", reservas.map((r) => r.data().actividadId)),
+    leerPorId("terapias", turnos.map((t) => t.data().terapiaId)),
+    leerPorId("usuarios", personas.slice(1)),
+  ]);
+
+  // En las reservas de personas a cargo se antepone su nombre
+  const conPersona = (titulo: string, personaId: string) =>
+    personaId === usuarioId ? titulo : `${dependientes.get(personaId)?.nombre || "Persona a cargo"}: ${titulo}`;
+
+  const eventos: EventoIcs[] = [];
+  for (const reservaDoc of reservas) {
+    const reserva = reservaDoc.data();
+    const estado = estadoEvento(reserva.estado, "confirmada");
+    if (!estado) continue;
+    const inicio: Date = reserva.fechaActividad.toDate();
+    const clase = clases.get(claseIdDe(reserva));
+    eventos.push({
+      uid: `reserva-${reservaDoc.id}`,
+      inicio,
+      fin: clase?.fechaFin?.toDate() || new Date(inicio.getTime() + DURACION_POR_DEFECTO_MINUTOS * 60 * 1000),
+      titulo: conPersona(actividades.get(reserva.actividadId)?.nombre || "Clase", reserva.usuarioId),
+      descripcion: reserva.motivoCancelacion,
+      ...estado,
+    });
+  }
+  for (const turnoDoc of turnos) {
+    const turno = turnoDoc.data();
+    const estado = estadoEvento(turno.estado, "confirmado");
+    if (!estado) continue;
+    const inicio: Date = turno.fechaTurno.toDate();
+    eventos.push({
+      uid: `turno-${turnoDoc.id}`,
+      inicio,
+      fin: turno.fechaFin?.toDate() ||
+        new Date(inicio.getTime() + (turno.duracionMinutos || DURACION_POR_DEFECTO_MINUTOS) * 60 * 1000),
+      titulo: conPersona(terapias.get(turno.terapiaId)?.nombre || "Terapia", turno.usuarioId),
+      descripcion: turno.motivoCancelacion,
+      ...estado,
+    });
+  }
+  return eventos;
+};
+
+/**
+ * Agenda completa del profesional: clases que dicta, turnos que atiende y horarios bloqueados.
+ */
+const eventosProfesional = async (profesionalId: string, desde: Date) => {
+  const desdeTimestamp = admin.firestore.Timestamp.fromDate(desde);
+  const [clases, turnos, disponibilidad] = await Promise.all([
+    db.collection("clases")
+      .where("profesorId", "==", profesionalId)
+      .where("fechaInicio", ">=", desdeTimestamp)
+      .get(),
+    db.collection("turnos")
+      .where("profesionalId", "==", profesionalId)
+      .where("fechaTurno", ">=", desdeTimestamp)
+      .get(),
+    db.collection("disponibilidades").doc(profesionalId).get(),
+  ]);
+  const [terapias, pacientes] = await Promise.all([
+    leerPorId("terapias", turnos.docs.map((t) => t.data().terapiaId)),
+    leerPorId("usuarios", turnos.docs.map((t) => t.data().usuarioId)),
+  ]);
+
+  const eventos: EventoIcs[] = [];
+  for (const claseDoc of clases.docs) {
+    const clase = claseDoc.data();
+    const estado = clase.estado === "programada" ? { cancelado: false }
+      : ["cancelada", "suspendida"].includes(clase.estado) ? { cancelado: true }
+        : null;
+    if (!estado) continue;
+    eventos.push({
+      uid: `clase-${claseDoc.id}`,
+      inicio: clase.fechaInicio.toDate(),
+      fin: clase.fechaFin.toDate(),
+      titulo: clase.nombre || "Clase",
+      descripcion: `Clase grupal (cupo ${clase.cupo || 0})`,
+      ...estado,
+    });
+  }
+  for (const turnoDoc of turnos.docs) {
+    const turno = turnoDoc.data();
+    const estado = estadoEvento(turno.estado, "confirmado");
+    if (!estado) continue;
+    const inicio: Date = turno.fechaTurno.toDate();
+    const paciente = pacientes.get(turno.usuarioId)?.nombre || "Paciente";
+    eventos.push({
+      uid: `turno-${turnoDoc.id}`,
+      inicio,
+      fin: turno.fechaFin?.toDate() ||
+        new Date(inicio.getTime() + (turno.duracionMinutos || DURACION_POR_DEFECTO_MINUTOS) * 60 * 1000),
+      titulo: `${terapias.get(turno.terapiaId)?.nombre || "Terapia"}: ${paciente}`,
+      descripcion: turno.motivoCancelacion,
+      ...estado,
+    });
+  }
+  for (const ausencia of ausenciasValidas(disponibilidad.data()?.ausencias)) {
+    if (ausencia.fin < desde.getTime()) continue;
+    eventos.push({
+      uid: `bloqueo-${profesionalId}-${ausencia.inicio}-${ausencia.fin}`,
+      inicio: new Date(ausencia.inicio),
+      fin: new Date(ausencia.fin),
+      titulo: ausencia.motivo ? `Bloqueado: ${ausencia.motivo}` : "Bloqueado",
+      cancelado: false,
+    });
+  }
+  return eventos;
+};
+
+
+// --- Función: calendarioIcs (HTTP) ---
+// Feed .ics privado: GET /calendario/{token}.ics (reescritura de Hosting) o ?token=...
+// Los socios ven sus reservas y turnos (y los de sus personas a cargo); los profesionales, su agenda.
+export const calendarioIcs = onRequest(async (req, res) => {
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    res.status(405).send("Método no permitido");
+    return;
+  }
+
+  const token = String(req.query.token || req.path.split("/").pop() || "").replace(/\.ics$/, "");
+  if (!FORMATO_TOKEN.test(token)) {
+    res.status(404).send("Calendario no encontrado");
+    return;
+  }
+
+  const feed = (await colecciones.calendarios.doc(token).get()).data();
+  const usuario = feed ? (await db.collection("usuarios").doc(feed.usuarioId).get()).data() : undefined;
+  if (!feed || !usuario) {
+    res.status(404).send("Calendario no encontrado");
+    return;
+  }
+
+  const desde = new Date(Date.now() - DIAS_HISTORIAL * MS_POR_DIA);
+  const esProfesional = usuario.tipo === "profesional";
+  const eventos = esProfesional
+    ? await eventosProfesional(feed.usuarioId, desde)
+    : await eventosSocio(feed.usuarioId, usuario, desde);
+
+  res.set("Content-Type", "text/calendar; charset=utf-8");
+  res.set("Content-Disposition", "inline; filename=\"virtud.ics\"");
+  res.set("Cache-Control", "private, max-age=300");
+  res.status(200).send(generarIcs(esProfesional ? "VIRTUD - Mi agenda" : "VIRTUD", eventos));
+});
+
+
+// --- Función: generarFeedCalendario (callable) ---
+// Crea el token del feed .ics del usuario. Revoca el anterior: solo hay uno activo por usuario.
+export const generarFeedCalendario = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Debes iniciar sesión.");
+  }
+  const usuarioId = request.auth.uid;
+
+  const anteriores = await db.collection("calendarios").where("usuarioId", "==", usuarioId).get();
+  const token = crypto.randomBytes(24).toString("base64url");
+  const batch = db.batch();
+  anteriores.docs.forEach((anterior) => batch.delete(anterior.ref));
+  batch.set(colecciones.calendarios.doc(token), {
+    usuarioId,
+    fechaCreacion: admin.firestore.FieldValue.serverTimestamp(),
+  });
+  await batch.commit();
+
+  console.log(`Feed de calendario regenerado para ${usuarioId} (${anteriores.size} revocados).`);
+  return { token };
+});
+
+
+// --- Función: revocarFeedCalendario (callable) ---
+// Borra el token del feed .ics: la URL deja de funcionar en los calendarios suscriptos.
+export const revocarFeedCalendario = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Debes iniciar sesión.");
+  }
+
+  const feeds = await db.collection("calendarios").where("usuarioId", "==", request.auth.uid).get();
+  const batch = db.batch();
+  feeds.docs.forEach((feed) => batch.delete(feed.ref));
+  await batch.commit();
+
+  return { revocados: feeds.size };
+});
@@ -0,0 +1,87 @@
+import * as nodemailer from "nodemailer";
+import { defineInt, defineSecret, defineString } from "firebase-functions/params";
+import { admin, db } from "./config";
+
+// Configuración SMTP (se define con `firebase functions:secrets:set SMTP_PASSWORD` y el archivo .env)
+export const smtpHost = defineString("SMTP_HOST", { default: "" });
+export const smtpPort = defineInt("SMTP_PORT", { default: 587 });
+export const smtpUser = defineString("SMTP_USER", { default: "" });
+export const smtpPassword = defineSecret("SMTP_PASSWORD");
+export const smtpRemitente = defineString("SMTP_FROM", { default: "VIRTUD <no-responder@virtud.com.ar>" });
+
+export interface MensajeSaliente {
+  destinatario: string;
+  asunto: string;
+  texto: string;
+}
+
+/**
+ * Canal de entrega de notificaciones. Cada canal sabe enviar un mensaje ya renderizado;
+ * si falla debe lanzar un error para que el outbox lo reintente.
+ */
+export interface CanalEntrega {
+  nombre: string;
+  enviar(mensaje: MensajeSaliente): Promise<void>;
+}
+
+/**
+ * Envío por email usando SMTP.
+ */
+class CanalSmtp implements CanalEntrega {
+  nombre = "email";
+  private transporte?: nodemailer.Transporter;
+
+  private obtenerTransporte() {
+    if (!this.transporte) {
+      if (!smtpHost.value()) {
+        throw new Error("SMTP_HOST no está configurado.");
+      }
+      this.transporte = nodemailer.createTransport({
+        host: smtpHost.value(),
+        port: smtpPort.value(),
+        secure: smtpPort.value() === 465,
+        auth: smtpUser.value() ? { user: smtpUser.value(), pass: smtpPassword.value() } : undefined,
+      });
+    }
+    return this.transporte;
+  }
+
+  async enviar(mensaje: MensajeSaliente) {
+    await this.obtenerTransporte().sendMail({
+      from: smtpRemitente.value(),
+      to: mensaje.destinatario,
+      subject: mensaje.asunto,
+      text: mensaje.texto,
+    });
+  }
+}
+
+/**
+ * Reemplazo local para el emulador: no envía nada, registra el mensaje en el log y en la
+ * colección 'buzonEmulador' para poder revisarlo desde la UI del emulador.
+ */
+class CanalEmulador implements CanalEntrega {
+  nombre = "email";
+
+  async enviar(mensaje: MensajeSaliente) {
+    console.log(`[Emulador] Email a ${mensaje.destinatario}: ${mensaje.asunto}\n${mensaje.texto}`);
+    await db.collection("buzonEmulador").add({
+      ...mensaje,
+      fecha: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+}
+
+let canales: Record<string, CanalEntrega> | undefined;
+
+/**
+ * Devuelve el canal registrado con ese nombre. En el emulador se usa siempre el canal local.
+ */
+export const obtenerCanal = (nombre: string): CanalEntrega | undefined => {
+  if (!canales) {
+    canales = process.env.FUNCTIONS_EMULATOR === "true" ?
+      { email: new CanalEmulador() } :
+      { email: new CanalSmtp() };
+  }
+  return canales[nombre];
+};
@@ -0,0 +1,219 @@
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { admin, db } from "./config";
+import { formatearFechaHoraLegible } from "./fechas";
+import { devolverCredito } from "./membresias";
+import { colecciones } from "./modelo";
+import { puedeGestionar } from "./usuarios";
+import { encolarNotificacion } from "./notificaciones";
+import { Penalizacion } from "../../modelo/src";
+
+/**
+ * Política de cancelación y asistencia configurable en actividades.politicaCancelacion y terapias.politicaCancelacion.
+ */
+export interface PoliticaCancelacion {
+  horasLimite: number; // Hasta cuántas horas antes del inicio se cancela sin penalización
+  cargoCancelacionTardia: number; // Monto a cobrar si se cancela después del límite (0 = sin cargo)
+  cargoAusencia: number; // Monto a cobrar si el socio no asiste sin cancelar (0 = sin cargo)
+  maxAusencias: number; // Ausencias sin aviso que bloquean nuevas reservas (0 = sin límite)
+  diasVentanaAusencias: number; // Días hacia atrás en los que se cuentan esas ausencias
+}
+
+export const POLITICA_POR_DEFECTO: PoliticaCancelacion = {
+  horasLimite: 12,
+  cargoCancelacionTardia: 0,
+  cargoAusencia: 0,
+  maxAusencias: 0,
+  diasVentanaAusencias: 30,
+};
+
+/**
+ * Combina la política definida en una actividad/terapia con los valores por defecto.
+ */
+export const obtenerPolitica = (data: admin.firestore.DocumentData | undefined): PoliticaCancelacion => ({
+  ...POLITICA_POR_DEFECTO,
+  ...(data?.politicaCancelacion || {}),
+});
+
+/**
+ * Registra una penalización para el socio (cancelación tardía o ausencia) dentro de una transacción.
+ * No hace nada si el monto es 0.
+ */
+export const registrarPenalizacion = (
+  transaction: admin.firestore.Transaction,
+  datos: Omit<Penalizacion, "estado" | "fecha">
+) => {
+  if (!datos.monto || datos.monto <= 0) {
+    return;
+  }
+  // ID determinístico: una sola penalización por reserva/turno y tipo
+  const penalizacionRef = colecciones.penalizaciones.doc(`${datos.coleccion}_${datos.referenciaId}_${datos.tipo}`);
+  transaction.set(penalizacionRef, {
+    ...datos,
+    estado: "pendiente",
+    fecha: admin.firestore.FieldValue.serverTimestamp(),
+  });
+};
+
+const leerMotivo = (motivo: unknown): string => {
+  if (motivo == null || motivo === "") return "";
+  if (typeof motivo !== "string" || motivo.length > 500) {
+    throw new HttpsError("invalid-argument", "El motivo de cancelación debe ser un texto de hasta 500 caracteres.");
+  }
+  return motivo.trim();
+};
+
+const horasHasta = (inicio: admin.firestore.Timestamp) => (inicio.toMillis() - Date.now()) / (60 * 60 * 1000);
+
+
+// --- Función: cancelarReserva (callable) ---
+// El socio cancela su reserva de una clase grupal. Antes del límite de la política queda
+// "cancelada_por_socio"; después, "cancelada_tarde" con la penalización correspondiente.
+// Al dejar de estar activa, liberarLugarReserva ofrece el lugar a la lista de espera.
+// Los lugares ofrecidos desde la lista de espera (pendientes) no se cancelan acá: se rechazan
+// con salirListaEspera, que cierra la entrada sin penalización y pasa el lugar al siguiente.
+export const cancelarReserva = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Debes iniciar sesión.");
+  }
+
+  const { reservaId } = request.data || {};
+  if (typeof reservaId !== "string" || !reservaId) {
+    throw new HttpsError("invalid-argument", "Falta indicar la reserva.");
+  }
+  const motivo = leerMotivo(request.data?.motivo);
+  const uid = request.auth.uid;
+  const reservaRef = db.collection("reservas").doc(reservaId);
+
+  const resultado = await db.runTransaction(async (transaction) => {
+    const reservaDoc = await transaction.get(reservaRef);
+    const reserva = reservaDoc.data();
+
+    // El tutor también puede cancelar las reservas de las personas a su cargo
+    if (!reserva || !(await puedeGestionar(uid, reserva.usuarioId))) {
+      throw new HttpsError("not-found", "La reserva no existe.");
+    }
+    const usuarioId: string = reserva.usuarioId;
+    if (!["confirmada", "pendiente"].includes(reserva.estado)) {
+      throw new HttpsError("failed-precondition", `La reserva no se puede cancelar (estado: ${reserva.estado}).`);
+    }
+    if (reserva.estado === "pendiente" && reserva.listaEsperaId) {
+      throw new HttpsError(
+        "failed-precondition",
+        "Es un lugar ofrecido desde la lista de espera: para rechazarlo, salí de la lista de espera (sin cargo).",
+        { motivo: "oferta_lista_espera", listaEsperaId: reserva.listaEsperaId }
+      );
+    }
+    if (reserva.fechaActividad.toMillis() <= Date.now()) {
+      throw new HttpsError("failed-precondition", "La clase ya comenzó; no se puede cancelar.");
+    }
+
+    const actividadDoc = await transaction.get(db.collection("actividades").doc(reserva.actividadId));
+    const politica = obtenerPolitica(actividadDoc.data());
+    const tardia = horasHasta(reserva.fechaActividad) < politica.horasLimite;
+    const estado = tardia ? "cancelada_tarde" : "cancelada_por_socio";
+
+    transaction.update(reservaRef, {
+      estado,
+      motivoCancelacion: motivo,
+      canceladoPor: uid,
+      fechaCancelacion: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    if (!tardia) {
+      // Cancelando a tiempo se recupera el crédito del plan; fuera de término se pierde
+      devolverCredito(transaction, reservaRef, reserva);
+    } else {
+      registrarPenalizacion(transaction, {
+        usuarioId,
+        tipo: "cancelacion_tardia",
+        coleccion: "reservas",
+        referenciaId: reservaId,
+        monto: politica.cargoCancelacionTardia,
+        descripcion: `Cancelación tardía de ${actividadDoc.data()?.nombre || "clase"} (menos de ${politica.horasLimite} h de anticipación).`,
+      });
+    }
+
+    const penalizacion = tardia ? politica.cargoCancelacionTardia : 0;
+    await encolarNotificacion("reserva_cancelada", usuarioId, {
+      actividad: actividadDoc.data()?.nombre,
+      fecha: formatearFechaHoraLegible(reserva.fechaActividad.toDate()),
+      penalizacion,
+    }, transaction);
+
+    return { estado, penalizacion, creditoDevuelto: !tardia && Boolean(reserva.membresiaId), usuarioId };
+  });
+
+  const { usuarioId, ...respuesta } = resultado;
+  console.log(`Reserva ${reservaId} de ${usuarioId} cancelada por ${uid} (${respuesta.estado}).`);
+  return { reservaId, ...respuesta };
+});
+
+
+// --- Función: cancelarTurno (callable) ---
+// El socio cancela su turno de terapia con las mismas reglas; el horario queda libre
+// porque la verificación de solapamientos solo considera turnos activos.
+export const cancelarTurno = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Debes iniciar sesión.");
+  }
+
+  const { turnoId } = request.data || {};
+  if (typeof turnoId !== "string" || !turnoId) {
+    throw new HttpsError("invalid-argument", "Falta indicar el turno.");
+  }
+  const motivo = leerMotivo(request.data?.motivo);
+  const uid = request.auth.uid;
+  const turnoRef = db.collection("turnos").doc(turnoId);
+
+  const resultado = await db.runTransaction(async (transaction) => {
+    const turnoDoc = await transaction.get(turnoRef);
+    const turno = turnoDoc.data();
+
+    if (!turno || !(await puedeGestionar(uid, turno.usuarioId))) {
+      throw new HttpsError("not-found", "El turno no existe.");
+    }
+    const usuarioId: string = turno.usuarioId;
+    if (!["confirmado", "pendiente"].includes(turno.estado)) {
+      throw new HttpsError("failed-precondition", `El turno no se puede cancelar (estado: ${turno.estado}).`);
+    }
+    if (turno.fechaTurno.toMillis() <= Date.now()) {
+      throw new HttpsError("failed-precondition", "El turno ya comenzó; no se puede cancelar.");
+    }
+
+    const terapiaDoc = await transaction.get(db.collection("terapias").doc(turno.terapiaId));
+    const politica = obtenerPolitica(terapiaDoc.data());
+    const tardio = horasHasta(turno.fechaTurno) < politica.horasLimite;
+    const estado = tardio ? "cancelado_tarde" : "cancelado_por_socio";
+
+    transaction.update(turnoRef, {
+      estado,
+      motivoCancelacion: motivo,
+      canceladoPor: uid,
+      fechaCancelacion: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    if (tardio) {
+      registrarPenalizacion(transaction, {
+        usuarioId,
+        tipo: "cancelacion_tardia",
+        coleccion: "turnos",
+        referenciaId: turnoId,
+        monto: politica.cargoCancelacionTardia,
+        descripcion: `Cancelación tardía de ${terapiaDoc.data()?.nombre || "terapia"} (menos de ${politica.horasLimite} h de anticipación).`,
+      });
+    }
+
+    const penalizacion = tardio ? politica.cargoCancelacionTardia : 0;
+    await encolarNotificacion("turno_cancelado", usuarioId, {
+      terapia: terapiaDoc.data()?.nombre,
+      fecha: formatearFechaHoraLegible(turno.fechaTurno.toDate()),
+      penalizacion,
+    }, transaction);
+
+    return { estado, penalizacion, usuarioId };
+  });
+
+  const { usuarioId, ...respuesta } = resultado;
+  console.log(`Turno ${turnoId} de ${usuarioId} cancelado por ${uid} (${respuesta.estado}).`);
+  return { turnoId, ...respuesta };
+});
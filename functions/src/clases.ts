@@ -0,0 +1,268 @@
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { admin, db } from "./config";
+import {
+  ZONA_HORARIA,
+  fechaHoraLocal,
+  formatearFechaHoraLegible,
+  formatearFechaLocal,
+  partesLocales,
+  sumarDias,
+} from "./fechas";
+import { devolverCredito } from "./membresias";
+import { colecciones } from "./modelo";
+import { encolarNotificacion } from "./notificaciones";
+import { ReglaHorario, erroresDe, esquemaReglaHorario } from "../../modelo/src";
+
+export type { ReglaHorario };
+
+// Cantidad de días hacia adelante para los que se generan instancias de clase
+const HORIZONTE_DIAS = 28;
+
+// Reservas por batch al cancelar una clase dada de baja (hasta 5 escrituras cada una, como en suspensiones.ts)
+const RESERVAS_POR_LOTE = 80;
+
+export interface InstanciaClase {
+  id: string;
+  fechaInicio: Date;
+  fechaFin: Date;
+  duracionMinutos: number;
+}
+
+/**
+ * ID determinístico de la instancia: permite verificar con un solo get si una
+ * fecha/hora corresponde a una clase programada.
+ */
+export const claseIdPara = (actividadId: string, fechaInicio: Date): string => {
+  const { anio, mes, dia, hora, minutos } = partesLocales(fechaInicio);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${actividadId}_${anio}${pad(mes)}${pad(dia)}${pad(hora)}${pad(minutos)}`;
+};
+
+/**
+ * Suma los cupos tomados por las reservas activas (confirmadas o pendientes) de una clase.
+ * Las reservas "pendiente" incluyen los lugares ofrecidos a la lista de espera.
+ * @param transaction Transacción en curso.
+ * @param actividadId ID de la actividad.
+ * @param fechaActividad Timestamp de la instancia de la clase.
+ * @param reservaIdExcluida Reserva que no debe contarse.
+ */
+export const contarCupoOcupado = async (
+  transaction: admin.firestore.Transaction,
+  actividadId: string,
+  fechaActividad: admin.firestore.Timestamp,
+  reservaIdExcluida?: string
+): Promise<number> => {
+  const reservasSnapshot = await transaction.get(
+    db
+      .collection("reservas")
+      .where("actividadId", "==", actividadId)
+      .where("fechaActividad", "==", fechaActividad)
+      .where("estado", "in", ["confirmada", "pendiente"])
+  );
+
+  let cupoOcupado = 0;
+  reservasSnapshot.forEach((doc) => {
+    if (doc.id !== reservaIdExcluida) {
+      cupoOcupado += doc.data().cupoTomado || 1;
+    }
+  });
+  return cupoOcupado;
+};
+
+/**
+ * Devuelve los errores de una regla de horario (vacío si es válida), según esquemaReglaHorario.
+ */
+export const validarReglaHorario = (regla: unknown): string[] => erroresDe(esquemaReglaHorario, regla);
+
+/**
+ * Calcula las instancias concretas de una actividad entre dos fechas a partir de sus reglas.
+ * @param actividadId ID de la actividad.
+ * @param horarios Reglas de recurrencia (actividades.horarios).
+ * @param desde Inicio del rango (inclusive).
+ * @param hasta Fin del rango (exclusive).
+ */
+export const generarInstancias = (
+  actividadId: string,
+  horarios: ReglaHorario[],
+  desde: Date,
+  hasta: Date
+): InstanciaClase[] => {
+  const instancias = new Map<string, InstanciaClase>();
+  const ultimoDia = formatearFechaLocal(hasta);
+
+  for (const regla of horarios) {
+    if (validarReglaHorario(regla).length > 0) {
+      continue;
+    }
+
+    const excepciones = new Set(regla.excepciones || []);
+    let dia = formatearFechaLocal(desde) > regla.vigenciaDesde ? formatearFechaLocal(desde) : regla.vigenciaDesde;
+    const fin = regla.vigenciaHasta && regla.vigenciaHasta < ultimoDia ? regla.vigenciaHasta : ultimoDia;
+
+    for (; dia <= fin; dia = sumarDias(dia, 1)) {
+      const fechaInicio = fechaHoraLocal(dia, regla.horaInicio);
+      if (fechaInicio < desde || fechaInicio >= hasta) continue;
+      if (!regla.dias.includes(partesLocales(fechaInicio).diaSemana)) continue;
+      if (excepciones.has(dia)) continue;
+
+      const id = claseIdPara(actividadId, fechaInicio);
+      instancias.set(id, {
+        id,
+        fechaInicio,
+        fechaFin: new Date(fechaInicio.getTime() + regla.duracionMinutos * 60 * 1000),
+        duracionMinutos: regla.duracionMinutos,
+      });
+    }
+  }
+
+  return [...instancias.values()].sort((a, b) => a.fechaInicio.getTime() - b.fechaInicio.getTime());
+};
+
+/**
+ * Cancela las reservas de una clase que se quitó del calendario, como lo hace procesarSuspension:
+ * devuelve el crédito de las confirmadas (facturarReserva anula su cargo), cancela los lugares
+ * ofrecidos desde la lista de espera y avisa a cada socio.
+ */
+const cancelarReservasDeClase = async (claseId: string, nombreActividad: string, fechaInicio: admin.firestore.Timestamp) => {
+  const reservas = await db.collection("reservas")
+    .where("claseId", "==", claseId)
+    .where("estado", "in", ["confirmada", "pendiente"])
+    .get();
+  // Las "pendiente" sin listaEsperaId las creó el cliente y las resuelve reservarActividad
+  const afectadas = reservas.docs.filter((doc) => doc.data().estado === "confirmada" || doc.data().listaEsperaId);
+  const motivo = "La clase se quitó del horario de la actividad.";
+
+  for (let i = 0; i < afectadas.length; i += RESERVAS_POR_LOTE) {
+    const batch = db.batch();
+    for (const doc of afectadas.slice(i, i + RESERVAS_POR_LOTE)) {
+      const reserva = doc.data();
+      batch.update(doc.ref, {
+        estado: "cancelado_por_admin",
+        motivoCancelacion: motivo,
+        fechaCancelacion: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      if (reserva.estado === "confirmada") {
+        devolverCredito(batch, doc.ref, reserva);
+      } else {
+        batch.update(db.collection("listaEspera").doc(reserva.listaEsperaId), {
+          estado: "cancelada",
+          motivoCancelacion: motivo,
+        });
+      }
+      await encolarNotificacion("reserva_cancelada_admin", reserva.usuarioId, {
+        actividad: nombreActividad,
+        fecha: formatearFechaHoraLegible(fechaInicio.toDate()),
+        motivo,
+      }, batch);
+    }
+    await batch.commit();
+  }
+
+  if (afectadas.length > 0) {
+    console.log(`Clase ${claseId} dada de baja: ${afectadas.length} reservas canceladas.`);
+  }
+};
+
+/**
+ * Crea o actualiza en la colección 'clases' las instancias futuras de una actividad
+ * y da de baja las que dejaron de estar en su calendario.
+ */
+export const materializarClases = async (
+  actividadId: string,
+  actividad: admin.firestore.DocumentData | undefined
+) => {
+  const ahora = new Date();
+  const hasta = new Date(ahora.getTime() + HORIZONTE_DIAS * 24 * 60 * 60 * 1000);
+  const activa = actividad && !actividad.archivada && Array.isArray(actividad.horarios);
+  const instancias = activa ? generarInstancias(actividadId, actividad.horarios, ahora, hasta) : [];
+  const idsVigentes = new Set(instancias.map((i) => i.id));
+
+  // Instancias futuras ya generadas: se conservan las que están suspendidas y los reemplazos de profesor
+  const existentes = await db.collection("clases")
+    .where("actividadId", "==", actividadId)
+    .where("fechaInicio", ">=", admin.firestore.Timestamp.fromDate(ahora))
+    .get();
+  const datosExistentes = new Map(existentes.docs.map((doc) => [doc.id, doc.data()]));
+
+  const batch = db.batch();
+
+  for (const instancia of instancias) {
+    const existente = datosExistentes.get(instancia.id);
+    batch.set(colecciones.clases.doc(instancia.id), {
+      actividadId,
+      nombre: actividad?.nombre || "",
+      fechaInicio: admin.firestore.Timestamp.fromDate(instancia.fechaInicio),
+      fechaFin: admin.firestore.Timestamp.fromDate(instancia.fechaFin),
+      duracionMinutos: instancia.duracionMinutos,
+      cupo: actividad?.cupo || 0,
+      // El profesor de la actividad, salvo que esa clase tenga un reemplazo asignado a mano
+      profesorId: existente?.reemplazoProfesor ? existente.profesorId : actividad?.profesorId || null,
+      estado: existente?.estado === "suspendida" ? "suspendida" : "programada",
+      fechaActualizacion: admin.firestore.FieldValue.serverTimestamp(),
+    }, { merge: true });
+  }
+
+  // Instancias futuras que ya no corresponden al calendario (cambió el horario, se agregó una excepción, etc.)
+  const bajas = existentes.docs.filter((doc) => !idsVigentes.has(doc.id) && doc.data().estado === "programada");
+  for (const doc of bajas) {
+    batch.update(doc.ref, {
+      estado: "cancelada",
+      fechaActualizacion: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  }
+
+  // Primero se cancelan las clases: así la lista de espera no ofrece los lugares que se liberan
+  await batch.commit();
+  for (const doc of bajas) {
+    await cancelarReservasDeClase(doc.id, actividad?.nombre || "", doc.data().fechaInicio);
+  }
+  console.log(`Actividad ${actividadId}: ${instancias.length} clases programadas, ${bajas.length} dadas de baja.`);
+};
+
+
+// --- Función: sincronizarClasesActividad ---
+// Regenera las instancias cada vez que cambia el calendario, el cupo, el nombre o el profesor de una actividad.
+export const sincronizarClasesActividad = onDocumentWritten(
+  "actividades/{actividadId}",
+  async (event) => {
+    const antes = event.data?.before?.data();
+    const despues = event.data?.after?.data();
+
+    if (despues && antes &&
+        JSON.stringify(antes.horarios) === JSON.stringify(despues.horarios) &&
+        antes.cupo === despues.cupo &&
+        antes.nombre === despues.nombre &&
+        antes.profesorId === despues.profesorId &&
+        antes.archivada === despues.archivada) {
+      return null;
+    }
+
+    if (despues && Array.isArray(despues.horarios)) {
+      despues.horarios.forEach((regla: unknown, i: number) => {
+        const errores = validarReglaHorario(regla);
+        if (errores.length > 0) {
+          console.error(`Actividad ${event.params.actividadId}, horario ${i} inválido: ${errores.join(" ")}`);
+        }
+      });
+    }
+
+    await materializarClases(event.params.actividadId, despues);
+    return null;
+  }
+);
+
+
+// --- Función: generarClases ---
+// Corre todos los días para extender el horizonte de clases generadas.
+export const generarClases = onSchedule(
+  { schedule: "every day 03:00", timeZone: ZONA_HORARIA },
+  async () => {
+    const actividades = await db.collection("actividades").get();
+    for (const doc of actividades.docs) {
+      if (Array.isArray(doc.data().horarios)) {
+        await materializarClases(doc.id, doc.data());
+      }
+    }
+  }
+);
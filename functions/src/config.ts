@@ -0,0 +1,7 @@
+import * as admin from "firebase-admin";
+
+admin.initializeApp(); // Inicializa el SDK de Admin para interactuar con Firestore
+
+export const db = admin.firestore(); // Obtén la instancia de Firestore
+
+export { admin };
@@ -0,0 +1,237 @@
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { admin, db } from "./config";
+import {
+  MS_POR_DIA,
+  fechaHoraLocal,
+  formatearFechaLocal,
+  partesLocales,
+  sumarDias,
+} from "./fechas";
+import { Documento } from "./modelo";
+import {
+  Ausencia,
+  Disponibilidad as DisponibilidadModelo,
+  FranjaSemanal,
+  MAX_DURACION_TURNO_MINUTOS,
+  erroresDe,
+  esquemaAusencia,
+  esquemaFranjaSemanal,
+  milisegundos,
+} from "../../modelo/src";
+
+export type { FranjaSemanal };
+export { MAX_DURACION_TURNO_MINUTOS };
+
+// Rango máximo que se puede consultar de una sola vez en consultarTurnosDisponibles
+const MAX_DIAS_CONSULTA = 31;
+
+/**
+ * Documento disponibilidades/{profesionalId} leído con el Admin SDK. Se lee sin convertidor:
+ * las franjas mal cargadas se ignoran (franjaValida) en lugar de rechazar todo el documento.
+ */
+export type Disponibilidad = Documento<DisponibilidadModelo>;
+
+interface Intervalo {
+  inicio: number; // epoch ms
+  fin: number;
+}
+
+const franjaValida = (franja: unknown): franja is FranjaSemanal =>
+  erroresDe(esquemaFranjaSemanal, franja).length === 0;
+
+/**
+ * Ausencias bien cargadas de una disponibilidad, como intervalos. Las que no cumplen el esquema
+ * o terminan antes de empezar se ignoran, igual que las franjas inválidas.
+ */
+export const ausenciasValidas = (ausencias: unknown): (Intervalo & { motivo?: string })[] =>
+  (Array.isArray(ausencias) ? ausencias : []).flatMap((ausencia: unknown) => {
+    if (erroresDe(esquemaAusencia, ausencia).length > 0) return [];
+    const { desde, hasta, motivo } = ausencia as Ausencia;
+    const inicio = milisegundos(desde);
+    const fin = milisegundos(hasta);
+    return inicio != null && fin != null && inicio < fin ? [{ inicio, fin, motivo }] : [];
+  });
+
+/**
+ * Intervalos concretos de una lista de franjas semanales para un día local "YYYY-MM-DD".
+ */
+const franjasDelDia = (franjas: FranjaSemanal[] | undefined, dia: string): Intervalo[] => {
+  const diaSemana = partesLocales(fechaHoraLocal(dia, "12:00")).diaSemana;
+  return (franjas || [])
+    .filter((franja) => franjaValida(franja) && franja.dia === diaSemana)
+    .map((franja) => ({
+      inicio: fechaHoraLocal(dia, franja.desde).getTime(),
+      fin: fechaHoraLocal(dia, franja.hasta).getTime(),
+    }));
+};
+
+/**
+ * Resta a un conjunto de intervalos otro conjunto de intervalos.
+ */
+const restarIntervalos = (base: Intervalo[], quitar: Intervalo[]): Intervalo[] => {
+  let resultado = base;
+  for (const q of quitar) {
+    resultado = resultado.flatMap((b) => {
+      if (q.fin <= b.inicio || q.inicio >= b.fin) return [b];
+      const partes: Intervalo[] = [];
+      if (q.inicio > b.inicio) partes.push({ inicio: b.inicio, fin: q.inicio });
+      if (q.fin < b.fin) partes.push({ inicio: q.fin, fin: b.fin });
+      return partes;
+    });
+  }
+  return resultado;
+};
+
+/**
+ * Intervalos bloqueados por ausencias y pausas en un día local.
+ */
+const bloqueosDelDia = (disponibilidad: Disponibilidad, dia: string): Intervalo[] => {
+  const ausencias = ausenciasValidas(disponibilidad.ausencias).map(({ inicio, fin }) => ({ inicio, fin }));
+  return [...franjasDelDia(disponibilidad.pausas, dia), ...ausencias];
+};
+
+/**
+ * Verifica que un turno caiga completo dentro del horario de atención del profesional,
+ * fuera de sus pausas y de sus ausencias. Lanza HttpsError("failed-precondition") si no.
+ */
+export const validarDisponibilidad = (
+  disponibilidad: Disponibilidad | undefined,
+  inicio: Date,
+  fin: Date
+) => {
+  if (!disponibilidad || !Array.isArray(disponibilidad.horarios) || disponibilidad.horarios.length === 0) {
+    throw new HttpsError(
+      "failed-precondition",
+      "El profesional no tiene horarios de atención configurados."
+    );
+  }
+
+  const dia = formatearFechaLocal(inicio);
+  const turno = { inicio: inicio.getTime(), fin: fin.getTime() };
+
+  const dentroDeHorario = franjasDelDia(disponibilidad.horarios, dia)
+    .some((franja) => franja.inicio <= turno.inicio && turno.fin <= franja.fin);
+  if (!dentroDeHorario) {
+    throw new HttpsError(
+      "failed-precondition",
+      "El horario elegido está fuera del horario de atención del profesional."
+    );
+  }
+
+  const bloqueado = bloqueosDelDia(disponibilidad, dia)
+    .some((b) => b.inicio < turno.fin && b.fin > turno.inicio);
+  if (bloqueado) {
+    throw new HttpsError(
+      "failed-precondition",
+      "El profesional no atiende en ese horario (pausa o ausencia programada)."
+    );
+  }
+};
+
+/**
+ * Calcula los horarios de inicio libres para una sesión de la duración indicada.
+ * @param disponibilidad Disponibilidad del profesional.
+ * @param duracionMinutos Duración de la sesión.
+ * @param desde Inicio del rango a consultar.
+ * @param hasta Fin del rango a consultar.
+ * @param ocupados Turnos activos del profesional en el rango (sin buffer).
+ * @returns Los inicios posibles, ordenados.
+ */
+export const calcularTurnosLibres = (
+  disponibilidad: Disponibilidad,
+  duracionMinutos: number,
+  desde: Date,
+  hasta: Date,
+  ocupados: Intervalo[]
+): Date[] => {
+  const duracion = duracionMinutos * 60 * 1000;
+  const buffer = (disponibilidad.bufferMinutos || 0) * 60 * 1000;
+  const ocupadosConBuffer = ocupados.map((o) => ({ inicio: o.inicio - buffer, fin: o.fin + buffer }));
+  const libres: Date[] = [];
+
+  for (let dia = formatearFechaLocal(desde); dia <= formatearFechaLocal(hasta); dia = sumarDias(dia, 1)) {
+    const franjas = restarIntervalos(
+      franjasDelDia(disponibilidad.horarios, dia),
+      [...bloqueosDelDia(disponibilidad, dia), ...ocupadosConBuffer]
+    );
+
+    for (const franja of franjas) {
+      for (let inicio = franja.inicio; inicio + duracion <= franja.fin; inicio += duracion + buffer) {
+        if (inicio >= desde.getTime() && inicio < hasta.getTime()) {
+          libres.push(new Date(inicio));
+        }
+      }
+    }
+  }
+
+  return libres.sort((a, b) => a.getTime() - b.getTime());
+};
+
+
+// --- Función: consultarTurnosDisponibles (callable) ---
+// Devuelve los horarios reservables de una terapia en un rango de fechas, respetando la
+// disponibilidad del profesional, su buffer entre sesiones y los turnos ya tomados.
+export const consultarTurnosDisponibles = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Debes iniciar sesión.");
+  }
+
+  const { terapiaId, desde, hasta } = request.data || {};
+  const desdeMillis = Date.parse(desde);
+  const hastaMillis = Date.parse(hasta);
+
+  if (typeof terapiaId !== "string" || !terapiaId) {
+    throw new HttpsError("invalid-argument", "Falta indicar la terapia.");
+  }
+  if (!Number.isFinite(desdeMillis) || !Number.isFinite(hastaMillis) || hastaMillis <= desdeMillis) {
+    throw new HttpsError("invalid-argument", "El rango de fechas no es válido.");
+  }
+  if (hastaMillis - desdeMillis > MAX_DIAS_CONSULTA * MS_POR_DIA) {
+    throw new HttpsError("invalid-argument", `El rango no puede superar los ${MAX_DIAS_CONSULTA} días.`);
+  }
+
+  const terapiaDoc = await db.collection("terapias").doc(terapiaId).get();
+  const terapia = terapiaDoc.data();
+  if (!terapia) {
+    throw new HttpsError("not-found", `La terapia con ID ${terapiaId} no existe.`);
+  }
+  if (terapia.archivada) {
+    return { terapiaId, duracionMinutos: terapia.duracionMinutos, turnos: [] };
+  }
+  if (!terapia.profesionalId || !terapia.duracionMinutos) {
+    throw new HttpsError("failed-precondition", `La terapia ${terapia.nombre} no tiene profesional o duración asignados.`);
+  }
+
+  const disponibilidad = (await db.collection("disponibilidades").doc(terapia.profesionalId).get()).data() as Disponibilidad | undefined;
+  if (!disponibilidad || !Array.isArray(disponibilidad.horarios)) {
+    return { terapiaId, duracionMinutos: terapia.duracionMinutos, turnos: [] };
+  }
+
+  // Turnos activos del profesional (en cualquiera de sus terapias) que pueden tocar el rango
+  const turnos = await db.collection("turnos")
+    .where("profesionalId", "==", terapia.profesionalId)
+    .where("estado", "in", ["confirmado", "pendiente"])
+    .where("fechaTurno", ">=", admin.firestore.Timestamp.fromMillis(desdeMillis - MAX_DURACION_TURNO_MINUTOS * 60 * 1000))
+    .where("fechaTurno", "<", admin.firestore.Timestamp.fromMillis(hastaMillis))
+    .get();
+  const ocupados: Intervalo[] = turnos.docs.map((doc) => ({
+    inicio: doc.data().fechaTurno.toMillis(),
+    fin: doc.data().fechaFin.toMillis(),
+  }));
+
+  // No se ofrecen horarios en el pasado
+  const desdeEfectivo = new Date(Math.max(desdeMillis, Date.now()));
+  const libres = calcularTurnosLibres(
+    disponibilidad,
+    terapia.duracionMinutos,
+    desdeEfectivo,
+    new Date(hastaMillis),
+    ocupados
+  );
+
+  return {
+    terapiaId,
+    duracionMinutos: terapia.duracionMinutos,
+    turnos: libres.map((inicio) => inicio.toISOString()),
+  };
+});
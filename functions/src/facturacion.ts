@@ -0,0 +1,502 @@
+import PDFDocument from "pdfkit";
+import { onDocumentCreated, onDocumentWritten } from "firebase-functions/v2/firestore";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { admin, db } from "./config";
+import { formatearFechaLocal, formatearHoraLocal, ZONA_HORARIA } from "./fechas";
+import { colecciones } from "./modelo";
+import { requerirRol } from "./usuarios";
+import { FORMATO_PERIODO, MEDIOS_PAGO, MedioPago, OrigenCargo } from "../../modelo/src";
+
+/**
+ * Mes ("YYYY-MM", hora local) en el que se factura un cargo.
+ */
+const periodoDe = (fecha: admin.firestore.Timestamp) => formatearFechaLocal(fecha.toDate()).slice(0, 7);
+
+const esPeriodoValido = (periodo: unknown): periodo is string =>
+  typeof periodo === "string" && FORMATO_PERIODO.test(periodo);
+
+const formatearMonto = (monto: number) =>
+  `$ ${monto.toLocaleString("es-AR", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * Devuelve quién paga los consumos de un usuario. Se usa usuarios.responsableDePago solo si
+ * el responsable también lo tiene en su lista usuariosACargo (la relación debe ser mutua,
+ * para que nadie pueda cargarle sus consumos a otra persona).
+ */
+export const resolverResponsable = async (
+  usuarioId: string,
+  transaction?: admin.firestore.Transaction
+): Promise<string> => {
+  const leer = (id: string) => {
+    const ref = db.collection("usuarios").doc(id);
+    return transaction ? transaction.get(ref) : ref.get();
+  };
+  const usuario = (await leer(usuarioId)).data();
+  const responsableId = usuario?.responsableDePago;
+
+  if (responsableId && responsableId !== usuarioId) {
+    const responsable = (await leer(responsableId)).data();
+    if (Array.isArray(responsable?.usuariosACargo) && responsable.usuariosACargo.includes(usuarioId)) {
+      return responsableId;
+    }
+    console.warn(`Usuario ${usuarioId} declara a ${responsableId} como responsable, pero no figura a su cargo.`);
+  }
+  return usuarioId;
+};
+
+// Datos del cargo de un documento que debe facturarse
+interface DatosCargo {
+  usuarioId: string;
+  concepto: string;
+  monto: number;
+  fecha: admin.firestore.Timestamp;
+}
+
+/**
+ * Qué hacer con el cargo actual de un documento según los datos que debería tener
+ * (null = ya no se factura). Un cargo vigente con otro monto o concepto se corrige.
+ */
+export const cambioDeCargo = (
+  cargo: admin.firestore.DocumentData | undefined,
+  datos: DatosCargo | null
+): "registrar" | "corregir" | "anular" | null => {
+  const vigente = cargo?.estado === "vigente";
+  if (!datos) return vigente ? "anular" : null;
+  if (!vigente) return "registrar";
+  return cargo.monto !== datos.monto || cargo.concepto !== datos.concepto ? "corregir" : null;
+};
+
+/**
+ * Datos del cargo de una reserva: el precio de la actividad por cada cupo, o 0 si la cubre un plan.
+ */
+export const datosCargoReserva = (
+  reserva: admin.firestore.DocumentData | undefined,
+  actividad: admin.firestore.DocumentData | undefined
+): DatosCargo | null => {
+  if (reserva?.estado !== "confirmada") {
+    return null;
+  }
+  const incluidaEnPlan = Boolean(reserva.membresiaId);
+  return {
+    usuarioId: reserva.usuarioId,
+    concepto: `Clase de ${actividad?.nombre || "actividad"}${incluidaEnPlan ? " (incluida en el plan)" : ""}`,
+    monto: incluidaEnPlan ? 0 : (Number(actividad?.precio) || 0) * (reserva.cupoTomado || 1),
+    fecha: reserva.fechaActividad,
+  };
+};
+
+// Campos de una reserva de los que depende su cargo: la confirmación del cliente llega con el
+// estado "confirmada" y reservarActividad agrega después la membresía y el cupo
+export const CAMPOS_CARGO_RESERVA = ["estado", "membresiaId", "cupoTomado"];
+
+/**
+ * Indica si entre dos versiones de un documento cambió alguno de los campos de los que depende su cargo.
+ */
+export const cambiaCargo = (
+  antes: admin.firestore.DocumentData | undefined,
+  despues: admin.firestore.DocumentData | undefined,
+  campos: string[]
+) => !antes || !despues || campos.some((campo) => antes[campo] !== despues[campo]);
+
+/**
+ * Deja el cargo de un documento de origen (cargos/{origen}_{referenciaId}, uno por documento)
+ * de acuerdo con el estado actual de ese documento, leído dentro de una transacción: lo registra
+ * (o reactiva) si debe facturarse y lo anula si ya no. Así no importa el orden en que lleguen los
+ * eventos de los triggers, y procesar dos veces el mismo evento no duplica nada.
+ * @param calcular Devuelve los datos del cargo si el documento (undefined = eliminado) se factura, o null.
+ * @param motivoAnulacion Motivo que se guarda al anular el cargo.
+ */
+const sincronizarCargo = async (
+  origen: OrigenCargo,
+  referenciaId: string,
+  calcular: (
+    transaction: admin.firestore.Transaction,
+    documento: admin.firestore.DocumentData | undefined
+  ) => Promise<DatosCargo | null>,
+  motivoAnulacion: (documento: admin.firestore.DocumentData | undefined) => string
+) => {
+  const cargoRef = colecciones.cargos.doc(`${origen}_${referenciaId}`);
+
+  const resumen = await db.runTransaction(async (transaction) => {
+    const [origenDoc, cargoDoc] = await Promise.all([
+      transaction.get(db.collection(origen).doc(referenciaId)),
+      transaction.get(cargoRef),
+    ]);
+    const documento = origenDoc.data();
+    const cargo = cargoDoc.data();
+    const datos = await calcular(transaction, documento);
+    const cambio = cambioDeCargo(cargo, datos);
+
+    if (cambio === "corregir" && cargo && datos) {
+      transaction.update(cargoRef, {
+        concepto: datos.concepto,
+        monto: datos.monto,
+        fechaActualizacion: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return { responsableId: cargo.responsableId as string, periodo: cargo.periodo as string };
+    }
+    if (cambio === "registrar" && datos) {
+      const responsableId = await resolverResponsable(datos.usuarioId, transaction);
+      const periodo = periodoDe(datos.fecha);
+      transaction.set(cargoRef, {
+        ...datos,
+        origen,
+        referenciaId,
+        responsableId,
+        periodo,
+        estado: "vigente",
+        fechaCreacion: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return { responsableId, periodo };
+    }
+    if (cambio !== "anular" || !cargo) {
+      return null;
+    }
+    transaction.update(cargoRef, {
+      estado: "anulado",
+      motivoAnulacion: motivoAnulacion(documento),
+      fechaAnulacion: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return { responsableId: cargo.responsableId as string, periodo: cargo.periodo as string };
+  });
+
+  if (resumen) {
+    await actualizarResumenSiExiste(resumen.responsableId, resumen.periodo);
+  }
+};
+
+/**
+ * Arma el resumen mensual de un responsable de pago (resumenes/{responsableId}_{periodo})
+ * a partir de los cargos vigentes del período y los pagos registrados.
+ */
+export const generarResumen = async (responsableId: string, periodo: string) => {
+  const [cargosSnapshot, pagosSnapshot, responsableDoc] = await Promise.all([
+    db.collection("cargos")
+      .where("responsableId", "==", responsableId)
+      .where("periodo", "==", periodo)
+      .where("estado", "==", "vigente")
+      .get(),
+    db.collection("pagos")
+      .where("responsableId", "==", responsableId)
+      .where("periodo", "==", periodo)
+      .get(),
+    db.collection("usuarios").doc(responsableId).get(),
+  ]);
+
+  // Nombres de las personas a cargo que aparecen en el resumen
+  const usuarioIds = [...new Set(cargosSnapshot.docs.map((doc) => doc.data().usuarioId as string))];
+  const usuariosDocs = usuarioIds.length ?
+    await db.getAll(...usuarioIds.map((id) => db.collection("usuarios").doc(id))) :
+    [];
+  const nombres = new Map(usuariosDocs.map((doc) => [doc.id, doc.data()?.nombre || doc.id]));
+
+  const items = cargosSnapshot.docs
+    .map((doc) => {
+      const cargo = doc.data();
+      return {
+        cargoId: doc.id,
+        usuarioId: cargo.usuarioId,
+        nombre: nombres.get(cargo.usuarioId) || cargo.usuarioId,
+        concepto: cargo.concepto,
+        fecha: cargo.fecha,
+        monto: cargo.monto,
+      };
+    })
+    .sort((a, b) => a.nombre.localeCompare(b.nombre) || a.fecha.toMillis() - b.fecha.toMillis());
+
+  const subtotales = usuarioIds
+    .map((usuarioId) => ({
+      usuarioId,
+      nombre: nombres.get(usuarioId) || usuarioId,
+      total: items.filter((item) => item.usuarioId === usuarioId).reduce((suma, item) => suma + item.monto, 0),
+    }))
+    .sort((a, b) => a.nombre.localeCompare(b.nombre));
+
+  const total = items.reduce((suma, item) => suma + item.monto, 0);
+  const pagado = pagosSnapshot.docs.reduce((suma, doc) => suma + doc.data().monto, 0);
+  const saldo = total - pagado;
+
+  const resumenRef = colecciones.resumenes.doc(`${responsableId}_${periodo}`);
+  await resumenRef.set({
+    responsableId,
+    nombreResponsable: responsableDoc.data()?.nombre || "",
+    periodo,
+    items,
+    subtotales,
+    total,
+    pagado,
+    saldo,
+    estado: saldo <= 0 ? "pagado" : "pendiente",
+    fechaEmision: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  return { resumenId: resumenRef.id, total, pagado, saldo };
+};
+
+/**
+ * Si el resumen del período ya se emitió, lo recalcula para reflejar un cargo nuevo o anulado.
+ */
+const actualizarResumenSiExiste = async (responsableId: string, periodo: string) => {
+  const resumenDoc = await db.collection("resumenes").doc(`${responsableId}_${periodo}`).get();
+  if (resumenDoc.exists) {
+    await generarResumen(responsableId, periodo);
+  }
+};
+
+/**
+ * Genera el CSV de un resumen (separado por ';' y con BOM para que Excel respete los acentos).
+ */
+const resumenACsv = (resumen: admin.firestore.DocumentData): Buffer => {
+  const escapar = (valor: string) => `"${String(valor).replace(/"/g, "\"\"")}"`;
+  const lineas = [
+    ["Fecha", "Hora", "Persona", "Concepto", "Monto"].join(";"),
+    ...resumen.items.map((item: admin.firestore.DocumentData) => [
+      formatearFechaLocal(item.fecha.toDate()),
+      formatearHoraLocal(item.fecha.toDate()),
+      escapar(item.nombre),
+      escapar(item.concepto),
+      item.monto.toFixed(2),
+    ].join(";")),
+    "",
+    ["", "", "", "Total", resumen.total.toFixed(2)].join(";"),
+    ["", "", "", "Pagado", resumen.pagado.toFixed(2)].join(";"),
+    ["", "", "", "Saldo", resumen.saldo.toFixed(2)].join(";"),
+  ];
+  return Buffer.from("\uFEFF" + lineas.join("\r\n"), "utf8");
+};
+
+/**
+ * Genera el PDF de un resumen, con el detalle agrupado por persona a cargo.
+ */
+const resumenAPdf = (resumen: admin.firestore.DocumentData): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const pdf = new PDFDocument({ size: "A4", margin: 50 });
+    const partes: Buffer[] = [];
+    pdf.on("data", (parte: Buffer) => partes.push(parte));
+    pdf.on("end", () => resolve(Buffer.concat(partes)));
+    pdf.on("error", reject);
+
+    pdf.fontSize(18).text("VIRTUD - Resumen de cuenta");
+    pdf.moveDown(0.5).fontSize(11)
+      .text(`Responsable de pago: ${resumen.nombreResponsable || resumen.responsableId}`)
+      .text(`Período: ${resumen.periodo}`);
+
+    for (const subtotal of resumen.subtotales) {
+      pdf.moveDown().fontSize(13).text(subtotal.nombre);
+      pdf.fontSize(10);
+      resumen.items
+        .filter((item: admin.firestore.DocumentData) => item.usuarioId === subtotal.usuarioId)
+        .forEach((item: admin.firestore.DocumentData) => {
+          const fecha = item.fecha.toDate().toLocaleString("es-AR", { timeZone: ZONA_HORARIA, dateStyle: "short", timeStyle: "short" });
+          pdf.text(`${fecha}  ${item.concepto}`, { continued: true }).text(formatearMonto(item.monto), { align: "right" });
+        });
+      pdf.fontSize(11).text(`Subtotal: ${formatearMonto(subtotal.total)}`, { align: "right" });
+    }
+
+    pdf.moveDown().fontSize(12)
+      .text(`Total: ${formatearMonto(resumen.total)}`, { align: "right" })
+      .text(`Pagado: ${formatearMonto(resumen.pagado)}`, { align: "right" })
+      .text(`Saldo: ${formatearMonto(resumen.saldo)}`, { align: "right" });
+
+    pdf.end();
+  });
+};
+
+
+// --- Función: facturarReserva ---
+// Cada reserva confirmada genera un cargo con el precio de la actividad (0 si la cubre un plan).
+// Si deja de estar confirmada (cancelación, suspensión, falla) el cargo se anula, y si cambian
+// la membresía o el cupo el monto se corrige.
+export const facturarReserva = onDocumentWritten(
+  "reservas/{reservaId}",
+  async (event) => {
+    if (!cambiaCargo(event.data?.before?.data(), event.data?.after?.data(), CAMPOS_CARGO_RESERVA)) {
+      return null;
+    }
+    await sincronizarCargo("reservas", event.params.reservaId, async (transaction, reserva) => {
+      if (reserva?.estado !== "confirmada") {
+        return null;
+      }
+      const actividad = (await transaction.get(db.collection("actividades").doc(reserva.actividadId))).data();
+      return datosCargoReserva(reserva, actividad);
+    }, (reserva) => `Reserva ${reserva?.estado || "eliminada"}.`);
+    return null;
+  }
+);
+
+
+// --- Función: facturarTurno ---
+// Cada turno confirmado genera un cargo con el precio de la terapia.
+export const facturarTurno = onDocumentWritten(
+  "turnos/{turnoId}",
+  async (event) => {
+    if (event.data?.before?.data()?.estado === event.data?.after?.data()?.estado) {
+      return null;
+    }
+    await sincronizarCargo("turnos", event.params.turnoId, async (transaction, turno) => {
+      if (turno?.estado !== "confirmado") {
+        return null;
+      }
+      const terapia = (await transaction.get(db.collection("terapias").doc(turno.terapiaId))).data();
+      return {
+        usuarioId: turno.usuarioId,
+        concepto: `Sesión de ${terapia?.nombre || "terapia"}`,
+        monto: Number(terapia?.precio) || 0,
+        fecha: turno.fechaTurno,
+      };
+    }, (turno) => `Turno ${turno?.estado || "eliminado"}.`);
+    return null;
+  }
+);
+
+
+// --- Función: facturarPenalizacion ---
+// Las penalizaciones (cancelación tardía, ausencia) se suman al resumen; si el admin la anula, se descuenta.
+export const facturarPenalizacion = onDocumentWritten(
+  "penalizaciones/{penalizacionId}",
+  async (event) => {
+    const antes = event.data?.before?.data();
+    const despues = event.data?.after?.data();
+    if (antes && despues && antes.estado === despues.estado) {
+      return null;
+    }
+    await sincronizarCargo("penalizaciones", event.params.penalizacionId, async (_transaction, penalizacion) => {
+      if (!penalizacion || penalizacion.estado === "anulada" || !(penalizacion.monto > 0)) {
+        return null;
+      }
+      return {
+        usuarioId: penalizacion.usuarioId,
+        concepto: penalizacion.descripcion || "Penalización",
+        monto: penalizacion.monto,
+        fecha: penalizacion.fecha || admin.firestore.Timestamp.now(),
+      };
+    }, () => "Penalización anulada.");
+    return null;
+  }
+);
+
+
+// --- Función: facturarMembresia ---
+// La asignación de un plan genera el cargo por su precio.
+export const facturarMembresia = onDocumentCreated(
+  "membresias/{membresiaId}",
+  async (event) => {
+    await sincronizarCargo("membresias", event.params.membresiaId, async (_transaction, membresia) => {
+      if (!membresia || !(membresia.precio > 0)) {
+        return null;
+      }
+      return {
+        usuarioId: membresia.usuarioId,
+        concepto: `Plan ${membresia.nombrePlan}`,
+        monto: membresia.precio,
+        fecha: membresia.fechaInicio,
+      };
+    }, () => "Membresía eliminada.");
+  }
+);
+
+
+// --- Función: emitirResumenesMensuales ---
+// El día 1 de cada mes emite el resumen del mes anterior para cada responsable de pago con cargos.
+export const emitirResumenesMensuales = onSchedule(
+  { schedule: "0 6 1 * *", timeZone: ZONA_HORARIA },
+  async () => {
+    const hoy = formatearFechaLocal(new Date());
+    const [anio, mes] = hoy.split("-").map(Number);
+    const periodo = mes === 1 ? `${anio - 1}-12` : `${anio}-${String(mes - 1).padStart(2, "0")}`;
+
+    const cargos = await db.collection("cargos")
+      .where("periodo", "==", periodo)
+      .where("estado", "==", "vigente")
+      .get();
+    const responsables = [...new Set(cargos.docs.map((doc) => doc.data().responsableId as string))];
+
+    for (const responsableId of responsables) {
+      await generarResumen(responsableId, periodo);
+    }
+    console.log(`Emitidos ${responsables.length} resúmenes del período ${periodo}.`);
+  }
+);
+
+
+// --- Función: regenerarResumen (callable, solo admin) ---
+// Emite o recalcula a pedido el resumen de un responsable (ej. para ver el mes en curso).
+export const regenerarResumen = onCall(async (request) => {
+  await requerirRol(request, ["admin"]);
+
+  const { responsableId, periodo } = request.data || {};
+  if (typeof responsableId !== "string" || !responsableId || !esPeriodoValido(periodo)) {
+    throw new HttpsError("invalid-argument", "Faltan el responsable o el período (YYYY-MM).");
+  }
+  return generarResumen(responsableId, periodo);
+});
+
+
+// --- Función: registrarPago (callable, solo admin) ---
+// Registra un pago manual (efectivo o transferencia) a cuenta del resumen de un período.
+export const registrarPago = onCall(async (request) => {
+  await requerirRol(request, ["admin"]);
+
+  const { responsableId, periodo, monto, medio, referencia = "" } = request.data || {};
+  if (typeof responsableId !== "string" || !responsableId || !esPeriodoValido(periodo)) {
+    throw new HttpsError("invalid-argument", "Faltan el responsable o el período (YYYY-MM).");
+  }
+  if (typeof monto !== "number" || !Number.isFinite(monto) || monto <= 0) {
+    throw new HttpsError("invalid-argument", "El monto debe ser un número positivo.");
+  }
+  if (!MEDIOS_PAGO.includes(medio as MedioPago)) {
+    throw new HttpsError("invalid-argument", `El medio de pago debe ser uno de: ${MEDIOS_PAGO.join(", ")}.`);
+  }
+  if (typeof referencia !== "string" || referencia.length > 200) {
+    throw new HttpsError("invalid-argument", "La referencia debe ser un texto de hasta 200 caracteres.");
+  }
+
+  const responsableDoc = await db.collection("usuarios").doc(responsableId).get();
+  if (!responsableDoc.exists) {
+    throw new HttpsError("not-found", "El responsable de pago no existe.");
+  }
+
+  const pagoRef = await colecciones.pagos.add({
+    responsableId,
+    periodo,
+    monto,
+    medio,
+    referencia: referencia.trim(),
+    registradoPor: request.auth?.uid as string,
+    fecha: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  const resumen = await generarResumen(responsableId, periodo);
+  console.log(`Pago ${pagoRef.id} de ${formatearMonto(monto)} (${medio}) registrado para ${responsableId}, período ${periodo}.`);
+  return { pagoId: pagoRef.id, ...resumen };
+});
+
+
+// --- Función: exportarResumen (callable) ---
+// Devuelve el resumen en PDF o CSV (base64). Lo puede pedir el responsable de pago o un admin.
+export const exportarResumen = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Debes iniciar sesión.");
+  }
+
+  const { resumenId, formato } = request.data || {};
+  if (typeof resumenId !== "string" || !resumenId || !["pdf", "csv"].includes(formato)) {
+    throw new HttpsError("invalid-argument", "Faltan el resumen o el formato (pdf o csv).");
+  }
+
+  const resumen = (await db.collection("resumenes").doc(resumenId).get()).data();
+  if (!resumen) {
+    throw new HttpsError("not-found", "El resumen no existe.");
+  }
+  if (resumen.responsableId !== request.auth.uid) {
+    await requerirRol(request, ["admin"]);
+  }
+
+  const contenido = formato === "pdf" ? await resumenAPdf(resumen) : resumenACsv(resumen);
+  return {
+    nombreArchivo: `resumen-${resumen.periodo}.${formato}`,
+    tipoMime: formato === "pdf" ? "application/pdf" : "text/csv",
+    contenido: contenido.toString("base64"),
+  };
+});
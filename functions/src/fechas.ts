@@ -0,0 +1,85 @@
+// Utilidades de fecha/hora para la zona horaria del gimnasio.
+// Argentina no aplica horario de verano desde 2009, por lo que el desfase es fijo (UTC-3).
+export const ZONA_HORARIA = "America/Argentina/Buenos_Aires";
+const DESFASE_MINUTOS = -3 * 60;
+
+const MS_POR_MINUTO = 60 * 1000;
+export const MS_POR_DIA = 24 * 60 * MS_POR_MINUTO;
+
+const dosDigitos = (n: number) => String(n).padStart(2, "0");
+
+/**
+ * Convierte una fecha ("YYYY-MM-DD") y una hora ("HH:mm") locales a un Date (UTC).
+ */
+export const fechaHoraLocal = (fecha: string, hora = "00:00"): Date => {
+  return new Date(`${fecha}T${hora}:00-03:00`);
+};
+
+/**
+ * Devuelve las partes de una fecha expresadas en hora local de Argentina.
+ */
+export const partesLocales = (fecha: Date) => {
+  const local = new Date(fecha.getTime() + DESFASE_MINUTOS * MS_POR_MINUTO);
+  return {
+    anio: local.getUTCFullYear(),
+    mes: local.getUTCMonth() + 1,
+    dia: local.getUTCDate(),
+    diaSemana: local.getUTCDay(), // 0 = domingo ... 6 = sábado
+    hora: local.getUTCHours(),
+    minutos: local.getUTCMinutes(),
+  };
+};
+
+/**
+ * Formatea una fecha como "YYYY-MM-DD" en hora local.
+ */
+export const formatearFechaLocal = (fecha: Date): string => {
+  const { anio, mes, dia } = partesLocales(fecha);
+  return `${anio}-${dosDigitos(mes)}-${dosDigitos(dia)}`;
+};
+
+/**
+ * Formatea una hora como "HH:mm" en hora local.
+ */
+export const formatearHoraLocal = (fecha: Date): string => {
+  const { hora, minutos } = partesLocales(fecha);
+  return `${dosDigitos(hora)}:${dosDigitos(minutos)}`;
+};
+
+/**
+ * Suma días a una fecha "YYYY-MM-DD" y devuelve otra fecha "YYYY-MM-DD".
+ */
+export const sumarDias = (fecha: string, dias: number): string => {
+  const base = new Date(`${fecha}T12:00:00Z`);
+  return new Date(base.getTime() + dias * MS_POR_DIA).toISOString().slice(0, 10);
+};
+
+/**
+ * Valida el formato "HH:mm" (00:00 a 23:59).
+ */
+export const esHoraValida = (hora: unknown): hora is string => {
+  return typeof hora === "string" && /^([01]\d|2[0-3]):[0-5]\d$/.test(hora);
+};
+
+/**
+ * Valida el formato "YYYY-MM-DD".
+ */
+export const esFechaValida = (fecha: unknown): fecha is string => {
+  return typeof fecha === "string" && /^\d{4}-\d{2}-\d{2}$/.test(fecha) && !isNaN(Date.parse(fecha));
+};
+
+/**
+ * Formatea fecha y hora en español para mostrar al usuario (ej. en notificaciones).
+ * Ej: "lunes, 20 de octubre de 2025, 18:30"
+ */
+export const formatearFechaHoraLegible = (fecha: Date): string => {
+  return fecha.toLocaleString("es-AR", {
+    timeZone: ZONA_HORARIA,
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
@@ -0,0 +1,211 @@
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { admin, db } from "./config";
+import { colecciones } from "./modelo";
+import { requerirRol, resolverPersona } from "./usuarios";
+import {
+  MAX_LARGO_CONSENTIMIENTO,
+  MAX_PREGUNTAS,
+  Pregunta,
+  Respuesta,
+  erroresDe,
+  esquemaPregunta,
+  esquemaRespuesta,
+} from "../../modelo/src";
+
+export type { Pregunta, TipoPregunta } from "../../modelo/src";
+
+const textoValido = (valor: unknown, maximo: number): valor is string =>
+  typeof valor === "string" && valor.trim().length > 0 && valor.length <= maximo;
+
+/**
+ * Valida y normaliza las preguntas de una nueva versión. Lanza HttpsError("invalid-argument").
+ */
+const validarPreguntas = (preguntas: unknown): Pregunta[] => {
+  if (!Array.isArray(preguntas) || preguntas.length === 0 || preguntas.length > MAX_PREGUNTAS) {
+    throw new HttpsError("invalid-argument", `El cuestionario debe tener entre 1 y ${MAX_PREGUNTAS} preguntas.`);
+  }
+  const ids = new Set<string>();
+  return preguntas.map((p: unknown, i): Pregunta => {
+    const errores = erroresDe(esquemaPregunta, p, `preguntas[${i}]`);
+    if (errores.length > 0) {
+      throw new HttpsError("invalid-argument", `La pregunta ${i + 1} no es válida: ${errores.join(" ")}`);
+    }
+    const pregunta = p as Pregunta;
+    if (ids.has(pregunta.id)) {
+      throw new HttpsError("invalid-argument", `La pregunta ${i + 1} repite el identificador "${pregunta.id}".`);
+    }
+    ids.add(pregunta.id);
+
+    const base = { id: pregunta.id, tipo: pregunta.tipo, enunciado: pregunta.enunciado.trim(), obligatoria: pregunta.obligatoria };
+    if (pregunta.tipo === "opcion") {
+      return { ...base, opciones: (pregunta.opciones || []).map((o) => o.trim()), multiple: pregunta.multiple === true };
+    }
+    if (pregunta.tipo === "escala") return { ...base, min: pregunta.min, max: pregunta.max };
+    return base;
+  });
+};
+
+/**
+ * Valida las respuestas contra las preguntas de la versión. Lanza HttpsError("invalid-argument").
+ * @returns Solo las respuestas de preguntas existentes, normalizadas.
+ */
+const validarRespuestas = (preguntas: Pregunta[], respuestas: unknown): Record<string, Respuesta> => {
+  const porPregunta = typeof respuestas === "object" && respuestas !== null ? (respuestas as Record<string, unknown>) : {};
+  const resultado: Record<string, Respuesta> = {};
+  for (const pregunta of preguntas) {
+    const valor = porPregunta[pregunta.id];
+    const vacia = valor == null || valor === "" || (Array.isArray(valor) && valor.length === 0);
+    if (vacia) {
+      if (pregunta.obligatoria) {
+        throw new HttpsError("invalid-argument", `Falta responder: "${pregunta.enunciado}".`);
+      }
+      continue;
+    }
+
+    if (erroresDe(esquemaRespuesta(pregunta), valor).length > 0) {
+      throw new HttpsError("invalid-argument", `La respuesta a "${pregunta.enunciado}" no es válida.`);
+    }
+    const respuesta = valor as Respuesta;
+    if (typeof respuesta === "string") resultado[pregunta.id] = pregunta.tipo === "texto" ? respuesta.trim() : respuesta;
+    else if (Array.isArray(respuesta)) resultado[pregunta.id] = [...new Set(respuesta)];
+    else resultado[pregunta.id] = respuesta;
+  }
+  return resultado;
+};
+
+/**
+ * Verifica dentro de una transacción que el paciente haya completado el cuestionario de ingreso
+ * y aceptado el consentimiento de la terapia antes de su primer turno. Solo aplica si la terapia
+ * tiene un cuestionario activo; quien ya tuvo un turno confirmado de esa terapia queda exceptuado.
+ * Lanza HttpsError("failed-precondition") con details.motivo = "ingreso_pendiente".
+ * Debe llamarse antes de cualquier escritura de la transacción.
+ */
+export const verificarIngreso = async (
+  transaction: admin.firestore.Transaction,
+  usuarioId: string,
+  terapiaId: string,
+  terapiaNombre?: string
+) => {
+  const cuestionario = (await transaction.get(db.collection("cuestionarios").doc(terapiaId))).data();
+  if (!cuestionario?.activo || !cuestionario.versionActual) return;
+
+  const respuestas = await transaction.get(db.collection("respuestasIngreso").doc(`${usuarioId}_${terapiaId}`));
+  if (respuestas.exists) return;
+
+  const turnosPrevios = await transaction.get(
+    db.collection("turnos")
+      .where("usuarioId", "==", usuarioId)
+      .where("terapiaId", "==", terapiaId)
+      .where("estado", "==", "confirmado")
+      .limit(1)
+  );
+  if (!turnosPrevios.empty) return;
+
+  throw new HttpsError(
+    "failed-precondition",
+    `Antes del primer turno de ${terapiaNombre || "esta terapia"} hay que completar el cuestionario de ingreso y aceptar el consentimiento.`,
+    { motivo: "ingreso_pendiente", terapiaId }
+  );
+};
+
+
+// --- Función: publicarCuestionario (callable, solo admin) ---
+// Publica una nueva versión del cuestionario de ingreso y consentimiento de una terapia.
+// Las versiones anteriores se conservan: las respuestas guardan la versión que se respondió.
+export const publicarCuestionario = onCall(async (request) => {
+  await requerirRol(request, ["admin"]);
+
+  const { terapiaId, preguntas, consentimiento } = request.data || {};
+  if (typeof terapiaId !== "string" || !terapiaId) {
+    throw new HttpsError("invalid-argument", "Falta indicar la terapia.");
+  }
+  const preguntasValidas = validarPreguntas(preguntas);
+  if (!textoValido(consentimiento?.titulo, 200) || !textoValido(consentimiento?.texto, MAX_LARGO_CONSENTIMIENTO)) {
+    throw new HttpsError("invalid-argument", "El consentimiento informado debe tener título y texto.");
+  }
+
+  const cuestionarioRef = colecciones.cuestionarios.doc(terapiaId);
+  const version = await db.runTransaction(async (transaction) => {
+    const [terapiaDoc, cuestionarioDoc] = await Promise.all([
+      transaction.get(db.collection("terapias").doc(terapiaId)),
+      transaction.get(cuestionarioRef),
+    ]);
+    if (!terapiaDoc.exists) {
+      throw new HttpsError("not-found", `La terapia con ID ${terapiaId} no existe.`);
+    }
+
+    const nueva = (cuestionarioDoc.data()?.versionActual || 0) + 1;
+    transaction.create(colecciones.versionesCuestionario(terapiaId).doc(String(nueva)), {
+      version: nueva,
+      preguntas: preguntasValidas,
+      consentimiento: { titulo: consentimiento.titulo.trim(), texto: consentimiento.texto.trim() },
+      creadoPor: request.auth?.uid as string,
+      fechaCreacion: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    transaction.set(cuestionarioRef, {
+      terapiaId,
+      versionActual: nueva,
+      activo: true,
+      fechaActualizacion: admin.firestore.FieldValue.serverTimestamp(),
+    }, { merge: true });
+    return nueva;
+  });
+
+  console.log(`Cuestionario de ingreso de ${terapiaId} publicado (versión ${version}).`);
+  return { terapiaId, version };
+});
+
+
+// --- Función: enviarRespuestasIngreso (callable) ---
+// Guarda, una sola vez y sin posibilidad de modificarlas, las respuestas del paciente
+// (o de su tutor) junto con la aceptación del consentimiento y la versión respondida.
+export const enviarRespuestasIngreso = onCall(async (request) => {
+  const { terapiaId, version, respuestas, aceptaConsentimiento, firma, paraUsuarioId } = request.data || {};
+  const usuarioId = await resolverPersona(request, paraUsuarioId);
+
+  if (typeof terapiaId !== "string" || !terapiaId || !Number.isInteger(version)) {
+    throw new HttpsError("invalid-argument", "Falta indicar el cuestionario.");
+  }
+  if (aceptaConsentimiento !== true || !textoValido(firma, 100)) {
+    throw new HttpsError("invalid-argument", "Hay que aceptar el consentimiento informado y firmarlo con nombre y apellido.");
+  }
+
+  const cuestionarioRef = colecciones.cuestionarios.doc(terapiaId);
+  const respuestaRef = colecciones.respuestasIngreso.doc(`${usuarioId}_${terapiaId}`);
+
+  await db.runTransaction(async (transaction) => {
+    const [cuestionarioDoc, versionDoc, respuestaDoc] = await Promise.all([
+      transaction.get(cuestionarioRef),
+      transaction.get(colecciones.versionesCuestionario(terapiaId).doc(String(version))),
+      transaction.get(respuestaRef),
+    ]);
+    if (respuestaDoc.exists) {
+      throw new HttpsError("already-exists", "El cuestionario de ingreso ya fue completado.");
+    }
+    const cuestionario = versionDoc.data();
+    if (!cuestionario) {
+      throw new HttpsError("not-found", "El cuestionario no existe.");
+    }
+    if (cuestionarioDoc.data()?.versionActual !== version) {
+      throw new HttpsError("failed-precondition", "El cuestionario se actualizó. Volvé a abrirlo para responder la versión vigente.");
+    }
+
+    transaction.create(respuestaRef, {
+      usuarioId,
+      terapiaId,
+      version,
+      respuestas: validarRespuestas(cuestionario.preguntas, respuestas),
+      consentimiento: {
+        titulo: cuestionario.consentimiento.titulo,
+        aceptado: true,
+        firma: firma.trim(),
+        ip: request.rawRequest?.ip || null,
+      },
+      completadoPor: request.auth?.uid as string,
+      fechaRespuesta: admin.firestore.FieldValue.serverTimestamp(),
+    });
+  });
+
+  console.log(`Cuestionario de ingreso de ${terapiaId} (v${version}) completado para ${usuarioId}.`);
+  return { terapiaId, version };
+});
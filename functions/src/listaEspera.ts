@@ -0,0 +1,362 @@
+import { onDocumentUpdated } from "firebase-functions/v2/firestore";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { admin, db } from "./config";
+import { claseIdPara, contarCupoOcupado } from "./clases";
+import { formatearFechaHoraLegible } from "./fechas";
+import { aplicarConsumo, seleccionarMembresia } from "./membresias";
+import { colecciones } from "./modelo";
+import { puedeGestionar, requerirPerfilCompleto, resolverPersona } from "./usuarios";
+import { encolarNotificacion } from "./notificaciones";
+
+// Tiempo que tiene un socio promovido para aceptar el lugar antes de que pase al siguiente
+const VENTANA_ACEPTACION_MINUTOS = 120;
+
+// Estados de reserva que ocupan un lugar en la clase
+const ESTADOS_ACTIVOS = ["confirmada", "pendiente"];
+
+/**
+ * Calcula la posición (1 = primero) de una entrada "esperando" dentro de la lista de su clase.
+ */
+const calcularPosicion = async (claseId: string, fechaAlta: admin.firestore.Timestamp): Promise<number> => {
+  const anteriores = await db.collection("listaEspera")
+    .where("claseId", "==", claseId)
+    .where("estado", "==", "esperando")
+    .where("fechaAlta", "<", fechaAlta)
+    .count()
+    .get();
+  return anteriores.data().count + 1;
+};
+
+/**
+ * Anota a un socio en la lista de espera de una clase llena. Si ya tiene un lugar en la clase
+ * (reserva confirmada o pendiente) lanza HttpsError("already-exists"): al ser promovido tomaría otro.
+ * @returns El ID de la entrada y la posición en la lista.
+ */
+export const agregarAListaEspera = async (
+  usuarioId: string,
+  actividadId: string,
+  fechaActividad: admin.firestore.Timestamp,
+  cupoTomado: number
+) => {
+  const claseId = claseIdPara(actividadId, fechaActividad.toDate());
+  const entradaRef = colecciones.listaEspera.doc();
+  const fechaAlta = admin.firestore.Timestamp.now();
+
+  await db.runTransaction(async (transaction) => {
+    // Por actividad y fecha (y no por claseId) para incluir las reservas que todavía no lo tienen
+    const [reservas, existentes] = await Promise.all([
+      transaction.get(
+        db.collection("reservas")
+          .where("usuarioId", "==", usuarioId)
+          .where("actividadId", "==", actividadId)
+          .where("fechaActividad", "==", fechaActividad)
+          .where("estado", "in", ESTADOS_ACTIVOS)
+          .limit(1)
+      ),
+      transaction.get(
+        db.collection("listaEspera")
+          .where("claseId", "==", claseId)
+          .where("usuarioId", "==", usuarioId)
+          .where("estado", "in", ["esperando", "ofrecida"])
+      ),
+    ]);
+
+    if (!reservas.empty) {
+      throw new HttpsError("already-exists", "Ya tenés un lugar reservado en esta clase.");
+    }
+    if (!existentes.empty) {
+      throw new HttpsError("already-exists", "Ya estás en la lista de espera de esta clase.");
+    }
+
+    transaction.set(entradaRef, {
+      claseId,
+      actividadId,
+      fechaActividad,
+      usuarioId,
+      cupoTomado,
+      estado: "esperando",
+      fechaAlta,
+    });
+  });
+
+  const posicion = await calcularPosicion(claseId, fechaAlta);
+  console.log(`Usuario ${usuarioId} anotado en lista de espera de ${claseId} en la posición ${posicion}.`);
+
+  return { listaEsperaId: entradaRef.id, posicion };
+};
+
+/**
+ * Ofrece los lugares libres de una clase a los primeros de la lista de espera (FIFO).
+ * El lugar queda retenido con una reserva "pendiente" hasta que el socio acepte o venza la oferta.
+ * Si la clase ya no está programada (suspendida, cancelada o pasada), la lista se da de baja.
+ */
+export const promoverListaEspera = async (claseId: string) => {
+  let promovidos = 0;
+
+  // Se promueve de a una entrada por transacción para no retener lugares de más
+  for (;;) {
+    const promovido = await db.runTransaction(async (transaction) => {
+      const claseDoc = await transaction.get(db.collection("clases").doc(claseId));
+      const clase = claseDoc.data();
+
+      const siguientes = await transaction.get(
+        db.collection("listaEspera")
+          .where("claseId", "==", claseId)
+          .where("estado", "==", "esperando")
+          .orderBy("fechaAlta")
+          .limit(1)
+      );
+
+      if (siguientes.empty) {
+        return false;
+      }
+
+      const ahora = admin.firestore.Timestamp.now();
+
+      if (!clase || clase.estado !== "programada" || clase.fechaInicio.toMillis() <= ahora.toMillis()) {
+        const pendientes = await transaction.get(
+          db.collection("listaEspera")
+            .where("claseId", "==", claseId)
+            .where("estado", "==", "esperando")
+        );
+        pendientes.forEach((doc) => transaction.update(doc.ref, {
+          estado: "cancelada",
+          motivoCancelacion: "La clase ya no está disponible.",
+        }));
+        return false;
+      }
+
+      const cupoOcupado = await contarCupoOcupado(transaction, clase.actividadId, clase.fechaInicio);
+      const entradaDoc = siguientes.docs[0];
+      const entrada = entradaDoc.data();
+
+      if ((clase.cupo || 0) - cupoOcupado < (entrada.cupoTomado || 1)) {
+        return false;
+      }
+
+      // La oferta vence al cumplirse la ventana o al empezar la clase, lo que ocurra primero
+      const vencimientoOferta = admin.firestore.Timestamp.fromMillis(Math.min(
+        ahora.toMillis() + VENTANA_ACEPTACION_MINUTOS * 60 * 1000,
+        clase.fechaInicio.toMillis()
+      ));
+
+      const reservaRef = colecciones.reservas.doc();
+      transaction.set(reservaRef, {
+        usuarioId: entrada.usuarioId,
+        actividadId: clase.actividadId,
+        claseId,
+        fechaActividad: clase.fechaInicio,
+        cupoTomado: entrada.cupoTomado || 1,
+        estado: "pendiente",
+        origen: "lista_espera",
+        listaEsperaId: entradaDoc.id,
+        fechaCreacion: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      transaction.update(entradaDoc.ref, {
+        estado: "ofrecida",
+        reservaId: reservaRef.id,
+        fechaOferta: ahora,
+        vencimientoOferta,
+      });
+      await encolarNotificacion("lugar_ofrecido", entrada.usuarioId, {
+        actividad: clase.nombre,
+        fecha: formatearFechaHoraLegible(clase.fechaInicio.toDate()),
+        vencimiento: formatearFechaHoraLegible(vencimientoOferta.toDate()),
+      }, transaction);
+
+      console.log(`Lugar de ${claseId} ofrecido a ${entrada.usuarioId} hasta ${vencimientoOferta.toDate().toLocaleString()}.`);
+      return true;
+    });
+
+    if (!promovido) break;
+    promovidos++;
+  }
+
+  return promovidos;
+};
+
+
+// --- Función: liberarLugarReserva ---
+// Cuando una reserva activa deja de estarlo (cancelada, suspendida, oferta vencida...) se promueve la lista de espera.
+export const liberarLugarReserva = onDocumentUpdated(
+  "reservas/{reservaId}",
+  async (event) => {
+    const antes = event.data?.before.data();
+    const despues = event.data?.after.data();
+
+    if (!antes || !despues || !ESTADOS_ACTIVOS.includes(antes.estado) || ESTADOS_ACTIVOS.includes(despues.estado)) {
+      return null;
+    }
+
+    const claseId = despues.claseId ||
+      (despues.actividadId && despues.fechaActividad ? claseIdPara(despues.actividadId, despues.fechaActividad.toDate()) : null);
+
+    if (!claseId) {
+      return null;
+    }
+
+    const promovidos = await promoverListaEspera(claseId);
+    if (promovidos > 0) {
+      console.log(`Reserva ${event.params.reservaId} liberada: ${promovidos} lugar(es) ofrecido(s) en ${claseId}.`);
+    }
+    return null;
+  }
+);
+
+
+// --- Función: consultarListaEspera (callable) ---
+// Devuelve las entradas activas del usuario (o de una persona a su cargo) con su posición actual en cada lista.
+export const consultarListaEspera = onCall(async (request) => {
+  const usuarioId = await resolverPersona(request, request.data?.paraUsuarioId);
+
+  const entradas = await db.collection("listaEspera")
+    .where("usuarioId", "==", usuarioId)
+    .where("estado", "in", ["esperando", "ofrecida"])
+    .get();
+
+  const resultado = [];
+  for (const doc of entradas.docs) {
+    const entrada = doc.data();
+    resultado.push({
+      listaEsperaId: doc.id,
+      claseId: entrada.claseId,
+      actividadId: entrada.actividadId,
+      fechaActividad: entrada.fechaActividad.toDate().toISOString(),
+      estado: entrada.estado,
+      posicion: entrada.estado === "esperando" ? await calcularPosicion(entrada.claseId, entrada.fechaAlta) : 0,
+      vencimientoOferta: entrada.vencimientoOferta ? entrada.vencimientoOferta.toDate().toISOString() : null,
+    });
+  }
+
+  return { entradas: resultado };
+});
+
+
+// --- Función: aceptarLugarListaEspera (callable) ---
+// Confirma la reserva retenida para un socio promovido, si la oferta no venció.
+export const aceptarLugarListaEspera = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Debes iniciar sesión.");
+  }
+
+  const { listaEsperaId } = request.data || {};
+  if (typeof listaEsperaId !== "string" || !listaEsperaId) {
+    throw new HttpsError("invalid-argument", "Falta indicar la entrada de la lista de espera.");
+  }
+
+  await requerirPerfilCompleto(request.auth.uid);
+  const entradaRef = db.collection("listaEspera").doc(listaEsperaId);
+
+  const reservaId = await db.runTransaction(async (transaction) => {
+    const entradaDoc = await transaction.get(entradaRef);
+    const entrada = entradaDoc.data();
+
+    if (!entrada || !(await puedeGestionar(request.auth?.uid as string, entrada.usuarioId))) {
+      throw new HttpsError("not-found", "La entrada de la lista de espera no existe.");
+    }
+    if (entrada.estado !== "ofrecida") {
+      throw new HttpsError("failed-precondition", "No tienes un lugar ofrecido para esta clase.");
+    }
+    if (entrada.vencimientoOferta.toMillis() <= Date.now()) {
+      throw new HttpsError("deadline-exceeded", "La oferta venció y el lugar pasó al siguiente de la lista.");
+    }
+
+    // La reserva retenida o la clase pueden haber cambiado desde la oferta (suspensión, baja del horario, ...)
+    const reservaRef = db.collection("reservas").doc(entrada.reservaId);
+    const [reservaDoc, claseDoc] = await Promise.all([
+      transaction.get(reservaRef),
+      transaction.get(db.collection("clases").doc(entrada.claseId)),
+    ]);
+    if (reservaDoc.data()?.estado !== "pendiente") {
+      throw new HttpsError("failed-precondition", "El lugar ofrecido ya no está disponible.");
+    }
+    if (claseDoc.data()?.estado !== "programada") {
+      throw new HttpsError("failed-precondition", "La clase fue suspendida o cancelada.");
+    }
+
+    // El crédito del plan se descuenta recién al aceptar el lugar
+    const consumo = await seleccionarMembresia(
+      transaction, entrada.usuarioId, entrada.actividadId, entrada.fechaActividad, entrada.cupoTomado || 1
+    );
+
+    transaction.update(reservaRef, {
+      ...aplicarConsumo(transaction, consumo),
+      estado: "confirmada",
+      fechaConfirmacion: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    transaction.update(entradaRef, {
+      estado: "aceptada",
+      fechaAceptacion: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return entrada.reservaId as string;
+  });
+
+  return { reservaId, estado: "confirmada" };
+});
+
+
+// --- Función: salirListaEspera (callable) ---
+// Da de baja la entrada. Si tenía un lugar ofrecido, lo libera para el siguiente.
+export const salirListaEspera = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Debes iniciar sesión.");
+  }
+
+  const { listaEsperaId } = request.data || {};
+  if (typeof listaEsperaId !== "string" || !listaEsperaId) {
+    throw new HttpsError("invalid-argument", "Falta indicar la entrada de la lista de espera.");
+  }
+
+  const entradaRef = db.collection("listaEspera").doc(listaEsperaId);
+
+  await db.runTransaction(async (transaction) => {
+    const entradaDoc = await transaction.get(entradaRef);
+    const entrada = entradaDoc.data();
+
+    if (!entrada || !(await puedeGestionar(request.auth?.uid as string, entrada.usuarioId))) {
+      throw new HttpsError("not-found", "La entrada de la lista de espera no existe.");
+    }
+    if (!["esperando", "ofrecida"].includes(entrada.estado)) {
+      throw new HttpsError("failed-precondition", "La entrada ya no está activa.");
+    }
+
+    // La reserva retenida pasa a "rechazada" y liberarLugarReserva promueve al siguiente
+    if (entrada.estado === "ofrecida" && entrada.reservaId) {
+      transaction.update(db.collection("reservas").doc(entrada.reservaId), { estado: "rechazada" });
+    }
+    transaction.update(entradaRef, {
+      estado: "cancelada",
+      motivoCancelacion: "Baja solicitada por el socio.",
+    });
+  });
+
+  return { listaEsperaId, estado: "cancelada" };
+});
+
+
+// --- Función: vencerOfertasListaEspera ---
+// Libera los lugares ofrecidos que no se aceptaron a tiempo; el trigger liberarLugarReserva
+// se encarga de ofrecerlos al siguiente de la lista.
+export const vencerOfertasListaEspera = onSchedule("every 10 minutes", async () => {
+  const vencidas = await db.collection("listaEspera")
+    .where("estado", "==", "ofrecida")
+    .where("vencimientoOferta", "<=", admin.firestore.Timestamp.now())
+    .get();
+
+  for (const doc of vencidas.docs) {
+    await db.runTransaction(async (transaction) => {
+      const entradaDoc = await transaction.get(doc.ref);
+      const entrada = entradaDoc.data();
+      if (!entrada || entrada.estado !== "ofrecida") return;
+
+      const reservaRef = db.collection("reservas").doc(entrada.reservaId);
+      const reservaDoc = await transaction.get(reservaRef);
+      if (reservaDoc.data()?.estado === "pendiente") {
+        transaction.update(reservaRef, { estado: "expirada" });
+      }
+      transaction.update(doc.ref, { estado: "expirada" });
+    });
+    console.log(`Oferta de lista de espera ${doc.id} vencida.`);
+  }
+});
@@ -0,0 +1,191 @@
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { admin, db } from "./config";
+import { formatearFechaLocal, MS_POR_DIA } from "./fechas";
+import { colecciones } from "./modelo";
+import { requerirRol } from "./usuarios";
+import { TipoPlan } from "../../modelo/src";
+
+export type { TipoPlan } from "../../modelo/src";
+
+// Orden en que se eligen las membresías al reservar: primero las que no descuentan créditos
+const PRIORIDAD: Record<TipoPlan, number> = { ilimitado: 0, mensual: 1, pack: 2 };
+
+/**
+ * Crédito a descontar por una reserva, calculado por seleccionarMembresia.
+ */
+export interface ConsumoCredito {
+  membresiaId: string;
+  creditosConsumidos: number; // 0 para planes ilimitados
+  periodoCredito: string | null; // "YYYY-MM" para planes mensuales
+}
+
+/**
+ * Mes calendario (hora local) al que se imputa una clase en los planes mensuales.
+ */
+const periodoDe = (fecha: admin.firestore.Timestamp) => formatearFechaLocal(fecha.toDate()).slice(0, 7);
+
+/**
+ * Créditos que le quedan a una membresía para una clase en esa fecha (Infinity si es ilimitada).
+ */
+export const creditosDisponibles = (
+  membresia: admin.firestore.DocumentData,
+  fechaActividad: admin.firestore.Timestamp
+): number => {
+  switch (membresia.tipo as TipoPlan) {
+  case "ilimitado":
+    return Infinity;
+  case "mensual":
+    return membresia.creditos - (membresia.usosPorPeriodo?.[periodoDe(fechaActividad)] || 0);
+  case "pack":
+    return membresia.creditos - (membresia.creditosUsados || 0);
+  default:
+    return 0;
+  }
+};
+
+/**
+ * Busca, dentro de una transacción, una membresía activa del socio que cubra la clase
+ * y tenga créditos suficientes. Solo lee: el descuento lo aplica aplicarConsumo después
+ * de las demás lecturas de la transacción.
+ * @returns null si ningún plan cubre la actividad: la clase se paga suelta (facturarReserva
+ * cobra el precio de la actividad).
+ */
+export const seleccionarMembresia = async (
+  transaction: admin.firestore.Transaction,
+  usuarioId: string,
+  actividadId: string,
+  fechaActividad: admin.firestore.Timestamp,
+  cupoTomado: number
+): Promise<ConsumoCredito | null> => {
+  const membresias = await transaction.get(
+    db.collection("membresias")
+      .where("usuarioId", "==", usuarioId)
+      .where("estado", "==", "activa")
+  );
+
+  const fecha = fechaActividad.toMillis();
+  const candidatas = membresias.docs
+    .filter((doc) => {
+      const m = doc.data();
+      return m.fechaInicio.toMillis() <= fecha &&
+        (!m.fechaVencimiento || fecha <= m.fechaVencimiento.toMillis()) &&
+        (!m.actividadIds?.length || m.actividadIds.includes(actividadId));
+    })
+    .sort((a, b) =>
+      PRIORIDAD[a.data().tipo as TipoPlan] - PRIORIDAD[b.data().tipo as TipoPlan] ||
+      (a.data().fechaVencimiento?.toMillis() ?? Infinity) - (b.data().fechaVencimiento?.toMillis() ?? Infinity)
+    );
+
+  if (candidatas.length === 0) {
+    return null;
+  }
+
+  const elegida = candidatas.find((doc) => creditosDisponibles(doc.data(), fechaActividad) >= cupoTomado);
+  if (!elegida) {
+    // failed-precondition (y no resource-exhausted) para no confundirlo con una clase llena
+    throw new HttpsError("failed-precondition", "No te quedan créditos disponibles en tu plan para esta clase.");
+  }
+
+  const tipo = elegida.data().tipo as TipoPlan;
+  return {
+    membresiaId: elegida.id,
+    creditosConsumidos: tipo === "ilimitado" ? 0 : cupoTomado,
+    periodoCredito: tipo === "mensual" ? periodoDe(fechaActividad) : null,
+  };
+};
+
+/**
+ * Descuenta el crédito elegido. Devuelve los campos a guardar en la reserva para poder devolverlo;
+ * sin consumo (clase suelta) deja membresiaId en null, incluso si la reserva tenía uno antes.
+ */
+export const aplicarConsumo = (transaction: admin.firestore.Transaction, consumo: ConsumoCredito | null) => {
+  if (!consumo) {
+    return { membresiaId: null, creditosConsumidos: 0, periodoCredito: null, creditoDevuelto: false };
+  }
+  if (consumo.creditosConsumidos > 0) {
+    const campo = consumo.periodoCredito ? `usosPorPeriodo.${consumo.periodoCredito}` : "creditosUsados";
+    transaction.update(db.collection("membresias").doc(consumo.membresiaId), {
+      [campo]: admin.firestore.FieldValue.increment(consumo.creditosConsumidos),
+    });
+  }
+  return { ...consumo, creditoDevuelto: false };
+};
+
+// Cualquier objeto con update(ref, data): WriteBatch o Transaction
+interface Actualizador {
+  update(ref: admin.firestore.DocumentReference, data: admin.firestore.UpdateData<admin.firestore.DocumentData>): unknown;
+}
+
+/**
+ * Devuelve a la membresía el crédito que consumió una reserva (cancelación a tiempo o suspensión).
+ * No hace nada si la reserva no consumió créditos o ya se devolvieron.
+ */
+export const devolverCredito = (
+  escritor: Actualizador,
+  reservaRef: admin.firestore.DocumentReference,
+  reserva: admin.firestore.DocumentData
+) => {
+  if (!reserva.membresiaId || reserva.creditoDevuelto) {
+    return;
+  }
+  if (reserva.creditosConsumidos > 0) {
+    const campo = reserva.periodoCredito ? `usosPorPeriodo.${reserva.periodoCredito}` : "creditosUsados";
+    escritor.update(db.collection("membresias").doc(reserva.membresiaId), {
+      [campo]: admin.firestore.FieldValue.increment(-reserva.creditosConsumidos),
+    });
+  }
+  escritor.update(reservaRef, { creditoDevuelto: true });
+};
+
+
+// --- Función: asignarPlan (callable, solo admin) ---
+// Crea una membresía para el socio copiando las condiciones del plan, así los cambios
+// posteriores al plan no alteran las membresías ya asignadas.
+export const asignarPlan = onCall(async (request) => {
+  await requerirRol(request, ["admin"]);
+
+  const { usuarioId, planId, fechaInicio } = request.data || {};
+  if (typeof usuarioId !== "string" || !usuarioId || typeof planId !== "string" || !planId) {
+    throw new HttpsError("invalid-argument", "Faltan el usuario o el plan.");
+  }
+  const inicioMillis = fechaInicio == null ? Date.now() : Date.parse(fechaInicio);
+  if (!Number.isFinite(inicioMillis)) {
+    throw new HttpsError("invalid-argument", "La fecha de inicio no es válida.");
+  }
+
+  const [usuarioDoc, planDoc] = await Promise.all([
+    db.collection("usuarios").doc(usuarioId).get(),
+    colecciones.planes.doc(planId).get(),
+  ]);
+  const plan = planDoc.data();
+
+  if (!usuarioDoc.exists) {
+    throw new HttpsError("not-found", "El usuario no existe.");
+  }
+  if (!plan || plan.activo === false) {
+    throw new HttpsError("not-found", "El plan no existe o no está disponible.");
+  }
+
+  const membresiaRef = colecciones.membresias.doc();
+  await membresiaRef.set({
+    usuarioId,
+    planId,
+    nombrePlan: plan.nombre,
+    tipo: plan.tipo,
+    precio: plan.precio || 0, // Lo factura facturarMembresia
+    creditos: plan.tipo === "ilimitado" ? null : plan.creditos ?? null,
+    actividadIds: plan.actividadIds || [],
+    fechaInicio: admin.firestore.Timestamp.fromMillis(inicioMillis),
+    fechaVencimiento: plan.vigenciaDias ?
+      admin.firestore.Timestamp.fromMillis(inicioMillis + plan.vigenciaDias * MS_POR_DIA) :
+      null,
+    creditosUsados: 0,
+    usosPorPeriodo: {},
+    estado: "activa",
+    asignadoPor: request.auth?.uid as string,
+    fechaCreacion: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  console.log(`Plan ${planId} (${plan.tipo}) asignado a ${usuarioId}: membresía ${membresiaRef.id}.`);
+  return { membresiaId: membresiaRef.id };
+});
@@ -0,0 +1,111 @@
+import { HttpsError } from "firebase-functions/v2/https";
+import { admin, db } from "./config";
+import {
+  ErrorValidacion,
+  Esquema,
+  EsquemaObjeto,
+  MarcaTiempo,
+  esquemaAccesoClinico,
+  esquemaActividad,
+  esquemaCargo,
+  esquemaClase,
+  esquemaCuestionario,
+  esquemaEntradaListaEspera,
+  esquemaFeedCalendario,
+  esquemaMembresia,
+  esquemaNotaClinica,
+  esquemaNotificacion,
+  esquemaPago,
+  esquemaPenalizacion,
+  esquemaPlan,
+  esquemaReserva,
+  esquemaRespuestasIngreso,
+  esquemaResumen,
+  esquemaSuspension,
+  esquemaTerapia,
+  esquemaTurno,
+  esquemaVersionCuestionario,
+  esquemaVersionNota,
+  validarCambios,
+  validarDocumento,
+} from "../../modelo/src";
+
+/**
+ * Tipo de un documento del modelo compartido tal como lo devuelve el Admin SDK
+ * (las fechas son admin.firestore.Timestamp en lugar de MarcaTiempo).
+ */
+export type Documento<T> =
+  T extends MarcaTiempo ? admin.firestore.Timestamp :
+  T extends (infer U)[] ? Documento<U>[] :
+  T extends object ? { [K in keyof T]: Documento<T[K]> } :
+  T;
+
+/**
+ * Convierte un ErrorValidacion en HttpsError("failed-precondition") con el detalle de cada campo;
+ * cualquier otro error se devuelve sin cambios.
+ */
+export const comoHttpsError = (error: unknown): unknown =>
+  error instanceof ErrorValidacion ?
+    new HttpsError("failed-precondition", error.message, { errores: error.errores }) :
+    error;
+
+/**
+ * Valida un documento completo con el esquema de su colección.
+ * Lanza HttpsError("failed-precondition") indicando cada campo inválido.
+ * @param esquema Esquema del modelo compartido.
+ * @param datos Datos del documento (ej. snapshot.data()).
+ * @param ruta Colección o ruta del documento, para el mensaje de error.
+ */
+export const validarDatos = <T>(esquema: Esquema<T>, datos: unknown, ruta: string): Documento<T> => {
+  try {
+    return validarDocumento(esquema, datos, ruta) as Documento<T>;
+  } catch (error) {
+    throw comoHttpsError(error);
+  }
+};
+
+/**
+ * Convertidor de Firestore que valida cada documento al leerlo y al escribirlo
+ * (con merge solo se validan los campos presentes).
+ */
+const convertidor = <T>(coleccion: string, esquema: EsquemaObjeto<T>): admin.firestore.FirestoreDataConverter<Documento<T>> => ({
+  toFirestore(modelo: admin.firestore.PartialWithFieldValue<Documento<T>>, opciones?: admin.firestore.SetOptions) {
+    const datos = modelo as admin.firestore.DocumentData;
+    try {
+      return opciones ? validarCambios(esquema, datos, coleccion) : validarDocumento(esquema, datos, coleccion) as admin.firestore.DocumentData;
+    } catch (error) {
+      throw comoHttpsError(error);
+    }
+  },
+  fromFirestore(snapshot: admin.firestore.QueryDocumentSnapshot) {
+    return validarDatos(esquema, snapshot.data(), `${coleccion}/${snapshot.id}`);
+  },
+});
+
+// Colecciones con tipo y validación. Las consultas que solo filtran o actualizan campos sueltos
+// pueden seguir usando db.collection(...) directamente. Las subcolecciones se piden por el ID del padre.
+export const colecciones = {
+  actividades: db.collection("actividades").withConverter(convertidor("actividades", esquemaActividad)),
+  terapias: db.collection("terapias").withConverter(convertidor("terapias", esquemaTerapia)),
+  clases: db.collection("clases").withConverter(convertidor("clases", esquemaClase)),
+  reservas: db.collection("reservas").withConverter(convertidor("reservas", esquemaReserva)),
+  turnos: db.collection("turnos").withConverter(convertidor("turnos", esquemaTurno)),
+  suspensiones: db.collection("suspensiones").withConverter(convertidor("suspensiones", esquemaSuspension)),
+  listaEspera: db.collection("listaEspera").withConverter(convertidor("listaEspera", esquemaEntradaListaEspera)),
+  planes: db.collection("planes").withConverter(convertidor("planes", esquemaPlan)),
+  membresias: db.collection("membresias").withConverter(convertidor("membresias", esquemaMembresia)),
+  cargos: db.collection("cargos").withConverter(convertidor("cargos", esquemaCargo)),
+  resumenes: db.collection("resumenes").withConverter(convertidor("resumenes", esquemaResumen)),
+  pagos: db.collection("pagos").withConverter(convertidor("pagos", esquemaPago)),
+  penalizaciones: db.collection("penalizaciones").withConverter(convertidor("penalizaciones", esquemaPenalizacion)),
+  notificaciones: db.collection("notificaciones").withConverter(convertidor("notificaciones", esquemaNotificacion)),
+  calendarios: db.collection("calendarios").withConverter(convertidor("calendarios", esquemaFeedCalendario)),
+  notasClinicas: db.collection("notasClinicas").withConverter(convertidor("notasClinicas", esquemaNotaClinica)),
+  versionesNota: (turnoId: string) => db.collection("notasClinicas").doc(turnoId).collection("versiones")
+    .withConverter(convertidor(`notasClinicas/${turnoId}/versiones`, esquemaVersionNota)),
+  accesosClinicos: db.collection("accesosClinicos").withConverter(convertidor("accesosClinicos", esquemaAccesoClinico)),
+  cuestionarios: db.collection("cuestionarios").withConverter(convertidor("cuestionarios", esquemaCuestionario)),
+  versionesCuestionario: (terapiaId: string) => db.collection("cuestionarios").doc(terapiaId).collection("versiones")
+    .withConverter(convertidor(`cuestionarios/${terapiaId}/versiones`, esquemaVersionCuestionario)),
+  respuestasIngreso: db.collection("respuestasIngreso").withConverter(convertidor("respuestasIngreso", esquemaRespuestasIngreso)),
+};
@@ -0,0 +1,193 @@
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { admin, db } from "./config";
+import { Documento, colecciones } from "./modelo";
+import { requerirRol } from "./usuarios";
+import { AccionAcceso, MAX_LARGO_NOTA, NotaClinica } from "../../modelo/src";
+
+// Horas durante las que el profesional puede corregir una nota; después queda bloqueada
+const HORAS_EDICION = 24;
+// Cuántas notas devuelve como máximo el historial de un paciente
+const LIMITE_HISTORIAL = 100;
+
+// Nota tal como la lee el Admin SDK (ver NotaClinica en el modelo compartido)
+type Nota = Documento<NotaClinica>;
+
+/**
+ * Un profesional con usuarios.supervisorClinico = true (lo asigna un admin) puede leer,
+ * sin modificar, las notas de todos los profesionales.
+ */
+const esSupervisor = async (uid: string): Promise<boolean> => {
+  return (await db.collection("usuarios").doc(uid).get()).data()?.supervisorClinico === true;
+};
+
+/**
+ * Verifica que quien invoca sea el profesional tratante de la nota o un supervisor.
+ */
+const verificarLectura = async (uid: string, nota: Nota) => {
+  if (nota.profesionalId !== uid && !(await esSupervisor(uid))) {
+    throw new HttpsError("permission-denied", "Solo el profesional tratante puede ver esta nota.");
+  }
+};
+
+/**
+ * Registra un acceso a la historia clínica en accesosClinicos (lo puede auditar un admin).
+ */
+const registrarAcceso = async (
+  usuarioId: string,
+  accion: AccionAcceso,
+  datos: { pacienteId: string; turnoId?: string }
+) => {
+  await colecciones.accesosClinicos.add({
+    usuarioId,
+    accion,
+    pacienteId: datos.pacienteId,
+    turnoId: datos.turnoId || null,
+    fecha: admin.firestore.FieldValue.serverTimestamp(),
+  });
+};
+
+const aRespuesta = (nota: Nota) => ({
+  turnoId: nota.turnoId,
+  pacienteId: nota.pacienteId,
+  profesionalId: nota.profesionalId,
+  terapiaId: nota.terapiaId,
+  fechaTurno: nota.fechaTurno.toDate().toISOString(),
+  contenido: nota.contenido,
+  version: nota.version,
+  fechaActualizacion: nota.fechaActualizacion.toDate().toISOString(),
+  bloqueadaDesde: nota.bloqueadaDesde.toDate().toISOString(),
+  bloqueada: nota.bloqueadaDesde.toMillis() <= Date.now(),
+});
+
+
+// --- Función: guardarNotaClinica (callable, profesional) ---
+// Crea o corrige la nota de un turno propio que ya empezó. Cada guardado agrega una versión;
+// pasadas HORAS_EDICION desde la creación la nota queda bloqueada.
+export const guardarNotaClinica = onCall(async (request) => {
+  await requerirRol(request, ["profesional"]);
+  const profesionalId = request.auth?.uid as string;
+
+  const { turnoId, contenido } = request.data || {};
+  if (typeof turnoId !== "string" || !turnoId) {
+    throw new HttpsError("invalid-argument", "Falta indicar el turno.");
+  }
+  if (typeof contenido !== "string" || !contenido.trim() || contenido.length > MAX_LARGO_NOTA) {
+    throw new HttpsError("invalid-argument", `La nota no puede estar vacía ni superar ${MAX_LARGO_NOTA} caracteres.`);
+  }
+
+  const notaRef = colecciones.notasClinicas.doc(turnoId);
+  const nota = await db.runTransaction(async (transaction) => {
+    const [turnoDoc, notaDoc] = await Promise.all([
+      transaction.get(db.collection("turnos").doc(turnoId)),
+      transaction.get(notaRef),
+    ]);
+    const turno = turnoDoc.data();
+    if (!turno) {
+      throw new HttpsError("not-found", "El turno no existe.");
+    }
+    if (turno.profesionalId !== profesionalId) {
+      throw new HttpsError("permission-denied", "Solo el profesional del turno puede escribir su nota.");
+    }
+    if (turno.estado !== "confirmado") {
+      throw new HttpsError("failed-precondition", `El turno no está confirmado (estado: ${turno.estado}).`);
+    }
+    if ((turno.fechaTurno as admin.firestore.Timestamp).toMillis() > Date.now()) {
+      throw new HttpsError("failed-precondition", "La nota se escribe una vez que empezó la sesión.");
+    }
+
+    const ahora = admin.firestore.Timestamp.now();
+    const anterior = notaDoc.data();
+    if (anterior && anterior.bloqueadaDesde.toMillis() <= ahora.toMillis()) {
+      throw new HttpsError(
+        "failed-precondition",
+        `La nota ya no se puede modificar (se bloquea ${HORAS_EDICION} horas después de crearla).`
+      );
+    }
+
+    const nueva: Nota = {
+      turnoId,
+      pacienteId: turno.usuarioId,
+      profesionalId,
+      terapiaId: turno.terapiaId,
+      fechaTurno: turno.fechaTurno,
+      contenido: contenido.trim(),
+      version: (anterior?.version || 0) + 1,
+      fechaCreacion: anterior?.fechaCreacion || ahora,
+      fechaActualizacion: ahora,
+      bloqueadaDesde: anterior?.bloqueadaDesde ||
+        admin.firestore.Timestamp.fromMillis(ahora.toMillis() + HORAS_EDICION * 60 * 60 * 1000),
+    };
+    transaction.set(notaRef, nueva);
+    transaction.set(colecciones.versionesNota(turnoId).doc(String(nueva.version)), {
+      version: nueva.version,
+      contenido: nueva.contenido,
+      autorId: profesionalId,
+      fecha: ahora,
+    });
+    return nueva;
+  });
+
+  await registrarAcceso(profesionalId, "escritura", { pacienteId: nota.pacienteId, turnoId });
+  return aRespuesta(nota);
+});
+
+
+// --- Función: obtenerNotaClinica (callable, profesional) ---
+// Devuelve la nota de un turno con todas sus versiones. Solo la ve el profesional tratante o un supervisor.
+export const obtenerNotaClinica = onCall(async (request) => {
+  await requerirRol(request, ["profesional"]);
+  const uid = request.auth?.uid as string;
+
+  const { turnoId } = request.data || {};
+  if (typeof turnoId !== "string" || !turnoId) {
+    throw new HttpsError("invalid-argument", "Falta indicar el turno.");
+  }
+
+  const notaRef = colecciones.notasClinicas.doc(turnoId);
+  const notaDoc = await notaRef.get();
+  if (!notaDoc.exists) {
+    // Sin nota todavía: solo el profesional del turno puede saberlo (y empezar a escribirla)
+    const turno = (await db.collection("turnos").doc(turnoId).get()).data();
+    if (turno?.profesionalId !== uid) {
+      throw new HttpsError("permission-denied", "Solo el profesional tratante puede ver esta nota.");
+    }
+    return { nota: null, versiones: [] };
+  }
+
+  const nota = notaDoc.data() as Nota;
+  await verificarLectura(uid, nota);
+  const versiones = await colecciones.versionesNota(turnoId).orderBy("version", "desc").get();
+
+  await registrarAcceso(uid, "lectura", { pacienteId: nota.pacienteId, turnoId });
+  return {
+    nota: aRespuesta(nota),
+    versiones: versiones.docs.map((v) => ({
+      version: v.data().version,
+      contenido: v.data().contenido,
+      fecha: v.data().fecha.toDate().toISOString(),
+    })),
+  };
+});
+
+
+// --- Función: obtenerHistorialClinico (callable, profesional) ---
+// Línea de tiempo de las notas de un paciente, de la más reciente a la más antigua.
+// El profesional ve solo las suyas; un supervisor, las de todos los profesionales.
+export const obtenerHistorialClinico = onCall(async (request) => {
+  await requerirRol(request, ["profesional"]);
+  const uid = request.auth?.uid as string;
+
+  const { pacienteId } = request.data || {};
+  if (typeof pacienteId !== "string" || !pacienteId) {
+    throw new HttpsError("invalid-argument", "Falta indicar el paciente.");
+  }
+
+  let consulta = colecciones.notasClinicas.where("pacienteId", "==", pacienteId);
+  if (!(await esSupervisor(uid))) {
+    consulta = consulta.where("profesionalId", "==", uid);
+  }
+  const notas = await consulta.orderBy("fechaTurno", "desc").limit(LIMITE_HISTORIAL).get();
+
+  await registrarAcceso(uid, "historial", { pacienteId });
+  return { notas: notas.docs.map((n) => aRespuesta(n.data())) };
+});
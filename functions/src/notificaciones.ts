@@ -0,0 +1,160 @@
+import { onDocumentCreated } from "firebase-functions/v2/firestore";
+import { onSchedule } from "firebase-functions/v2/scheduler";
+import { admin, db } from "./config";
+import { obtenerCanal, smtpPassword } from "./canales";
+import { Documento, colecciones } from "./modelo";
+import { DatosNotificacion, EventoNotificacion, renderizarPlantilla } from "./plantillas";
+import { Notificacion } from "../../modelo/src";
+
+// Reintentos: 1, 2, 4, 8 minutos... hasta MAX_INTENTOS; después la notificación queda "fallida"
+const MAX_INTENTOS = 5;
+const ESPERA_BASE_MINUTOS = 1;
+
+/**
+ * Preferencias del socio guardadas en usuarios.preferenciasNotificacion.
+ * Por defecto se notifica todo por email.
+ */
+export interface PreferenciasNotificacion {
+  email?: boolean; // Canal habilitado
+  eventos?: Partial<Record<EventoNotificacion, boolean>>; // false = no recibir ese evento
+}
+
+// Cualquier objeto con set(ref, data): WriteBatch o Transaction
+interface Escritor {
+  set<T>(ref: admin.firestore.DocumentReference<T>, data: admin.firestore.WithFieldValue<T>): unknown;
+}
+
+/**
+ * Encola una notificación en el outbox ('notificaciones'). El envío lo hace procesarNotificacion.
+ * Si se pasa una transacción o batch, la notificación se escribe junto con el cambio que la origina.
+ */
+export const encolarNotificacion = async (
+  evento: EventoNotificacion,
+  usuarioId: string,
+  datos: DatosNotificacion,
+  escritor?: Escritor
+) => {
+  const ref = colecciones.notificaciones.doc();
+  const notificacion: admin.firestore.WithFieldValue<Documento<Notificacion>> = {
+    usuarioId,
+    evento,
+    datos,
+    canal: "email",
+    estado: "pendiente",
+    intentos: 0,
+    fechaCreacion: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  if (escritor) {
+    escritor.set(ref, notificacion);
+  } else {
+    await ref.set(notificacion);
+  }
+  return ref.id;
+};
+
+/**
+ * Intenta entregar una notificación y actualiza su estado:
+ * "enviada", "omitida" (preferencias o sin email), "reintentar" o "fallida".
+ */
+const entregarNotificacion = async (ref: admin.firestore.DocumentReference) => {
+  const doc = await ref.get();
+  const notificacion = doc.data();
+  if (!notificacion || !["pendiente", "reintentar"].includes(notificacion.estado)) {
+    return;
+  }
+
+  const usuarioDoc = await db.collection("usuarios").doc(notificacion.usuarioId).get();
+  const usuario = usuarioDoc.data();
+  const preferencias: PreferenciasNotificacion = usuario?.preferenciasNotificacion || {};
+
+  if (preferencias[notificacion.canal as "email"] === false ||
+      preferencias.eventos?.[notificacion.evento as EventoNotificacion] === false) {
+    await ref.update({ estado: "omitida", motivo: "Desactivada en las preferencias del usuario." });
+    return;
+  }
+
+  // Las personas a cargo (sin cuenta propia) reciben los avisos a través de su tutor
+  const tutor = usuario?.esDependiente && usuario.tutorId ?
+    (await db.collection("usuarios").doc(usuario.tutorId).get()).data() :
+    undefined;
+  const destinatario = tutor ? tutor.email : usuario?.email;
+
+  if (!destinatario) {
+    await ref.update({ estado: "omitida", motivo: "El usuario no tiene email." });
+    return;
+  }
+
+  const mensaje = renderizarPlantilla(notificacion.evento, {
+    ...notificacion.datos,
+    nombre: tutor ? tutor.nombre : usuario?.nombre,
+  });
+  if (mensaje && tutor) {
+    mensaje.asunto = `[${usuario?.nombre}] ${mensaje.asunto}`;
+  }
+  const canal = obtenerCanal(notificacion.canal);
+  if (!mensaje || !canal) {
+    await ref.update({ estado: "fallida", ultimoError: `Evento o canal desconocido (${notificacion.evento}/${notificacion.canal}).` });
+    return;
+  }
+
+  const intentos = (notificacion.intentos || 0) + 1;
+  try {
+    await canal.enviar({ destinatario, ...mensaje });
+    await ref.update({
+      estado: "enviada",
+      intentos,
+      destinatario,
+      fechaEnvio: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    console.log(`Notificación ${ref.id} (${notificacion.evento}) enviada a ${destinatario}.`);
+  } catch (error) {
+    const ultimoError = error instanceof Error ? error.message : String(error);
+    if (intentos >= MAX_INTENTOS) {
+      await ref.update({ estado: "fallida", intentos, ultimoError });
+      console.error(`Notificación ${ref.id} fallida tras ${intentos} intentos:`, ultimoError);
+      return;
+    }
+    const esperaMs = ESPERA_BASE_MINUTOS * 2 ** (intentos - 1) * 60 * 1000;
+    await ref.update({
+      estado: "reintentar",
+      intentos,
+      ultimoError,
+      proximoIntento: admin.firestore.Timestamp.fromMillis(Date.now() + esperaMs),
+    });
+    console.warn(`Notificación ${ref.id} falló (intento ${intentos}); se reintenta en ${esperaMs / 60000} min.`);
+  }
+};
+
+
+// --- Función: procesarNotificacion ---
+// Se dispara cuando se encola una notificación y la intenta enviar de inmediato.
+export const procesarNotificacion = onDocumentCreated(
+  { document: "notificaciones/{notificacionId}", secrets: [smtpPassword] },
+  async (event) => {
+    if (!event.data) return;
+    await entregarNotificacion(event.data.ref);
+  }
+);
+
+
+// --- Función: reintentarNotificaciones ---
+// Reintenta periódicamente las notificaciones cuyo envío falló y ya cumplieron la espera.
+export const reintentarNotificaciones = onSchedule(
+  { schedule: "every 5 minutes", secrets: [smtpPassword] },
+  async () => {
+    const pendientes = await db.collection("notificaciones")
+      .where("estado", "==", "reintentar")
+      .where("proximoIntento", "<=", admin.firestore.Timestamp.now())
+      .limit(100)
+      .get();
+
+    for (const doc of pendientes.docs) {
+      await entregarNotificacion(doc.ref);
+    }
+
+    if (!pendientes.empty) {
+      console.log(`${pendientes.size} notificaciones reintentadas.`);
+    }
+  }
+);
@@ -0,0 +1,69 @@
+// Plantillas de los mensajes que se envían a los socios. Cada evento del outbox
+// (colección 'notificaciones') tiene una plantilla que arma el asunto y el cuerpo.
+
+import { DatosNotificacion, EventoNotificacion } from "../../modelo/src";
+
+export type { DatosNotificacion, EventoNotificacion } from "../../modelo/src";
+
+export interface MensajeRenderizado {
+  asunto: string;
+  texto: string;
+}
+
+const saludo = (datos: DatosNotificacion) => `Hola${datos.nombre ? ` ${datos.nombre}` : ""},`;
+const firma = "\n\nEquipo VIRTUD";
+
+const plantillas: Record<EventoNotificacion, (datos: DatosNotificacion) => MensajeRenderizado> = {
+  reserva_confirmada: (d) => ({
+    asunto: `Reserva confirmada: ${d.actividad}`,
+    texto: `${saludo(d)}\n\nTu lugar en ${d.actividad} para el ${d.fecha} está confirmado. ¡Te esperamos!${firma}`,
+  }),
+  turno_confirmado: (d) => ({
+    asunto: `Turno confirmado: ${d.terapia}`,
+    texto: `${saludo(d)}\n\nTu turno de ${d.terapia} para el ${d.fecha} está confirmado.${firma}`,
+  }),
+  reserva_cancelada: (d) => ({
+    asunto: `Reserva cancelada: ${d.actividad}`,
+    texto: `${saludo(d)}\n\nCancelaste tu reserva en ${d.actividad} del ${d.fecha}.` +
+      (d.penalizacion ? `\nPor cancelar fuera de término se aplicó un cargo de $${d.penalizacion}.` : "") +
+      firma,
+  }),
+  turno_cancelado: (d) => ({
+    asunto: `Turno cancelado: ${d.terapia}`,
+    texto: `${saludo(d)}\n\nCancelaste tu turno de ${d.terapia} del ${d.fecha}.` +
+      (d.penalizacion ? `\nPor cancelar fuera de término se aplicó un cargo de $${d.penalizacion}.` : "") +
+      firma,
+  }),
+  reserva_cancelada_admin: (d) => ({
+    asunto: `Clase suspendida: ${d.actividad}`,
+    texto: `${saludo(d)}\n\nLamentamos informarte que la clase de ${d.actividad} del ${d.fecha} fue suspendida` +
+      `${d.motivo ? ` (motivo: ${d.motivo})` : ""}. Tu reserva quedó cancelada.${firma}`,
+  }),
+  turno_cancelado_admin: (d) => ({
+    asunto: `Turno suspendido: ${d.terapia}`,
+    texto: `${saludo(d)}\n\nLamentamos informarte que tu turno de ${d.terapia} del ${d.fecha} fue suspendido` +
+      `${d.motivo ? ` (motivo: ${d.motivo})` : ""}. Podés reservar un nuevo horario desde la plataforma.${firma}`,
+  }),
+  reserva_restaurada: (d) => ({
+    asunto: `Tu reserva en ${d.actividad} vuelve a estar confirmada`,
+    texto: `${saludo(d)}\n\nSe levantó la suspensión de la clase de ${d.actividad} del ${d.fecha}` +
+      ` y tu reserva volvió a quedar confirmada. ¡Te esperamos!${firma}`,
+  }),
+  turno_restaurado: (d) => ({
+    asunto: `Tu turno de ${d.terapia} vuelve a estar confirmado`,
+    texto: `${saludo(d)}\n\nSe levantó la suspensión y tu turno de ${d.terapia} del ${d.fecha} volvió a quedar confirmado.${firma}`,
+  }),
+  lugar_ofrecido: (d) => ({
+    asunto: `¡Se liberó un lugar en ${d.actividad}!`,
+    texto: `${saludo(d)}\n\nSe liberó un lugar en ${d.actividad} para el ${d.fecha} y sos el siguiente en la lista de espera.` +
+      `\nTenés tiempo hasta el ${d.vencimiento} para aceptarlo desde la plataforma; después pasa a la siguiente persona.${firma}`,
+  }),
+};
+
+/**
+ * Arma el mensaje de un evento. Devuelve null si el evento no tiene plantilla.
+ */
+export const renderizarPlantilla = (evento: string, datos: DatosNotificacion): MensajeRenderizado | null => {
+  const plantilla = plantillas[evento as EventoNotificacion];
+  return plantilla ? plantilla(datos) : null;
+};
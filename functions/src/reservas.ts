@@ -0,0 +1,223 @@
+import { onDocumentCreated } from "firebase-functions/v2/firestore";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { admin, db } from "./config";
+import { verificarAusencias } from "./asistencia";
+import { obtenerPolitica } from "./cancelaciones";
+import { claseIdPara, contarCupoOcupado } from "./clases";
+import { formatearFechaHoraLegible } from "./fechas";
+import { agregarAListaEspera } from "./listaEspera";
+import { aplicarConsumo, seleccionarMembresia } from "./membresias";
+import { Documento, colecciones, validarDatos } from "./modelo";
+import { encolarNotificacion } from "./notificaciones";
+import { requerirPerfilCompleto, resolverPersona } from "./usuarios";
+import { Reserva, esquemaReserva } from "../../modelo/src";
+
+/**
+ * Verifica dentro de una transacción que la actividad exista, que la fecha/hora corresponda
+ * a una clase programada y que esa clase tenga cupo suficiente.
+ * @param transaction Transacción en curso.
+ * @param actividadId ID de la actividad grupal.
+ * @param fechaActividad Timestamp de la instancia de la clase.
+ * @param cupoTomado Cantidad de lugares que ocupa la nueva reserva.
+ * @param reservaIdExcluida Reserva que no debe contarse (la que disparó el trigger).
+ * @returns Los datos de la actividad, el ID de la clase y el cupo que queda libre luego de la reserva.
+ */
+export const validarCupoActividad = async (
+  transaction: admin.firestore.Transaction,
+  actividadId: string,
+  fechaActividad: admin.firestore.Timestamp,
+  cupoTomado: number,
+  reservaIdExcluida?: string
+) => {
+  const actividadRef = colecciones.actividades.doc(actividadId);
+  const actividadDoc = await transaction.get(actividadRef);
+
+  if (!actividadDoc.exists) {
+    throw new HttpsError(
+      "not-found",
+      `La actividad con ID ${actividadId} no existe.`
+    );
+  }
+
+  const actividadData = actividadDoc.data();
+
+  // Solo se puede reservar una instancia real generada a partir de actividades.horarios
+  const claseId = claseIdPara(actividadId, fechaActividad.toDate());
+  const claseDoc = await transaction.get(db.collection("clases").doc(claseId));
+  const claseData = claseDoc.data();
+
+  if (!claseDoc.exists || claseData?.estado !== "programada" ||
+      !claseData?.fechaInicio?.isEqual(fechaActividad)) {
+    throw new HttpsError(
+      "not-found",
+      `No hay una clase de ${actividadData?.nombre} programada el ${fechaActividad.toDate().toLocaleString()}.`
+    );
+  }
+
+  const cupoMaximo = claseData?.cupo ?? actividadData?.cupo ?? 0; // Cupo de la instancia (copiado de la actividad)
+
+  const cupoOcupado = await contarCupoOcupado(transaction, actividadId, fechaActividad, reservaIdExcluida);
+  const cupoDisponible = cupoMaximo - cupoOcupado;
+
+  if (cupoDisponible < cupoTomado) {
+    throw new HttpsError(
+      "resource-exhausted",
+      `No hay cupos disponibles para la actividad ${actividadData?.nombre} el ${fechaActividad.toDate().toLocaleString()}. Cupo actual: ${cupoDisponible}.`
+    );
+  }
+
+  return { actividadData, claseId, cupoRestante: cupoDisponible - cupoTomado };
+};
+
+
+// --- Función: reservarActividad (para Actividades Grupales) ---
+// Trigger heredado: el cliente crea el documento y la función lo marca como "fallida" si no hay cupo.
+// Se mantiene durante la migración a la función callable crearReserva.
+export const reservarActividad = onDocumentCreated(
+  "reservas/{reservaId}", // Ruta del documento
+  async (event) => {
+    // onDocumentCreated recibe un 'event' que contiene los datos del snapshot
+    const snapshot = event.data;
+
+    if (!snapshot) {
+      console.error("No snapshot data found for onCreate event.");
+      return;
+    }
+
+    // Las reservas creadas desde el servidor (crearReserva, lista de espera) ya se validaron en su transacción
+    if (snapshot.data().origen) {
+      return;
+    }
+
+    // El cliente creó el documento: se valida contra el esquema compartido antes de usarlo
+    let nuevaReserva: Documento<Reserva>;
+    try {
+      nuevaReserva = validarDatos(esquemaReserva, snapshot.data(), `reservas/${snapshot.id}`);
+    } catch (error: any) {
+      console.error(`Reserva ${snapshot.id} inválida:`, error.message);
+      await snapshot.ref.update({ estado: "fallida", motivoFalla: error.message });
+      return;
+    }
+
+    const actividadId = nuevaReserva.actividadId;
+    const fechaActividad = nuevaReserva.fechaActividad; // Timestamp de la instancia de la clase
+    const cupoTomado = nuevaReserva.cupoTomado || 1; // Por defecto 1 cupo
+
+    // Usa una transacción para asegurar la atomicidad en la verificación y actualización del cupo
+    try {
+      await requerirPerfilCompleto(nuevaReserva.usuarioId);
+      await db.runTransaction(async (transaction) => {
+        const { actividadData, claseId, cupoRestante } = await validarCupoActividad(
+          transaction,
+          actividadId,
+          fechaActividad,
+          cupoTomado,
+          snapshot.id
+        );
+        await verificarAusencias(transaction, nuevaReserva.usuarioId, obtenerPolitica(actividadData));
+        const consumo = await seleccionarMembresia(transaction, nuevaReserva.usuarioId, actividadId, fechaActividad, cupoTomado);
+
+        // Se descuenta el crédito del plan en la misma transacción que valida el cupo
+        transaction.update(snapshot.ref, { claseId, ...aplicarConsumo(transaction, consumo) });
+        await encolarNotificacion("reserva_confirmada", nuevaReserva.usuarioId, {
+          actividad: actividadData?.nombre,
+          fecha: formatearFechaHoraLegible(fechaActividad.toDate()),
+        }, transaction);
+
+        // Si hay cupo, la transacción continuará y la reserva se habrá creado exitosamente.
+        console.log(
+          `Reserva ${snapshot.id} para ${actividadData?.nombre} el ${fechaActividad.toDate().toLocaleString()} confirmada. Cupo restante: ${cupoRestante}.`
+        );
+      });
+    } catch (error: any) { // Captura el error para manejarlo
+      if (error instanceof HttpsError) {
+        console.error("Error al procesar la reserva (transacción):", error.code, error.message);
+        // El documento de reserva ya se creó. Lo marcamos como fallido/cancelado.
+        await snapshot.ref.update({ estado: "fallida", motivoFalla: error.message });
+      } else {
+        console.error("Error inesperado en la transacción de reserva:", error);
+        await snapshot.ref.update({ estado: "fallida", motivoFalla: "Error interno del servidor." });
+      }
+    }
+  }
+);
+
+
+// --- Función: crearReserva (callable) ---
+// Valida el cupo y crea la reserva en la misma transacción. Si algo falla no se crea ningún
+// documento y el cliente recibe el error tipado (not-found, resource-exhausted, ...).
+// Con unirseListaEspera = true, si la clase está llena el socio queda anotado en la lista de espera.
+export const crearReserva = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Debes iniciar sesión para reservar.");
+  }
+
+  const { actividadId, fechaActividad, cupoTomado = 1, unirseListaEspera = false, paraUsuarioId } = request.data || {};
+
+  if (typeof actividadId !== "string" || !actividadId) {
+    throw new HttpsError("invalid-argument", "Falta indicar la actividad.");
+  }
+  const fechaMillis = typeof fechaActividad === "string" ? Date.parse(fechaActividad) : Number(fechaActividad);
+  if (!Number.isFinite(fechaMillis)) {
+    throw new HttpsError("invalid-argument", "La fecha de la actividad no es válida.");
+  }
+  // Una clase pasada consumiría crédito y la tomaría el barrido de ausencias
+  if (fechaMillis <= Date.now()) {
+    throw new HttpsError("failed-precondition", "La clase ya comenzó.");
+  }
+  if (!Number.isInteger(cupoTomado) || cupoTomado < 1) {
+    throw new HttpsError("invalid-argument", "La cantidad de cupos debe ser un entero positivo.");
+  }
+
+  // Un tutor puede reservar para una persona a su cargo
+  const usuarioId = await resolverPersona(request, paraUsuarioId);
+  await requerirPerfilCompleto(request.auth.uid);
+  const fecha = admin.firestore.Timestamp.fromMillis(fechaMillis);
+  const reservaRef = colecciones.reservas.doc();
+
+  try {
+    await db.runTransaction(async (transaction) => {
+      const { actividadData, claseId, cupoRestante } = await validarCupoActividad(
+        transaction,
+        actividadId,
+        fecha,
+        cupoTomado
+      );
+      await verificarAusencias(transaction, usuarioId, obtenerPolitica(actividadData));
+      const consumo = await seleccionarMembresia(transaction, usuarioId, actividadId, fecha, cupoTomado);
+
+      transaction.set(reservaRef, {
+        usuarioId,
+        actividadId,
+        claseId,
+        fechaActividad: fecha,
+        cupoTomado,
+        ...aplicarConsumo(transaction, consumo),
+        estado: "confirmada",
+        origen: "api",
+        reservadoPor: request.auth?.uid,
+        fechaCreacion: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      await encolarNotificacion("reserva_confirmada", usuarioId, {
+        actividad: actividadData?.nombre,
+        fecha: formatearFechaHoraLegible(fecha.toDate()),
+      }, transaction);
+
+      console.log(
+        `Reserva ${reservaRef.id} para ${actividadData?.nombre} el ${fecha.toDate().toLocaleString()} confirmada. Cupo restante: ${cupoRestante}.`
+      );
+    });
+  } catch (error: any) {
+    if (error instanceof HttpsError && error.code === "resource-exhausted" && unirseListaEspera) {
+      const { listaEsperaId, posicion } = await agregarAListaEspera(usuarioId, actividadId, fecha, cupoTomado);
+      return { listaEsperaId, posicion, estado: "en_espera" };
+    }
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    console.error("Error inesperado en la transacción de reserva:", error);
+    throw new HttpsError("internal", "Error interno del servidor.");
+  }
+
+  return { reservaId: reservaRef.id, estado: "confirmada" };
+});
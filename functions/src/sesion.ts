@@ -0,0 +1,190 @@
+import { existsSync, promises as fs } from "fs";
+import * as path from "path";
+import { onRequest, Request } from "firebase-functions/v2/https";
+import { admin, db } from "./config";
+import { MS_POR_DIA } from "./fechas";
+
+// Firebase Hosting solo reenvía a las funciones la cookie con este nombre
+const NOMBRE_COOKIE = "__session";
+const DURACION_SESION_MS = 5 * MS_POR_DIA;
+// El ID token que se canjea debe venir de un inicio de sesión reciente
+const MAX_ANTIGUEDAD_LOGIN_SEGUNDOS = 5 * 60;
+
+/**
+ * Secciones que solo se sirven con una cookie de sesión válida, y los roles que pueden verlas
+ * (null = cualquier usuario). El script frontend/scripts/separar-paginas-protegidas.mjs saca
+ * estas páginas del export estático y las copia a functions/paginas para que las sirva
+ * paginaProtegida; la regex de firebase.json que las redirige debe coincidir con esta lista.
+ */
+const RUTAS_PROTEGIDAS: Record<string, string[] | null> = {
+  "/dashboard": null,
+  "/perfil": null,
+  "/familia": null,
+  "/bienvenida": null,
+  "/agenda": ["profesional"],
+  "/asistencia": ["admin", "profesional"],
+  "/admin": ["admin"],
+};
+
+/**
+ * Carpeta paginas/ del paquete de funciones, donde separar-paginas-protegidas.mjs copia las páginas.
+ * Se parte del package.json más cercano porque el código compilado queda en lib/functions/src
+ * (tsconfig compila también ../modelo) y el fuente en src/.
+ * @param directorioModulo Carpeta del módulo que la busca (__dirname).
+ */
+export const directorioPaginas = (directorioModulo: string): string => {
+  let directorio = path.resolve(directorioModulo);
+  while (!existsSync(path.join(directorio, "package.json"))) {
+    const padre = path.dirname(directorio);
+    if (padre === directorio) {
+      throw new Error(`No se encontró el package.json de las funciones desde ${directorioModulo}`);
+    }
+    directorio = padre;
+  }
+  return path.join(directorio, "paginas");
+};
+
+const DIRECTORIO_PAGINAS = directorioPaginas(__dirname);
+const FORMATO_RUTA = /^(\/[a-z0-9-]+)+$/;
+
+const leerCookieSesion = (req: Request): string | null => {
+  const cookies = (req.headers.cookie || "").split(";").map((c) => c.trim());
+  const cookie = cookies.find((c) => c.startsWith(`${NOMBRE_COOKIE}=`));
+  return cookie ? decodeURIComponent(cookie.slice(NOMBRE_COOKIE.length + 1)) : null;
+};
+
+/**
+ * Verifica la cookie de sesión con el Admin SDK (incluye revocación).
+ * @returns Los claims de la sesión, o null si falta, venció o fue revocada.
+ */
+const verificarSesion = async (req: Request): Promise<admin.auth.DecodedIdToken | null> => {
+  const cookie = leerCookieSesion(req);
+  if (!cookie) return null;
+  try {
+    return await admin.auth().verifySessionCookie(cookie, true);
+  } catch {
+    return null;
+  }
+};
+
+// Las escrituras de sesión solo se aceptan desde el propio sitio (protección CSRF)
+const esMismoOrigen = (req: Request): boolean => {
+  const origen = req.headers.origin;
+  const host = req.headers["x-forwarded-host"] || req.headers.host;
+  if (!origen || !host) return false;
+  try {
+    return new URL(origen).host === String(host).split(",")[0].trim();
+  } catch {
+    return false;
+  }
+};
+
+
+// --- Función: sesion (HTTP, /api/sesion) ---
+// POST { idToken }: canjea el ID token de un inicio de sesión reciente por una cookie de sesión
+// HttpOnly. DELETE: revoca los tokens del usuario y borra la cookie.
+export const sesion = onRequest(async (req, res) => {
+  res.set("Cache-Control", "no-store");
+  if (!esMismoOrigen(req)) {
+    res.status(403).send("Origen no permitido");
+    return;
+  }
+
+  if (req.method === "POST") {
+    const idToken = req.body?.idToken;
+    if (typeof idToken !== "string" || !idToken) {
+      res.status(400).send("Falta el token de inicio de sesión");
+      return;
+    }
+
+    let token: admin.auth.DecodedIdToken;
+    try {
+      token = await admin.auth().verifyIdToken(idToken, true);
+    } catch {
+      res.status(401).send("El token de inicio de sesión no es válido");
+      return;
+    }
+    if (Date.now() / 1000 - token.auth_time > MAX_ANTIGUEDAD_LOGIN_SEGUNDOS) {
+      res.status(401).send("Volvé a iniciar sesión");
+      return;
+    }
+    // Las cuentas con email y contraseña necesitan la dirección verificada para ingresar
+    if (token.firebase.sign_in_provider === "password" && !token.email_verified) {
+      res.status(403).send("Verificá tu email antes de ingresar");
+      return;
+    }
+
+    const cookie = await admin.auth().createSessionCookie(idToken, { expiresIn: DURACION_SESION_MS });
+    res.cookie(NOMBRE_COOKIE, cookie, {
+      maxAge: DURACION_SESION_MS,
+      httpOnly: true,
+      secure: true,
+      sameSite: "lax",
+      path: "/",
+    });
+    console.log(`Sesión iniciada para ${token.uid}.`);
+    res.status(204).end();
+    return;
+  }
+
+  if (req.method === "DELETE") {
+    const cookie = leerCookieSesion(req);
+    if (cookie) {
+      try {
+        const claims = await admin.auth().verifySessionCookie(cookie);
+        await admin.auth().revokeRefreshTokens(claims.sub);
+        console.log(`Sesión cerrada y tokens revocados para ${claims.sub}.`);
+      } catch {
+        // La cookie ya no era válida: alcanza con borrarla
+      }
+    }
+    res.clearCookie(NOMBRE_COOKIE, { path: "/" });
+    res.status(204).end();
+    return;
+  }
+
+  res.status(405).send("Método no permitido");
+});
+
+
+// --- Función: paginaProtegida (HTTP, secciones de RUTAS_PROTEGIDAS) ---
+// Sirve la página estática (HTML o payload .txt de navegación de Next) solo si la cookie de sesión
+// es válida y el rol puede ver la sección; si no, redirige a /login o al panel.
+export const paginaProtegida = onRequest(async (req, res) => {
+  res.set("Cache-Control", "private, no-store");
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    res.status(405).send("Método no permitido");
+    return;
+  }
+
+  const esPayload = req.path.endsWith(".txt");
+  const ruta = req.path.replace(/\.(html|txt)$/, "").replace(/\/+$/, "") || "/";
+  const seccion = Object.keys(RUTAS_PROTEGIDAS).find((r) => ruta === r || ruta.startsWith(`${r}/`));
+  if (!seccion || !FORMATO_RUTA.test(ruta)) {
+    res.status(404).send("Página no encontrada");
+    return;
+  }
+
+  const claims = await verificarSesion(req);
+  if (!claims) {
+    res.redirect(302, `/login?redirect=${encodeURIComponent(ruta)}`);
+    return;
+  }
+
+  const roles = RUTAS_PROTEGIDAS[seccion];
+  if (roles) {
+    const tipo = (claims.tipo as string | undefined) ||
+      (await db.collection("usuarios").doc(claims.uid).get()).data()?.tipo;
+    if (!roles.includes(tipo)) {
+      res.redirect(302, "/dashboard");
+      return;
+    }
+  }
+
+  try {
+    const contenido = await fs.readFile(path.join(DIRECTORIO_PAGINAS, `${ruta}.${esPayload ? "txt" : "html"}`));
+    res.type(esPayload ? "text/x-component" : "html").send(contenido);
+  } catch {
+    res.status(404).send("Página no encontrada");
+  }
+});
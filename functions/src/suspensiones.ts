@@ -0,0 +1,454 @@
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { HttpsError } from "firebase-functions/v2/https";
+import { admin, db } from "./config";
+import { formatearFechaHoraLegible } from "./fechas";
+import { aplicarConsumo, devolverCredito, seleccionarMembresia } from "./membresias";
+import { validarDatos } from "./modelo";
+import { encolarNotificacion } from "./notificaciones";
+import { validarCupoActividad } from "./reservas";
+import { validarTurno } from "./turnos";
+import { esquemaSuspension } from "../../modelo/src";
+
+// Documentos por batch. Una reserva confirmada genera hasta 5 escrituras (cambio, registro, notificación y,
+// al devolver el crédito, la membresía y otra actualización de la reserva): 80 × 5 = 400, debajo del límite de 500.
+const DOCUMENTOS_POR_LOTE = 80;
+
+type ColeccionAfectada = "clases" | "reservas" | "turnos";
+
+/**
+ * Registro de lo que canceló una suspensión, en suspensiones/{id}/afectados/{coleccion}_{docId}.
+ * Permite deshacer exactamente esos cambios si la suspensión se elimina o se acota.
+ */
+interface Afectado {
+  coleccion: ColeccionAfectada;
+  docId: string;
+  fecha: admin.firestore.Timestamp;
+  usuarioId?: string;
+  actividadId?: string;
+  terapiaId?: string;
+  profesionalId?: string; // Profesional del turno
+  profesorId?: string; // Profesor que dicta la clase
+  estado: "cancelada" | "restaurada" | "no_restaurada" | "transferida";
+}
+
+// Cache de nombres de actividades/terapias para armar las notificaciones de una suspensión
+const crearBuscadorNombres = () => {
+  const cache = new Map<string, Promise<string>>();
+  return (coleccion: "actividades" | "terapias", id: string) => {
+    const clave = `${coleccion}/${id}`;
+    if (!cache.has(clave)) {
+      cache.set(clave, db.collection(coleccion).doc(id).get().then((doc) => doc.data()?.nombre || ""));
+    }
+    return cache.get(clave) as Promise<string>;
+  };
+};
+
+/**
+ * Aplica `procesar` a cada documento, confirmando un batch cada DOCUMENTOS_POR_LOTE documentos.
+ */
+const procesarEnLotes = async <T>(
+  items: T[],
+  procesar: (batch: admin.firestore.WriteBatch, item: T) => Promise<void>
+) => {
+  for (let i = 0; i < items.length; i += DOCUMENTOS_POR_LOTE) {
+    const batch = db.batch();
+    for (const item of items.slice(i, i + DOCUMENTOS_POR_LOTE)) {
+      await procesar(batch, item);
+    }
+    await batch.commit();
+  }
+};
+
+/**
+ * Indica si una suspensión (en su versión actual) alcanza a un documento afectado.
+ * Debe reflejar los mismos filtros que usan las consultas de procesarSuspension.
+ */
+const cubre = (suspension: admin.firestore.DocumentData | undefined, afectado: Afectado): boolean => {
+  if (!suspension || !suspension.afectaReservasExistentes) return false;
+
+  const { tipo, actividadId, profesorId, fechaInicio, fechaFin } = suspension;
+  const fecha = afectado.fecha.toMillis();
+  if (fecha < fechaInicio.toMillis() || fecha > fechaFin.toMillis()) return false;
+
+  switch (afectado.coleccion) {
+  case "clases":
+  case "reservas":
+    if (tipo === "profesor") return afectado.profesorId === profesorId;
+    return !(tipo === "actividad" && actividadId) || afectado.actividadId === actividadId;
+  case "turnos":
+    if (tipo === "profesor") return afectado.profesionalId === profesorId;
+    return !(tipo === "actividad" && actividadId) || afectado.terapiaId === actividadId;
+  }
+};
+
+/**
+ * Vuelve a poner una reserva como "confirmada", verificando dentro de la transacción que la
+ * clase siga programada y tenga cupo.
+ */
+const restaurarReserva = async (
+  suspensionId: string,
+  afectadoRef: admin.firestore.DocumentReference,
+  reservaRef: admin.firestore.DocumentReference
+) => {
+  await db.runTransaction(async (transaction) => {
+    const reservaDoc = await transaction.get(reservaRef);
+    const reserva = reservaDoc.data();
+
+    if (!reserva || reserva.estado !== "cancelado_por_admin" || reserva.suspensionId !== suspensionId) {
+      throw new HttpsError("failed-precondition", "La reserva cambió después de la suspensión.");
+    }
+    if (reserva.fechaActividad.toMillis() <= Date.now()) {
+      throw new HttpsError("failed-precondition", "La clase ya pasó.");
+    }
+
+    const { actividadData } = await validarCupoActividad(
+      transaction,
+      reserva.actividadId,
+      reserva.fechaActividad,
+      reserva.cupoTomado || 1,
+      reservaRef.id
+    );
+    // El crédito se devolvió al suspender: se vuelve a descontar del plan vigente (sin plan, se paga la clase)
+    const consumo = await seleccionarMembresia(
+      transaction, reserva.usuarioId, reserva.actividadId, reserva.fechaActividad, reserva.cupoTomado || 1
+    );
+
+    transaction.update(reservaRef, {
+      ...aplicarConsumo(transaction, consumo),
+      estado: "confirmada",
+      suspensionId: admin.firestore.FieldValue.delete(),
+      motivoCancelacion: admin.firestore.FieldValue.delete(),
+      fechaCancelacion: admin.firestore.FieldValue.delete(),
+      fechaRestauracion: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    transaction.update(afectadoRef, { estado: "restaurada" });
+    await encolarNotificacion("reserva_restaurada", reserva.usuarioId, {
+      actividad: actividadData?.nombre,
+      fecha: formatearFechaHoraLegible(reserva.fechaActividad.toDate()),
+    }, transaction);
+  });
+};
+
+/**
+ * Vuelve a poner un turno como "confirmado", verificando dentro de la transacción la
+ * disponibilidad del profesional y que no se solape con turnos tomados mientras tanto.
+ */
+const restaurarTurno = async (
+  suspensionId: string,
+  afectadoRef: admin.firestore.DocumentReference,
+  turnoRef: admin.firestore.DocumentReference
+) => {
+  await db.runTransaction(async (transaction) => {
+    const turnoDoc = await transaction.get(turnoRef);
+    const turno = turnoDoc.data();
+
+    if (!turno || turno.estado !== "cancelado_por_admin" || turno.suspensionId !== suspensionId) {
+      throw new HttpsError("failed-precondition", "El turno cambió después de la suspensión.");
+    }
+    if (turno.fechaTurno.toMillis() <= Date.now()) {
+      throw new HttpsError("failed-precondition", "El turno ya pasó.");
+    }
+
+    const { terapiaData, profesionalId, duracionMinutos, finTurno } =
+      await validarTurno(transaction, turno.terapiaId, turno.fechaTurno, turnoRef.id);
+
+    transaction.update(turnoRef, {
+      estado: "confirmado",
+      profesionalId,
+      duracionMinutos,
+      fechaFin: finTurno,
+      suspensionId: admin.firestore.FieldValue.delete(),
+      motivoCancelacion: admin.firestore.FieldValue.delete(),
+      fechaCancelacion: admin.firestore.FieldValue.delete(),
+      fechaRestauracion: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    transaction.update(afectadoRef, { estado: "restaurada" });
+    await encolarNotificacion("turno_restaurado", turno.usuarioId, {
+      terapia: terapiaData?.nombre,
+      fecha: formatearFechaHoraLegible(turno.fechaTurno.toDate()),
+    }, transaction);
+  });
+};
+
+/**
+ * Deshace lo que una suspensión canceló y ya no cubre (porque se eliminó, se acotó el rango,
+ * cambió su alcance o dejó de afectar reservas existentes).
+ * Si otra suspensión vigente también cubre el documento, este pasa a depender de ella.
+ */
+const revertirSuspension = async (suspensionId: string, suspension: admin.firestore.DocumentData | undefined) => {
+  const afectadosSnapshot = await db.collection("suspensiones").doc(suspensionId)
+    .collection("afectados")
+    .where("estado", "==", "cancelada")
+    .get();
+
+  const aRevertir = afectadosSnapshot.docs.filter((doc) => !cubre(suspension, doc.data() as Afectado));
+  if (aRevertir.length === 0) {
+    return;
+  }
+
+  const otrasSnapshot = await db.collection("suspensiones")
+    .where("fechaFin", ">=", admin.firestore.Timestamp.now())
+    .get();
+  const otras = otrasSnapshot.docs.filter((doc) => doc.id !== suspensionId);
+
+  // Las clases se restauran primero: las reservas solo se pueden confirmar en clases programadas
+  const orden: ColeccionAfectada[] = ["clases", "reservas", "turnos"];
+  aRevertir.sort((a, b) => orden.indexOf(a.data().coleccion) - orden.indexOf(b.data().coleccion));
+
+  let restaurados = 0;
+  let noRestaurados = 0;
+
+  for (const afectadoDoc of aRevertir) {
+    const afectado = afectadoDoc.data() as Afectado;
+    const docRef = db.collection(afectado.coleccion).doc(afectado.docId);
+
+    const otra = otras.find((doc) => cubre(doc.data(), afectado));
+    if (otra) {
+      const batch = db.batch();
+      batch.set(otra.ref.collection("afectados").doc(afectadoDoc.id), afectado);
+      batch.update(docRef, { suspensionId: otra.id });
+      batch.update(afectadoDoc.ref, { estado: "transferida", suspensionDestino: otra.id });
+      await batch.commit();
+      continue;
+    }
+
+    try {
+      if (afectado.coleccion === "clases") {
+        const claseDoc = await docRef.get();
+        if (claseDoc.data()?.estado !== "suspendida" || claseDoc.data()?.suspensionId !== suspensionId) {
+          throw new HttpsError("failed-precondition", "La clase cambió después de la suspensión.");
+        }
+        await docRef.update({ estado: "programada", suspensionId: admin.firestore.FieldValue.delete() });
+        await afectadoDoc.ref.update({ estado: "restaurada" });
+      } else if (afectado.coleccion === "reservas") {
+        await restaurarReserva(suspensionId, afectadoDoc.ref, docRef);
+      } else {
+        await restaurarTurno(suspensionId, afectadoDoc.ref, docRef);
+      }
+      restaurados++;
+    } catch (error: any) {
+      if (!(error instanceof HttpsError)) {
+        throw error;
+      }
+      // Ya no es válido (sin cupo, se solapa, pasó la fecha...): queda cancelado y se registra el motivo
+      await afectadoDoc.ref.update({ estado: "no_restaurada", motivo: error.message });
+      console.log(`${afectado.coleccion}/${afectado.docId} no se restaura: ${error.message}`);
+      noRestaurados++;
+    }
+  }
+
+  console.log(`Suspensión ${suspensionId}: ${restaurados} documentos restaurados, ${noRestaurados} no restaurables.`);
+};
+
+/**
+ * Indica si entre dos versiones de la suspensión solo cambió el campo `archivada`.
+ */
+const soloCambioArchivada = (antes: admin.firestore.DocumentData, despues: admin.firestore.DocumentData) => {
+  const campos = new Set([...Object.keys(antes), ...Object.keys(despues)]);
+  campos.delete("archivada");
+  return [...campos].every((campo) => {
+    const valorAntes = antes[campo];
+    const valorDespues = despues[campo];
+    if (valorAntes instanceof admin.firestore.Timestamp) {
+      return valorDespues instanceof admin.firestore.Timestamp && valorAntes.isEqual(valorDespues);
+    }
+    return JSON.stringify(valorAntes) === JSON.stringify(valorDespues);
+  });
+};
+
+// --- Función: procesarSuspension ---
+export const procesarSuspension = onDocumentWritten(
+  "suspensiones/{suspensionId}",
+  async (event) => {
+    const suspensionId = event.params.suspensionId;
+    const suspensionAntes = event.data?.before?.data();
+    const suspensionDespues = event.data?.after?.data();
+
+    // Archivar una suspensión solo la oculta de la consola: no cambia lo que cubre
+    if (suspensionAntes && suspensionDespues && soloCambioArchivada(suspensionAntes, suspensionDespues)) {
+      return null;
+    }
+
+    // Si la suspensión se eliminó o se modificó, se restaura lo que ya no cubre
+    if (suspensionAntes) {
+      await revertirSuspension(suspensionId, suspensionDespues);
+    }
+
+    if (!event.data?.after.exists) {
+      console.log(`Suspensión ${suspensionId} eliminada.`);
+      return null;
+    }
+
+    // Solo procesar si se está creando o actualizando y afecta reservas existentes
+    if (!suspensionDespues || !suspensionDespues.afectaReservasExistentes) {
+      return null;
+    }
+
+    // Una suspensión mal cargada (ej. sin actividadId o con el rango invertido) no cancela nada
+    let suspension;
+    try {
+      suspension = validarDatos(esquemaSuspension, suspensionDespues, `suspensiones/${suspensionId}`);
+    } catch (error: any) {
+      console.error(`Suspensión ${suspensionId} inválida, no se procesa:`, error.message);
+      return null;
+    }
+
+    const { tipo, actividadId, profesorId, fechaInicio, fechaFin, motivo } = suspension;
+    const afectados = db.collection("suspensiones").doc(suspensionId).collection("afectados");
+    const registrar = (batch: admin.firestore.WriteBatch, afectado: Omit<Afectado, "estado">) => {
+      // Firestore no acepta campos undefined (ej. turnos heredados sin profesionalId)
+      const campos = Object.fromEntries(Object.entries(afectado).filter(([, valor]) => valor !== undefined));
+      batch.set(afectados.doc(`${afectado.coleccion}_${afectado.docId}`), {
+        ...campos,
+        estado: "cancelada",
+        fechaCancelacion: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    };
+
+    console.log(`Procesando suspensión tipo: ${tipo} desde ${fechaInicio.toDate()} hasta ${fechaFin.toDate()} por motivo: ${motivo}`);
+
+    // ----- Marcar como suspendidas las clases afectadas -----
+    // Se hace antes de cancelar las reservas para que la lista de espera no ofrezca lugares en ellas.
+    let clasesQuery: admin.firestore.Query = db.collection("clases")
+      .where("fechaInicio", ">=", fechaInicio)
+      .where("fechaInicio", "<=", fechaFin);
+
+    if (tipo === "actividad" && actividadId) {
+      clasesQuery = clasesQuery.where("actividadId", "==", actividadId);
+    } else if (tipo === "profesor") {
+      // Cada clase guarda el profesor que la dicta (el de la actividad o un reemplazo)
+      clasesQuery = clasesQuery.where("profesorId", "==", profesorId);
+    }
+
+    const clasesSnapshot = await clasesQuery.get();
+    const programadas = clasesSnapshot.docs.filter((doc) => doc.data().estado === "programada");
+    await procesarEnLotes(programadas, async (batch, doc) => {
+      batch.update(doc.ref, { estado: "suspendida", suspensionId });
+      registrar(batch, {
+        coleccion: "clases",
+        docId: doc.id,
+        fecha: doc.data().fechaInicio,
+        actividadId: doc.data().actividadId,
+        profesorId: doc.data().profesorId || undefined,
+      });
+    });
+    console.log(`Marcadas ${programadas.length} clases como suspendidas.`);
+
+    // ----- Cancelar Reservas de Actividades Grupales -----
+    // Las confirmadas y los lugares ofrecidos desde la lista de espera ("pendiente" con listaEsperaId)
+    let reservasQuery: admin.firestore.Query = db.collection("reservas")
+      .where("fechaActividad", ">=", fechaInicio)
+      .where("fechaActividad", "<=", fechaFin)
+      .where("estado", "in", ["confirmada", "pendiente"]);
+
+    if (tipo === "actividad" && actividadId) {
+      reservasQuery = reservasQuery.where("actividadId", "==", actividadId);
+    }
+
+    const reservasEnRango = (await reservasQuery.get()).docs;
+    // Para tipo 'profesor' solo se cancelan las reservas de las clases que dicta
+    const clasesDelProfesor = new Set(clasesSnapshot.docs.map((doc) => doc.id));
+    const delAlcance = tipo === "profesor" ?
+      reservasEnRango.filter((doc) => clasesDelProfesor.has(doc.data().claseId)) :
+      reservasEnRango;
+    const reservasAfectadas = delAlcance.filter((doc) => doc.data().estado === "confirmada");
+    // Las "pendiente" sin listaEsperaId las creó el cliente y las resuelve reservarActividad
+    const ofertasAfectadas = delAlcance.filter((doc) => doc.data().estado === "pendiente" && doc.data().listaEsperaId);
+
+    const buscarNombre = crearBuscadorNombres();
+
+    await procesarEnLotes(reservasAfectadas, async (batch, doc) => {
+      const reserva = doc.data();
+      batch.update(doc.ref, {
+        estado: "cancelado_por_admin",
+        motivoCancelacion: motivo,
+        suspensionId,
+        fechaCancelacion: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      devolverCredito(batch, doc.ref, reserva);
+      registrar(batch, {
+        coleccion: "reservas",
+        docId: doc.id,
+        fecha: reserva.fechaActividad,
+        usuarioId: reserva.usuarioId,
+        actividadId: reserva.actividadId,
+        profesorId: tipo === "profesor" ? profesorId || undefined : undefined,
+      });
+      // Se avisa al socio en el mismo batch que cancela la reserva
+      await encolarNotificacion("reserva_cancelada_admin", reserva.usuarioId, {
+        actividad: await buscarNombre("actividades", reserva.actividadId),
+        fecha: formatearFechaHoraLegible(reserva.fechaActividad.toDate()),
+        motivo: motivo || "",
+      }, batch);
+      console.log(`Reserva ${doc.id} (actividad ${reserva.actividadId}) cancelada.`);
+    });
+    console.log(`Procesadas ${reservasAfectadas.length} reservas de actividades.`);
+
+    // Las ofertas no consumieron crédito. No se registran como afectadas: al levantar la suspensión
+    // no se restauran, porque la entrada de la lista de espera queda cancelada.
+    await procesarEnLotes(ofertasAfectadas, async (batch, doc) => {
+      const reserva = doc.data();
+      batch.update(doc.ref, {
+        estado: "cancelado_por_admin",
+        motivoCancelacion: motivo,
+        suspensionId,
+        fechaCancelacion: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      batch.update(db.collection("listaEspera").doc(reserva.listaEsperaId), {
+        estado: "cancelada",
+        motivoCancelacion: "La clase fue suspendida.",
+      });
+      await encolarNotificacion("reserva_cancelada_admin", reserva.usuarioId, {
+        actividad: await buscarNombre("actividades", reserva.actividadId),
+        fecha: formatearFechaHoraLegible(reserva.fechaActividad.toDate()),
+        motivo: motivo || "",
+      }, batch);
+      console.log(`Lugar ofrecido ${doc.id} (lista de espera ${reserva.listaEsperaId}) cancelado.`);
+    });
+    console.log(`Procesadas ${ofertasAfectadas.length} ofertas de la lista de espera.`);
+
+
+    // ----- Cancelar Turnos Individuales de Terapias -----
+    let turnosQuery: admin.firestore.Query = db.collection("turnos")
+      .where("fechaTurno", ">=", fechaInicio)
+      .where("fechaTurno", "<=", fechaFin)
+      .where("estado", "==", "confirmado");
+
+    if (tipo === "profesor" && profesorId) {
+      // Cada turno guarda el profesionalId de su terapia (ver migrarTurnosDesnormalizados)
+      turnosQuery = turnosQuery.where("profesionalId", "==", profesorId);
+    } else if (tipo === "actividad" && actividadId) { // Si una suspensión es por una terapia específica
+      // Asumiendo que 'actividadId' en este contexto se refiere a 'terapiaId'
+      turnosQuery = turnosQuery.where("terapiaId", "==", actividadId);
+    }
+
+    const turnosSnapshot = await turnosQuery.get();
+
+    await procesarEnLotes(turnosSnapshot.docs, async (batch, doc) => {
+      const turno = doc.data();
+      batch.update(doc.ref, {
+        estado: "cancelado_por_admin",
+        motivoCancelacion: motivo,
+        suspensionId,
+        fechaCancelacion: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      registrar(batch, {
+        coleccion: "turnos",
+        docId: doc.id,
+        fecha: turno.fechaTurno,
+        usuarioId: turno.usuarioId,
+        terapiaId: turno.terapiaId,
+        profesionalId: turno.profesionalId,
+      });
+      await encolarNotificacion("turno_cancelado_admin", turno.usuarioId, {
+        terapia: await buscarNombre("terapias", turno.terapiaId),
+        fecha: formatearFechaHoraLegible(turno.fechaTurno.toDate()),
+        motivo: motivo || "",
+      }, batch);
+      console.log(`Turno ${doc.id} (terapia ${turno.terapiaId}) cancelado.`);
+    });
+    console.log(`Procesados ${turnosSnapshot.size} turnos de terapias.`);
+
+    return null;
+  }
+);
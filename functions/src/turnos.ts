@@ -0,0 +1,337 @@
+import { onDocumentCreated } from "firebase-functions/v2/firestore";
+import { HttpsError, onCall } from "firebase-functions/v2/https";
+import { admin, db } from "./config";
+import { verificarAusencias } from "./asistencia";
+import { obtenerPolitica } from "./cancelaciones";
+import { Disponibilidad, MAX_DURACION_TURNO_MINUTOS, validarDisponibilidad } from "./disponibilidad";
+import { formatearFechaHoraLegible } from "./fechas";
+import { verificarIngreso } from "./ingreso";
+import { Documento, colecciones, validarDatos } from "./modelo";
+import { encolarNotificacion } from "./notificaciones";
+import { requerirPerfilCompleto, requerirRol, resolverPersona } from "./usuarios";
+import { Turno, esquemaTurno } from "../../modelo/src";
+
+// Turno activo encontrado en la ventana de la consulta de solapamientos
+interface TurnoEnVentana {
+  id: string;
+  data: admin.firestore.DocumentData;
+}
+
+/**
+ * Indica si alguno de los turnos activos se solapa con el nuevo, ampliado con el buffer.
+ * Los que el cliente creó por el trigger heredado y todavía no se validaron (sin profesionalId
+ * ni fechaFin) cuentan con la duración de la terapia; entre dos de ellos bloquea el de ID menor,
+ * para que de dos reservas simultáneas del mismo horario se confirme una sola.
+ * @param turnoId El turno que se valida (el que disparó el trigger), que no se compara consigo mismo.
+ */
+export const haySolapamiento = (
+  turnos: TurnoEnVentana[],
+  nuevo: { inicio: admin.firestore.Timestamp; duracionMinutos: number; bufferSegundos: number; turnoId?: string }
+): boolean => turnos.some(({ id, data }) => {
+  if (id === nuevo.turnoId) {
+    return false;
+  }
+  const sinValidar = !data.profesionalId;
+  if (sinValidar && nuevo.turnoId && id > nuevo.turnoId) {
+    return false;
+  }
+  const inicio = (data.fechaTurno as admin.firestore.Timestamp).seconds;
+  const fin = (data.fechaFin as admin.firestore.Timestamp | undefined)?.seconds ?? inicio + nuevo.duracionMinutos * 60;
+  // (InicioA < FinB) AND (FinA > InicioB), ampliada con el buffer
+  return inicio < nuevo.inicio.seconds + nuevo.duracionMinutos * 60 + nuevo.bufferSegundos &&
+    fin + nuevo.bufferSegundos > nuevo.inicio.seconds;
+});
+
+/**
+ * Verifica dentro de una transacción que la terapia exista, tenga profesional asignado,
+ * que el turno caiga dentro de la disponibilidad del profesional y que no se solape
+ * (considerando el buffer entre sesiones) con otro turno activo suyo.
+ * @param transaction Transacción en curso.
+ * @param terapiaId ID de la terapia.
+ * @param fechaTurno Timestamp de inicio del turno.
+ * @param turnoIdExcluido Turno que no debe considerarse (el que disparó el trigger).
+ * @returns Los datos de la terapia, el profesional, la duración y el fin calculado del turno.
+ */
+export const validarTurno = async (
+  transaction: admin.firestore.Transaction,
+  terapiaId: string,
+  fechaTurno: admin.firestore.Timestamp,
+  turnoIdExcluido?: string
+) => {
+  const terapiaRef = colecciones.terapias.doc(terapiaId);
+  const terapiaDoc = await transaction.get(terapiaRef);
+
+  if (!terapiaDoc.exists) {
+    throw new HttpsError(
+      "not-found",
+      `La terapia con ID ${terapiaId} no existe.`
+    );
+  }
+
+  const terapiaData = terapiaDoc.data();
+  if (terapiaData?.archivada) {
+    throw new HttpsError(
+      "failed-precondition",
+      `La terapia ${terapiaData.nombre} ya no está disponible.`
+    );
+  }
+  const duracionTerapia = terapiaData?.duracionMinutos || 0;
+  const profesionalId = terapiaData?.profesionalId;
+
+  if (!profesionalId) {
+    throw new HttpsError(
+      "failed-precondition",
+      `La terapia ${terapiaData?.nombre} no tiene un profesional asignado.`
+    );
+  }
+
+  if (duracionTerapia <= 0 || duracionTerapia > MAX_DURACION_TURNO_MINUTOS) {
+    throw new HttpsError(
+      "failed-precondition",
+      `La terapia ${terapiaData?.nombre} tiene una duración inválida (${duracionTerapia} min).`
+    );
+  }
+
+  // Calcula el fin del turno actual
+  const finTurnoActual = new admin.firestore.Timestamp(
+    fechaTurno.seconds + duracionTerapia * 60,
+    fechaTurno.nanoseconds
+  );
+
+  // El turno debe caer dentro del horario de atención, fuera de pausas y ausencias
+  const disponibilidadDoc = await transaction.get(db.collection("disponibilidades").doc(profesionalId));
+  const disponibilidad = disponibilidadDoc.data() as Disponibilidad | undefined;
+  validarDisponibilidad(disponibilidad, fechaTurno.toDate(), finTurnoActual.toDate());
+  const bufferSegundos = (disponibilidad?.bufferMinutos || 0) * 60;
+
+  // Consulta si el profesional ya tiene turnos solapados.
+  // La condición de solapamiento es: (InicioA < FinB) AND (FinA > InicioB), ampliada con el buffer.
+  // Como ningún turno dura más de MAX_DURACION_TURNO_MINUTOS, alcanza con mirar los turnos del
+  // profesional que empiezan en la ventana [inicio - máx. duración - buffer, fin + buffer).
+  const inicioVentana = admin.firestore.Timestamp.fromMillis(
+    fechaTurno.toMillis() - (MAX_DURACION_TURNO_MINUTOS * 60 + bufferSegundos) * 1000
+  );
+  const finVentana = admin.firestore.Timestamp.fromMillis(finTurnoActual.toMillis() + bufferSegundos * 1000);
+
+  const turnosEnVentana = (campo: "profesionalId" | "terapiaId", valor: string) => transaction.get(
+    db
+      .collection("turnos")
+      .where(campo, "==", valor)
+      .where("estado", "in", ["confirmado", "pendiente"]) // Solo turnos activos
+      .where("fechaTurno", ">=", inicioVentana)
+      .where("fechaTurno", "<", finVentana)
+  );
+  // Los turnos del trigger heredado reciben profesionalId recién al validarse: se buscan también por terapia
+  const [delProfesional, deLaTerapia] = await Promise.all([
+    turnosEnVentana("profesionalId", profesionalId),
+    turnosEnVentana("terapiaId", terapiaId),
+  ]);
+  const turnos = new Map<string, admin.firestore.DocumentData>();
+  for (const doc of [...delProfesional.docs, ...deLaTerapia.docs]) {
+    const data = doc.data();
+    if (!data.profesionalId || data.profesionalId === profesionalId) {
+      turnos.set(doc.id, data);
+    }
+  }
+
+  const solapamientoEncontrado = haySolapamiento([...turnos].map(([id, data]) => ({ id, data })), {
+    inicio: fechaTurno,
+    duracionMinutos: duracionTerapia,
+    bufferSegundos,
+    turnoId: turnoIdExcluido,
+  });
+
+  if (solapamientoEncontrado) {
+    throw new HttpsError(
+      "already-exists",
+      `El terapeuta ya tiene un turno reservado para esa franja horaria.`
+    );
+  }
+
+  return { terapiaData, profesionalId, duracionMinutos: duracionTerapia, finTurno: finTurnoActual };
+};
+
+
+// --- Función: reservarTurno (para Terapias Individuales) ---
+// Trigger heredado: el cliente crea el turno y la función lo marca como "fallida" si se solapa.
+// Se mantiene durante la migración a la función callable crearTurno.
+export const reservarTurno = onDocumentCreated(
+  "turnos/{turnoId}",
+  async (event) => {
+    const snapshot = event.data;
+
+    if (!snapshot) {
+      console.error("No snapshot data found for onCreate event.");
+      return;
+    }
+
+    // Los turnos creados por crearTurno ya se validaron dentro de su transacción
+    if (snapshot.data().origen === "api") {
+      return;
+    }
+
+    // El cliente creó el documento: se valida contra el esquema compartido antes de usarlo
+    let nuevoTurno: Documento<Turno>;
+    try {
+      nuevoTurno = validarDatos(esquemaTurno, snapshot.data(), `turnos/${snapshot.id}`);
+    } catch (error: any) {
+      console.error(`Turno ${snapshot.id} inválido:`, error.message);
+      await snapshot.ref.update({ estado: "fallida", motivoFalla: error.message });
+      return;
+    }
+
+    const terapiaId = nuevoTurno.terapiaId;
+    const fechaTurno = nuevoTurno.fechaTurno; // Timestamp de inicio del turno
+    const usuarioId = nuevoTurno.usuarioId;
+
+    try {
+      await requerirPerfilCompleto(usuarioId);
+      await db.runTransaction(async (transaction) => {
+        const { terapiaData, profesionalId, duracionMinutos, finTurno } =
+          await validarTurno(transaction, terapiaId, fechaTurno, snapshot.id);
+        await verificarAusencias(transaction, usuarioId, obtenerPolitica(terapiaData));
+        await verificarIngreso(transaction, usuarioId, terapiaId, terapiaData?.nombre);
+
+        // Se guardan los datos desnormalizados que usa la consulta de solapamientos
+        transaction.update(snapshot.ref, { profesionalId, duracionMinutos, fechaFin: finTurno });
+        await encolarNotificacion("turno_confirmado", usuarioId, {
+          terapia: terapiaData?.nombre,
+          fecha: formatearFechaHoraLegible(fechaTurno.toDate()),
+        }, transaction);
+
+        // Si no hay solapamientos, el turno se crea.
+        console.log(`Turno ${snapshot.id} de ${terapiaData?.nombre} para ${usuarioId} a las ${fechaTurno.toDate().toLocaleString()} confirmado.`);
+      });
+    } catch (error: any) {
+      if (error instanceof HttpsError) {
+        console.error("Error al procesar el turno (transacción):", error.code, error.message);
+        await snapshot.ref.update({ estado: "fallida", motivoFalla: error.message });
+      } else {
+        console.error("Error inesperado en la transacción de turno:", error);
+        await snapshot.ref.update({ estado: "fallida", motivoFalla: "Error interno del servidor." });
+      }
+    }
+  }
+);
+
+
+// --- Función: crearTurno (callable) ---
+// Valida la terapia y los solapamientos del profesional y crea el turno en la misma transacción.
+export const crearTurno = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Debes iniciar sesión para reservar un turno.");
+  }
+
+  const { terapiaId, fechaTurno, paraUsuarioId } = request.data || {};
+
+  if (typeof terapiaId !== "string" || !terapiaId) {
+    throw new HttpsError("invalid-argument", "Falta indicar la terapia.");
+  }
+  const fechaMillis = typeof fechaTurno === "string" ? Date.parse(fechaTurno) : Number(fechaTurno);
+  if (!Number.isFinite(fechaMillis)) {
+    throw new HttpsError("invalid-argument", "La fecha del turno no es válida.");
+  }
+  // Un turno pasado consumiría crédito y lo tomaría el barrido de ausencias
+  if (fechaMillis <= Date.now()) {
+    throw new HttpsError("failed-precondition", "El horario del turno ya pasó.");
+  }
+
+  // Un tutor puede sacar turnos para una persona a su cargo
+  const usuarioId = await resolverPersona(request, paraUsuarioId);
+  await requerirPerfilCompleto(request.auth.uid);
+  const fecha = admin.firestore.Timestamp.fromMillis(fechaMillis);
+  const turnoRef = colecciones.turnos.doc();
+
+  try {
+    await db.runTransaction(async (transaction) => {
+      const { terapiaData, profesionalId, duracionMinutos, finTurno } =
+        await validarTurno(transaction, terapiaId, fecha);
+      await verificarAusencias(transaction, usuarioId, obtenerPolitica(terapiaData));
+      await verificarIngreso(transaction, usuarioId, terapiaId, terapiaData?.nombre);
+
+      transaction.set(turnoRef, {
+        usuarioId,
+        terapiaId,
+        profesionalId,
+        fechaTurno: fecha,
+        fechaFin: finTurno,
+        duracionMinutos,
+        estado: "confirmado",
+        origen: "api",
+        reservadoPor: request.auth?.uid,
+        fechaCreacion: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      await encolarNotificacion("turno_confirmado", usuarioId, {
+        terapia: terapiaData?.nombre,
+        fecha: formatearFechaHoraLegible(fecha.toDate()),
+      }, transaction);
+
+      console.log(`Turno ${turnoRef.id} de ${terapiaData?.nombre} para ${usuarioId} a las ${fecha.toDate().toLocaleString()} confirmado.`);
+    });
+  } catch (error: any) {
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+    console.error("Error inesperado en la transacción de turno:", error);
+    throw new HttpsError("internal", "Error interno del servidor.");
+  }
+
+  return { turnoId: turnoRef.id, estado: "confirmado" };
+});
+
+
+// --- Función: migrarTurnosDesnormalizados (callable, solo admin) ---
+// Completa profesionalId, duracionMinutos y fechaFin en los turnos creados antes de que
+// se guardaran esos datos. Es idempotente: los turnos ya migrados se saltean.
+export const migrarTurnosDesnormalizados = onCall({ timeoutSeconds: 540 }, async (request) => {
+  await requerirRol(request, ["admin"]);
+
+  const terapias = new Map<string, admin.firestore.DocumentData | undefined>();
+  let migrados = 0;
+  let sinTerapia = 0;
+  let ultimo: admin.firestore.QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    let pagina = db.collection("turnos").orderBy(admin.firestore.FieldPath.documentId()).limit(400);
+    if (ultimo) {
+      pagina = pagina.startAfter(ultimo);
+    }
+    const snapshot = await pagina.get();
+    if (snapshot.empty) break;
+
+    const batch = db.batch();
+    let cambios = 0;
+
+    for (const doc of snapshot.docs) {
+      const turno = doc.data();
+      if (turno.profesionalId && turno.fechaFin && turno.duracionMinutos) continue;
+
+      if (!terapias.has(turno.terapiaId)) {
+        terapias.set(turno.terapiaId, (await db.collection("terapias").doc(turno.terapiaId).get()).data());
+      }
+      const terapia = terapias.get(turno.terapiaId);
+      if (!terapia?.profesionalId || !turno.fechaTurno) {
+        console.warn(`Turno ${doc.id}: no se pudo migrar (terapia ${turno.terapiaId} inexistente o sin profesional).`);
+        sinTerapia++;
+        continue;
+      }
+
+      const duracionMinutos = terapia.duracionMinutos || 0;
+      batch.update(doc.ref, {
+        profesionalId: terapia.profesionalId,
+        duracionMinutos,
+        fechaFin: admin.firestore.Timestamp.fromMillis(turno.fechaTurno.toMillis() + duracionMinutos * 60 * 1000),
+      });
+      cambios++;
+    }
+
+    if (cambios > 0) {
+      await batch.commit();
+      migrados += cambios;
+    }
+    ultimo = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  console.log(`Migración de turnos: ${migrados} actualizados, ${sinTerapia} sin terapia válida.`);
+  return { migrados, sinTerapia };
+});
@@ -0,0 +1,301 @@
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
+import { CallableRequest, HttpsError, onCall } from "firebase-functions/v2/https";
+import { admin, db } from "./config";
+import { esFechaValida, fechaHoraLocal } from "./fechas";
+
+/**
+ * Verifica que quien invoca una función callable tenga alguno de los roles indicados.
+ * El rol se toma del custom claim 'tipo' y, si aún no está en el token, del documento del usuario.
+ * @returns El rol del usuario.
+ */
+export const requerirRol = async (request: CallableRequest, roles: string[]): Promise<string> => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Debes iniciar sesión.");
+  }
+
+  let tipo = request.auth.token.tipo as string | undefined;
+  if (!tipo) {
+    tipo = (await db.collection("usuarios").doc(request.auth.uid).get()).data()?.tipo;
+  }
+
+  if (!tipo || !roles.includes(tipo)) {
+    throw new HttpsError("permission-denied", "No tienes permisos para realizar esta acción.");
+  }
+  return tipo;
+};
+
+/**
+ * Indica si `tutorId` es el tutor de `usuarioId`: el dependiente lo tiene como tutorId
+ * y el tutor lo tiene en usuariosACargo.
+ */
+export const esTutorDe = async (tutorId: string, usuarioId: string): Promise<boolean> => {
+  const [tutorDoc, dependienteDoc] = await db.getAll(
+    db.collection("usuarios").doc(tutorId),
+    db.collection("usuarios").doc(usuarioId)
+  );
+  const usuariosACargo: string[] = tutorDoc.data()?.usuariosACargo || [];
+  return dependienteDoc.data()?.tutorId === tutorId && usuariosACargo.includes(usuarioId);
+};
+
+/**
+ * Indica si el usuario autenticado puede gestionar lo que pertenece a `usuarioId`
+ * (es él mismo o una persona a su cargo).
+ */
+export const puedeGestionar = async (uid: string, usuarioId: string): Promise<boolean> => {
+  return uid === usuarioId || esTutorDe(uid, usuarioId);
+};
+
+/**
+ * Devuelve la persona sobre la que actúa quien invoca una función callable:
+ * él mismo o, si indica `paraUsuarioId`, una persona a su cargo.
+ */
+export const resolverPersona = async (request: CallableRequest, paraUsuarioId?: unknown): Promise<string> => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Debes iniciar sesión.");
+  }
+  if (paraUsuarioId == null || paraUsuarioId === "" || paraUsuarioId === request.auth.uid) {
+    return request.auth.uid;
+  }
+  if (typeof paraUsuarioId !== "string") {
+    throw new HttpsError("invalid-argument", "La persona indicada no es válida.");
+  }
+  if (!(await esTutorDe(request.auth.uid, paraUsuarioId))) {
+    throw new HttpsError("permission-denied", "Solo podés gestionar a las personas a tu cargo.");
+  }
+  return paraUsuarioId;
+};
+
+// DNI argentino: 7 u 8 dígitos, con o sin puntos (ej. "12.345.678")
+const FORMATO_DNI = /^\d{7,8}$/;
+// Teléfono: entre 8 y 15 dígitos, admite "+", espacios, guiones y paréntesis
+const FORMATO_TELEFONO = /^\+?[\d\s()-]{8,20}$/;
+const EDAD_MAXIMA = 120;
+
+/**
+ * Quita puntos y espacios del DNI. El DNI se guarda siempre normalizado (solo dígitos).
+ */
+export const normalizarDni = (dni: string): string => dni.replace(/[.\s]/g, "");
+
+/**
+ * Valida y normaliza un DNI. Lanza HttpsError("invalid-argument").
+ */
+const validarDni = (dni: unknown): string => {
+  const normalizado = typeof dni === "string" ? normalizarDni(dni) : "";
+  if (!FORMATO_DNI.test(normalizado) || Number(normalizado) < 1000000) {
+    throw new HttpsError("invalid-argument", "El DNI debe tener 7 u 8 dígitos (ej. 12.345.678).");
+  }
+  return normalizado;
+};
+
+const esTelefonoValido = (telefono: unknown): telefono is string => {
+  if (typeof telefono !== "string" || !FORMATO_TELEFONO.test(telefono.trim())) return false;
+  const digitos = telefono.replace(/\D/g, "").length;
+  return digitos >= 8 && digitos <= 15;
+};
+
+/**
+ * Verifica dentro de una transacción que el DNI no lo tenga otra persona (índice dnis/{dni}).
+ * Lanza HttpsError("already-exists"). Debe llamarse antes de cualquier escritura de la transacción.
+ */
+const verificarDniDisponible = async (transaction: admin.firestore.Transaction, dni: string, usuarioId: string) => {
+  const existente = (await transaction.get(db.collection("dnis").doc(dni))).data();
+  if (existente && existente.usuarioId !== usuarioId) {
+    throw new HttpsError("already-exists", "Ya hay una persona registrada con ese DNI. Si es un error, consultá en recepción.");
+  }
+};
+
+/**
+ * Registra el DNI del usuario en el índice dnis/{dni} y libera el anterior si cambió.
+ */
+const registrarDni = (transaction: admin.firestore.Transaction, dni: string, usuarioId: string, dniAnterior?: string) => {
+  transaction.set(db.collection("dnis").doc(dni), { usuarioId, fechaCreacion: admin.firestore.FieldValue.serverTimestamp() });
+  if (dniAnterior && dniAnterior !== dni) {
+    transaction.delete(db.collection("dnis").doc(dniAnterior));
+  }
+};
+
+/**
+ * Verifica que el socio que reserva haya completado su perfil con completarPerfil.
+ * El personal (profesionales y admins) queda exceptuado.
+ * Lanza HttpsError("failed-precondition") con details.motivo = "perfil_incompleto".
+ */
+export const requerirPerfilCompleto = async (uid: string) => {
+  const usuario = (await db.collection("usuarios").doc(uid).get()).data();
+  if (usuario?.perfilCompleto === true || (usuario && usuario.tipo !== "socio")) return;
+  throw new HttpsError(
+    "failed-precondition",
+    "Completá tu perfil (DNI, fecha de nacimiento, teléfono y contacto de emergencia) antes de reservar.",
+    { motivo: "perfil_incompleto" }
+  );
+};
+
+
+// --- Función: completarPerfil (callable) ---
+// Guarda los datos obligatorios del perfil (paso de bienvenida): DNI único, fecha de nacimiento,
+// teléfono y contacto de emergencia. Hasta completarlo, el socio no puede reservar.
+export const completarPerfil = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Debes iniciar sesión.");
+  }
+
+  const { fechaNacimiento, telefono, contactoEmergencia } = request.data || {};
+  const dni = validarDni(request.data?.dni);
+  if (!esFechaValida(fechaNacimiento)) {
+    throw new HttpsError("invalid-argument", "La fecha de nacimiento no es válida.");
+  }
+  const nacimiento = fechaHoraLocal(fechaNacimiento);
+  const edadMinima = new Date();
+  edadMinima.setFullYear(edadMinima.getFullYear() - EDAD_MAXIMA);
+  if (nacimiento.getTime() > Date.now() || nacimiento < edadMinima) {
+    throw new HttpsError("invalid-argument", "La fecha de nacimiento no es válida.");
+  }
+  if (!esTelefonoValido(telefono)) {
+    throw new HttpsError("invalid-argument", "El teléfono no es válido (incluí la característica, ej. 11 2233-4455).");
+  }
+  const nombreContacto = contactoEmergencia?.nombre;
+  if (typeof nombreContacto !== "string" || !nombreContacto.trim() || nombreContacto.length > 100 ||
+    !esTelefonoValido(contactoEmergencia?.telefono)) {
+    throw new HttpsError("invalid-argument", "Indicá el nombre y el teléfono del contacto de emergencia.");
+  }
+
+  const usuarioId = request.auth.uid;
+  const usuarioRef = db.collection("usuarios").doc(usuarioId);
+  await db.runTransaction(async (transaction) => {
+    const usuario = (await transaction.get(usuarioRef)).data();
+    if (!usuario) {
+      throw new HttpsError("failed-precondition", "No se encontró tu perfil. Volvé a iniciar sesión.");
+    }
+    await verificarDniDisponible(transaction, dni, usuarioId);
+
+    registrarDni(transaction, dni, usuarioId, usuario.dni);
+    transaction.update(usuarioRef, {
+      dni,
+      fechaNacimiento: admin.firestore.Timestamp.fromDate(nacimiento),
+      telefono: telefono.trim(),
+      contactoEmergencia: { nombre: nombreContacto.trim(), telefono: contactoEmergencia.telefono.trim() },
+      perfilCompleto: true,
+    });
+  });
+
+  console.log(`Perfil de ${usuarioId} completado.`);
+  return { perfilCompleto: true };
+});
+
+
+// --- Función: crearDependiente (callable) ---
+// Crea el perfil de una persona a cargo (ej. un menor) que no tiene cuenta propia.
+// El tutor queda como responsable de pago y puede reservar en su nombre.
+export const crearDependiente = onCall(async (request) => {
+  if (!request.auth) {
+    throw new HttpsError("unauthenticated", "Debes iniciar sesión.");
+  }
+
+  const { nombre, fechaNacimiento, dni = "" } = request.data || {};
+  if (typeof nombre !== "string" || !nombre.trim() || nombre.length > 100) {
+    throw new HttpsError("invalid-argument", "Indicá el nombre de la persona a cargo.");
+  }
+  if (!esFechaValida(fechaNacimiento) || fechaHoraLocal(fechaNacimiento).getTime() > Date.now()) {
+    throw new HttpsError("invalid-argument", "La fecha de nacimiento no es válida.");
+  }
+  // El DNI de una persona a cargo es opcional (ej. un bebé), pero si se indica debe ser único
+  const dniNormalizado = typeof dni === "string" && dni.trim() ? validarDni(dni) : "";
+
+  const tutorId = request.auth.uid;
+  const tutorRef = db.collection("usuarios").doc(tutorId);
+  if (!(await tutorRef.get()).exists) {
+    throw new HttpsError("failed-precondition", "Completá tu perfil antes de agregar personas a cargo.");
+  }
+
+  const dependienteRef = db.collection("usuarios").doc();
+  await db.runTransaction(async (transaction) => {
+    if (dniNormalizado) {
+      await verificarDniDisponible(transaction, dniNormalizado, dependienteRef.id);
+      registrarDni(transaction, dniNormalizado, dependienteRef.id);
+    }
+
+    transaction.set(dependienteRef, {
+      dni: dniNormalizado,
+      nombre: nombre.trim(),
+      telefono: "",
+      fechaNacimiento: admin.firestore.Timestamp.fromDate(fechaHoraLocal(fechaNacimiento)),
+      tipo: "socio",
+      email: "",
+      uid: dependienteRef.id,
+      metadata: {
+        fechaCreacion: admin.firestore.FieldValue.serverTimestamp(),
+        dispositivo: "web",
+      },
+      responsableDePago: tutorId,
+      usuariosACargo: [],
+      esDependiente: true, // Sin cuenta en Auth: solo lo gestiona su tutor
+      tutorId,
+    });
+    transaction.update(tutorRef, { usuariosACargo: admin.firestore.FieldValue.arrayUnion(dependienteRef.id) });
+  });
+
+  console.log(`Dependiente ${dependienteRef.id} creado por ${tutorId}.`);
+  return { usuarioId: dependienteRef.id };
+});
+
+
+// --- Función: sincronizarRolUsuario ---
+// Refleja el campo 'tipo' de usuarios/{usuarioId} en los custom claims de Auth,
+// que es lo que consultan las reglas de seguridad de Firestore y Storage.
+// Si el rol baja se revocan los refresh tokens: el ID token y la cookie de sesión anteriores
+// conservan el rol viejo hasta vencer (verifySessionCookie comprueba la revocación).
+const ROLES_VALIDOS = ["socio", "profesional", "admin"];
+
+// Un rol "baja" si pasa a uno anterior en ROLES_VALIDOS o se quita (documento eliminado o sin tipo)
+export const bajaDeRol = (tipoAntes: unknown, tipoDespues: unknown): boolean =>
+  ROLES_VALIDOS.indexOf(tipoDespues as string) < ROLES_VALIDOS.indexOf(tipoAntes as string);
+
+export const sincronizarRolUsuario = onDocumentWritten(
+  "usuarios/{usuarioId}",
+  async (event) => {
+    const usuarioId = event.params.usuarioId;
+    const tipoAntes = event.data?.before?.data()?.tipo;
+    const tipoDespues = event.data?.after?.data()?.tipo;
+
+    // Si el rol no cambió (ej. solo se actualizó metadata.ultimoAcceso), no hay nada que hacer
+    if (event.data?.after.exists && tipoAntes === tipoDespues) {
+      return null;
+    }
+
+    // Los dependientes no tienen cuenta en Auth
+    if (event.data?.after?.data()?.esDependiente) {
+      return null;
+    }
+
+    if (tipoDespues && !ROLES_VALIDOS.includes(tipoDespues)) {
+      console.error(`Tipo de usuario inválido "${tipoDespues}" para ${usuarioId}. No se actualizan los claims.`);
+      return null;
+    }
+
+    try {
+      const usuarioAuth = await admin.auth().getUser(usuarioId);
+      const claims = { ...(usuarioAuth.customClaims || {}) };
+
+      if (event.data?.after.exists && tipoDespues) {
+        claims.tipo = tipoDespues;
+      } else {
+        // Documento eliminado o sin tipo: se quita el rol del token
+        delete claims.tipo;
+      }
+
+      await admin.auth().setCustomUserClaims(usuarioId, claims);
+      console.log(`Rol de ${usuarioId} sincronizado: ${tipoAntes || "ninguno"} -> ${claims.tipo || "ninguno"}.`);
+      if (bajaDeRol(tipoAntes, claims.tipo)) {
+        await admin.auth().revokeRefreshTokens(usuarioId);
+        console.log(`Sesiones de ${usuarioId} revocadas por la baja de rol.`);
+      }
+    } catch (error: any) {
+      if (error?.code === "auth/user-not-found") {
+        console.warn(`El usuario ${usuarioId} no existe en Auth. No se sincronizan los claims.`);
+      } else {
+        console.error(`Error al sincronizar el rol de ${usuarioId}:`, error);
+      }
+    }
+
+    return null;
+  }
+);
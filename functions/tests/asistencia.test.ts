@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { obtenerCodigoAsistencia } from "../src/asistencia";
+
+// Los datos inválidos se rechazan antes de leer Firestore: no hacen falta los emuladores.
+const solicitud = (data: unknown) =>
+  ({ auth: { uid: "socio1", token: {} }, data, rawRequest: {} }) as unknown as Parameters<typeof obtenerCodigoAsistencia.run>[0];
+
+describe("referencia a una reserva o turno", () => {
+  it("rechaza datos que no son un objeto o una colección desconocida", async () => {
+    for (const data of [null, "reservas/r1", { coleccion: "clases", id: "c1" }, { coleccion: "toString", id: "r1" }]) {
+      await expect(obtenerCodigoAsistencia.run(solicitud(data)))
+        .rejects.toMatchObject({ code: "invalid-argument", message: "Falta indicar la reserva o el turno." });
+    }
+  });
+
+  it("exige el ID como texto", async () => {
+    await expect(obtenerCodigoAsistencia.run(solicitud({ coleccion: "turnos", id: 7 })))
+      .rejects.toMatchObject({ code: "invalid-argument" });
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { admin } from "../src/config";
+import { ausenciasValidas } from "../src/disponibilidad";
+
+const marca = (iso: string) => admin.firestore.Timestamp.fromDate(new Date(iso));
+
+describe("ausenciasValidas", () => {
+  it("ignora las ausencias mal cargadas en lugar de fallar", () => {
+    const vacaciones = { desde: marca("2025-07-01T03:00:00Z"), hasta: marca("2025-07-15T03:00:00Z"), motivo: "Vacaciones" };
+    expect(ausenciasValidas([
+      vacaciones,
+      { desde: "2025-07-20", hasta: marca("2025-07-21T03:00:00Z") },
+      { desde: vacaciones.hasta, hasta: vacaciones.desde },
+      null,
+    ])).toEqual([{ inicio: vacaciones.desde.toMillis(), fin: vacaciones.hasta.toMillis(), motivo: "Vacaciones" }]);
+  });
+
+  it("tolera que el campo no sea una lista", () => {
+    expect(ausenciasValidas(undefined)).toEqual([]);
+    expect(ausenciasValidas({ desde: marca("2025-07-01T03:00:00Z") })).toEqual([]);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { admin } from "../src/config";
+import { CAMPOS_CARGO_RESERVA as campos, cambiaCargo, cambioDeCargo, datosCargoReserva } from "../src/facturacion";
+
+const actividad = { nombre: "Yoga", precio: 5000 };
+const fechaActividad = admin.firestore.Timestamp.fromMillis(Date.UTC(2025, 5, 2, 21, 30));
+
+describe("cargo de una reserva confirmada por el cliente", () => {
+  // Camino del cliente: la reserva se crea "confirmada" y reservarActividad le agrega después
+  // la membresía y el cupo, sin cambiar el estado
+  const creada = { usuarioId: "socio1", actividadId: "yoga", fechaActividad, estado: "confirmada" };
+  const conMembresia = { ...creada, membresiaId: "m1", cupoTomado: 1, creditosConsumidos: 0 };
+
+  it("se cobra la clase al crearla y se corrige cuando se asigna la membresía", () => {
+    expect(cambiaCargo(undefined, creada, campos)).toBe(true);
+    const alCrear = datosCargoReserva(creada, actividad);
+    expect(alCrear).toMatchObject({ monto: 5000, concepto: "Clase de Yoga" });
+    expect(cambioDeCargo(undefined, alCrear)).toBe("registrar");
+
+    const cargo = { ...alCrear, estado: "vigente" };
+    expect(cambiaCargo(creada, conMembresia, campos)).toBe(true);
+    const alAsignar = datosCargoReserva(conMembresia, actividad);
+    expect(alAsignar).toMatchObject({ monto: 0, concepto: "Clase de Yoga (incluida en el plan)" });
+    expect(cambioDeCargo(cargo, alAsignar)).toBe("corregir");
+    expect(cambioDeCargo({ ...cargo, ...alAsignar }, alAsignar)).toBeNull();
+  });
+
+  it("cobra cada cupo de una clase suelta", () => {
+    const dosCupos = { ...creada, cupoTomado: 2, membresiaId: null };
+    expect(cambiaCargo(creada, dosCupos, campos)).toBe(true);
+    expect(datosCargoReserva(dosCupos, actividad)?.monto).toBe(10000);
+  });
+
+  it("no resincroniza por cambios en otros campos y anula el cargo al cancelar", () => {
+    expect(cambiaCargo(conMembresia, { ...conMembresia, asistencia: "presente" }, campos)).toBe(false);
+    const cancelada = { ...conMembresia, estado: "cancelada_por_socio" };
+    expect(datosCargoReserva(cancelada, actividad)).toBeNull();
+    expect(cambioDeCargo({ estado: "vigente", monto: 0 }, null)).toBe("anular");
+    expect(cambioDeCargo({ estado: "anulado", monto: 0 }, null)).toBeNull();
+  });
+});
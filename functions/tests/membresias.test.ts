@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { admin } from "../src/config";
+import { aplicarConsumo, seleccionarMembresia } from "../src/membresias";
+
+// Transacción falsa: la consulta de membresías activas no devuelve ninguna
+const sinMembresias = {
+  get: async () => ({ docs: [] }),
+  update: () => {
+    throw new Error("No debería escribir");
+  },
+} as unknown as admin.firestore.Transaction;
+
+describe("reservas sin plan", () => {
+  it("seleccionarMembresia deja la clase como suelta en lugar de rechazarla", async () => {
+    const fecha = admin.firestore.Timestamp.fromMillis(Date.now() + 24 * 60 * 60 * 1000);
+    await expect(seleccionarMembresia(sinMembresias, "socio1", "yoga", fecha, 1)).resolves.toBeNull();
+  });
+
+  it("aplicarConsumo borra la membresía anterior para que facturarReserva cobre la clase", () => {
+    expect(aplicarConsumo(sinMembresias, null)).toEqual({
+      membresiaId: null,
+      creditosConsumidos: 0,
+      periodoCredito: null,
+      creditoDevuelto: false,
+    });
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from "vitest";
+import { crearReserva } from "../src/reservas";
+import { crearTurno } from "../src/turnos";
+
+// Los callables rechazan las fechas pasadas antes de tocar Firestore: no hacen falta los emuladores.
+// Ejecutar con: npm test
+const solicitud = (data: Record<string, unknown>) =>
+  ({ auth: { uid: "socio1", token: {} }, data, rawRequest: {} }) as unknown as Parameters<typeof crearReserva.run>[0];
+
+const haceUnaHora = () => new Date(Date.now() - 60 * 60 * 1000).toISOString();
+
+describe("fechas pasadas", () => {
+  it("crearReserva no reserva una clase que ya comenzó", async () => {
+    await expect(crearReserva.run(solicitud({ actividadId: "yoga", fechaActividad: haceUnaHora() })))
+      .rejects.toMatchObject({ code: "failed-precondition", message: "La clase ya comenzó." });
+  });
+
+  it("crearTurno no da un turno en un horario pasado", async () => {
+    await expect(crearTurno.run(solicitud({ terapiaId: "kinesiologia", fechaTurno: Date.now() - 1000 })))
+      .rejects.toMatchObject({ code: "failed-precondition", message: "El horario del turno ya pasó." });
+  });
+});
@@ -0,0 +1,19 @@
+import { join } from "path";
+import { describe, expect, it } from "vitest";
+import { DESTINO_PAGINAS } from "../../frontend/scripts/destino-paginas.mjs";
+import { directorioPaginas } from "../src/sesion";
+
+// Pruebas de las funciones que no necesitan los emuladores.
+// Ejecutar con: npm test
+const FUNCIONES = join(__dirname, "..");
+
+describe("paginaProtegida", () => {
+  it("lee las páginas de la carpeta a la que las copia el build del frontend", () => {
+    // Ubicación del código compilado (tsconfig de functions usa rootDir "..")
+    expect(directorioPaginas(join(FUNCIONES, "lib", "functions", "src"))).toBe(DESTINO_PAGINAS);
+  });
+
+  it("resuelve la misma carpeta desde el código fuente", () => {
+    expect(directorioPaginas(join(FUNCIONES, "src"))).toBe(DESTINO_PAGINAS);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { admin } from "../src/config";
+import { haySolapamiento } from "../src/turnos";
+
+const a = (hora: string) => admin.firestore.Timestamp.fromDate(new Date(`2025-06-02T${hora}:00-03:00`));
+
+describe("solapamiento de turnos", () => {
+  const nuevo = { inicio: a("10:00"), duracionMinutos: 45, bufferSegundos: 15 * 60 };
+
+  it("considera el buffer entre sesiones de turnos ya validados", () => {
+    const validado = { profesionalId: "prof1", fechaTurno: a("09:00"), fechaFin: a("09:50") };
+    expect(haySolapamiento([{ id: "t1", data: validado }], nuevo)).toBe(true);
+    // Termina 09:45: con 15 minutos de buffer, justo a tiempo
+    expect(haySolapamiento([{ id: "t1", data: { ...validado, fechaFin: a("09:45") } }], nuevo)).toBe(false);
+  });
+
+  it("de dos turnos simultáneos del trigger heredado confirma solo el de ID menor", () => {
+    // Ninguno tiene profesionalId ni fechaFin hasta que su trigger lo valida
+    const sinValidar = { terapiaId: "kine", fechaTurno: a("10:00"), estado: "pendiente" };
+    const turnos = [{ id: "A", data: sinValidar }, { id: "B", data: sinValidar }];
+    expect(haySolapamiento(turnos, { ...nuevo, turnoId: "A" })).toBe(false);
+    expect(haySolapamiento(turnos, { ...nuevo, turnoId: "B" })).toBe(true);
+  });
+
+  it("un turno sin validar bloquea a crearTurno", () => {
+    const sinValidar = { terapiaId: "kine", fechaTurno: a("10:30"), estado: "pendiente" };
+    expect(haySolapamiento([{ id: "A", data: sinValidar }], nuevo)).toBe(true);
+  });
+});
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { bajaDeRol } from "../src/usuarios";
+
+describe("bajaDeRol", () => {
+  it("detecta cuando se quita o se reduce el rol", () => {
+    expect(bajaDeRol("admin", "profesional")).toBe(true);
+    expect(bajaDeRol("admin", "socio")).toBe(true);
+    expect(bajaDeRol("profesional", undefined)).toBe(true);
+    expect(bajaDeRol("socio", undefined)).toBe(true);
+  });
+
+  it("no revoca al crear el usuario ni al subir de rol", () => {
+    expect(bajaDeRol(undefined, "socio")).toBe(false);
+    expect(bajaDeRol("socio", "admin")).toBe(false);
+    expect(bajaDeRol("profesional", "profesional")).toBe(false);
+  });
+});
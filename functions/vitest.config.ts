@@ -0,0 +1,8 @@
+import { defineConfig } from "vitest/config";
+
+// Pruebas de las funciones que no necesitan los emuladores (los callables se invocan con .run)
+export default defineConfig({
+  test: {
+    include: ["tests/**/*.test.ts"],
+  },
+});
@@ -0,0 +1,15 @@
+import { EsquemaObjeto, MarcaTiempo, marcaTiempo, objeto, opcional, texto } from "./validacion";
+
+/**
+ * Documento calendarios/{token}: feed .ics privado de un usuario. El token es el secreto de la
+ * URL; para revocarlo se borra el documento.
+ */
+export interface FeedCalendario {
+  usuarioId: string;
+  fechaCreacion?: MarcaTiempo;
+}
+
+export const esquemaFeedCalendario: EsquemaObjeto<FeedCalendario> = objeto({
+  usuarioId: texto({ min: 1 }),
+  fechaCreacion: opcional(marcaTiempo()),
+});
@@ -0,0 +1,99 @@
+import { EsquemaObjeto, MarcaTiempo, booleano, lista, nulable, numero, objeto, opcional, texto } from "./validacion";
+
+// Ningún turno puede durar más (las consultas de solapamiento dependen de este límite)
+export const MAX_DURACION_TURNO_MINUTOS = 240;
+
+export const FORMATO_HORA = /^([01]\d|2[0-3]):[0-5]\d$/;
+export const FORMATO_FECHA = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+export const horaLocal = () => texto({ formato: FORMATO_HORA, descripcion: "HH:mm" });
+export const fechaLocal = () => texto({ formato: FORMATO_FECHA, descripcion: "YYYY-MM-DD" });
+
+// Campo politicaCancelacion de actividades y terapias (lo no definido toma el valor por defecto)
+export interface PoliticaCancelacion {
+  horasLimite?: number;
+  cargoCancelacionTardia?: number;
+  cargoAusencia?: number;
+  maxAusencias?: number;
+  diasVentanaAusencias?: number;
+}
+
+// Regla de recurrencia semanal de actividades.horarios
+export interface ReglaHorario {
+  dias: number[]; // 0 = domingo ... 6 = sábado
+  horaInicio: string; // "HH:mm"
+  duracionMinutos: number;
+  vigenciaDesde: string; // "YYYY-MM-DD"
+  vigenciaHasta?: string | null;
+  excepciones?: string[]; // Días "YYYY-MM-DD" sin clase
+}
+
+// Documento actividades/{actividadId}
+export interface Actividad {
+  nombre: string;
+  descripcion?: string;
+  cupo: number;
+  precio?: number;
+  profesorId?: string | null;
+  horarios?: ReglaHorario[];
+  politicaCancelacion?: PoliticaCancelacion;
+  archivada?: boolean;
+  fechaCreacion?: MarcaTiempo;
+  fechaActualizacion?: MarcaTiempo;
+}
+
+// Documento terapias/{terapiaId}
+export interface Terapia {
+  nombre: string;
+  descripcion?: string;
+  duracionMinutos: number;
+  profesionalId?: string | null;
+  precio?: number;
+  politicaCancelacion?: PoliticaCancelacion;
+  archivada?: boolean;
+  fechaCreacion?: MarcaTiempo;
+  fechaActualizacion?: MarcaTiempo;
+}
+
+const montoOpcional = () => opcional(numero({ min: 0 }));
+
+export const esquemaPoliticaCancelacion: EsquemaObjeto<PoliticaCancelacion> = objeto({
+  horasLimite: montoOpcional(),
+  cargoCancelacionTardia: montoOpcional(),
+  cargoAusencia: montoOpcional(),
+  maxAusencias: opcional(numero({ entero: true, min: 0 })),
+  diasVentanaAusencias: opcional(numero({ entero: true, min: 1 })),
+});
+
+export const esquemaReglaHorario: EsquemaObjeto<ReglaHorario> = objeto({
+  dias: lista(numero({ entero: true, min: 0, max: 6 }), { min: 1 }),
+  horaInicio: horaLocal(),
+  duracionMinutos: numero({ entero: true, min: 1 }),
+  vigenciaDesde: fechaLocal(),
+  vigenciaHasta: opcional(nulable(fechaLocal())),
+  excepciones: opcional(lista(fechaLocal())),
+});
+
+// Mismos límites que nombreValido en las reglas de Firestore
+const nombre = () => texto({ min: 1, max: 100 });
+
+export const esquemaActividad: EsquemaObjeto<Actividad> = objeto({
+  nombre: nombre(),
+  descripcion: opcional(texto()),
+  cupo: numero({ entero: true, min: 1 }),
+  precio: montoOpcional(),
+  profesorId: opcional(nulable(texto({ min: 1 }))),
+  horarios: opcional(lista(esquemaReglaHorario)),
+  politicaCancelacion: opcional(esquemaPoliticaCancelacion),
+  archivada: opcional(booleano()),
+});
+
+export const esquemaTerapia: EsquemaObjeto<Terapia> = objeto({
+  nombre: nombre(),
+  descripcion: opcional(texto()),
+  duracionMinutos: numero({ entero: true, min: 1, max: MAX_DURACION_TURNO_MINUTOS }),
+  profesionalId: opcional(nulable(texto({ min: 1 }))),
+  precio: montoOpcional(),
+  politicaCancelacion: opcional(esquemaPoliticaCancelacion),
+  archivada: opcional(booleano()),
+});
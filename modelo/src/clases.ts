@@ -0,0 +1,33 @@
+import { EsquemaObjeto, MarcaTiempo, booleano, enumerado, marcaTiempo, nulable, numero, objeto, opcional, texto } from "./validacion";
+
+export const ESTADOS_CLASE = ["programada", "suspendida", "cancelada"] as const;
+export type EstadoClase = typeof ESTADOS_CLASE[number];
+
+// Documento clases/{claseId}: instancia generada por las funciones a partir de actividades.horarios
+export interface Clase {
+  actividadId: string;
+  nombre: string;
+  fechaInicio: MarcaTiempo;
+  fechaFin: MarcaTiempo;
+  duracionMinutos: number;
+  cupo: number;
+  profesorId: string | null;
+  reemplazoProfesor?: boolean; // El profesor se asignó a mano para esta clase
+  estado: EstadoClase;
+  suspensionId?: string; // Suspensión que la dio de baja (estado "suspendida")
+  fechaActualizacion?: MarcaTiempo;
+}
+
+export const esquemaClase: EsquemaObjeto<Clase> = objeto({
+  actividadId: texto({ min: 1 }),
+  nombre: texto(),
+  fechaInicio: marcaTiempo(),
+  fechaFin: marcaTiempo(),
+  duracionMinutos: numero({ entero: true, min: 1 }),
+  cupo: numero({ entero: true, min: 0 }),
+  profesorId: nulable(texto({ min: 1 })),
+  reemplazoProfesor: opcional(booleano()),
+  estado: enumerado(ESTADOS_CLASE),
+  suspensionId: opcional(texto({ min: 1 })),
+  fechaActualizacion: opcional(marcaTiempo()),
+});
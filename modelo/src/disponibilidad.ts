@@ -0,0 +1,43 @@
+import { horaLocal } from "./catalogo";
+import { EsquemaObjeto, MarcaTiempo, lista, marcaTiempo, numero, objeto, opcional, texto } from "./validacion";
+
+// Franja horaria semanal: día de la semana y rango "HH:mm"
+export interface FranjaSemanal {
+  dia: number; // 0 = domingo ... 6 = sábado
+  desde: string; // "HH:mm"
+  hasta: string; // "HH:mm"
+}
+
+// Día libre, vacaciones, licencia u horario bloqueado desde la agenda
+export interface Ausencia {
+  desde: MarcaTiempo;
+  hasta: MarcaTiempo;
+  motivo?: string;
+}
+
+// Documento disponibilidades/{profesionalId}
+export interface Disponibilidad {
+  horarios: FranjaSemanal[]; // Horario de atención semanal
+  pausas?: FranjaSemanal[]; // Descansos dentro del horario (almuerzo, etc.)
+  bufferMinutos?: number; // Tiempo libre obligatorio entre sesiones
+  ausencias?: Ausencia[];
+}
+
+export const esquemaFranjaSemanal: EsquemaObjeto<FranjaSemanal> = objeto({
+  dia: numero({ entero: true, min: 0, max: 6 }),
+  desde: horaLocal(),
+  hasta: horaLocal(),
+}, (franja) => (franja.desde < franja.hasta ? null : `La franja ${franja.desde}-${franja.hasta} termina antes de empezar.`));
+
+export const esquemaAusencia: EsquemaObjeto<Ausencia> = objeto({
+  desde: marcaTiempo(),
+  hasta: marcaTiempo(),
+  motivo: opcional(texto()),
+});
+
+export const esquemaDisponibilidad: EsquemaObjeto<Disponibilidad> = objeto({
+  horarios: lista(esquemaFranjaSemanal),
+  pausas: opcional(lista(esquemaFranjaSemanal)),
+  bufferMinutos: opcional(numero({ entero: true, min: 0 })),
+  ausencias: opcional(lista(esquemaAusencia)),
+});
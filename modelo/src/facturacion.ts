@@ -0,0 +1,146 @@
+import { EsquemaObjeto, MarcaTiempo, enumerado, lista, marcaTiempo, numero, objeto, opcional, texto } from "./validacion";
+
+export const FORMATO_PERIODO = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// Mes facturado ("YYYY-MM", hora local)
+const periodo = () => texto({ formato: FORMATO_PERIODO, descripcion: "YYYY-MM" });
+const id = () => texto({ min: 1 });
+const monto = () => numero({ min: 0 });
+
+// Colección del documento que origina un cargo (el cargo es cargos/{origen}_{referenciaId})
+export const ORIGENES_CARGO = ["reservas", "turnos", "penalizaciones", "membresias"] as const;
+export type OrigenCargo = typeof ORIGENES_CARGO[number];
+
+export const ESTADOS_CARGO = ["vigente", "anulado"] as const;
+export type EstadoCargo = typeof ESTADOS_CARGO[number];
+
+// Medios de pago que el admin puede registrar a mano
+export const MEDIOS_PAGO = ["efectivo", "transferencia"] as const;
+export type MedioPago = typeof MEDIOS_PAGO[number];
+
+export const TIPOS_PENALIZACION = ["cancelacion_tardia", "ausencia"] as const;
+export type TipoPenalizacion = typeof TIPOS_PENALIZACION[number];
+
+export const ESTADOS_PENALIZACION = ["pendiente", "anulada"] as const;
+export type EstadoPenalizacion = typeof ESTADOS_PENALIZACION[number];
+
+// Documento cargos/{origen}_{referenciaId}: lo que se factura a un responsable de pago por un documento
+export interface Cargo {
+  usuarioId: string; // Quién consumió
+  responsableId: string; // Quién paga
+  concepto: string;
+  monto: number;
+  fecha: MarcaTiempo;
+  periodo: string;
+  origen: OrigenCargo;
+  referenciaId: string;
+  estado: EstadoCargo;
+  motivoAnulacion?: string;
+  fechaCreacion?: MarcaTiempo;
+  fechaActualizacion?: MarcaTiempo;
+  fechaAnulacion?: MarcaTiempo;
+}
+
+// Renglón de un resumen: un cargo vigente del período
+export interface ItemResumen {
+  cargoId: string;
+  usuarioId: string;
+  nombre: string;
+  concepto: string;
+  fecha: MarcaTiempo;
+  monto: number;
+}
+
+// Documento resumenes/{responsableId}_{periodo}: lo regenera generarResumen con cada cargo o pago
+export interface Resumen {
+  responsableId: string;
+  nombreResponsable: string;
+  periodo: string;
+  items: ItemResumen[];
+  subtotales: { usuarioId: string; nombre: string; total: number }[];
+  total: number;
+  pagado: number;
+  saldo: number; // Negativo si pagó de más
+  estado: "pendiente" | "pagado";
+  fechaEmision?: MarcaTiempo;
+}
+
+// Documento pagos/{pagoId}: pago manual a cuenta del resumen de un período
+export interface Pago {
+  responsableId: string;
+  periodo: string;
+  monto: number;
+  medio: MedioPago;
+  referencia: string;
+  registradoPor: string;
+  fecha?: MarcaTiempo;
+}
+
+// Documento penalizaciones/{coleccion}_{referenciaId}_{tipo}: una por reserva o turno y tipo
+export interface Penalizacion {
+  usuarioId: string;
+  tipo: TipoPenalizacion;
+  coleccion: "reservas" | "turnos";
+  referenciaId: string;
+  monto: number;
+  descripcion: string;
+  estado: EstadoPenalizacion; // "anulada" la marca un admin y descuenta el cargo
+  fecha?: MarcaTiempo;
+}
+
+export const esquemaCargo: EsquemaObjeto<Cargo> = objeto({
+  usuarioId: id(),
+  responsableId: id(),
+  concepto: texto({ min: 1 }),
+  monto: monto(),
+  fecha: marcaTiempo(),
+  periodo: periodo(),
+  origen: enumerado(ORIGENES_CARGO),
+  referenciaId: id(),
+  estado: enumerado(ESTADOS_CARGO),
+  motivoAnulacion: opcional(texto()),
+  fechaCreacion: opcional(marcaTiempo()),
+  fechaActualizacion: opcional(marcaTiempo()),
+  fechaAnulacion: opcional(marcaTiempo()),
+});
+
+export const esquemaResumen: EsquemaObjeto<Resumen> = objeto({
+  responsableId: id(),
+  nombreResponsable: texto(),
+  periodo: periodo(),
+  items: lista(objeto({
+    cargoId: id(),
+    usuarioId: id(),
+    nombre: texto(),
+    concepto: texto(),
+    fecha: marcaTiempo(),
+    monto: monto(),
+  })),
+  subtotales: lista(objeto({ usuarioId: id(), nombre: texto(), total: monto() })),
+  total: monto(),
+  pagado: monto(),
+  saldo: numero(),
+  estado: enumerado(["pendiente", "pagado"] as const),
+  fechaEmision: opcional(marcaTiempo()),
+});
+
+export const esquemaPago: EsquemaObjeto<Pago> = objeto({
+  responsableId: id(),
+  periodo: periodo(),
+  monto: monto(),
+  medio: enumerado(MEDIOS_PAGO),
+  referencia: texto({ max: 200 }),
+  registradoPor: id(),
+  fecha: opcional(marcaTiempo()),
+});
+
+export const esquemaPenalizacion: EsquemaObjeto<Penalizacion> = objeto({
+  usuarioId: id(),
+  tipo: enumerado(TIPOS_PENALIZACION),
+  coleccion: enumerado(["reservas", "turnos"] as const),
+  referenciaId: id(),
+  monto: monto(),
+  descripcion: texto(),
+  estado: enumerado(ESTADOS_PENALIZACION),
+  fecha: opcional(marcaTiempo()),
+});
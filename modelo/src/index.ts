@@ -0,0 +1,16 @@
+// Modelo de datos compartido por el frontend y las funciones: tipos de cada colección de Firestore
+// y esquemas para validarlos en tiempo de ejecución (ver validacion.ts).
+export * from "./validacion";
+export * from "./calendarios";
+export * from "./catalogo";
+export * from "./clases";
+export * from "./disponibilidad";
+export * from "./facturacion";
+export * from "./ingreso";
+export * from "./listaEspera";
+export * from "./membresias";
+export * from "./notasClinicas";
+export * from "./notificaciones";
+export * from "./reservas";
+export * from "./suspensiones";
+export * from "./usuarios";
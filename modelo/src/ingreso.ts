@@ -0,0 +1,137 @@
+import { Esquema, EsquemaObjeto, MarcaTiempo, booleano, enumerado, lista, mapa, marcaTiempo, nulable, numero, objeto, opcional, texto } from "./validacion";
+
+export const MAX_PREGUNTAS = 50;
+export const MAX_LARGO_CONSENTIMIENTO = 20000;
+export const MAX_OPCIONES_PREGUNTA = 20;
+export const MAX_PASOS_ESCALA = 10;
+export const MAX_LARGO_RESPUESTA = 2000;
+
+export const TIPOS_PREGUNTA = ["texto", "opcion", "escala"] as const;
+export type TipoPregunta = (typeof TIPOS_PREGUNTA)[number];
+
+// Pregunta de cuestionarios/{terapiaId}/versiones/{version}
+export interface Pregunta {
+  id: string; // Clave de la respuesta
+  tipo: TipoPregunta;
+  enunciado: string;
+  obligatoria: boolean;
+  opciones?: string[]; // tipo "opcion"
+  multiple?: boolean; // tipo "opcion": permite elegir varias
+  min?: number; // tipo "escala"
+  max?: number; // tipo "escala"
+}
+
+// Respuesta a una pregunta: texto, opción elegida (o varias) o valor de la escala
+export type Respuesta = string | string[] | number;
+
+// Texto con al menos un carácter que no sea espacio
+const textoVisible = (max: number) => texto({ min: 1, max, formato: /\S/, descripcion: "de texto, no solo espacios" });
+
+export const esquemaPregunta: EsquemaObjeto<Pregunta> = objeto({
+  id: texto({ formato: /^[a-z0-9_-]{1,40}$/, descripcion: "de minúsculas, números, '-' o '_' (hasta 40)" }),
+  tipo: enumerado(TIPOS_PREGUNTA),
+  enunciado: textoVisible(500),
+  obligatoria: booleano(),
+  opciones: opcional(lista(textoVisible(200))),
+  multiple: opcional(booleano()),
+  min: opcional(numero({ entero: true })),
+  max: opcional(numero({ entero: true })),
+},
+(p) => {
+  const cantidad = p.opciones?.length || 0;
+  return p.tipo !== "opcion" || (cantidad >= 2 && cantidad <= MAX_OPCIONES_PREGUNTA)
+    ? null
+    : `La pregunta '${p.id}' debe tener entre 2 y ${MAX_OPCIONES_PREGUNTA} opciones.`;
+},
+(p) => (p.tipo !== "escala" || (p.min != null && p.max != null && p.min < p.max && p.max - p.min <= MAX_PASOS_ESCALA)
+  ? null
+  : `La escala de la pregunta '${p.id}' no es válida (hasta ${MAX_PASOS_ESCALA} pasos).`));
+
+/**
+ * Esquema de la respuesta a una pregunta publicada. Las respuestas vacías (de preguntas
+ * no obligatorias) se descartan antes de validar.
+ */
+export const esquemaRespuesta = (pregunta: Pregunta): Esquema<Respuesta> => {
+  if (pregunta.tipo === "texto") return textoVisible(MAX_LARGO_RESPUESTA);
+  if (pregunta.tipo === "opcion") {
+    const opcion = enumerado(pregunta.opciones || []);
+    return pregunta.multiple ? lista(opcion, { min: 1 }) : opcion;
+  }
+  return numero({ entero: true, min: pregunta.min, max: pregunta.max });
+};
+
+// Respuesta ya guardada: se validó contra su pregunta al enviarla (enviarRespuestasIngreso)
+const respuestaGuardada: Esquema<Respuesta> = {
+  validar(valor, ruta, errores) {
+    const esTexto = (v: unknown) => typeof v === "string";
+    if (!esTexto(valor) && !(typeof valor === "number" && Number.isFinite(valor)) && !(Array.isArray(valor) && valor.every(esTexto))) {
+      errores.push(`'${ruta}' debe ser un texto, una lista de textos o un número.`);
+    }
+    return valor as Respuesta;
+  },
+};
+
+// Documento cuestionarios/{terapiaId}: apunta a la versión vigente del cuestionario de la terapia
+export interface Cuestionario {
+  terapiaId: string;
+  versionActual: number;
+  activo: boolean; // false = la terapia no pide cuestionario de ingreso
+  fechaActualizacion?: MarcaTiempo;
+}
+
+/**
+ * Documento cuestionarios/{terapiaId}/versiones/{version}. Las versiones no se modifican:
+ * para cambiar el cuestionario se publica una nueva (publicarCuestionario).
+ */
+export interface VersionCuestionario {
+  version: number;
+  preguntas: Pregunta[];
+  consentimiento: { titulo: string; texto: string };
+  creadoPor?: string;
+  fechaCreacion?: MarcaTiempo;
+}
+
+// Documento respuestasIngreso/{usuarioId}_{terapiaId}: se guarda una sola vez y no se modifica
+export interface RespuestasIngreso {
+  usuarioId: string;
+  terapiaId: string;
+  version: number; // Versión del cuestionario respondida
+  respuestas: Record<string, Respuesta>; // Por id de pregunta
+  consentimiento: { titulo: string; aceptado: boolean; firma: string; ip: string | null };
+  completadoPor: string; // UID de quien lo completó (el tutor, si es una persona a cargo)
+  fechaRespuesta?: MarcaTiempo;
+}
+
+const version = () => numero({ entero: true, min: 1 });
+
+export const esquemaCuestionario: EsquemaObjeto<Cuestionario> = objeto({
+  terapiaId: texto({ min: 1 }),
+  versionActual: version(),
+  activo: booleano(),
+  fechaActualizacion: opcional(marcaTiempo()),
+});
+
+export const esquemaVersionCuestionario: EsquemaObjeto<VersionCuestionario> = objeto({
+  version: version(),
+  preguntas: lista(esquemaPregunta, { min: 1 }),
+  consentimiento: objeto({ titulo: textoVisible(200), texto: textoVisible(MAX_LARGO_CONSENTIMIENTO) }),
+  creadoPor: opcional(texto({ min: 1 })),
+  fechaCreacion: opcional(marcaTiempo()),
+},
+(v) => v.preguntas.length <= MAX_PREGUNTAS ? null : `El cuestionario debe tener entre 1 y ${MAX_PREGUNTAS} preguntas.`);
+
+export const esquemaRespuestasIngreso: EsquemaObjeto<RespuestasIngreso> = objeto({
+  usuarioId: texto({ min: 1 }),
+  terapiaId: texto({ min: 1 }),
+  version: version(),
+  respuestas: mapa(respuestaGuardada),
+  consentimiento: objeto({
+    titulo: texto({ min: 1 }),
+    aceptado: booleano(),
+    firma: textoVisible(100),
+    ip: nulable(texto()),
+  }),
+  completadoPor: texto({ min: 1 }),
+  fechaRespuesta: opcional(marcaTiempo()),
+},
+(r) => r.consentimiento.aceptado ? null : "El consentimiento informado debe estar aceptado.");
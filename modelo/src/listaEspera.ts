@@ -0,0 +1,37 @@
+import { EsquemaObjeto, MarcaTiempo, enumerado, marcaTiempo, numero, objeto, opcional, texto } from "./validacion";
+
+// esperando → ofrecida (se le retiene un lugar) → aceptada; o cancelada / expirada
+export const ESTADOS_LISTA_ESPERA = ["esperando", "ofrecida", "aceptada", "cancelada", "expirada"] as const;
+export type EstadoListaEspera = typeof ESTADOS_LISTA_ESPERA[number];
+
+// Documento listaEspera/{entradaId}: un socio esperando lugar en una clase llena
+export interface EntradaListaEspera {
+  claseId: string;
+  actividadId: string;
+  fechaActividad: MarcaTiempo; // Inicio de la clase
+  usuarioId: string;
+  cupoTomado: number;
+  estado: EstadoListaEspera;
+  fechaAlta: MarcaTiempo; // Define el orden (FIFO)
+  reservaId?: string; // Reserva "pendiente" que retiene el lugar ofrecido
+  fechaOferta?: MarcaTiempo;
+  vencimientoOferta?: MarcaTiempo;
+  fechaAceptacion?: MarcaTiempo;
+  motivoCancelacion?: string;
+}
+
+export const esquemaEntradaListaEspera: EsquemaObjeto<EntradaListaEspera> = objeto({
+  claseId: texto({ min: 1 }),
+  actividadId: texto({ min: 1 }),
+  fechaActividad: marcaTiempo(),
+  usuarioId: texto({ min: 1 }),
+  cupoTomado: numero({ entero: true, min: 1 }),
+  estado: enumerado(ESTADOS_LISTA_ESPERA),
+  fechaAlta: marcaTiempo(),
+  reservaId: opcional(texto({ min: 1 })),
+  fechaOferta: opcional(marcaTiempo()),
+  vencimientoOferta: opcional(marcaTiempo()),
+  fechaAceptacion: opcional(marcaTiempo()),
+  motivoCancelacion: opcional(texto()),
+},
+(entrada) => entrada.estado === "ofrecida" && !entrada.reservaId ? "Una entrada ofrecida debe indicar 'reservaId'." : null);
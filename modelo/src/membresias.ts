@@ -0,0 +1,78 @@
+import { EsquemaObjeto, MarcaTiempo, booleano, enumerado, lista, mapa, marcaTiempo, nulable, numero, objeto, opcional, texto } from "./validacion";
+
+/**
+ * Tipos de plan:
+ * - "ilimitado": clases sin límite mientras la membresía esté vigente.
+ * - "mensual": hasta `creditos` clases por mes calendario (según la fecha de la clase).
+ * - "pack": `creditos` clases en total, a usar antes de `vigenciaDias` desde la asignación.
+ */
+export const TIPOS_PLAN = ["ilimitado", "mensual", "pack"] as const;
+export type TipoPlan = typeof TIPOS_PLAN[number];
+
+// activa = se usa al reservar; cancelada = la dio de baja un admin
+export const ESTADOS_MEMBRESIA = ["activa", "cancelada"] as const;
+export type EstadoMembresia = typeof ESTADOS_MEMBRESIA[number];
+
+// Documento planes/{planId}: plan ofrecido por el gimnasio (lo administra el admin)
+export interface Plan {
+  nombre: string;
+  tipo: TipoPlan;
+  creditos?: number | null; // Clases por mes (mensual) o en total (pack); null si es ilimitado
+  vigenciaDias?: number | null;
+  precio?: number; // Sin precio = 0
+  actividadIds?: string[]; // Vacío = todas las actividades
+  activo?: boolean; // false = no se puede asignar
+}
+
+// Documento membresias/{membresiaId}: plan asignado a un socio (asignarPlan). Copia los datos
+// del plan al asignarlo, para que un cambio posterior del plan no lo afecte.
+export interface Membresia {
+  usuarioId: string;
+  planId: string;
+  nombrePlan: string;
+  tipo: TipoPlan;
+  precio: number;
+  creditos: number | null;
+  actividadIds: string[];
+  fechaInicio: MarcaTiempo;
+  fechaVencimiento: MarcaTiempo | null;
+  creditosUsados: number; // Planes pack
+  usosPorPeriodo: Record<string, number>; // Planes mensuales: clases usadas por "YYYY-MM"
+  estado: EstadoMembresia;
+  asignadoPor?: string;
+  fechaCreacion?: MarcaTiempo;
+}
+
+const creditos = () => numero({ entero: true, min: 1 });
+
+export const esquemaPlan: EsquemaObjeto<Plan> = objeto({
+  nombre: texto({ min: 1, max: 100 }),
+  tipo: enumerado(TIPOS_PLAN),
+  creditos: opcional(nulable(creditos())),
+  vigenciaDias: opcional(nulable(numero({ entero: true, min: 1 }))),
+  precio: opcional(numero({ min: 0 })),
+  actividadIds: opcional(lista(texto({ min: 1 }))),
+  activo: opcional(booleano()),
+},
+(plan) => plan.tipo !== "ilimitado" && plan.creditos == null ?
+  "El plan debe tener una cantidad de créditos positiva." : null,
+(plan) => plan.tipo === "pack" && plan.vigenciaDias == null ? "Los packs deben tener días de vigencia." : null);
+
+export const esquemaMembresia: EsquemaObjeto<Membresia> = objeto({
+  usuarioId: texto({ min: 1 }),
+  planId: texto({ min: 1 }),
+  nombrePlan: texto(),
+  tipo: enumerado(TIPOS_PLAN),
+  precio: numero({ min: 0 }),
+  creditos: nulable(creditos()),
+  actividadIds: lista(texto({ min: 1 })),
+  fechaInicio: marcaTiempo(),
+  fechaVencimiento: nulable(marcaTiempo()),
+  creditosUsados: numero({ entero: true, min: 0 }),
+  usosPorPeriodo: mapa(numero({ entero: true, min: 0 })),
+  estado: enumerado(ESTADOS_MEMBRESIA),
+  asignadoPor: opcional(texto({ min: 1 })),
+  fechaCreacion: opcional(marcaTiempo()),
+},
+(membresia) => membresia.tipo !== "ilimitado" && membresia.creditos === null ?
+  "Solo las membresías ilimitadas pueden no tener 'creditos'." : null);
@@ -0,0 +1,71 @@
+import { EsquemaObjeto, MarcaTiempo, enumerado, marcaTiempo, nulable, numero, objeto, opcional, texto } from "./validacion";
+
+export const MAX_LARGO_NOTA = 20000;
+
+export const ACCIONES_ACCESO = ["lectura", "escritura", "historial"] as const;
+export type AccionAcceso = typeof ACCIONES_ACCESO[number];
+
+/**
+ * Documento notasClinicas/{turnoId}: una nota por turno. Solo lo leen y escriben las funciones;
+ * cada versión guardada queda en la subcolección `versiones` y cada acceso en `accesosClinicos`.
+ */
+export interface NotaClinica {
+  turnoId: string;
+  pacienteId: string;
+  profesionalId: string;
+  terapiaId: string;
+  fechaTurno: MarcaTiempo;
+  contenido: string;
+  version: number;
+  fechaCreacion: MarcaTiempo;
+  fechaActualizacion: MarcaTiempo;
+  bloqueadaDesde: MarcaTiempo; // Desde acá la nota ya no se puede modificar
+}
+
+// Documento notasClinicas/{turnoId}/versiones/{version}: contenido de cada guardado (no se modifica)
+export interface VersionNota {
+  version: number;
+  contenido: string;
+  autorId: string;
+  fecha: MarcaTiempo;
+}
+
+// Documento accesosClinicos/{accesoId}: auditoría de quién leyó o escribió historias clínicas
+export interface AccesoClinico {
+  usuarioId: string;
+  accion: AccionAcceso;
+  pacienteId: string;
+  turnoId: string | null; // null en la consulta del historial completo
+  fecha?: MarcaTiempo;
+}
+
+const contenido = () => texto({ min: 1, max: MAX_LARGO_NOTA });
+const version = () => numero({ entero: true, min: 1 });
+
+export const esquemaNotaClinica: EsquemaObjeto<NotaClinica> = objeto({
+  turnoId: texto({ min: 1 }),
+  pacienteId: texto({ min: 1 }),
+  profesionalId: texto({ min: 1 }),
+  terapiaId: texto({ min: 1 }),
+  fechaTurno: marcaTiempo(),
+  contenido: contenido(),
+  version: version(),
+  fechaCreacion: marcaTiempo(),
+  fechaActualizacion: marcaTiempo(),
+  bloqueadaDesde: marcaTiempo(),
+});
+
+export const esquemaVersionNota: EsquemaObjeto<VersionNota> = objeto({
+  version: version(),
+  contenido: contenido(),
+  autorId: texto({ min: 1 }),
+  fecha: marcaTiempo(),
+});
+
+export const esquemaAccesoClinico: EsquemaObjeto<AccesoClinico> = objeto({
+  usuarioId: texto({ min: 1 }),
+  accion: enumerado(ACCIONES_ACCESO),
+  pacienteId: texto({ min: 1 }),
+  turnoId: nulable(texto({ min: 1 })),
+  fecha: opcional(marcaTiempo()),
+});
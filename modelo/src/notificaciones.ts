@@ -0,0 +1,71 @@
+import { EsquemaObjeto, MarcaTiempo, enumerado, marcaTiempo, numero, objeto, opcional, texto } from "./validacion";
+
+// Eventos del outbox; cada uno tiene su plantilla en las funciones (plantillas.ts)
+export const EVENTOS_NOTIFICACION = [
+  "reserva_confirmada",
+  "turno_confirmado",
+  "reserva_cancelada",
+  "turno_cancelado",
+  "reserva_cancelada_admin",
+  "turno_cancelado_admin",
+  "reserva_restaurada",
+  "turno_restaurado",
+  "lugar_ofrecido",
+] as const;
+export type EventoNotificacion = typeof EVENTOS_NOTIFICACION[number];
+
+// pendiente y reintentar esperan envío; enviada, omitida (preferencias o sin email) y fallida son finales
+export const ESTADOS_NOTIFICACION = ["pendiente", "reintentar", "enviada", "omitida", "fallida"] as const;
+export type EstadoNotificacion = typeof ESTADOS_NOTIFICACION[number];
+
+/**
+ * Datos disponibles para las plantillas. Las fechas llegan ya formateadas para mostrar.
+ */
+export interface DatosNotificacion {
+  nombre?: string; // Nombre del destinatario (se completa al procesar)
+  actividad?: string;
+  terapia?: string;
+  fecha?: string;
+  motivo?: string;
+  vencimiento?: string;
+  penalizacion?: number;
+}
+
+// Documento notificaciones/{notificacionId}: mensaje encolado (lo envía procesarNotificacion)
+export interface Notificacion {
+  usuarioId: string;
+  evento: EventoNotificacion;
+  datos: DatosNotificacion;
+  canal: string; // Nombre del canal de entrega (ej. "email")
+  estado: EstadoNotificacion;
+  intentos: number;
+  fechaCreacion?: MarcaTiempo;
+  destinatario?: string;
+  motivo?: string; // Por qué se omitió
+  ultimoError?: string;
+  proximoIntento?: MarcaTiempo;
+  fechaEnvio?: MarcaTiempo;
+}
+
+export const esquemaNotificacion: EsquemaObjeto<Notificacion> = objeto({
+  usuarioId: texto({ min: 1 }),
+  evento: enumerado(EVENTOS_NOTIFICACION),
+  datos: objeto({
+    nombre: opcional(texto()),
+    actividad: opcional(texto()),
+    terapia: opcional(texto()),
+    fecha: opcional(texto()),
+    motivo: opcional(texto()),
+    vencimiento: opcional(texto()),
+    penalizacion: opcional(numero({ min: 0 })),
+  }),
+  canal: texto({ min: 1 }),
+  estado: enumerado(ESTADOS_NOTIFICACION),
+  intentos: numero({ entero: true, min: 0 }),
+  fechaCreacion: opcional(marcaTiempo()),
+  destinatario: opcional(texto()),
+  motivo: opcional(texto()),
+  ultimoError: opcional(texto()),
+  proximoIntento: opcional(marcaTiempo()),
+  fechaEnvio: opcional(marcaTiempo()),
+});
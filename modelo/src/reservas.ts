@@ -0,0 +1,84 @@
+import { EsquemaObjeto, MarcaTiempo, enumerado, marcaTiempo, numero, objeto, opcional, texto } from "./validacion";
+
+export const ESTADOS_RESERVA = [
+  "pendiente",
+  "confirmada",
+  "fallida",
+  "cancelada_por_socio",
+  "cancelada_tarde",
+  "cancelado_por_admin",
+  "rechazada", // Lugar ofrecido desde la lista de espera que el socio rechazó
+  "expirada", // Lugar ofrecido que no se aceptó a tiempo
+] as const;
+export type EstadoReserva = typeof ESTADOS_RESERVA[number];
+
+export const ESTADOS_TURNO = [
+  "pendiente",
+  "confirmado",
+  "fallida",
+  "cancelado_por_socio",
+  "cancelado_tarde",
+  "cancelado_por_admin",
+] as const;
+export type EstadoTurno = typeof ESTADOS_TURNO[number];
+
+// Documento reservas/{reservaId}: lugar en una clase de una actividad grupal.
+// Además de estos campos, las funciones agregan los de membresía, cancelación, asistencia y facturación.
+export interface Reserva {
+  usuarioId: string;
+  actividadId: string;
+  claseId?: string;
+  fechaActividad: MarcaTiempo; // Inicio de la clase
+  cupoTomado?: number; // Por defecto 1
+  estado: EstadoReserva;
+  origen?: string; // "api", "lista_espera", ... (sin origen: la creó el cliente y la valida reservarActividad)
+  reservadoPor?: string; // UID de quien reservó (el tutor, si es una persona a cargo)
+  listaEsperaId?: string; // Entrada de listaEspera que generó la oferta (origen "lista_espera")
+  motivoFalla?: string;
+  fechaCreacion?: MarcaTiempo;
+}
+
+// Documento turnos/{turnoId}: sesión individual de una terapia
+export interface Turno {
+  usuarioId: string;
+  terapiaId: string;
+  profesionalId?: string; // Desnormalizados de la terapia para la consulta de solapamientos
+  fechaTurno: MarcaTiempo; // Inicio del turno
+  fechaFin?: MarcaTiempo;
+  duracionMinutos?: number;
+  estado: EstadoTurno;
+  origen?: string; // "api" (sin origen: lo creó el cliente y lo valida reservarTurno)
+  reservadoPor?: string;
+  motivoFalla?: string;
+  fechaCreacion?: MarcaTiempo;
+}
+
+const id = () => texto({ min: 1 });
+
+export const esquemaReserva: EsquemaObjeto<Reserva> = objeto({
+  usuarioId: id(),
+  actividadId: id(),
+  claseId: opcional(id()),
+  fechaActividad: marcaTiempo(),
+  cupoTomado: opcional(numero({ entero: true, min: 1 })),
+  estado: enumerado(ESTADOS_RESERVA),
+  origen: opcional(texto()),
+  reservadoPor: opcional(id()),
+  listaEsperaId: opcional(id()),
+  motivoFalla: opcional(texto()),
+  fechaCreacion: opcional(marcaTiempo()),
+});
+
+export const esquemaTurno: EsquemaObjeto<Turno> = objeto({
+  usuarioId: id(),
+  terapiaId: id(),
+  profesionalId: opcional(id()),
+  fechaTurno: marcaTiempo(),
+  fechaFin: opcional(marcaTiempo()),
+  duracionMinutos: opcional(numero({ entero: true, min: 1 })),
+  estado: enumerado(ESTADOS_TURNO),
+  origen: opcional(texto()),
+  reservadoPor: opcional(id()),
+  motivoFalla: opcional(texto()),
+  fechaCreacion: opcional(marcaTiempo()),
+});
@@ -0,0 +1,42 @@
+import { EsquemaObjeto, MarcaTiempo, booleano, enumerado, marcaTiempo, milisegundos, nulable, objeto, opcional, texto } from "./validacion";
+
+// general = todo el gimnasio; actividad = una actividad o terapia (actividadId); profesor = un profesional
+export const TIPOS_SUSPENSION = ["general", "actividad", "profesor"] as const;
+export type TipoSuspension = typeof TIPOS_SUSPENSION[number];
+
+// Documento suspensiones/{suspensionId} (lo procesa la función procesarSuspension)
+export interface Suspension {
+  tipo: TipoSuspension;
+  actividadId?: string | null; // ID de la actividad o terapia (tipo "actividad")
+  profesorId?: string | null; // UID del profesional (tipo "profesor")
+  fechaInicio: MarcaTiempo;
+  fechaFin: MarcaTiempo;
+  motivo?: string;
+  afectaReservasExistentes: boolean; // true = cancela las reservas y turnos confirmados del rango
+  archivada?: boolean;
+  fechaCreacion?: MarcaTiempo;
+  fechaActualizacion?: MarcaTiempo;
+}
+
+// Las mismas condiciones que suspensionValida en las reglas de Firestore
+export const esquemaSuspension: EsquemaObjeto<Suspension> = objeto({
+  tipo: enumerado(TIPOS_SUSPENSION),
+  actividadId: opcional(nulable(texto({ min: 1 }))),
+  profesorId: opcional(nulable(texto({ min: 1 }))),
+  fechaInicio: marcaTiempo(),
+  fechaFin: marcaTiempo(),
+  motivo: opcional(texto()),
+  afectaReservasExistentes: booleano(),
+  archivada: opcional(booleano()),
+},
+(suspension) => suspension.tipo === "actividad" && !suspension.actividadId ?
+  "Una suspensión de tipo actividad debe indicar 'actividadId'." : null,
+(suspension) => suspension.tipo === "profesor" && !suspension.profesorId ?
+  "Una suspensión de tipo profesor debe indicar 'profesorId'." : null,
+(suspension) => {
+  // Los valores del servidor (serverTimestamp) todavía no tienen fecha para comparar
+  const inicio = milisegundos(suspension.fechaInicio);
+  const fin = milisegundos(suspension.fechaFin);
+  if (inicio === null || fin === null) return null;
+  return fin < inicio ? "'fechaFin' no puede ser anterior a 'fechaInicio'." : null;
+});
@@ -0,0 +1,45 @@
+import { EsquemaObjeto, MarcaTiempo, booleano, enumerado, lista, marcaTiempo, nulable, objeto, opcional, texto } from "./validacion";
+
+export const TIPOS_USUARIO = ["socio", "profesional", "admin"] as const;
+export type TipoUsuario = typeof TIPOS_USUARIO[number];
+
+// DNI argentino normalizado (solo dígitos); completarPerfil además verifica que no se repita
+export const FORMATO_DNI = /^\d{7,8}$/;
+
+// Documento usuarios/{uid} tal como lo guardan el registro, completarPerfil y las funciones
+export interface UsuarioDoc {
+  uid: string;
+  nombre: string;
+  email: string;
+  telefono: string;
+  dni: string; // Vacío hasta completar el perfil
+  fechaNacimiento: MarcaTiempo | null;
+  tipo: TipoUsuario;
+  perfilCompleto?: boolean;
+  contactoEmergencia?: { nombre: string; telefono: string };
+  responsableDePago: string | null;
+  usuariosACargo: string[];
+  esDependiente?: boolean;
+  tutorId?: string; // Solo personas a cargo
+  supervisorClinico?: boolean; // Profesional que puede leer las notas clínicas de todos
+  preferenciasNotificacion?: { email?: boolean; eventos?: Record<string, boolean> };
+  metadata?: { fechaCreacion?: MarcaTiempo; ultimoAcceso?: MarcaTiempo; dispositivo?: string };
+}
+
+export const esquemaUsuario: EsquemaObjeto<UsuarioDoc> = objeto({
+  uid: texto({ min: 1 }),
+  nombre: texto({ max: 100 }),
+  email: texto(),
+  telefono: texto(),
+  dni: texto(),
+  fechaNacimiento: nulable(marcaTiempo()),
+  tipo: enumerado(TIPOS_USUARIO),
+  perfilCompleto: opcional(booleano()),
+  contactoEmergencia: opcional(objeto({ nombre: texto({ min: 1, max: 100 }), telefono: texto({ min: 1 }) })),
+  responsableDePago: nulable(texto()),
+  usuariosACargo: lista(texto({ min: 1 })),
+  esDependiente: opcional(booleano()),
+  tutorId: opcional(texto({ min: 1 })),
+  supervisorClinico: opcional(booleano()),
+},
+(usuario) => usuario.dni === "" || FORMATO_DNI.test(usuario.dni) ? null : "'dni' debe tener 7 u 8 dígitos, sin puntos.");
@@ -0,0 +1,244 @@
+// Validación en tiempo de ejecución de los documentos de Firestore. No depende de ningún SDK:
+// la usan el frontend (SDK web) y las funciones (Admin SDK) a través de sus convertidores.
+
+/**
+ * Timestamp de Firestore de cualquiera de los dos SDK (o un Date antes de guardarlo).
+ */
+export interface MarcaTiempo {
+  toDate(): Date;
+  toMillis(): number;
+}
+
+/**
+ * Un documento (o campo) no cumple su esquema. `errores` tiene un mensaje por problema,
+ * con la ruta del campo (ej. "'horarios[0].horaInicio' debe tener formato HH:mm.").
+ */
+export class ErrorValidacion extends Error {
+  readonly coleccion: string;
+  readonly errores: string[];
+
+  constructor(coleccion: string, errores: string[]) {
+    super(`Datos inválidos en ${coleccion}: ${errores.join(" ")}`);
+    this.name = "ErrorValidacion";
+    this.coleccion = coleccion;
+    this.errores = errores;
+  }
+}
+
+export interface Esquema<T> {
+  /**
+   * Devuelve el valor tipado. Si no es válido, agrega los problemas a `errores`
+   * (el valor devuelto entonces no debe usarse).
+   */
+  validar(valor: unknown, ruta: string, errores: string[]): T;
+}
+
+// Esquema de un objeto: se guardan los campos para poder validar actualizaciones parciales
+export interface EsquemaObjeto<T> extends Esquema<T> {
+  campos: Record<string, Esquema<unknown>>;
+}
+
+export type TipoDe<E> = E extends Esquema<infer T> ? T : never;
+
+const esObjetoPlano = (valor: unknown): valor is Record<string, unknown> =>
+  typeof valor === "object" && valor !== null && !Array.isArray(valor);
+
+const campo = (ruta: string) => `'${ruta || "documento"}'`;
+
+/**
+ * Texto. `formato` y `descripcion` se usan juntos: "debe tener formato <descripcion>".
+ */
+export const texto = (opciones: { min?: number; max?: number; formato?: RegExp; descripcion?: string } = {}): Esquema<string> => ({
+  validar(valor, ruta, errores) {
+    if (typeof valor !== "string") {
+      errores.push(`${campo(ruta)} debe ser un texto.`);
+    } else if (opciones.min && valor.length < opciones.min) {
+      errores.push(opciones.min === 1 ? `${campo(ruta)} no puede estar vacío.` : `${campo(ruta)} debe tener al menos ${opciones.min} caracteres.`);
+    } else if (opciones.max != null && valor.length > opciones.max) {
+      errores.push(`${campo(ruta)} debe tener como máximo ${opciones.max} caracteres.`);
+    } else if (opciones.formato && !opciones.formato.test(valor)) {
+      errores.push(`${campo(ruta)} debe tener formato ${opciones.descripcion || opciones.formato.source}.`);
+    }
+    return valor as string;
+  },
+});
+
+/**
+ * Número finito, opcionalmente entero y acotado.
+ */
+export const numero = (opciones: { entero?: boolean; min?: number; max?: number } = {}): Esquema<number> => ({
+  validar(valor, ruta, errores) {
+    const tipo = opciones.entero ? "un entero" : "un número";
+    if (typeof valor !== "number" || !Number.isFinite(valor) || (opciones.entero && !Number.isInteger(valor))) {
+      errores.push(`${campo(ruta)} debe ser ${tipo}.`);
+    } else if (opciones.min != null && valor < opciones.min) {
+      errores.push(`${campo(ruta)} debe ser ${tipo} mayor o igual a ${opciones.min}.`);
+    } else if (opciones.max != null && valor > opciones.max) {
+      errores.push(`${campo(ruta)} debe ser ${tipo} menor o igual a ${opciones.max}.`);
+    }
+    return valor as number;
+  },
+});
+
+export const booleano = (): Esquema<boolean> => ({
+  validar(valor, ruta, errores) {
+    if (typeof valor !== "boolean") {
+      errores.push(`${campo(ruta)} debe ser true o false.`);
+    }
+    return valor as boolean;
+  },
+});
+
+/**
+ * Fecha guardada como Timestamp. También acepta un Date y los valores que completa el servidor
+ * (serverTimestamp()), que en ambos SDK son objetos con isEqual.
+ */
+export const marcaTiempo = (): Esquema<MarcaTiempo> => ({
+  validar(valor, ruta, errores) {
+    const esValorFirestore = typeof valor === "object" && valor !== null &&
+      typeof (valor as { isEqual?: unknown }).isEqual === "function";
+    if (!(valor instanceof Date && !isNaN(valor.getTime())) && !esValorFirestore) {
+      errores.push(`${campo(ruta)} debe ser una fecha (Timestamp).`);
+    }
+    return valor as MarcaTiempo;
+  },
+});
+
+/**
+ * Milisegundos de un valor validado con marcaTiempo(), o null si todavía no tiene fecha (serverTimestamp()).
+ */
+export const milisegundos = (valor: MarcaTiempo | Date): number | null => {
+  if (valor instanceof Date) return valor.getTime();
+  return typeof valor.toMillis === "function" ? valor.toMillis() : null;
+};
+
+/**
+ * Uno de los valores indicados.
+ */
+export const enumerado = <V extends string>(valores: readonly V[]): Esquema<V> => ({
+  validar(valor, ruta, errores) {
+    if (!valores.includes(valor as V)) {
+      errores.push(`${campo(ruta)} debe ser uno de: ${valores.join(", ")}.`);
+    }
+    return valor as V;
+  },
+});
+
+export const lista = <T>(elemento: Esquema<T>, opciones: { min?: number } = {}): Esquema<T[]> => ({
+  validar(valor, ruta, errores) {
+    if (!Array.isArray(valor)) {
+      errores.push(`${campo(ruta)} debe ser una lista.`);
+      return valor as T[];
+    }
+    if (opciones.min && valor.length < opciones.min) {
+      errores.push(`${campo(ruta)} debe tener al menos ${opciones.min} elemento(s).`);
+    }
+    return valor.map((item, i) => elemento.validar(item, `${ruta}[${i}]`, errores));
+  },
+});
+
+/**
+ * Objeto con claves libres (ej. usosPorPeriodo por "YYYY-MM") y valores del mismo esquema.
+ */
+export const mapa = <T>(valor: Esquema<T>): Esquema<Record<string, T>> => ({
+  validar(datos, ruta, errores) {
+    if (!esObjetoPlano(datos)) {
+      errores.push(`${campo(ruta)} debe ser un objeto.`);
+      return datos as Record<string, T>;
+    }
+    for (const [clave, item] of Object.entries(datos)) {
+      valor.validar(item, ruta ? `${ruta}.${clave}` : clave, errores);
+    }
+    return datos as Record<string, T>;
+  },
+});
+
+/**
+ * El campo puede faltar (undefined).
+ */
+export const opcional = <T>(esquema: Esquema<T>): Esquema<T | undefined> => ({
+  validar: (valor, ruta, errores) => (valor === undefined ? undefined : esquema.validar(valor, ruta, errores)),
+});
+
+/**
+ * El campo puede ser null.
+ */
+export const nulable = <T>(esquema: Esquema<T>): Esquema<T | null> => ({
+  validar: (valor, ruta, errores) => (valor === null ? null : esquema.validar(valor, ruta, errores)),
+});
+
+/**
+ * Objeto con los campos indicados. Los campos que no declara el esquema se conservan sin validar
+ * (ej. los que agregan otras funciones: cargos, asistencia, ...).
+ * @param reglas Validaciones entre campos; se evalúan solo si cada campo es válido por separado.
+ */
+export const objeto = <C extends Record<string, Esquema<unknown>>>(
+  campos: C,
+  ...reglas: ((valor: { [K in keyof C]: TipoDe<C[K]> }) => string | null)[]
+): EsquemaObjeto<{ [K in keyof C]: TipoDe<C[K]> }> => ({
+  campos,
+  validar(valor, ruta, errores) {
+    if (!esObjetoPlano(valor)) {
+      errores.push(`${campo(ruta)} debe ser un objeto.`);
+      return valor as { [K in keyof C]: TipoDe<C[K]> };
+    }
+    const cantidad = errores.length;
+    for (const [nombre, esquema] of Object.entries(campos)) {
+      esquema.validar(valor[nombre], ruta ? `${ruta}.${nombre}` : nombre, errores);
+    }
+    const resultado = valor as { [K in keyof C]: TipoDe<C[K]> };
+    if (errores.length === cantidad) {
+      for (const regla of reglas) {
+        const error = regla(resultado);
+        if (error) errores.push(error);
+      }
+    }
+    return resultado;
+  },
+});
+
+/**
+ * Devuelve los problemas de un valor (vacío si es válido), sin lanzar.
+ * @param ruta Prefijo de los campos en los mensajes (ej. "horarios[0]").
+ */
+export const erroresDe = <T>(esquema: Esquema<T>, valor: unknown, ruta = ""): string[] => {
+  const errores: string[] = [];
+  esquema.validar(valor, ruta, errores);
+  return errores;
+};
+
+/**
+ * Valida un documento completo (al crearlo o al leerlo). Lanza ErrorValidacion.
+ * @param esquema Esquema de la colección.
+ * @param datos Datos del documento.
+ * @param coleccion Colección (o ruta del documento) para el mensaje de error.
+ */
+export const validarDocumento = <T>(esquema: Esquema<T>, datos: unknown, coleccion: string): T => {
+  const errores: string[] = [];
+  const valor = esquema.validar(datos, "", errores);
+  if (errores.length > 0) {
+    throw new ErrorValidacion(coleccion, errores);
+  }
+  return valor;
+};
+
+/**
+ * Valida solo los campos presentes en una actualización parcial (update o set con merge).
+ * Las claves con puntos (ej. "metadata.ultimoAcceso") y las que el esquema no declara no se validan,
+ * y tampoco las reglas entre campos. Lanza ErrorValidacion.
+ */
+export const validarCambios = <T>(esquema: EsquemaObjeto<T>, cambios: Record<string, unknown>, coleccion: string): Partial<T> => {
+  const errores: string[] = [];
+  for (const [nombre, valor] of Object.entries(cambios)) {
+    // Los valores especiales (increment, delete, ...) solo los puede interpretar Firestore
+    const esValorFirestore = typeof valor === "object" && valor !== null && !(valor instanceof Date) &&
+      !Array.isArray(valor) && typeof (valor as { isEqual?: unknown }).isEqual === "function";
+    if (esquema.campos[nombre] && !esValorFirestore) {
+      esquema.campos[nombre].validar(valor, nombre, errores);
+    }
+  }
+  if (errores.length > 0) {
+    throw new ErrorValidacion(coleccion, errores);
+  }
+  return cambios as Partial<T>;
+};